@@ -2,6 +2,7 @@ import type { IEntitySchema, ISchemaWarning } from './schema';
 import type { IQueryResult } from './query';
 import type { IUserFriendlyError } from './errors';
 import type { IDataTypeHandler } from './data-types';
+import type { IActiveRecordProvider } from './providers';
 
 /**
  * Interface for managing a single entity namespace
@@ -51,21 +52,66 @@ export interface IEntityNamespace {
    */
   getSchemas(): Record<string, IEntitySchema>;
 
+  /**
+   * Set the data provider used by every entity in this namespace
+   */
+  setProvider(provider: IActiveRecordProvider): void;
+
+  /**
+   * Get the data provider used by this namespace
+   */
+  getProvider(): IActiveRecordProvider | null;
+
+  /**
+   * Register lifecycle hooks for an entity; hooks run in registration order
+   * @returns false when the entity is not registered in this namespace
+   */
+  registerHooks<T = Record<string, unknown>>(entityName: string, hooks: IEntityHooks<T>): boolean;
+
   /**
    * Validate that all entities in this namespace are compatible
    */
   validateNamespace(): IValidationResult;
 }
 
+/**
+ * Context passed to every lifecycle hook
+ */
+export interface IHookContext {
+  /** Entity the operation runs against */
+  entityName: string;
+  /** Namespace of the entity, when it belongs to one */
+  namespace?: string;
+  /** Operation being performed; 'upsert' when the record may turn out to exist already */
+  operation: 'create' | 'update' | 'delete' | 'find' | 'upsert';
+  /** Id of the record for update and delete */
+  id?: unknown;
+}
+
+/**
+ * Lifecycle hooks for an entity.
+ * Before hooks may return replacement data; throwing an IUserFriendlyError cancels the operation.
+ */
+export interface IEntityHooks<T = Record<string, unknown>> {
+  beforeCreate?: (data: Partial<T>, context: IHookContext) => Partial<T> | void | Promise<Partial<T> | void>;
+  afterCreate?: (record: T, context: IHookContext) => void | Promise<void>;
+  beforeUpdate?: (data: Partial<T>, context: IHookContext) => Partial<T> | void | Promise<Partial<T> | void>;
+  afterUpdate?: (record: T, context: IHookContext) => void | Promise<void>;
+  beforeDelete?: (context: IHookContext) => void | Promise<void>;
+  afterDelete?: (context: IHookContext) => void | Promise<void>;
+  /** May return replacement records */
+  afterFind?: (records: T[], context: IHookContext) => T[] | void | Promise<T[] | void>;
+}
+
 /**
  * Interface for managing multiple entity namespaces
  * Provides complete isolation between different OData endpoints
  */
 export interface IEntityNamespaceManager {
   /**
-   * Create a new entity namespace
+   * Create a new entity namespace, optionally bound to a data provider
    */
-  createNamespace(name: string): IEntityNamespace;
+  createNamespace(name: string, provider?: IActiveRecordProvider): IEntityNamespace;
 
   /**
    * Get an existing namespace by name
@@ -322,14 +368,34 @@ export interface ITransactionOperation {
   entity: string;
 
   /**
-   * The data for the operation
+   * The data for the operation; values may reference records created earlier in the transaction
    */
   data?: Record<string, unknown>;
 
   /**
-   * The ID for update/delete operations
+   * The ID for update/delete operations, or a reference to a record created earlier in the transaction
    */
   id?: any;
+
+  /**
+   * Name under which later operations can reference the record a create operation adds
+   */
+  ref?: string;
+}
+
+/**
+ * A reference to a record created earlier in the same transaction
+ */
+export interface ITransactionReference {
+  /**
+   * The ref name of the create operation
+   */
+  $ref: string;
+
+  /**
+   * Field of the created record to use instead of its id
+   */
+  field?: string;
 }
 
 /**
@@ -391,6 +457,11 @@ export interface ITransactionOperationResult<T = Record<string, unknown>> {
    */
   data?: T;
 
+  /**
+   * The ID of the record the operation wrote
+   */
+  id?: any;
+
   /**
    * Any errors that occurred for this operation
    */
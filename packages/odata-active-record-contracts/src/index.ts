@@ -24,9 +24,14 @@ export type {
 // Schema Interfaces
 export type {
   IFieldDefinition,
+  IDefaultGenerator,
   IValidationRule,
+  IEntityValidationRule,
+  IQueryScope,
   IEntitySchema,
   IRelationDefinition,
+  IRelationThrough,
+  IRelationCascadeAction,
   IIndexDefinition,
   IComputedFieldDefinition,
   ISchemaValidator,
@@ -38,10 +43,17 @@ export type {
 // Query Interfaces
 export type {
   IQueryFilter,
+  IQueryLambda,
   IQuerySelect,
   IQueryOrder,
   IQueryPagination,
   IQueryExpand,
+  IQueryApply,
+  IQueryCompute,
+  IExpressionNode,
+  IExpressionBinaryOperator,
+  IAggregateExpression,
+  IAggregateFunction,
   IQueryBuilder,
   IQuery,
   IQueryExecutor,
@@ -62,9 +74,12 @@ export type {
   ICrossEntityPagination,
   ICrossEntityResult,
   ITransactionOperation,
+  ITransactionReference,
   ITransactionResult,
   ITransactionOperationResult,
-  INamespaceStats
+  INamespaceStats,
+  IHookContext,
+  IEntityHooks
 } from './entity-namespace';
 
 // Provider Interfaces
@@ -72,6 +87,7 @@ export type {
   IDataProvider,
   IODataProvider,
   ICrudProvider,
+  IActiveRecordProvider,
   IMongoDBProvider,
   ISQLiteProvider,
   IHTTPODataProvider,
@@ -96,9 +112,33 @@ export type {
   IHTTPResponse,
   IServiceCapabilities,
   IMongoCollectionStats,
-  ISQLiteDatabaseStats
+  ISQLiteDatabaseStats,
+  IWriteOptions,
+  ICreateOptions,
+  ISequenceField,
+  IExplainOptions,
+  IExplainResult,
+  ILinkChange,
+  ILinkResult,
+  IBulkResult,
+  IBulkRowError,
+  IBulkWriteOptions,
+  IUpsertOptions,
+  IUpsertResult,
+  IChangesetRequest,
+  IChangesetResult,
+  INativeQuery,
+  IQueryPlanStep
 } from './providers';
 
+// Model Interfaces
+export type {
+  IFieldChange,
+  IModelChanges,
+  IModel,
+  IModelInstance
+} from './model';
+
 // Astro Integration Interfaces
 export type {
   IAstroConfig,
@@ -0,0 +1,68 @@
+import type { IReadResult, IUpdateResult, IDeleteResult, ILinkResult } from './providers';
+
+/**
+ * Field change interface - single responsibility for a tracked field change
+ */
+export interface IFieldChange<V = unknown> {
+  /** Value when the model was loaded or last saved */
+  from: V;
+  /** Current value */
+  to: V;
+}
+
+/**
+ * Changed fields of a model, keyed by field name
+ */
+export type IModelChanges<T = Record<string, unknown>> = {
+  [K in keyof T]?: IFieldChange<T[K]>;
+};
+
+/**
+ * Model interface - single responsibility for persisting a loaded record
+ */
+export interface IModel<T = Record<string, unknown>> {
+  /**
+   * Whether any schema field (or the given field) changed since load or the last save
+   */
+  isDirty(field?: keyof T): boolean;
+
+  /**
+   * The changed schema fields with their previous and current values
+   */
+  changes(): IModelChanges<T>;
+
+  /**
+   * Persist the changed fields with a partial update
+   */
+  save(): Promise<IUpdateResult<T>>;
+
+  /**
+   * Refresh the fields from the data source and discard unsaved changes
+   */
+  reload(): Promise<IReadResult<T>>;
+
+  /**
+   * Delete the record from the data source
+   */
+  destroy(): Promise<IDeleteResult>;
+
+  /**
+   * Link related records (by their targetField values) through a many-to-many relation
+   */
+  attach(relation: string, targets: unknown[]): Promise<ILinkResult>;
+
+  /**
+   * Unlink related records of a many-to-many relation; without targets every link is removed
+   */
+  detach(relation: string, targets?: unknown[]): Promise<ILinkResult>;
+
+  /**
+   * Link exactly the given related records, removing any other links of the relation
+   */
+  sync(relation: string, targets: unknown[]): Promise<ILinkResult>;
+}
+
+/**
+ * A record returned from a query: the entity fields plus the model methods
+ */
+export type IModelInstance<T = Record<string, unknown>> = T & IModel<T>;
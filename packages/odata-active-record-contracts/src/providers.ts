@@ -1,4 +1,4 @@
-import type { IEntitySchema, IIndexDefinition } from './schema';
+import type { IEntitySchema, IIndexDefinition, IRelationThrough } from './schema';
 import type { IQuery, IQueryResult } from './query';
 import type { IUserFriendlyError } from './errors';
 
@@ -49,6 +49,15 @@ export interface IODataProvider extends IDataProvider {
     query: IQuery
   ): Promise<IQueryResult<T>>;
 
+  /**
+   * Stream the rows of an OData query one at a time, reading the data source in bounded chunks.
+   * Rows are only fetched as the consumer asks for them; breaking out early releases the underlying cursor.
+   */
+  streamQuery?<T = Record<string, unknown>>(
+    entityName: string,
+    query: IQuery
+  ): AsyncIterable<T>;
+
   /**
    * Get metadata for an entity
    */
@@ -63,6 +72,15 @@ export interface IODataProvider extends IDataProvider {
    * Get OData metadata document
    */
   getMetadataDocument(): Promise<IMetadataDocumentResult>;
+
+  /**
+   * Translate an OData query into the provider's native query without running it
+   */
+  explainQuery?(
+    entityName: string,
+    query: IQuery,
+    options?: IExplainOptions
+  ): Promise<IExplainResult>;
 }
 
 /**
@@ -70,11 +88,12 @@ export interface IODataProvider extends IDataProvider {
  */
 export interface ICrudProvider extends IDataProvider {
   /**
-   * Create a new entity
+   * Create a new entity; fields listed in options.sequences that the data leaves out are numbered by the data source
    */
   create<T = Record<string, unknown>>(
     entityName: string,
-    data: Partial<T>
+    data: Partial<T>,
+    options?: ICreateOptions
   ): Promise<ICreateResult<T>>;
 
   /**
@@ -86,25 +105,269 @@ export interface ICrudProvider extends IDataProvider {
   ): Promise<IReadResult<T>>;
 
   /**
-   * Update an entity
+   * Update an entity; write conditions that don't match fail with CONCURRENCY_CONFLICT
    */
   update<T = Record<string, unknown>>(
     entityName: string,
     id: any,
-    data: Partial<T>
+    data: Partial<T>,
+    options?: IWriteOptions
   ): Promise<IUpdateResult<T>>;
 
   /**
-   * Delete an entity
+   * Delete an entity; write conditions that don't match fail with CONCURRENCY_CONFLICT
    */
-  delete(entityName: string, id: any): Promise<IDeleteResult>;
+  delete(entityName: string, id: any, options?: IWriteOptions): Promise<IDeleteResult>;
 
   /**
    * Check if an entity exists
    */
   exists(entityName: string, id: any): Promise<boolean>;
+
+  /**
+   * Attach, detach or replace (sync) the links of a many-to-many relation for one source record
+   */
+  updateLinks?(entityName: string, change: ILinkChange): Promise<ILinkResult>;
+
+  /**
+   * Create many entities in one batch; failures are reported per row by their position
+   */
+  createMany?<T = Record<string, unknown>>(
+    entityName: string,
+    rows: Partial<T>[],
+    options?: ICreateOptions
+  ): Promise<IBulkResult<T>>;
+
+  /**
+   * Apply a patch to every entity matching the query's filter
+   */
+  updateWhere?<T = Record<string, unknown>>(
+    entityName: string,
+    query: IQuery,
+    patch: Partial<T>,
+    options?: IBulkWriteOptions
+  ): Promise<IBulkResult<T>>;
+
+  /**
+   * Delete every entity matching the query's filter
+   */
+  deleteWhere?(entityName: string, query: IQuery, options?: IBulkWriteOptions): Promise<IBulkResult>;
+
+  /**
+   * Insert an entity, or update the entity whose conflict keys match, in one atomic write
+   */
+  upsert?<T = Record<string, unknown>>(
+    entityName: string,
+    data: Partial<T>,
+    options: IUpsertOptions
+  ): Promise<IUpsertResult<T>>;
+
+  /**
+   * Apply writes as one changeset the service runs atomically, for providers without beginTransaction
+   */
+  executeChangeset?(requests: IChangesetRequest[]): Promise<IChangesetResult>;
+}
+
+/**
+ * One write of a changeset
+ */
+export interface IChangesetRequest {
+  type: 'create' | 'update' | 'delete';
+  entityName: string;
+  /** Key of the entity to update or delete */
+  id?: unknown;
+  /** Position of an earlier create in the changeset whose entity this request updates or deletes, instead of id */
+  entityRef?: number;
+  data?: Record<string, unknown>;
+  /** Navigation properties bound to entities created earlier in the changeset, by the position of their create */
+  bind?: Record<string, number>;
+}
+
+/**
+ * Results of a changeset, one per request in request order
+ */
+export interface IChangesetResult {
+  success: boolean;
+  results: Array<{
+    success: boolean;
+    data?: Record<string, unknown>;
+    id?: unknown;
+    errors?: IUserFriendlyError[];
+  }>;
+  errors?: IUserFriendlyError[];
+}
+
+/**
+ * Options for updateWhere() and deleteWhere()
+ */
+export interface IBulkWriteOptions {
+  /** Primary key field, for providers that write entity by entity (HTTP $batch) */
+  key?: string;
+  /** Numeric fields to add one to on every matching entity, e.g. version tokens */
+  increment?: string[];
+}
+
+/**
+ * An error of one row of a bulk operation
+ */
+export interface IBulkRowError {
+  /** Position of the row in the input (createMany) or in the matched entities */
+  index: number;
+  errors: IUserFriendlyError[];
+}
+
+/**
+ * Interface for bulk operation results
+ */
+export interface IBulkResult<T = Record<string, unknown>> {
+  /**
+   * Whether the operation was successful
+   */
+  success: boolean;
+
+  /**
+   * The created entities, in row order (createMany)
+   */
+  data?: T[];
+
+  /**
+   * The IDs of the created entities, in row order (createMany)
+   */
+  ids?: unknown[];
+
+  /**
+   * Errors of the operation as a whole
+   */
+  errors?: IUserFriendlyError[];
+
+  /**
+   * Errors of single rows
+   */
+  rowErrors?: IBulkRowError[];
+
+  /**
+   * Metadata about the operation
+   */
+  metadata?: {
+    /**
+     * Execution time in milliseconds
+     */
+    executionTime: number;
+
+    /**
+     * Number of created, updated or deleted rows/entities
+     */
+    affectedCount: number;
+  };
+}
+
+/**
+ * A change to the links of a many-to-many relation
+ */
+export interface ILinkChange {
+  /** Relation (navigation property) the links belong to */
+  relation: string;
+  /** Primary key of the source record */
+  id: unknown;
+  /** The source record's sourceField value */
+  sourceValue: unknown;
+  /** Entity the relation points to */
+  targetEntity: string;
+  /** Field of the related records the links refer to */
+  targetField: string;
+  /** Join entity or key array holding the links */
+  through: IRelationThrough;
+  /** attach adds links, detach removes them, sync replaces all links with the given ones */
+  mode: 'attach' | 'detach' | 'sync';
+  /** targetField values of the related records; a detach without them removes every link */
+  targetValues?: unknown[];
+}
+
+/**
+ * Interface for link change results
+ */
+export interface ILinkResult {
+  /**
+   * Whether the operation was successful
+   */
+  success: boolean;
+
+  /**
+   * Any errors that occurred
+   */
+  errors?: IUserFriendlyError[];
+
+  /**
+   * Metadata about the operation
+   */
+  metadata?: {
+    /**
+     * Links added
+     */
+    attached: number;
+
+    /**
+     * Links removed
+     */
+    detached: number;
+
+    /**
+     * Execution time in milliseconds
+     */
+    executionTime: number;
+  };
+}
+
+/**
+ * Conditions for an optimistic-concurrency write
+ */
+export interface IWriteOptions {
+  /** Only write when the concurrency field still holds the expected value */
+  concurrency?: {
+    field: string;
+    expected: unknown;
+  };
+  /** ETag the record was read with, sent as If-Match by HTTP providers */
+  etag?: string;
+}
+
+/**
+ * Options for a create
+ */
+export interface ICreateOptions {
+  /** Fields numbered from a named per-entity sequence (autoIncrement fields and sequence() defaults) */
+  sequences?: ISequenceField[];
+}
+
+/**
+ * Options for an upsert
+ */
+export interface IUpsertOptions extends ICreateOptions {
+  /** Fields identifying the entity; SQLite needs a primary key or unique index on exactly these columns */
+  conflictKeys: string[];
+  /** Fields written when the entity already exists (default: every field of the data except the conflict keys) */
+  update?: string[];
+  /** Numeric fields to add one to when the entity already exists, e.g. version tokens */
+  increment?: string[];
+}
+
+/**
+ * A field numbered from a sequence
+ */
+export interface ISequenceField {
+  /** Field that receives the value */
+  field: string;
+  /** Sequence name, '<entity>.<field>' unless the schema names one */
+  sequence: string;
+  /** First value of the sequence (default 1) */
+  start?: number;
 }
 
+/**
+ * Interface for providers that can back an ActiveRecord (queries plus CRUD)
+ */
+export interface IActiveRecordProvider extends IODataProvider, ICrudProvider {}
+
 /**
  * Interface for MongoDB-specific operations
  */
@@ -136,6 +399,11 @@ export interface IMongoDBProvider extends IODataProvider, ICrudProvider {
    * Get collection statistics
    */
   getCollectionStats(collectionName: string): Promise<IMongoCollectionStats>;
+
+  /**
+   * Begin a multi-document transaction; reads and writes of the calls it is opened for run in its session until it ends
+   */
+  beginTransaction(): Promise<ITransactionHandle>;
 }
 
 /**
@@ -521,6 +789,51 @@ export interface ICreateResult<T = Record<string, unknown>> {
   };
 }
 
+/**
+ * Interface for upsert results
+ */
+export interface IUpsertResult<T = Record<string, unknown>> {
+  /**
+   * Whether the operation was successful
+   */
+  success: boolean;
+
+  /**
+   * The entity as stored
+   */
+  data?: T;
+
+  /**
+   * The ID of the entity
+   */
+  id?: any;
+
+  /**
+   * Any errors that occurred
+   */
+  errors?: IUserFriendlyError[];
+
+  /**
+   * Metadata about the operation
+   */
+  metadata?: {
+    /**
+     * Execution time in milliseconds
+     */
+    executionTime: number;
+
+    /**
+     * Whether the entity was created
+     */
+    created: boolean;
+
+    /**
+     * Whether an existing entity was updated
+     */
+    updated: boolean;
+  };
+}
+
 /**
  * Interface for read results
  */
@@ -671,6 +984,147 @@ export interface IAggregationResult<T = Record<string, unknown>> {
   };
 }
 
+/**
+ * Options for explaining a query
+ */
+export interface IExplainOptions {
+  /**
+   * Ask the data source for its query plan as well (SQLite only)
+   */
+  plan?: boolean;
+}
+
+/**
+ * Interface for explain results
+ */
+export interface IExplainResult {
+  /**
+   * Whether the query could be translated
+   */
+  success: boolean;
+
+  /**
+   * Name of the provider the query was translated for
+   */
+  provider: string;
+
+  /**
+   * The native query
+   */
+  native?: INativeQuery;
+
+  /**
+   * Steps of the query plan, when requested
+   */
+  plan?: IQueryPlanStep[];
+
+  /**
+   * Tables the query plan reads in full, without using an index
+   */
+  fullScans?: string[];
+
+  /**
+   * Any errors that occurred
+   */
+  errors?: IUserFriendlyError[];
+}
+
+/**
+ * A query in the data source's own language
+ */
+export interface INativeQuery {
+  /**
+   * SQL statement (SQLite)
+   */
+  sql?: string;
+
+  /**
+   * Parameters bound to the SQL statement (SQLite)
+   */
+  params?: unknown[];
+
+  /**
+   * SQL statement counting every matching row (SQLite)
+   */
+  countSql?: string;
+
+  /**
+   * Parameters bound to the count statement (SQLite)
+   */
+  countParams?: unknown[];
+
+  /**
+   * Collection the query runs against (MongoDB)
+   */
+  collection?: string;
+
+  /**
+   * find() filter (MongoDB)
+   */
+  filter?: Record<string, unknown>;
+
+  /**
+   * find() projection (MongoDB)
+   */
+  projection?: Record<string, unknown>;
+
+  /**
+   * find() sort (MongoDB)
+   */
+  sort?: Record<string, unknown>;
+
+  /**
+   * Documents skipped (MongoDB)
+   */
+  skip?: number;
+
+  /**
+   * Maximum documents fetched (MongoDB)
+   */
+  limit?: number;
+
+  /**
+   * Aggregation pipeline, used instead of find() for expansions, computed fields and $apply (MongoDB)
+   */
+  pipeline?: Record<string, unknown>[];
+
+  /**
+   * Distinct-key lookups run before the query for relation lambdas;
+   * the keys of lookup n fill the `$in` lists holding `{ $lookupKeys: n }` (MongoDB)
+   */
+  lookups?: Array<{ collection: string; distinct: string; filter: Record<string, unknown> }>;
+
+  /**
+   * HTTP method (HTTP OData)
+   */
+  method?: string;
+
+  /**
+   * Request URL (HTTP OData)
+   */
+  url?: string;
+}
+
+/**
+ * A step of a query plan
+ */
+export interface IQueryPlanStep {
+  /**
+   * Step id
+   */
+  id: number;
+
+  /**
+   * Id of the parent step (0 for top-level steps)
+   */
+  parent: number;
+
+  /**
+   * Plan detail as reported by the data source, e.g. `SCAN users`
+   */
+  detail: string;
+}
+
 /**
  * Interface for SQL results
  */
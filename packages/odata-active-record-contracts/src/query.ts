@@ -1,5 +1,5 @@
 import type { IUserFriendlyError } from './errors';
-import type { ISchemaWarning } from './schema';
+import type { ISchemaWarning, IRelationThrough } from './schema';
 
 /**
  * Query filter interface - single responsibility for filtering operations
@@ -15,6 +15,32 @@ export interface IQueryFilter {
   logicalOperator?: 'and' | 'or';
   /** Child filters for complex conditions */
   children?: IQueryFilter[];
+  /** Whether to negate this condition or group */
+  not?: boolean;
+  /** Boolean expression matched instead of field, operator and value, e.g. `tolower(name) eq 'ann'` */
+  expression?: IExpressionNode;
+  /** Condition over the elements of the array field or to-many relation named by field */
+  lambda?: IQueryLambda;
+}
+
+/**
+ * Lambda condition - OData any/all over a collection, e.g. `tags/any(t: t eq 'urgent')`
+ */
+export interface IQueryLambda {
+  /** any: at least one element matches; all: every element matches (also true for empty collections) */
+  operator: 'any' | 'all';
+  /** Name the condition uses for the element: `t` is the element itself, `t/price` one of its fields */
+  variable: string;
+  /** Condition on each element; an any without one matches non-empty collections */
+  condition?: IQueryFilter;
+  /** Entity (table/collection) holding the related records, when the collection is a relation */
+  targetEntity?: string;
+  /** Field on the source entity holding the join key */
+  sourceField?: string;
+  /** Field on the target entity matched against the source field */
+  targetField?: string;
+  /** Join of a many-to-many relation: the source field links to the target field through it */
+  through?: IRelationThrough;
 }
 
 /**
@@ -47,6 +73,63 @@ export interface IQueryPagination {
   take?: number;
   /** Maximum number of records allowed */
   maxTake?: number;
+  /** Page token of the previous page to continue after (keyset pagination) */
+  cursor?: string;
+}
+
+/**
+ * Expression node - parsed form of an OData expression such as `price mul quantity`
+ * or `concat(firstName, concat(' ', lastName))`
+ */
+export type IExpressionNode =
+  | { kind: 'literal'; value: string | number | boolean | null | Date }
+  | { kind: 'field'; name: string }
+  | { kind: 'unary'; operator: 'not' | 'negate'; operand: IExpressionNode }
+  | { kind: 'binary'; operator: IExpressionBinaryOperator; left: IExpressionNode; right: IExpressionNode }
+  | { kind: 'call'; name: string; args: IExpressionNode[] }
+  | { kind: 'list'; items: IExpressionNode[] };
+
+/**
+ * Binary operators of the OData expression syntax
+ */
+export type IExpressionBinaryOperator =
+  | 'add' | 'sub' | 'mul' | 'div' | 'mod'
+  | 'eq' | 'ne' | 'gt' | 'ge' | 'lt' | 'le' | 'in'
+  | 'and' | 'or';
+
+/**
+ * Query compute interface - a computed field evaluated by the data source
+ */
+export interface IQueryCompute {
+  /** Name the computed value is returned under */
+  name: string;
+  /** Parsed expression */
+  expression: IExpressionNode;
+}
+
+/**
+ * Aggregate function applied to a field
+ */
+export type IAggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'countDistinct';
+
+/**
+ * Aggregate expression - a function over a field ('count' counts rows and has no field)
+ */
+export interface IAggregateExpression {
+  /** Aggregate function */
+  fn: IAggregateFunction;
+  /** Field to aggregate */
+  field?: string;
+}
+
+/**
+ * Query apply interface - single responsibility for grouping and aggregation
+ */
+export interface IQueryApply {
+  /** Fields to group by; without any, the whole result set forms one group */
+  groupBy?: string[];
+  /** Aggregates to compute per group, keyed by result alias */
+  aggregate: Record<string, IAggregateExpression>;
 }
 
 /**
@@ -55,10 +138,18 @@ export interface IQueryPagination {
 export interface IQueryExpand {
   /** Relation to expand */
   relation: string;
-  /** Nested query for expanded relation */
-  nestedQuery?: IQueryBuilder;
+  /** Nested query options (select, filter, orderBy, pagination, expand) for the expanded relation */
+  nestedQuery?: IQuery;
   /** Whether to expand as single object or array */
   single?: boolean;
+  /** Entity (table/collection) the relation points to */
+  targetEntity?: string;
+  /** Field on the source entity holding the join key */
+  sourceField?: string;
+  /** Field on the target entity matched against the source field */
+  targetField?: string;
+  /** Join of a many-to-many relation: the source field links to the target field through it */
+  through?: IRelationThrough;
 }
 
 /**
@@ -92,6 +183,13 @@ export interface IQueryBuilder<T = Record<string, unknown>> {
    */
   orWhere(field: keyof T, operator: string, value: unknown): IQueryBuilder<T>;
 
+  /**
+   * Add a condition written as an OData boolean expression
+   * @param expression - Expression such as `tolower(name) eq 'ann'`, or its parsed form
+   * @returns Query builder for chaining
+   */
+  whereExpression(expression: string | IExpressionNode): IQueryBuilder<T>;
+
   /**
    * Select specific fields
    * @param fields - Fields to select
@@ -121,6 +219,28 @@ export interface IQueryBuilder<T = Record<string, unknown>> {
    */
   offset(count: number): IQueryBuilder<T>;
 
+  /**
+   * Continue after the page a token was issued for (keyset pagination)
+   * @param token - The nextPageToken of the previous page
+   * @returns Query builder for chaining
+   */
+  after(token: string): IQueryBuilder<T>;
+
+  /**
+   * Full-text search the entity's searchable fields
+   * @param term - Search term
+   * @param options - Fields to search instead of the schema's searchable fields
+   * @returns Query builder for chaining
+   */
+  search(term: string, options?: { fields?: (keyof T)[] }): IQueryBuilder<T>;
+
+  /**
+   * Group results by fields for aggregation
+   * @param fields - Fields to group by
+   * @returns Query builder for chaining
+   */
+  groupBy(...fields: (keyof T)[]): IQueryBuilder<T>;
+
   /**
    * Expand a relationship
    * @param relation - Relation to expand
@@ -129,6 +249,20 @@ export interface IQueryBuilder<T = Record<string, unknown>> {
    */
   expand(relation: string, callback?: (query: IQueryBuilder) => void): IQueryBuilder<T>;
 
+  /**
+   * Apply a named scope declared on the entity schema
+   * @param name - Scope name
+   * @param args - Arguments passed to the scope
+   * @returns Query builder for chaining
+   */
+  scope(name: string, ...args: unknown[]): IQueryBuilder<T>;
+
+  /**
+   * Skip the entity's default scope for the next query
+   * @returns Query builder for chaining
+   */
+  unscoped(): IQueryBuilder<T>;
+
   /**
    * Get the built query
    * @returns The built query object
@@ -150,10 +284,16 @@ export interface IQuery {
   pagination?: IQueryPagination;
   /** Query expansions */
   expand?: IQueryExpand[];
+  /** Computed fields; select, filter and orderBy may refer to them by name */
+  compute?: IQueryCompute[];
+  /** Grouping and aggregation; results are one row per group holding the group fields and aliases */
+  apply?: IQueryApply;
   /** Whether to include count */
   count?: boolean;
-  /** Search term */
+  /** Full-text search term; without an explicit orderBy results come back by relevance */
   search?: string;
+  /** Fields the search term is matched against (defaults to every indexed field) */
+  searchFields?: string[];
 }
 
 /**
@@ -1,4 +1,5 @@
 import type { IUserFriendlyError } from './errors';
+import type { IQueryBuilder } from './query';
 
 /**
  * Field definition interface - single responsibility for field metadata
@@ -14,12 +15,14 @@ export interface IFieldDefinition {
   primary?: boolean;
   /** Whether the field auto-increments */
   autoIncrement?: boolean;
-  /** Default value */
-  defaultValue?: unknown;
+  /** Default value applied on create: a value, a function of the data being created, or a built-in generator */
+  defaultValue?: unknown | IDefaultGenerator | ((data: Record<string, unknown>) => unknown);
   /** Database field name (for mapping) */
   dbField?: string;
   /** Validation rules */
   validation?: IValidationRule[];
+  /** Optimistic concurrency token: an incrementing version number or a last-modified timestamp */
+  concurrency?: 'version' | 'timestamp';
   /** Astro-specific options */
   astro?: {
     searchable?: boolean;
@@ -29,6 +32,18 @@ export interface IFieldDefinition {
   };
 }
 
+/**
+ * Built-in default value generator; providers map these to native column defaults where they can
+ */
+export interface IDefaultGenerator {
+  /** uuid: random UUID v4, now: current date, cuid: collision-resistant id, sequence: next number of a per-entity sequence */
+  generator: 'uuid' | 'now' | 'cuid' | 'sequence';
+  /** Sequence name, '<entity>.<field>' by default */
+  sequence?: string;
+  /** First sequence value (default 1) */
+  start?: number;
+}
+
 /**
  * Validation rule interface - single responsibility for validation logic
  */
@@ -37,12 +52,32 @@ export interface IValidationRule {
   name: string;
   /** Rule type */
   type: 'required' | 'min' | 'max' | 'pattern' | 'custom';
-  /** Rule value */
+  /** Rule value (minimum/maximum for min/max, RegExp or source string for pattern) */
   value?: unknown;
-  /** Custom validation function */
-  validator?: (value: unknown) => boolean;
+  /** Custom validation function, receives the field value and the data being written */
+  validator?: (value: unknown, data: Record<string, unknown>) => boolean | Promise<boolean>;
+  /** Error message */
+  message: string;
+  /** Expected type or format reported with the error */
+  expectedType?: string;
+  /** Suggestion for fixing the error */
+  suggestion?: string;
+}
+
+/**
+ * Entity validation rule interface - single responsibility for cross-field validation
+ */
+export interface IEntityValidationRule {
+  /** Rule name */
+  name: string;
+  /** Fields the rule reads; the error is reported on the first one and partial updates only run the rule when all are present */
+  fields?: string[];
+  /** Validation function, receives the data being written */
+  validator: (data: Record<string, unknown>) => boolean | Promise<boolean>;
   /** Error message */
   message: string;
+  /** Suggestion for fixing the error */
+  suggestion?: string;
 }
 
 /**
@@ -59,6 +94,16 @@ export interface IEntitySchema<T = Record<string, unknown>> {
   indexes?: IIndexDefinition[];
   /** Computed fields */
   computed?: IComputedFieldDefinition[];
+  /** Cross-field validation rules */
+  validation?: IEntityValidationRule[];
+  /** Named query scopes, applied with query.scope(name, ...args) */
+  scopes?: Record<string, IQueryScope<T>>;
+  /** Scope applied to every query unless query.unscoped() is called */
+  defaultScope?: IQueryScope<T>;
+  /** Soft delete: delete() stamps this timestamp field and queries skip stamped records */
+  softDelete?: {
+    field: string;
+  };
   /** Astro-specific options */
   astro?: {
     ssr?: boolean;
@@ -69,6 +114,11 @@ export interface IEntitySchema<T = Record<string, unknown>> {
   };
 }
 
+/**
+ * Query scope - adds reusable conditions, ordering or limits to a query builder
+ */
+export type IQueryScope<T = Record<string, unknown>> = (query: IQueryBuilder<T>, ...args: any[]) => void;
+
 /**
  * Relation definition interface - single responsibility for entity relationships
  */
@@ -85,15 +135,42 @@ export interface IRelationDefinition {
   targetField: string;
   /** Relation type */
   type: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+  /** How a many-to-many relation links records: a join entity or an array of keys on the source record */
+  through?: IRelationThrough;
   /** Whether the relation is required */
   required?: boolean;
-  /** Cascade options */
+  /**
+   * What happens to the related records when this record is deleted or its sourceField value changes.
+   * true means 'cascade'; rules apply to one-to-one, one-to-many and many-to-many relations
+   */
   cascade?: {
-    delete?: boolean;
-    update?: boolean;
+    delete?: boolean | IRelationCascadeAction;
+    update?: boolean | IRelationCascadeAction;
   };
 }
 
+/**
+ * Cascade rule of a relation - 'cascade' deletes the related records (or moves them to the new key),
+ * 'restrict' refuses while related records exist, 'setNull' clears their targetField.
+ * Many-to-many relations cascade and null by removing the links.
+ */
+export type IRelationCascadeAction = 'cascade' | 'restrict' | 'setNull';
+
+/**
+ * Join of a many-to-many relation - either a join entity (table/collection) with one record per link,
+ * or an array field on the source record holding the related records' keys (MongoDB)
+ */
+export interface IRelationThrough {
+  /** Join entity */
+  entity?: string;
+  /** Field of the join entity holding the source record's sourceField value */
+  sourceKey?: string;
+  /** Field of the join entity holding the related record's targetField value */
+  targetKey?: string;
+  /** Array field on the source record holding targetField values, instead of a join entity */
+  field?: string;
+}
+
 /**
  * Index definition interface - single responsibility for database indexes
  */
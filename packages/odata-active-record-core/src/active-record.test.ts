@@ -1,10 +1,24 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ActiveRecord } from './active-record';
+import { EntityNamespace } from './entity-namespace';
+import { sum, max, count } from './aggregates';
+import { parseExpression } from './expression';
+import { uuid, cuid, sequence } from './defaults';
+import { any, all } from './lambda';
+import { ref } from './transaction';
+import { HTTPODataProvider } from './providers/http-odata-provider';
+import type { IRelationAccessors } from './model';
+import { MockDataTypeHandler, MockProvider } from './test-helpers';
 import type { 
   IEntitySchema, 
   IDataTypeHandler, 
   IUserFriendlyError,
-  IQueryResult 
+  IQueryResult,
+  IQuery,
+  IModelInstance,
+  ILinkChange,
+  ILinkResult,
+  IRelationDefinition
 } from 'odata-active-record-contracts';
 
 // Mock schema for testing
@@ -56,219 +70,1620 @@ const testSchema: IEntitySchema<TestEntity> = {
   }
 };
 
-// Mock data type handler
-class MockDataTypeHandler implements IDataTypeHandler {
-  parseDate(value: unknown): Date | null {
-    if (typeof value === 'string') {
-      const date = new Date(value);
-      return isNaN(date.getTime()) ? null : date;
+describe('ActiveRecord', () => {
+  let activeRecord: ActiveRecord<TestEntity>;
+  let dataTypeHandler: IDataTypeHandler;
+  let provider: MockProvider;
+
+  beforeEach(() => {
+    dataTypeHandler = new MockDataTypeHandler();
+    provider = new MockProvider();
+    activeRecord = new ActiveRecord<TestEntity>(testSchema, dataTypeHandler, provider);
+  });
+
+  describe('Basic Query Building', () => {
+    it('should build a simple where query', () => {
+      const query = activeRecord.where('name', 'eq', 'John');
+      expect(query).toBe(activeRecord); // Should return self for chaining
+    });
+
+    it('should build a select query', () => {
+      const query = activeRecord.select('name', 'email');
+      expect(query).toBe(activeRecord);
+    });
+
+    it('should build an orderBy query', () => {
+      const query = activeRecord.orderBy('name', 'asc');
+      expect(query).toBe(activeRecord);
+    });
+
+    it('should build a limit query', () => {
+      const query = activeRecord.limit(10);
+      expect(query).toBe(activeRecord);
+    });
+
+    it('should build an offset query', () => {
+      const query = activeRecord.offset(5);
+      expect(query).toBe(activeRecord);
+    });
+  });
+
+  describe('Filter Groups', () => {
+    it('should combine orWhere with the existing filter', () => {
+      activeRecord.where('name', 'eq', 'A').orWhere('name', 'eq', 'B');
+
+      expect(activeRecord.buildQuery().filter).toEqual({
+        field: '',
+        operator: 'eq',
+        value: null,
+        logicalOperator: 'or',
+        children: [
+          { field: 'name', operator: 'eq', value: 'A' },
+          { field: 'name', operator: 'eq', value: 'B' }
+        ]
+      });
+    });
+
+    it('should keep chains of the same operator flat', () => {
+      activeRecord.where('name', 'eq', 'A').andWhere('age', 'gt', 18).where('isActive', 'eq', true);
+
+      const filter = activeRecord.buildQuery().filter;
+      expect(filter?.logicalOperator).toBe('and');
+      expect(filter?.children).toHaveLength(3);
+    });
+
+    it('should build nested groups', () => {
+      // name = A OR (name = B AND age > 18)
+      activeRecord
+        .where('name', 'eq', 'A')
+        .orWhereGroup(q => q.where('name', 'eq', 'B').where('age', 'gt', '18'));
+
+      const filter = activeRecord.buildQuery().filter;
+      expect(filter?.logicalOperator).toBe('or');
+      expect(filter?.children?.[0]).toEqual({ field: 'name', operator: 'eq', value: 'A' });
+      expect(filter?.children?.[1]).toMatchObject({
+        logicalOperator: 'and',
+        children: [
+          { field: 'name', operator: 'eq', value: 'B' },
+          { field: 'age', operator: 'gt', value: 18 }
+        ]
+      });
+    });
+
+    it('should negate a group with not', () => {
+      activeRecord.where('isActive', 'eq', true).not(q => q.where('name', 'eq', 'A').orWhere('name', 'eq', 'B'));
+
+      const filter = activeRecord.buildQuery().filter;
+      expect(filter?.logicalOperator).toBe('and');
+      expect(filter?.children?.[1]).toMatchObject({ logicalOperator: 'or', not: true });
+    });
+
+    it('should add expression conditions', () => {
+      activeRecord.where('isActive', 'eq', true).orWhereExpression("tolower(name) eq 'ann' and age mod 2 eq 0");
+
+      const filter = activeRecord.buildQuery().filter;
+      expect(filter?.logicalOperator).toBe('or');
+      expect(filter?.children?.[1]).toEqual({
+        field: '',
+        operator: 'eq',
+        value: null,
+        expression: parseExpression("tolower(name) eq 'ann' and age mod 2 eq 0")
+      });
+    });
+
+    it('should reject malformed expressions and unknown fields', async () => {
+      const malformed = await activeRecord.whereExpression('tolower(name) eq').find();
+      expect(malformed.success).toBe(false);
+      expect(malformed.errors?.[0]?.code).toBe('INVALID_EXPRESSION');
+      expect(malformed.errors?.[0]?.message).toContain('at position 16');
+
+      const unknown = await activeRecord.whereExpression("tolower(nickname) eq 'ann'").find();
+      expect(unknown.success).toBe(false);
+      expect(unknown.errors?.[0]).toMatchObject({ code: 'INVALID_FIELD', field: 'nickname' });
+    });
+
+    it('should surface errors raised inside a group', async () => {
+      const result = await activeRecord
+        .whereGroup(q => q.where('unknown' as keyof TestEntity, 'eq', 1))
+        .find();
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]?.code).toBe('INVALID_FIELD');
+    });
+  });
+
+  describe('Expansions', () => {
+    interface Author { id: number; name: string; }
+    interface Post { id: number; title: string; authorId: number; published: boolean; }
+
+    const authorSchema: IEntitySchema<Author> = {
+      name: 'authors',
+      fields: {
+        id: { name: 'id', type: 'number', primary: true },
+        name: { name: 'name', type: 'string' }
+      },
+      relations: [
+        { name: 'posts', sourceEntity: 'authors', targetEntity: 'posts', sourceField: 'id', targetField: 'authorId', type: 'one-to-many' }
+      ]
+    };
+
+    const postSchema: IEntitySchema<Post> = {
+      name: 'posts',
+      fields: {
+        id: { name: 'id', type: 'number', primary: true },
+        title: { name: 'title', type: 'string' },
+        authorId: { name: 'authorId', type: 'number' },
+        published: { name: 'published', type: 'boolean' }
+      },
+      relations: [
+        { name: 'author', sourceEntity: 'posts', targetEntity: 'authors', sourceField: 'authorId', targetField: 'id', type: 'many-to-one' }
+      ]
+    };
+
+    let namespace: EntityNamespace;
+
+    beforeEach(() => {
+      namespace = new EntityNamespace('blog', dataTypeHandler, provider);
+      namespace.registerEntity('authors', authorSchema);
+      namespace.registerEntity('posts', postSchema);
+    });
+
+    it('should expand a relation with join metadata from the schema', async () => {
+      await namespace.getEntity<Post>('posts')!.expand('author').find();
+
+      expect(provider.lastQuery?.expand).toEqual([{
+        relation: 'author',
+        single: true,
+        targetEntity: 'authors',
+        sourceField: 'authorId',
+        targetField: 'id'
+      }]);
+    });
+
+    it('should build nested query options against the target schema', async () => {
+      await namespace.getEntity<Author>('authors')!
+        .expand('posts', q => q
+          .where('published', 'eq', true)
+          .select('title')
+          .orderBy('title', 'asc')
+          .limit(3)
+          .expand('author'))
+        .find();
+
+      const nested = provider.lastQuery?.expand?.[0]?.nestedQuery;
+      expect(provider.lastQuery?.expand?.[0]?.single).toBe(false);
+      expect(nested?.filter).toEqual({ field: 'published', operator: 'eq', value: true });
+      expect(nested?.select?.fields).toEqual(['title']);
+      expect(nested?.orderBy).toEqual([{ field: 'title', direction: 'asc' }]);
+      expect(nested?.pagination?.take).toBe(3);
+      expect(nested?.expand?.[0]?.relation).toBe('author');
+    });
+
+    it('should reject undeclared relations', async () => {
+      const result = await namespace.getEntity<Author>('authors')!.expand('comments').find();
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]?.code).toBe('INVALID_RELATION');
+      expect(result.errors?.[0]?.suggestion).toContain('posts');
+    });
+
+    it('should validate fields inside nested queries', async () => {
+      const result = await namespace.getEntity<Author>('authors')!
+        .expand('posts', q => q.where('rating', 'gt', 3))
+        .find();
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]?.code).toBe('INVALID_FIELD');
+      expect(result.errors?.[0]?.context?.relation).toBe('posts');
+    });
+  });
+
+  describe('Relation Loading', () => {
+    interface Author { id: number; name: string; }
+    interface Post { id: number; title: string; authorId: number; published: boolean; }
+    interface Comment { id: number; postId: number; body: string; }
+
+    const relationSchemas: Record<string, IEntitySchema<any>> = {
+      authors: {
+        name: 'authors',
+        fields: { id: { name: 'id', type: 'number', primary: true }, name: { name: 'name', type: 'string' } },
+        relations: [
+          { name: 'posts', sourceEntity: 'authors', targetEntity: 'posts', sourceField: 'id', targetField: 'authorId', type: 'one-to-many' }
+        ]
+      },
+      posts: {
+        name: 'posts',
+        fields: {
+          id: { name: 'id', type: 'number', primary: true },
+          title: { name: 'title', type: 'string' },
+          authorId: { name: 'authorId', type: 'number' },
+          published: { name: 'published', type: 'boolean' }
+        },
+        relations: [
+          { name: 'author', sourceEntity: 'posts', targetEntity: 'authors', sourceField: 'authorId', targetField: 'id', type: 'many-to-one' },
+          { name: 'comments', sourceEntity: 'posts', targetEntity: 'comments', sourceField: 'id', targetField: 'postId', type: 'one-to-many' }
+        ]
+      },
+      comments: {
+        name: 'comments',
+        fields: {
+          id: { name: 'id', type: 'number', primary: true },
+          postId: { name: 'postId', type: 'number' },
+          body: { name: 'body', type: 'string' }
+        }
+      }
+    };
+
+    // Serves equality, 'in' and AND conditions from per-entity tables and records every query
+    class TableProvider extends MockProvider {
+      queries: { entityName: string; query: IQuery }[] = [];
+      tables: Record<string, Record<string, unknown>[]> = {
+        authors: [{ id: 1, name: 'Ann' }, { id: 2, name: 'Bob' }],
+        posts: [
+          { id: 10, title: 'Hello', authorId: 1, published: true },
+          { id: 11, title: 'Draft', authorId: 1, published: false },
+          { id: 12, title: 'News', authorId: 2, published: true }
+        ],
+        comments: [{ id: 100, postId: 10, body: 'Nice' }, { id: 101, postId: 10, body: 'Thanks' }, { id: 102, postId: 12, body: 'Wow' }]
+      };
+
+      async executeQuery<T>(entityName: string, query: IQuery): Promise<IQueryResult<T>> {
+        this.queries.push({ entityName, query });
+        const matches = (row: Record<string, unknown>, filter: IQuery['filter']): boolean => {
+          if (!filter) return true;
+          if (filter.children) return filter.children.every(child => matches(row, child));
+          const values = filter.operator === 'in' ? filter.value as unknown[] : [filter.value];
+          return values.includes(row[filter.field]);
+        };
+        const data = (this.tables[entityName] ?? []).filter(row => matches(row, query.filter)) as T[];
+        return { data, success: true, metadata: { count: data.length, executionTime: 1, cacheStatus: 'miss' } };
+      }
     }
-    if (value instanceof Date) return value;
-    return null;
-  }
 
-  formatDate(date: Date): string {
-    return date.toISOString();
-  }
+    let tables: TableProvider;
+    let namespace: EntityNamespace;
+
+    beforeEach(() => {
+      tables = new TableProvider();
+      namespace = new EntityNamespace('blog', dataTypeHandler, tables);
+      Object.entries(relationSchemas).forEach(([name, schema]) => namespace.registerEntity(name, schema));
+    });
+
+    it('should eager-load included relations with one in-query per relation', async () => {
+      const result = await namespace.getEntity<Post>('posts')!.include('author', 'comments').find();
+      const posts = result.data as (IModelInstance<Post> & IRelationAccessors<{ author: Author; comments: Comment[] }>)[];
+
+      expect(result.success).toBe(true);
+      expect(tables.queries.map(q => q.entityName)).toEqual(['posts', 'authors', 'comments']);
+      expect(tables.queries[1]?.query.filter).toEqual({ field: 'id', operator: 'in', value: [1, 2] });
+      expect(tables.queries[2]?.query.filter).toEqual({ field: 'postId', operator: 'in', value: [10, 11, 12] });
+
+      expect((await posts[0]!.author())?.name).toBe('Ann');
+      expect((await posts[2]!.author())?.name).toBe('Bob');
+      expect((await posts[0]!.comments().find()).data.map(comment => comment.body)).toEqual(['Nice', 'Thanks']);
+      expect((await posts[1]!.comments().find()).data).toEqual([]);
+      // Served from the loaded batches
+      expect(tables.queries).toHaveLength(3);
+      // Accessors are not fields
+      expect(Object.keys(posts[0]!)).toEqual(['id', 'title', 'authorId', 'published']);
+    });
+
+    it('should split large key lists into several in-queries', async () => {
+      tables.tables.authors = Array.from({ length: 1001 }, (_, index) => ({ id: index + 1, name: `Author ${index + 1}` }));
+      tables.tables.posts = tables.tables.authors.map(author => ({ id: Number(author.id) + 1000, title: 'Post', authorId: author.id, published: true }));
+
+      const result = await namespace.getEntity<Post>('posts')!.include('author').find();
+      const posts = result.data as (IModelInstance<Post> & IRelationAccessors<{ author: Author }>)[];
+
+      expect(tables.queries.map(q => q.entityName)).toEqual(['posts', 'authors', 'authors', 'authors']);
+      expect(tables.queries.slice(1).map(q => (q.query.filter?.value as unknown[]).length)).toEqual([500, 500, 1]);
+      expect((await posts[0]!.author())?.name).toBe('Author 1');
+      expect((await posts[1000]!.author())?.name).toBe('Author 1001');
+      expect(tables.queries).toHaveLength(4);
+    });
+
+    it('should batch lazy accessor loads across the result set', async () => {
+      const posts = (await namespace.getEntity<Post>('posts')!.find()).data as (IModelInstance<Post> & IRelationAccessors<{ author: Author }>)[];
+
+      const authors = await Promise.all(posts.map(post => post.author()));
+      for (const post of posts) {
+        await post.author();
+      }
+
+      expect(authors.map(author => author?.name)).toEqual(['Ann', 'Ann', 'Bob']);
+      expect(tables.queries.map(q => q.entityName)).toEqual(['posts', 'authors']);
+    });
+
+    it('should load nested include paths level by level', async () => {
+      const result = await namespace.getEntity<Author>('authors')!.include('posts.comments').find();
+      const [ann] = result.data as (IModelInstance<Author> & IRelationAccessors<{ posts: Post[] }>)[];
+
+      const [hello] = (await ann!.posts().find()).data as (IModelInstance<Post> & IRelationAccessors<{ comments: Comment[] }>)[];
+      expect((await hello!.comments().find()).data).toHaveLength(2);
+      expect(tables.queries.map(q => q.entityName)).toEqual(['authors', 'posts', 'comments']);
+    });
+
+    it('should run a scoped query once conditions are added to a collection accessor', async () => {
+      const [ann] = (await namespace.getEntity<Author>('authors')!.find()).data as (IModelInstance<Author> & IRelationAccessors<{ posts: Post[] }>)[];
+
+      const published = await ann!.posts().where('published', 'eq', true).find();
+
+      expect(published.data.map(post => post.title)).toEqual(['Hello']);
+      expect(tables.queries[1]?.query.filter).toMatchObject({
+        logicalOperator: 'and',
+        children: [{ field: 'authorId', operator: 'eq', value: 1 }, { field: 'published', operator: 'eq', value: true }]
+      });
+    });
+
+    it('should reject undeclared relations', async () => {
+      const result = await namespace.getEntity<Post>('posts')!.include('author', 'tags').find();
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]?.code).toBe('INVALID_RELATION');
+      expect(tables.queries).toHaveLength(0);
+    });
+  });
+
+  describe('Many-to-Many Relations', () => {
+    interface Post { id: number; title: string; }
+    interface Tag { id: number; label: string; }
+
+    const postSchema: IEntitySchema<Post> = {
+      name: 'posts',
+      fields: { id: { name: 'id', type: 'number', primary: true }, title: { name: 'title', type: 'string' } },
+      relations: [
+        {
+          name: 'tags', sourceEntity: 'posts', targetEntity: 'tags', sourceField: 'id', targetField: 'id', type: 'many-to-many',
+          through: { entity: 'post_tags', sourceKey: 'postId', targetKey: 'tagId' }
+        }
+      ]
+    };
+
+    const tagSchema: IEntitySchema<Tag> = {
+      name: 'tags',
+      fields: { id: { name: 'id', type: 'number', primary: true }, label: { name: 'label', type: 'string' } }
+    };
+
+    // Serves 'in' conditions from per-entity tables and keeps join rows in post_tags
+    class JoinTableProvider extends MockProvider {
+      queries: string[] = [];
+      changes: ILinkChange[] = [];
+      tables: Record<string, Record<string, unknown>[]> = {
+        posts: [{ id: 1, title: 'Hello' }, { id: 2, title: 'News' }],
+        tags: [{ id: 7, label: 'intro' }, { id: 8, label: 'release' }, { id: 9, label: 'draft' }],
+        post_tags: [{ postId: 1, tagId: 7 }, { postId: 1, tagId: 8 }, { postId: 2, tagId: 8 }]
+      };
+
+      private select(entityName: string, filter?: IQuery['filter']): Record<string, unknown>[] {
+        const values = filter?.operator === 'in' ? filter.value as unknown[] : undefined;
+        return (this.tables[entityName] ?? []).filter(row => !values || values.includes(row[filter!.field]));
+      }
+
+      async executeQuery<T>(entityName: string, query: IQuery): Promise<IQueryResult<T>> {
+        this.lastQuery = query;
+        this.queries.push(entityName);
+        const data = this.select(entityName, query.filter) as T[];
+        return { data, success: true, metadata: { count: data.length, executionTime: 1, cacheStatus: 'miss' } };
+      }
+
+      async read<T>(entityName: string, query?: IQuery) {
+        this.queries.push(entityName);
+        return { success: true, data: this.select(entityName, query?.filter) as T[] };
+      }
+
+      async updateLinks(entityName: string, change: ILinkChange): Promise<ILinkResult> {
+        this.changes.push(change);
+        const links = this.tables.post_tags!;
+        this.tables.post_tags = [
+          ...links.filter(link => link.postId !== change.sourceValue),
+          ...(change.targetValues ?? []).map(tagId => ({ postId: change.sourceValue, tagId }))
+        ];
+        return { success: true, metadata: { attached: change.targetValues?.length ?? 0, detached: 0, executionTime: 1 } };
+      }
+    }
+
+    let tables: JoinTableProvider;
+    let namespace: EntityNamespace;
+
+    beforeEach(() => {
+      tables = new JoinTableProvider();
+      namespace = new EntityNamespace('blog', dataTypeHandler, tables);
+      namespace.registerEntity('posts', postSchema);
+      namespace.registerEntity('tags', tagSchema);
+    });
+
+    it('should load related records across the join with one read per step', async () => {
+      const result = await namespace.getEntity<Post>('posts')!.include('tags').find();
+      const [hello, news] = result.data as (IModelInstance<Post> & IRelationAccessors<{ tags: Tag[] }>)[];
+
+      expect(tables.queries).toEqual(['posts', 'post_tags', 'tags']);
+      expect((await hello!.tags().find()).data.map(tag => tag.label)).toEqual(['intro', 'release']);
+      expect((await news!.tags().find()).data.map(tag => tag.label)).toEqual(['release']);
+      expect(tables.queries).toHaveLength(3);
+    });
+
+    it('should query the linked keys once conditions are added to the accessor', async () => {
+      const [hello] = (await namespace.getEntity<Post>('posts')!.find()).data as (IModelInstance<Post> & IRelationAccessors<{ tags: Tag[] }>)[];
+
+      const found = await hello!.tags().where('label', 'eq', 'intro').find();
+
+      expect(found.success).toBe(true);
+      expect(tables.lastQuery?.filter).toMatchObject({
+        logicalOperator: 'and',
+        children: [{ field: 'label', operator: 'eq', value: 'intro' }, { field: 'id', operator: 'in', value: [7, 8] }]
+      });
+    });
+
+    it('should hand link changes to the provider with converted target values', async () => {
+      const result = await namespace.getEntity<Post>('posts')!.sync(2, 'tags', ['7', '9']);
+
+      expect(result.success).toBe(true);
+      expect(tables.changes[0]).toEqual({
+        relation: 'tags',
+        id: 2,
+        sourceValue: 2,
+        targetEntity: 'tags',
+        targetField: 'id',
+        through: { entity: 'post_tags', sourceKey: 'postId', targetKey: 'tagId' },
+        mode: 'sync',
+        targetValues: [7, 9]
+      });
+    });
+
+    it('should reload the links of a model after attaching', async () => {
+      const [, news] = (await namespace.getEntity<Post>('posts')!.include('tags').find()).data as (IModelInstance<Post> & IRelationAccessors<{ tags: Tag[] }>)[];
+
+      await news!.attach('tags', [8, 9]);
+
+      expect(tables.changes[0]).toMatchObject({ id: 2, mode: 'attach', targetValues: [8, 9] });
+      expect((await news!.tags().find()).data.map(tag => tag.label)).toEqual(['release', 'draft']);
+    });
+
+    it('should carry the join through expansions and lambda filters', async () => {
+      await namespace.getEntity<Post>('posts')!.expand('tags').where(any('tags', t => t.field('label').eq('intro'))).find();
+
+      const through = { entity: 'post_tags', sourceKey: 'postId', targetKey: 'tagId' };
+      expect(tables.lastQuery?.expand?.[0]).toMatchObject({ relation: 'tags', single: false, through });
+      expect(tables.lastQuery?.filter?.lambda).toMatchObject({ targetEntity: 'tags', sourceField: 'id', targetField: 'id', through });
+    });
+
+    it('should reject link changes on relations without a join', async () => {
+      const comments = { ...postSchema, relations: [{ name: 'comments', sourceEntity: 'posts', targetEntity: 'tags', sourceField: 'id', targetField: 'id', type: 'one-to-many' as const }] };
+      const invalid = await new ActiveRecord<Post>(comments, dataTypeHandler, tables).attach(1, 'comments', [7]);
+      const unsupported = await new ActiveRecord<Post>(postSchema, dataTypeHandler, new MockProvider()).attach(1, 'tags', [7]);
+
+      expect(invalid.errors?.[0]?.code).toBe('INVALID_RELATION');
+      expect(unsupported.errors?.[0]?.code).toBe('LINKS_NOT_SUPPORTED');
+    });
+  });
+
+  describe('Relation Cascades', () => {
+    interface Author { id: number; name: string; }
+
+    const cascadeSchemas = (rules: { posts?: IRelationDefinition['cascade']; tags?: IRelationDefinition['cascade'] }): Record<string, IEntitySchema<any>> => ({
+      authors: {
+        name: 'authors',
+        fields: { id: { name: 'id', type: 'number', primary: true }, name: { name: 'name', type: 'string' } },
+        relations: [
+          { name: 'posts', sourceEntity: 'authors', targetEntity: 'posts', sourceField: 'id', targetField: 'authorId', type: 'one-to-many', ...(rules.posts ? { cascade: rules.posts } : {}) },
+          {
+            name: 'tags', sourceEntity: 'authors', targetEntity: 'tags', sourceField: 'id', targetField: 'id', type: 'many-to-many',
+            through: { entity: 'author_tags', sourceKey: 'authorId', targetKey: 'tagId' }, ...(rules.tags ? { cascade: rules.tags } : {})
+          }
+        ]
+      },
+      posts: {
+        name: 'posts',
+        fields: {
+          id: { name: 'id', type: 'number', primary: true },
+          authorId: { name: 'authorId', type: 'number', nullable: true },
+          title: { name: 'title', type: 'string' }
+        },
+        relations: [
+          { name: 'author', sourceEntity: 'posts', targetEntity: 'authors', sourceField: 'authorId', targetField: 'id', type: 'many-to-one', cascade: { delete: true } }
+        ]
+      },
+      tags: {
+        name: 'tags',
+        fields: { id: { name: 'id', type: 'number', primary: true } }
+      }
+    });
+
+    // Keeps per-entity tables and serves equality conditions, writes by id, link changes and snapshot transactions
+    class MemoryTables extends MockProvider {
+      tables: Record<string, Record<string, unknown>[]> = {};
+      transactions: string[] = [];
+
+      async beginTransaction() {
+        const snapshot = JSON.stringify(this.tables);
+        this.transactions.push('begin');
+        return {
+          commit: async () => { this.transactions.push('commit'); },
+          rollback: async () => { this.transactions.push('rollback'); this.tables = JSON.parse(snapshot); },
+          isActive: () => true
+        };
+      }
+
+      reset() {
+        this.transactions = [];
+        this.tables = {
+          authors: [{ id: 1, name: 'Ann' }, { id: 2, name: 'Bob' }],
+          posts: [{ id: 10, authorId: 1, title: 'Hello' }, { id: 11, authorId: 1, title: 'Again' }, { id: 12, authorId: 2, title: 'News' }],
+          tags: [{ id: 7 }],
+          author_tags: [{ authorId: 1, tagId: 7 }]
+        };
+      }
+
+      private select(entityName: string, filter?: IQuery['filter']): Record<string, unknown>[] {
+        const matches = (row: Record<string, unknown>, condition: IQuery['filter']): boolean =>
+          !condition || (condition.children ? condition.children.every(child => matches(row, child)) : row[condition.field] === condition.value);
+        return (this.tables[entityName] ?? []).filter(row => matches(row, filter));
+      }
+
+      async executeQuery<T>(entityName: string, query: IQuery): Promise<IQueryResult<T>> {
+        const data = this.select(entityName, query.filter) as T[];
+        return { data, success: true, metadata: { count: data.length, executionTime: 1, cacheStatus: 'miss' } };
+      }
+
+      async read<T>(entityName: string, query?: IQuery) {
+        return { success: true, data: this.select(entityName, query?.filter) as T[] };
+      }
+
+      async create<T>(entityName: string, data: Partial<T>) {
+        const rows = this.tables[entityName] ??= [];
+        const row = { id: Math.max(0, ...rows.map(r => Number(r.id))) + 1, ...data } as Record<string, unknown>;
+        rows.push(row);
+        return { success: true, data: row as T, id: row.id, metadata: { executionTime: 1, created: true } };
+      }
+
+      async update<T>(entityName: string, id: any, data: Partial<T>) {
+        const row = this.tables[entityName]?.find(r => r.id === id);
+        Object.assign(row ?? {}, data);
+        return { success: Boolean(row), data: row as T, metadata: { executionTime: 1, updated: Boolean(row), affectedCount: row ? 1 : 0 } };
+      }
+
+      async delete(entityName: string, id: any) {
+        this.tables[entityName] = (this.tables[entityName] ?? []).filter(r => r.id !== id);
+        return { success: true, metadata: { executionTime: 1, deleted: true, affectedCount: 1 } };
+      }
+
+      async updateLinks(entityName: string, change: ILinkChange): Promise<ILinkResult> {
+        const links = this.tables.author_tags ?? [];
+        const detached = links.filter(link => link.authorId === change.sourceValue);
+        this.tables.author_tags = [
+          ...links.filter(link => link.authorId !== change.sourceValue),
+          ...(change.mode === 'detach' ? [] : (change.targetValues ?? []).map(tagId => ({ authorId: change.sourceValue, tagId })))
+        ];
+        return { success: true, metadata: { attached: change.targetValues?.length ?? 0, detached: detached.length, executionTime: 1 } };
+      }
+    }
+
+    const memory = new MemoryTables();
+    let namespace: EntityNamespace;
+    const authorsWith = (rules: Parameters<typeof cascadeSchemas>[0]) => {
+      memory.reset();
+      namespace = new EntityNamespace('blog', dataTypeHandler, memory);
+      Object.entries(cascadeSchemas(rules)).forEach(([name, schema]) => namespace.registerEntity(name, schema));
+      return namespace.getEntity<Author>('authors')!;
+    };
+
+    it('should delete related records and links with cascade', async () => {
+      const result = await authorsWith({ posts: { delete: true }, tags: { delete: 'cascade' } }).delete(1);
+
+      expect(result.success).toBe(true);
+      expect(memory.tables.posts?.map(post => post.id)).toEqual([12]);
+      expect(memory.tables.author_tags).toEqual([]);
+      // The posts' many-to-one rule doesn't reach back to the author being deleted; linked tags stay
+      expect(memory.tables.authors?.map(author => author.id)).toEqual([2]);
+      expect(memory.tables.tags).toHaveLength(1);
+    });
+
+    it('should roll the whole cascade back when a related record cannot be deleted', async () => {
+      const authors = authorsWith({ posts: { delete: true } });
+      namespace.registerHooks('posts', {
+        beforeDelete: context => {
+          if (context.id === 11) {
+            throw { code: 'POST_LOCKED', message: 'Post 11 is locked', severity: 'error', actionable: true };
+          }
+        }
+      });
+
+      const result = await authors.delete(1);
+
+      expect(result.errors?.[0]).toMatchObject({ code: 'CASCADE_FAILED', message: "Could not delete related posts '11' of relation 'posts': Post 11 is locked" });
+      expect(memory.transactions).toEqual(['begin', 'rollback']);
+      expect(memory.tables.posts).toHaveLength(3);
+      expect(memory.tables.authors).toHaveLength(2);
+    });
+
+    it('should keep concurrent writes out of a cascade transaction that rolls back', async () => {
+      const authors = authorsWith({ posts: { delete: true } });
+      namespace.registerHooks('posts', {
+        beforeDelete: async context => {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          if (context.id === 11) {
+            throw { code: 'POST_LOCKED', message: 'Post 11 is locked', severity: 'error', actionable: true };
+          }
+        }
+      });
+
+      const [deleted, renamed] = await Promise.all([authors.delete(1), authors.update(2, { name: 'Bo' })]);
+
+      expect(deleted.success).toBe(false);
+      expect(renamed.success).toBe(true);
+      expect(memory.tables.authors?.map(author => author.name)).toEqual(['Ann', 'Bo']);
+      // Updates that no cascade rule applies to don't open a transaction
+      expect(memory.transactions).toEqual(['begin', 'rollback']);
+    });
+
+    it('should run cascades without a transaction when the server has none', async () => {
+      const authors = authorsWith({ posts: { delete: true, update: true }, tags: { delete: 'cascade' } });
+      const standalone = Object.assign(new Error('Transaction numbers are only allowed on a replica set member or mongos'), { code: 20 });
+      const begin = vi.spyOn(memory, 'beginTransaction').mockRejectedValue(standalone);
+
+      const moved = await authors.update(2, { id: 3 });
+      const deleted = await authors.delete(1);
+      const bulk = await authors.where('name', 'eq', 'Bob').deleteWhere();
+      const atomic = await namespace.executeTransaction([{ type: 'update', entity: 'authors', id: 3, data: { name: 'Bo' } }]);
+      begin.mockRestore();
+
+      expect([moved.success, deleted.success, bulk.success]).toEqual([true, true, true]);
+      expect(memory.transactions).toEqual([]);
+      expect(memory.tables.authors).toEqual([]);
+      expect(memory.tables.posts).toEqual([]);
+      expect(memory.tables.author_tags).toEqual([]);
+      // Namespace transactions promise all or nothing, so they are refused instead
+      expect(atomic.errors?.[0]?.code).toBe('TRANSACTIONS_NOT_SUPPORTED');
+    });
+
+    it('should list the blocking related records when a restrict rule stops a delete', async () => {
+      const result = await authorsWith({ posts: { delete: 'restrict' }, tags: { delete: 'restrict' } }).delete(1);
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toMatchObject({
+        code: 'DELETE_RESTRICTED',
+        message: "Cannot delete authors '1': still referenced by 2 posts (posts: 10, 11) and 1 tags (tags: 7)",
+        details: { blocking: [{ relation: 'posts', entity: 'posts', ids: [10, 11] }, { relation: 'tags', entity: 'tags', ids: [7] }] }
+      });
+      expect(memory.tables.authors).toHaveLength(2);
+      expect(memory.tables.posts).toHaveLength(3);
+    });
+
+    it('should clear the keys of related records with setNull', async () => {
+      const result = await authorsWith({ posts: { delete: 'setNull' } }).delete(1);
+
+      expect(result.success).toBe(true);
+      expect(memory.tables.posts?.map(post => post.authorId)).toEqual([null, null, 2]);
+    });
+
+    it('should move related records and links to a changed key', async () => {
+      const authors = authorsWith({ posts: { update: true }, tags: { update: 'cascade' } });
+
+      const result = await authors.update(1, { id: 5 });
+
+      expect(result.success).toBe(true);
+      expect(memory.tables.posts?.map(post => post.authorId)).toEqual([5, 5, 2]);
+      expect(memory.tables.author_tags).toEqual([{ authorId: 5, tagId: 7 }]);
+      // Updates that keep the key leave related records alone
+      expect((await authors.update(5, { name: 'Anna' })).success).toBe(true);
+      expect((await authorsWith({ posts: { update: 'restrict' } }).update(1, { name: 'Anna' })).success).toBe(true);
+    });
+
+    it('should delete matching records one by one when cascade rules apply', async () => {
+      const result = await authorsWith({ posts: { delete: true } }).where('name', 'eq', 'Ann').deleteWhere();
+
+      expect(result).toMatchObject({ success: true, metadata: { affectedCount: 1 } });
+      expect(memory.tables.authors?.map(author => author.id)).toEqual([2]);
+      expect(memory.tables.posts?.map(post => post.id)).toEqual([12]);
+      expect(memory.transactions).toEqual(['begin', 'commit']);
+    });
+
+    it('should refuse key changes with restrict', async () => {
+      const result = await authorsWith({ posts: { update: 'restrict' } }).update(2, { id: 3 });
+
+      expect(result.errors?.[0]?.code).toBe('UPDATE_RESTRICTED');
+      expect(memory.tables.authors?.map(author => author.id)).toEqual([1, 2]);
+    });
+
+    it('should run namespace transactions with references to records created earlier', async () => {
+      authorsWith({});
+
+      const result = await namespace.executeTransaction([
+        { type: 'create', entity: 'authors', data: { name: 'Cy' }, ref: 'cy' },
+        { type: 'create', entity: 'posts', data: { authorId: ref('cy'), title: 'First' }, ref: 'first' },
+        { type: 'update', entity: 'posts', id: ref('first'), data: { title: ref('cy', 'name') } },
+        { type: 'delete', entity: 'posts', id: 12 }
+      ]);
+
+      expect(result).toMatchObject({ success: true, metadata: { operationCount: 4, rolledBack: false } });
+      expect(result.results.map(operation => operation.id)).toEqual([3, 13, 13, 12]);
+      expect(memory.tables.posts?.map(post => [post.id, post.authorId, post.title])).toEqual([[10, 1, 'Hello'], [11, 1, 'Again'], [13, 3, 'Cy']]);
+      expect(memory.transactions).toEqual(['begin', 'commit']);
+    });
+
+    it('should roll a namespace transaction back when an operation fails', async () => {
+      authorsWith({ posts: { delete: 'restrict' } });
+
+      const result = await namespace.executeTransaction([
+        { type: 'create', entity: 'authors', data: { name: 'Cy' } },
+        { type: 'delete', entity: 'authors', id: 1 },
+        { type: 'update', entity: 'authors', id: 2, data: { name: 'Bo' } }
+      ]);
+
+      expect(result).toMatchObject({ success: false, metadata: { operationCount: 2, rolledBack: true } });
+      expect(result.errors?.[0]).toMatchObject({ code: 'TRANSACTION_FAILED', details: { index: 1 } });
+      expect(result.results.map(operation => [operation.success, operation.errors?.[0]?.code])).toEqual([
+        [false, 'TRANSACTION_ABORTED'], [false, 'DELETE_RESTRICTED'], [false, 'TRANSACTION_ABORTED']
+      ]);
+      expect(memory.transactions).toEqual(['begin', 'rollback']);
+      expect(memory.tables.authors?.map(author => author.name)).toEqual(['Ann', 'Bob']);
+    });
+
+    it('should send namespace transactions to HTTP providers as one changeset', async () => {
+      authorsWith({});
+      const http = new HTTPODataProvider('https://example.com/odata');
+      namespace.setProvider(http);
+      const requestSpy = vi.spyOn(http, 'makeRequest').mockImplementation(async (_path: string, options: any = {}) => ({
+        success: true,
+        data: { responses: options.body.requests.map((request: any) => ({ id: request.id, status: 201, headers: { location: `${request.url}(${Number(request.id) + 20})` } })) }
+      }));
+      const created: unknown[] = [];
+      namespace.registerHooks('posts', {
+        beforeCreate: data => {
+          if (data.title === 'Spam') {
+            throw { code: 'SPAM', message: 'Looks like spam', severity: 'error', actionable: true };
+          }
+          return { ...data, title: String(data.title).trim() };
+        },
+        afterCreate: (_record, context) => { created.push(context.id); }
+      });
+
+      const result = await namespace.executeTransaction([
+        { type: 'create', entity: 'authors', data: { name: 'Cy' }, ref: 'cy' },
+        { type: 'create', entity: 'posts', data: { authorId: ref('cy'), title: ' First ' } }
+      ]);
+
+      expect(result).toMatchObject({ success: true, metadata: { operationCount: 2, rolledBack: false } });
+      expect(result.results.map(operation => operation.id)).toEqual([20, 21]);
+      // The entity's hooks prepare the request and run again once the service applied it
+      expect(requestSpy.mock.calls[0]?.[1]?.body.requests[1]).toMatchObject({ url: 'posts', body: { title: 'First', 'author@odata.bind': '$0' }, dependsOn: ['0'] });
+      expect(created).toEqual([21]);
+
+      const rejected = await namespace.executeTransaction([
+        { type: 'create', entity: 'authors', data: { name: 'Cy' }, ref: 'cy' },
+        { type: 'create', entity: 'posts', data: { authorId: ref('cy'), title: 'Spam' } }
+      ]);
+      expect(rejected.results.map(operation => operation.errors?.[0]?.code)).toEqual(['TRANSACTION_ABORTED', 'SPAM']);
+      expect(requestSpy).toHaveBeenCalledTimes(1);
+
+      // Changesets only reach created records through their id
+      const unsupported = await namespace.executeTransaction([
+        { type: 'create', entity: 'authors', data: { name: 'Cy' }, ref: 'cy' },
+        { type: 'create', entity: 'posts', data: { title: ref('cy', 'name') } }
+      ]);
+      expect(unsupported.errors?.[0]?.code).toBe('TRANSACTION_REFERENCE_UNSUPPORTED');
+      expect(requestSpy).toHaveBeenCalledTimes(1);
+
+      authorsWith({ posts: { delete: true } });
+      namespace.setProvider(http);
+      const cascading = await namespace.executeTransaction([{ type: 'delete', entity: 'authors', id: 1 }]);
+      expect(cascading.errors?.[0]?.code).toBe('TRANSACTION_CASCADE_UNSUPPORTED');
+    });
+
+    it('should refuse namespace transactions that reference records no earlier operation creates', async () => {
+      authorsWith({});
+
+      const result = await namespace.executeTransaction([
+        { type: 'create', entity: 'posts', data: { authorId: ref('cy'), title: 'Early' } },
+        { type: 'create', entity: 'authors', data: { name: 'Cy' }, ref: 'cy' }
+      ]);
+
+      expect(result).toMatchObject({ success: false, metadata: { operationCount: 0, rolledBack: false } });
+      expect(result.errors?.[0]).toMatchObject({ code: 'INVALID_TRANSACTION', details: { index: 0 } });
+      expect(memory.transactions).toEqual([]);
+    });
+  });
+
+  describe('Lambda Filters', () => {
+    interface Ticket { id: number; title: string; tags: string[]; }
+    interface Comment { id: number; ticketId: number; votes: number; }
+
+    const ticketSchema: IEntitySchema<Ticket> = {
+      name: 'tickets',
+      fields: {
+        id: { name: 'id', type: 'number', primary: true },
+        title: { name: 'title', type: 'string' },
+        tags: { name: 'tags', type: 'array' }
+      },
+      relations: [
+        { name: 'comments', sourceEntity: 'tickets', targetEntity: 'comments', sourceField: 'id', targetField: 'ticketId', type: 'one-to-many' }
+      ]
+    };
+
+    const commentSchema: IEntitySchema<Comment> = {
+      name: 'comments',
+      fields: {
+        id: { name: 'id', type: 'number', primary: true },
+        ticketId: { name: 'ticketId', type: 'number' },
+        votes: { name: 'votes', type: 'number' }
+      }
+    };
+
+    let namespace: EntityNamespace;
+
+    beforeEach(() => {
+      namespace = new EntityNamespace('support', dataTypeHandler, provider);
+      namespace.registerEntity('tickets', ticketSchema);
+      namespace.registerEntity('comments', commentSchema);
+    });
+
+    it('should filter array fields element by element', async () => {
+      await namespace.getEntity<Ticket>('tickets')!
+        .where(any('tags', t => t.or(t.eq('urgent'), t.startswith('p1'))))
+        .orWhere(all('tags', t => t.ne('spam')))
+        .find();
+
+      expect(provider.lastQuery?.filter?.children).toEqual([
+        {
+          field: 'tags', operator: 'eq', value: null,
+          lambda: {
+            operator: 'any',
+            variable: 't',
+            condition: {
+              field: '', operator: 'eq', value: null, logicalOperator: 'or',
+              children: [{ field: 't', operator: 'eq', value: 'urgent' }, { field: 't', operator: 'startswith', value: 'p1' }]
+            }
+          }
+        },
+        { field: 'tags', operator: 'eq', value: null, lambda: { operator: 'all', variable: 't', condition: { field: 't', operator: 'ne', value: 'spam' } } }
+      ]);
+    });
+
+    it('should join one-to-many relations and convert values to the related field types', async () => {
+      await namespace.getEntity<Ticket>('tickets')!.where(any('comments', c => c.field('votes').gt('10'))).find();
+
+      expect(provider.lastQuery?.filter).toEqual({
+        field: 'comments', operator: 'eq', value: null,
+        lambda: {
+          operator: 'any',
+          variable: 'c',
+          condition: { field: 'c/votes', operator: 'gt', value: 10 },
+          targetEntity: 'comments',
+          sourceField: 'id',
+          targetField: 'ticketId'
+        }
+      });
+    });
+
+    it('should reject lambdas over single values and unknown related fields', async () => {
+      const tickets = namespace.getEntity<Ticket>('tickets')!;
+
+      const single = await tickets.where(any('title', t => t.eq('x'))).find();
+      expect(single.errors?.[0]?.code).toBe('INVALID_LAMBDA');
+
+      const unknownField = await tickets.where(any('comments', c => c.field('rating').gt(3))).find();
+      expect(unknownField.errors?.[0]).toMatchObject({ code: 'INVALID_FIELD', message: expect.stringContaining('c/rating') });
+
+      const wholeRecord = await tickets.where(any('comments', c => c.eq(1))).find();
+      expect(wholeRecord.errors?.[0]?.code).toBe('INVALID_FIELD');
+
+      const plainFilter = await tickets.where({ field: 'title', operator: 'eq', value: 'x' }).find();
+      expect(plainFilter.errors?.[0]?.code).toBe('INVALID_CONDITION');
+    });
+  });
+
+  describe('Field Validation', () => {
+    it('should validate existing fields', () => {
+      expect(activeRecord.validateField('name')).toBe(true);
+      expect(activeRecord.validateField('email')).toBe(true);
+      expect(activeRecord.validateField('age')).toBe(true);
+    });
+
+    it('should reject non-existent fields', () => {
+      expect(activeRecord.validateField('nonExistent' as keyof TestEntity)).toBe(false);
+    });
+
+    it('should get schema correctly', () => {
+      const schema = activeRecord.getSchema();
+      expect(schema).toBe(testSchema);
+    });
+  });
+
+  describe('Data Type Handling', () => {
+    it('should auto-convert data types when creating', async () => {
+      const result = await activeRecord.create({
+        name: 'John Doe',
+        email: 'john@example.com',
+        age: '25', // String that should be converted to number
+        isActive: 'true', // String that should be converted to boolean
+        createdAt: '2024-01-01T00:00:00.000Z' // String that should be converted to Date
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBeDefined();
+      if (result.data) {
+        expect(typeof result.data.age).toBe('number');
+        expect(typeof result.data.isActive).toBe('boolean');
+        expect(result.data.createdAt).toBeInstanceOf(Date);
+      }
+    });
+
+    it('should handle validation errors gracefully', async () => {
+      const result = await activeRecord.create({
+        name: '', // Empty string should fail validation
+        email: 'invalid-email', // Invalid email should fail validation
+        age: 'not-a-number' // Invalid number should fail validation
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toBeDefined();
+      expect(result.errors?.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Validation Rules', () => {
+    interface Event { title: string; code: string; }
+
+    const eventSchema: IEntitySchema<Event> = {
+      name: 'Event',
+      fields: {
+        title: {
+          name: 'title',
+          type: 'string',
+          nullable: true,
+          validation: [{ name: 'titleRequired', type: 'required', message: 'Title is required' }]
+        },
+        code: {
+          name: 'code',
+          type: 'string',
+          nullable: true,
+          validation: [{
+            name: 'codeAvailable',
+            type: 'custom',
+            message: 'Event code is already taken',
+            validator: async value => value !== 'ABC-1'
+          }]
+        }
+      }
+    };
+
+    let events: ActiveRecord<Event>;
+
+    beforeEach(() => {
+      events = new ActiveRecord<Event>(eventSchema, dataTypeHandler, provider);
+    });
+
+    it('should refuse writes that fail validation without calling the provider', async () => {
+      const result = await events.create({ title: 'Launch', code: 'ABC-1' });
+
+      expect(result.errors?.[0]).toMatchObject({ code: 'CUSTOM_VALIDATION_FAILED', field: 'code', rule: 'codeAvailable' });
+      expect(provider.rows).toHaveLength(0);
+    });
+
+    it('should validate updates as partial writes', async () => {
+      const created = await events.create({ code: 'XYZ-1' });
+      expect(created.errors?.[0]).toMatchObject({ code: 'REQUIRED_FIELD', field: 'title', rule: 'titleRequired' });
+
+      const updated = await events.update(1, { code: 'XYZ-1' });
+      expect(updated.errors ?? []).toEqual([]);
+    });
+  });
+
+  describe('Soft Delete', () => {
+    let users: ActiveRecord<TestEntity & { deletedAt: Date | null }>;
+
+    beforeEach(async () => {
+      users = new ActiveRecord(
+        {
+          ...testSchema,
+          fields: { ...testSchema.fields, deletedAt: { name: 'deletedAt', type: 'date', nullable: true } },
+          softDelete: { field: 'deletedAt' }
+        } as IEntitySchema<TestEntity & { deletedAt: Date | null }>,
+        dataTypeHandler,
+        provider
+      );
+      await users.create({ name: 'Ann', email: 'ann@example.com', deletedAt: null });
+    });
+
+    it('should stamp the field instead of removing the record', async () => {
+      const result = await users.delete(1);
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.deleted).toBe(true);
+      expect(provider.rows).toHaveLength(1);
+      expect(provider.rows[0]?.deletedAt).toBeInstanceOf(Date);
+    });
+
+    it('should exclude soft-deleted records unless asked for them', async () => {
+      await users.where('name', 'eq', 'Ann').find();
+      expect(provider.lastQuery?.filter?.children).toEqual([
+        { field: 'name', operator: 'eq', value: 'Ann' },
+        { field: 'deletedAt', operator: 'eq', value: null }
+      ]);
+
+      await users.withTrashed().find();
+      expect(provider.lastQuery?.filter).toBeUndefined();
+
+      await users.onlyTrashed().find();
+      expect(provider.lastQuery?.filter).toEqual({ field: 'deletedAt', operator: 'ne', value: null });
+    });
+
+    it('should restore and force delete records', async () => {
+      await users.delete(1);
+      const restored = await users.restore(1);
+
+      expect(restored.success).toBe(true);
+      expect(provider.rows[0]?.deletedAt).toBeNull();
+
+      await users.forceDelete(1);
+      expect(provider.rows).toHaveLength(0);
+    });
+
+    it('should require soft delete for onlyTrashed and restore', async () => {
+      const trashed = await activeRecord.onlyTrashed().find();
+      expect(trashed.errors?.[0]?.code).toBe('SOFT_DELETE_DISABLED');
+
+      const restored = await activeRecord.restore(1);
+      expect(restored.errors?.[0]?.code).toBe('SOFT_DELETE_DISABLED');
+    });
+  });
+
+  describe('Cursor Pagination', () => {
+    it('should pass the page token and break ties on the primary key', async () => {
+      await activeRecord.orderBy('name', 'desc').after('token-1').limit(10).find();
+
+      expect(provider.lastQuery?.pagination).toEqual({ cursor: 'token-1', take: 10 });
+      expect(provider.lastQuery?.orderBy).toEqual([
+        { field: 'name', direction: 'desc' },
+        { field: 'id', direction: 'asc' }
+      ]);
+    });
+
+    it('should run a first page through paginate and keep plain queries unchanged', async () => {
+      const executeSpy = vi.spyOn(provider, 'executeQuery').mockResolvedValueOnce({
+        data: [{ id: 1, name: 'Ann' }],
+        success: true,
+        metadata: { count: 2, executionTime: 1, cacheStatus: 'miss', hasMore: true, nextPageToken: 'next' }
+      });
+
+      const page = await activeRecord.paginate({ limit: 1 });
+      expect(page.metadata).toMatchObject({ hasMore: true, nextPageToken: 'next' });
+      expect(executeSpy.mock.calls[0]?.[1]).toEqual({
+        pagination: { take: 1 },
+        orderBy: [{ field: 'id', direction: 'asc' }]
+      });
+
+      await activeRecord.limit(1).find();
+      expect(provider.lastQuery?.orderBy).toBeUndefined();
+    });
+  });
+
+  describe('Full-Text Search', () => {
+    it('should search the schema\'s searchable fields', async () => {
+      const posts = new ActiveRecord<TestEntity>(
+        {
+          ...testSchema,
+          fields: { ...testSchema.fields, name: { ...testSchema.fields.name, astro: { searchable: true } } }
+        },
+        dataTypeHandler,
+        provider
+      );
+
+      await posts.search('  ann  ').find();
+      expect(provider.lastQuery).toEqual({ search: 'ann', searchFields: ['name'] });
+
+      await posts.search('ann', { fields: ['email'] }).find();
+      expect(provider.lastQuery?.searchFields).toEqual(['email']);
+    });
+
+    it('should prefer fulltext index fields and validate explicit fields', async () => {
+      const posts = new ActiveRecord<TestEntity>(
+        { ...testSchema, indexes: [{ name: 'search', type: 'fulltext', fields: ['name', 'email'] }] },
+        dataTypeHandler,
+        provider
+      );
+
+      await posts.search('ann').find();
+      expect(provider.lastQuery?.searchFields).toEqual(['name', 'email']);
+
+      const result = await posts.search('ann', { fields: ['nickname' as keyof TestEntity] }).find();
+      expect(result.errors?.[0]?.code).toBe('INVALID_FIELDS');
+    });
+  });
+
+  describe('Aggregation', () => {
+    it('should send groupBy and aggregates as the apply section', async () => {
+      vi.spyOn(provider, 'executeQuery').mockResolvedValueOnce({
+        data: [{ name: 'Ann', total: 60, oldest: 40 }],
+        success: true,
+        metadata: { count: 1, executionTime: 1, cacheStatus: 'miss' }
+      });
+
+      const result = await activeRecord
+        .where('isActive', 'eq', true)
+        .groupBy('name')
+        .orderBy('name')
+        .aggregate({ total: sum('age'), oldest: max('age'), people: count() });
+
+      expect(result.success).toBe(true);
+      expect(result.data[0]?.total).toBe(60);
+      expect(provider.executeQuery).toHaveBeenCalledWith('TestEntity', {
+        filter: { field: 'isActive', operator: 'eq', value: true },
+        orderBy: [{ field: 'name', direction: 'asc' }],
+        apply: {
+          groupBy: ['name'],
+          aggregate: {
+            total: { fn: 'sum', field: 'age' },
+            oldest: { fn: 'max', field: 'age' },
+            people: { fn: 'count' }
+          }
+        }
+      });
+    });
+
+    it('should reject unknown aggregate fields', async () => {
+      const result = await activeRecord.aggregate({ total: sum('salary') });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toMatchObject({ code: 'INVALID_FIELD', field: 'salary' });
+    });
+  });
+
+  describe('Streaming', () => {
+    it('should page through executeQuery when the provider cannot stream', async () => {
+      provider.rows = [{ id: 2, name: 'Bob' }];
+      const executeSpy = vi.spyOn(provider, 'executeQuery')
+        .mockResolvedValueOnce({
+          data: [{ id: 1, name: 'Ann' }] as any,
+          success: true,
+          metadata: { count: 2, executionTime: 1, cacheStatus: 'miss', hasMore: true, nextPageToken: 'page-2' }
+        });
+
+      const names: unknown[] = [];
+      for await (const user of activeRecord.where('age', 'gt', 18).stream()) {
+        names.push(user.name);
+      }
+
+      expect(names).toEqual(['Ann', 'Bob']);
+      expect(executeSpy).toHaveBeenCalledTimes(2);
+      expect(executeSpy.mock.calls[1]?.[1]).toMatchObject({
+        filter: { field: 'age', operator: 'gt', value: 18 },
+        pagination: { cursor: 'page-2', take: 100 }
+      });
+    });
+
+    it('should start paging after the page token of a stream', async () => {
+      provider.rows = [{ id: 3, name: 'Cy' }];
+
+      const names: unknown[] = [];
+      for await (const user of activeRecord.after('page-2').stream()) {
+        names.push(user.name);
+      }
+
+      expect(names).toEqual(['Cy']);
+      expect(provider.lastQuery?.pagination).toEqual({ cursor: 'page-2', take: 100 });
+    });
+
+    it('should stop reading from the provider when the loop breaks', async () => {
+      let closed = false;
+      const streamingProvider = Object.assign(provider, {
+        async *streamQuery() {
+          try {
+            yield { id: 1, name: 'Ann' };
+            yield { id: 2, name: 'Bob' };
+          } finally {
+            closed = true;
+          }
+        }
+      });
+      const users = new ActiveRecord<TestEntity>(testSchema, dataTypeHandler, streamingProvider);
+
+      for await (const user of users.stream()) {
+        expect(user.name).toBe('Ann');
+        break;
+      }
+
+      expect(closed).toBe(true);
+    });
 
-  handleTimezone(date: Date): Date {
-    return date;
-  }
+    it('should throw query errors when iterated', async () => {
+      const stream = new ActiveRecord<TestEntity>(testSchema, dataTypeHandler).stream();
 
-  isValidDate(value: unknown): boolean {
-    return this.parseDate(value) !== null;
-  }
+      await expect(stream[Symbol.asyncIterator]().next()).rejects.toMatchObject({ code: 'NO_PROVIDER' });
+    });
+  });
 
-  parseNumber(value: unknown): number | null {
-    if (typeof value === 'number') return value;
-    if (typeof value === 'string') {
-      if (value.trim() === '') return null;
-      const num = Number(value);
-      return isNaN(num) ? null : num;
+  describe('Computed Fields', () => {
+    interface ComputedEntity extends TestEntity {
+      ageInMonths: number;
+      label: string;
     }
-    return null;
-  }
 
-  formatCurrency(amount: number): string {
-    return `$${amount.toFixed(2)}`;
-  }
+    const computedSchema = {
+      ...testSchema,
+      computed: [
+        { name: 'ageInMonths', expression: 'age mul 12', resultType: 'number' },
+        { name: 'label', expression: "concat(toupper(name), concat(' <', concat(email, '>')))", resultType: 'string' }
+      ]
+    } as IEntitySchema<ComputedEntity>;
 
-  handlePrecision(value: number): number {
-    return Math.round(value * 100) / 100;
-  }
+    it('should compute fields the provider did not return', async () => {
+      provider.rows = [{ id: 1, name: 'ann', email: 'ann@example.com', age: 2 }];
+      const users = new ActiveRecord<ComputedEntity>(computedSchema, dataTypeHandler, provider);
 
-  isValidNumber(value: unknown): boolean {
-    return this.parseNumber(value) !== null;
-  }
+      const result = await users.find();
 
-  sanitizeString(value: unknown): string {
-    return String(value).trim();
-  }
+      expect(result.data[0]).toMatchObject({ ageInMonths: 24, label: 'ANN <ann@example.com>' });
+      expect(provider.lastQuery?.compute?.map(field => field.name)).toEqual(['ageInMonths', 'label']);
+    });
 
-  validateEmail(email: string): boolean {
-    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-  }
+    it('should accept computed fields in where, orderBy and select', async () => {
+      const users = new ActiveRecord<ComputedEntity>(computedSchema, dataTypeHandler, provider);
 
-  truncateString(value: string, maxLength: number): string {
-    return value.length > maxLength ? value.substring(0, maxLength) + '...' : value;
-  }
+      const result = await users.select('id', 'label').where('ageInMonths', 'gt', '240').orderBy('label').find();
 
-  isValidString(value: unknown): boolean {
-    return typeof value === 'string' || typeof value === 'number';
-  }
+      expect(result.success).toBe(true);
+      expect(provider.lastQuery?.filter).toEqual({ field: 'ageInMonths', operator: 'gt', value: 240 });
+      expect(provider.lastQuery?.compute?.map(field => field.name)).toEqual(['ageInMonths', 'label']);
 
-  parseBoolean(value: unknown): boolean {
-    if (typeof value === 'boolean') return value;
-    if (typeof value === 'string') {
-      const lower = value.toLowerCase();
-      return lower === 'true' || lower === '1' || lower === 'yes';
-    }
-    if (typeof value === 'number') return value !== 0;
-    return false;
-  }
+      await users.select('id', 'name').find();
+      expect(provider.lastQuery?.compute).toBeUndefined();
+    });
 
-  isValidBoolean(value: unknown): boolean {
-    if (typeof value === 'boolean') return true;
-    if (typeof value === 'string') {
-      const lower = value.toLowerCase();
-      return lower === 'true' || lower === 'false' || lower === '1' || lower === '0' || lower === 'yes' || lower === 'no';
-    }
-    if (typeof value === 'number') return value === 0 || value === 1;
-    return false;
-  }
+    it('should keep cached values until cacheTtl expires or the record is written', async () => {
+      provider.rows = [{ id: 1, name: 'ann', email: 'ann@example.com', age: 2 }];
+      const users = new ActiveRecord<ComputedEntity>(
+        { ...computedSchema, computed: [{ name: 'ageInMonths', expression: 'age mul 12', resultType: 'number', cached: true, cacheTtl: 60 }] },
+        dataTypeHandler,
+        provider
+      );
+      const now = vi.spyOn(Date, 'now').mockReturnValue(0);
 
-  parseJSON(value: unknown): unknown {
-    if (typeof value === 'string') {
-      try {
-        return JSON.parse(value);
-      } catch {
-        return null;
-      }
-    }
-    return value;
-  }
+      expect((await users.find()).data[0]?.ageInMonths).toBe(24);
+      expect(provider.lastQuery?.compute).toBeUndefined();
 
-  isValidJSON(value: unknown): boolean {
-    return this.parseJSON(value) !== null;
-  }
+      provider.rows[0]!.age = 3;
+      expect((await users.find()).data[0]?.ageInMonths).toBe(24);
 
-  stringifyJSON(value: unknown): string {
-    return JSON.stringify(value);
-  }
+      now.mockReturnValue(61_000);
+      expect((await users.find()).data[0]?.ageInMonths).toBe(36);
 
-  validateArray(value: unknown): unknown[] {
-    if (Array.isArray(value)) return value;
-    return [];
-  }
+      await users.update(1, { age: 4 });
+      expect((await users.find()).data[0]?.ageInMonths).toBe(48);
+      now.mockRestore();
+    });
 
-  isValidArray(value: unknown): boolean {
-    return Array.isArray(value);
-  }
+    it('should reject invalid computed expressions', async () => {
+      const users = new ActiveRecord<ComputedEntity>(
+        { ...computedSchema, computed: [{ name: 'label', expression: 'nickname add', resultType: 'string' }] },
+        dataTypeHandler,
+        provider
+      );
 
-  autoConvert(value: unknown, targetType?: string): unknown {
-    if (targetType) {
-      switch (targetType) {
-        case 'date': return this.parseDate(value);
-        case 'number': return this.parseNumber(value);
-        case 'boolean': return this.parseBoolean(value);
-        case 'json': return this.parseJSON(value);
-        case 'array': return this.validateArray(value);
-        case 'string': return this.sanitizeString(value);
-      }
-    }
+      const result = await users.find();
 
-    if (this.isValidArray(value)) return this.validateArray(value);
-    if (this.isValidJSON(value)) return this.parseJSON(value);
-    if (this.isValidNumber(value)) return this.parseNumber(value);
-    if (this.isValidBoolean(value)) return this.parseBoolean(value);
-    if (this.isValidDate(value)) return this.parseDate(value);
-    
-    return this.sanitizeString(value);
-  }
-}
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toMatchObject({ code: 'INVALID_EXPRESSION', field: 'label' });
+      expect(result.errors?.[0]?.message).toContain('at position 12');
+    });
+  });
 
-describe('ActiveRecord', () => {
-  let activeRecord: ActiveRecord<TestEntity>;
-  let dataTypeHandler: IDataTypeHandler;
+  describe('Optimistic Concurrency', () => {
+    let users: ActiveRecord<TestEntity & { version: number }>;
 
-  beforeEach(() => {
-    dataTypeHandler = new MockDataTypeHandler();
-    activeRecord = new ActiveRecord<TestEntity>(testSchema, dataTypeHandler);
-  });
+    beforeEach(async () => {
+      users = new ActiveRecord(
+        {
+          ...testSchema,
+          fields: { ...testSchema.fields, version: { name: 'version', type: 'number', nullable: true, concurrency: 'version' } }
+        } as IEntitySchema<TestEntity & { version: number }>,
+        dataTypeHandler,
+        provider
+      );
+      await users.create({ name: 'Ann', email: 'ann@example.com', version: 1 });
+    });
 
-  describe('Basic Query Building', () => {
-    it('should build a simple where query', () => {
-      const query = activeRecord.where('name', 'eq', 'John');
-      expect(query).toBe(activeRecord); // Should return self for chaining
+    it('should bump the version when the expected token matches', async () => {
+      const result = await users.update(1, { name: 'Anna' }, { expected: 1 });
+
+      expect(result.success).toBe(true);
+      expect(provider.rows[0]).toMatchObject({ name: 'Anna', version: 2 });
     });
 
-    it('should build a select query', () => {
-      const query = activeRecord.select('name', 'email');
-      expect(query).toBe(activeRecord);
+    it('should reject writes made with a stale token', async () => {
+      const updated = await users.update(1, { name: 'Anna' }, { expected: 0 });
+      expect(updated.success).toBe(false);
+      expect(updated.errors?.[0]?.code).toBe('CONCURRENCY_CONFLICT');
+      expect(provider.rows[0]?.name).toBe('Ann');
+
+      const deleted = await users.delete(1, { expected: 0 });
+      expect(deleted.errors?.[0]?.code).toBe('CONCURRENCY_CONFLICT');
+      expect(provider.rows).toHaveLength(1);
     });
 
-    it('should build an orderBy query', () => {
-      const query = activeRecord.orderBy('name', 'asc');
-      expect(query).toBe(activeRecord);
+    it('should write unconditionally but still move the version on when no token is given', async () => {
+      const updateSpy = vi.spyOn(provider, 'update');
+
+      await users.update(1, { name: 'Anna' });
+
+      expect(provider.rows[0]?.version).toBe(2);
+      // Nothing was supplied to compare against, so nothing is presented as a guard
+      expect(updateSpy.mock.calls[0]?.[3]).toEqual({});
+      updateSpy.mockRestore();
     });
 
-    it('should build a limit query', () => {
-      const query = activeRecord.limit(10);
-      expect(query).toBe(activeRecord);
+    it('should move the version on and guard with the token when restoring', async () => {
+      const trashable = new ActiveRecord(
+        {
+          ...testSchema,
+          fields: {
+            ...testSchema.fields,
+            version: { name: 'version', type: 'number', nullable: true, concurrency: 'version' },
+            deletedAt: { name: 'deletedAt', type: 'date', nullable: true }
+          },
+          softDelete: { field: 'deletedAt' }
+        } as IEntitySchema<TestEntity & { version: number; deletedAt: Date | null }>,
+        dataTypeHandler,
+        provider
+      );
+      await trashable.delete(1, { expected: 1 });
+      expect(provider.rows[0]?.version).toBe(2);
+
+      const stale = await trashable.restore(1, { expected: 1 });
+      expect(stale.errors?.[0]?.code).toBe('CONCURRENCY_CONFLICT');
+      expect(provider.rows[0]?.deletedAt).toBeInstanceOf(Date);
+
+      const restored = await trashable.restore(1, { expected: 2 });
+      expect(restored.success).toBe(true);
+      expect(provider.rows[0]).toMatchObject({ deletedAt: null, version: 3 });
     });
 
-    it('should build an offset query', () => {
-      const query = activeRecord.offset(5);
-      expect(query).toBe(activeRecord);
+    it('should detect conflicts between two loaded models', async () => {
+      const [first] = (await users.find()).data ?? [];
+      const [second] = (await users.find()).data ?? [];
+
+      first!.name = 'First';
+      expect((await first!.save()).success).toBe(true);
+
+      second!.name = 'Second';
+      const result = await second!.save();
+      expect(result.errors?.[0]?.code).toBe('CONCURRENCY_CONFLICT');
+      expect(provider.rows[0]).toMatchObject({ name: 'First', version: 2 });
     });
   });
 
-  describe('Field Validation', () => {
-    it('should validate existing fields', () => {
-      expect(activeRecord.validateField('name')).toBe(true);
-      expect(activeRecord.validateField('email')).toBe(true);
-      expect(activeRecord.validateField('age')).toBe(true);
+  describe('Scopes', () => {
+    const scopedSchema: IEntitySchema<TestEntity> = {
+      ...testSchema,
+      scopes: {
+        active: q => q.where('isActive', 'eq', true),
+        olderThan: (q, age: number) => q.where('age', 'gt', age).orderBy('age', 'desc'),
+        named: (q, first: string, second: string) => q.where('name', 'eq', first).orWhere('name', 'eq', second),
+        activeAdults: q => q.scope('active').scope('olderThan', 17)
+      }
+    };
+
+    let users: ActiveRecord<TestEntity>;
+
+    beforeEach(() => {
+      users = new ActiveRecord<TestEntity>(scopedSchema, dataTypeHandler, provider);
     });
 
-    it('should reject non-existent fields', () => {
-      expect(activeRecord.validateField('nonExistent' as keyof TestEntity)).toBe(false);
+    it('should compose scopes with where and orderBy', async () => {
+      await users.scope('active').scope('olderThan', 30).where('name', 'eq', 'Ann').orderBy('name').find();
+
+      expect(provider.lastQuery?.filter).toEqual({
+        field: '',
+        operator: 'eq',
+        value: null,
+        logicalOperator: 'and',
+        children: [
+          { field: 'isActive', operator: 'eq', value: true },
+          { field: 'age', operator: 'gt', value: 30 },
+          { field: 'name', operator: 'eq', value: 'Ann' }
+        ]
+      });
+      expect(provider.lastQuery?.orderBy).toEqual([
+        { field: 'age', direction: 'desc' },
+        { field: 'name', direction: 'asc' }
+      ]);
     });
 
-    it('should get schema correctly', () => {
-      const schema = activeRecord.getSchema();
-      expect(schema).toBe(testSchema);
+    it('should keep OR conditions inside a scope grouped', async () => {
+      await users.where('isActive', 'eq', true).scope('named', 'Ann', 'Bob').find();
+
+      const filter = provider.lastQuery?.filter;
+      expect(filter?.logicalOperator).toBe('and');
+      expect(filter?.children?.[1]).toMatchObject({ logicalOperator: 'or' });
+    });
+
+    it('should let scopes build on other scopes', async () => {
+      await users.scope('activeAdults').find();
+
+      expect(provider.lastQuery?.filter?.children).toEqual([
+        { field: 'isActive', operator: 'eq', value: true },
+        { field: 'age', operator: 'gt', value: 17 }
+      ]);
+    });
+
+    it('should report unknown scopes', async () => {
+      const result = await users.scope('archived').find();
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]?.code).toBe('UNKNOWN_SCOPE');
+      expect(result.errors?.[0]?.suggestion).toContain('olderThan');
+    });
+
+    it('should apply the default scope unless unscoped() is called', async () => {
+      users = new ActiveRecord<TestEntity>(
+        { ...scopedSchema, defaultScope: q => q.where('isActive', 'eq', true) },
+        dataTypeHandler,
+        provider
+      );
+
+      await users.where('name', 'eq', 'Ann').orWhere('name', 'eq', 'Bob').find();
+      expect(provider.lastQuery?.filter).toMatchObject({
+        logicalOperator: 'and',
+        children: [
+          { field: 'isActive', operator: 'eq', value: true },
+          { logicalOperator: 'or' }
+        ]
+      });
+
+      await users.unscoped().where('name', 'eq', 'Ann').find();
+      expect(provider.lastQuery?.filter).toEqual({ field: 'name', operator: 'eq', value: 'Ann' });
+
+      await users.findById(1);
+      expect(provider.lastQuery?.filter?.children?.[0]).toEqual({ field: 'isActive', operator: 'eq', value: true });
     });
   });
 
-  describe('Data Type Handling', () => {
-    it('should auto-convert data types when creating', () => {
-      const result = activeRecord.create({
-        name: 'John Doe',
-        email: 'john@example.com',
-        age: '25', // String that should be converted to number
-        isActive: 'true', // String that should be converted to boolean
-        createdAt: '2024-01-01T00:00:00.000Z' // String that should be converted to Date
+  describe('Lifecycle Hooks', () => {
+    let namespace: EntityNamespace;
+    let users: ActiveRecord<TestEntity>;
+
+    beforeEach(() => {
+      namespace = new EntityNamespace('app', dataTypeHandler, provider);
+      namespace.registerEntity('TestEntity', testSchema);
+      users = namespace.getEntity<TestEntity>('TestEntity')!;
+    });
+
+    it('should let before hooks change the data being written', async () => {
+      namespace.registerHooks<TestEntity>('TestEntity', {
+        beforeCreate: data => ({ ...data, email: `${String(data.name).toLowerCase()}@example.com` }),
+        beforeUpdate: (data, context) => {
+          data.name = `${data.name} #${String(context.id)}`;
+        }
       });
 
-      expect(result.success).toBe(true);
-      expect(result.data).toBeDefined();
-      if (result.data) {
-        expect(typeof result.data.age).toBe('number');
-        expect(typeof result.data.isActive).toBe('boolean');
-        expect(result.data.createdAt).toBeInstanceOf(Date);
-      }
+      const created = await users.create({ name: 'Ann' });
+      expect(provider.rows[0]).toMatchObject({ name: 'Ann', email: 'ann@example.com' });
+
+      await users.update(created.id, { name: 'Ann' });
+      expect(provider.rows[0]?.name).toBe('Ann #1');
     });
 
-    it('should handle validation errors gracefully', () => {
-      const result = activeRecord.create({
-        name: '', // Empty string should fail validation
-        email: 'invalid-email', // Invalid email should fail validation
-        age: 'not-a-number' // Invalid number should fail validation
+    it('should cancel the operation when a hook throws a user-friendly error', async () => {
+      namespace.registerHooks<TestEntity>('TestEntity', {
+        beforeDelete: () => {
+          throw { code: 'DELETE_LOCKED', message: 'Records are locked', severity: 'error', actionable: true };
+        }
       });
 
+      await users.create({ name: 'Ann', email: 'ann@example.com' });
+      const result = await users.delete(1);
+
       expect(result.success).toBe(false);
-      expect(result.errors).toBeDefined();
-      expect(result.errors?.length).toBeGreaterThan(0);
+      expect(result.errors?.[0]?.code).toBe('DELETE_LOCKED');
+      expect(provider.rows).toHaveLength(1);
+    });
+
+    it('should run after hooks in registration order with the hook context', async () => {
+      const calls: string[] = [];
+      namespace.registerHooks<TestEntity>('TestEntity', {
+        afterCreate: (record, context) => { calls.push(`create:${context.namespace}:${String(context.id)}:${record.name}`); },
+        afterDelete: context => { calls.push(`delete:${String(context.id)}`); }
+      });
+      namespace.registerHooks<TestEntity>('TestEntity', {
+        afterCreate: () => { calls.push('second'); }
+      });
+
+      await users.create({ name: 'Ann', email: 'ann@example.com' });
+      await users.delete(1);
+
+      expect(calls).toEqual(['create:app:1:Ann', 'second', 'delete:1']);
+    });
+
+    it('should let afterFind replace the returned records', async () => {
+      await users.create({ name: 'Ann', email: 'ann@example.com' });
+      namespace.registerHooks<TestEntity>('TestEntity', {
+        afterFind: records => records.map(record => ({ ...record, name: record.name.toUpperCase() }))
+      });
+
+      const result = await users.find();
+      expect(result.data[0]?.name).toBe('ANN');
+    });
+
+    it('should not register hooks for unknown entities', () => {
+      expect(namespace.registerHooks('Missing', {})).toBe(false);
+    });
+  });
+
+  describe('Model Instances', () => {
+    beforeEach(async () => {
+      await activeRecord.create({ name: 'Ann', email: 'ann@example.com', age: 30 });
+    });
+
+    it('should return model instances that only expose entity fields', async () => {
+      const user = await activeRecord.findOne();
+
+      expect(user).not.toBeNull();
+      expect({ ...user }).toEqual(provider.rows[0]);
+      expect(JSON.parse(JSON.stringify(user))).toEqual(JSON.parse(JSON.stringify(provider.rows[0])));
+      expect(user!.isDirty()).toBe(false);
+    });
+
+    it('should track changed fields', async () => {
+      const user = (await activeRecord.findOne())!;
+      user.name = 'Bob';
+
+      expect(user.isDirty()).toBe(true);
+      expect(user.isDirty('name')).toBe(true);
+      expect(user.isDirty('email')).toBe(false);
+      expect(user.changes()).toEqual({ name: { from: 'Ann', to: 'Bob' } });
+
+      user.name = 'Ann';
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should save only the changed fields', async () => {
+      const updateSpy = vi.spyOn(provider, 'update');
+      const user = (await activeRecord.findOne())!;
+      user.age = 31;
+
+      const result = await user.save();
+
+      expect(result.success).toBe(true);
+      expect(updateSpy).toHaveBeenCalledWith('TestEntity', 1, { age: 31 }, {});
+      expect(user.isDirty()).toBe(false);
+
+      await user.save();
+      expect(updateSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload and discard unsaved changes', async () => {
+      const user = (await activeRecord.findOne())!;
+      user.name = 'Unsaved';
+      provider.rows[0]!.email = 'ann@elsewhere.com';
+
+      const result = await user.reload();
+
+      expect(result.success).toBe(true);
+      expect(user.name).toBe('Ann');
+      expect(user.email).toBe('ann@elsewhere.com');
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should destroy the record and refuse further saves', async () => {
+      const user = (await activeRecord.findOne())!;
+
+      const destroyed = await user.destroy();
+      expect(destroyed.success).toBe(true);
+      expect(provider.rows).toHaveLength(0);
+
+      user.name = 'Ghost';
+      const saved = await user.save();
+      expect(saved.success).toBe(false);
+      expect(saved.errors?.[0]?.code).toBe('MODEL_DESTROYED');
+    });
+
+    it('should require the primary key to persist changes', async () => {
+      const user = (await activeRecord.select('name').findOne())!;
+      delete (user as Partial<TestEntity>).id;
+      user.name = 'Bob';
+
+      const result = await user.save();
+      expect(result.errors?.[0]).toMatchObject({ code: 'MISSING_PRIMARY_KEY', field: 'id' });
     });
   });
 
@@ -292,6 +1707,310 @@ describe('ActiveRecord', () => {
       const result = await activeRecord.count();
       expect(typeof result).toBe('number');
     });
+
+    it('should run the built query through the provider', async () => {
+      await activeRecord.create({ name: 'John', email: 'john@example.com' });
+
+      const result = await activeRecord
+        .where('name', 'eq', 'John')
+        .orderBy('name', 'asc')
+        .limit(5)
+        .find();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(1);
+      expect(provider.lastEntityName).toBe('TestEntity');
+      expect(provider.lastQuery).toEqual({
+        filter: { field: 'name', operator: 'eq', value: 'John' },
+        orderBy: [{ field: 'name', direction: 'asc' }],
+        pagination: { take: 5 }
+      });
+    });
+
+    it('should start a fresh query after execution', async () => {
+      await activeRecord.where('name', 'eq', 'John').find();
+      await activeRecord.find();
+
+      expect(provider.lastQuery).toEqual({});
+    });
+
+    it('should count using the total count from the provider', async () => {
+      await activeRecord.create({ name: 'A', email: 'a@example.com' });
+      await activeRecord.create({ name: 'B', email: 'b@example.com' });
+
+      expect(await activeRecord.count()).toBe(2);
+      expect(provider.lastQuery?.count).toBe(true);
+    });
+
+    it('should limit findOne to a single record', async () => {
+      await activeRecord.create({ name: 'A', email: 'a@example.com' });
+      await activeRecord.create({ name: 'B', email: 'b@example.com' });
+
+      const record = await activeRecord.findOne();
+      expect(record?.name).toBe('A');
+      expect(provider.lastQuery?.pagination?.take).toBe(1);
+    });
+  });
+
+  describe('Write Operations', () => {
+    it('should update and delete through the provider', async () => {
+      const created = await activeRecord.create({ name: 'John', email: 'john@example.com' });
+
+      const updated = await activeRecord.update(created.id, { age: '31' as any });
+      expect(updated.success).toBe(true);
+      expect(updated.data?.age).toBe(31);
+
+      const deleted = await activeRecord.delete(created.id);
+      expect(deleted.success).toBe(true);
+      expect(deleted.metadata?.affectedCount).toBe(1);
+      expect(provider.rows).toHaveLength(0);
+    });
+
+    it('should apply defaults to fields left out of a create before validation', async () => {
+      const createSpy = vi.spyOn(provider, 'create');
+      const tags: string[] = [];
+      const records = new ActiveRecord<any>(
+        {
+          ...testSchema,
+          fields: {
+            ...testSchema.fields,
+            externalId: { name: 'externalId', type: 'string', nullable: false, defaultValue: uuid() },
+            slug: { name: 'slug', type: 'string', nullable: false, defaultValue: cuid() },
+            displayName: { name: 'displayName', type: 'string', nullable: false, defaultValue: (data: any) => `@${data.name}` },
+            tags: { name: 'tags', type: 'array', nullable: false, defaultValue: tags },
+            invoiceNumber: { name: 'invoiceNumber', type: 'number', nullable: false, defaultValue: sequence({ start: 1000 }) }
+          }
+        },
+        dataTypeHandler,
+        provider
+      );
+
+      const result = await records.create({ name: 'Ann', email: 'ann@example.com', isActive: false });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ isActive: false, displayName: '@Ann', tags: [] });
+      expect(result.data.externalId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(result.data.slug).toMatch(/^c[0-9a-z]{20,}$/);
+      expect(result.data.createdAt).toBeInstanceOf(Date);
+      expect(result.data.tags).not.toBe(tags);
+      expect(createSpy.mock.calls[0]?.[2]).toEqual({
+        sequences: [
+          { field: 'id', sequence: 'TestEntity.id' },
+          { field: 'invoiceNumber', sequence: 'TestEntity.invoiceNumber', start: 1000 }
+        ]
+      });
+    });
+
+    it('should report a missing provider', async () => {
+      const unbound = new ActiveRecord<TestEntity>(testSchema, dataTypeHandler);
+
+      const findResult = await unbound.find();
+      const createResult = await unbound.create({ name: 'John', email: 'john@example.com' });
+
+      expect(findResult.success).toBe(false);
+      expect(findResult.errors?.[0]?.code).toBe('NO_PROVIDER');
+      expect(createResult.success).toBe(false);
+      expect(createResult.errors?.[0]?.code).toBe('NO_PROVIDER');
+
+      unbound.setProvider(provider);
+      expect(unbound.getProvider()).toBe(provider);
+      expect((await unbound.find()).success).toBe(true);
+    });
+  });
+
+  describe('Bulk Operations', () => {
+    // Serves bulk writes over rows matching equality conditions, recording what it receives
+    class BulkProvider extends MockProvider {
+      bulkCalls: unknown[][] = [];
+
+      private matches(row: Record<string, unknown>, filter?: IQuery['filter']): boolean {
+        return !filter || (filter.children
+          ? filter.children.every(child => this.matches(row, child))
+          : row[filter.field] === filter.value);
+      }
+
+      async createMany<T>(entityName: string, rows: Partial<T>[], options?: unknown) {
+        this.bulkCalls.push(['createMany', rows, options]);
+        const created = await Promise.all(rows.map(row => this.create(entityName, row)));
+        return { success: true, data: created.map(result => result.data), ids: created.map(result => result.id), metadata: { executionTime: 1, affectedCount: rows.length } };
+      }
+
+      async updateWhere<T>(entityName: string, query: IQuery, patch: Partial<T>, options?: { increment?: string[] }) {
+        this.bulkCalls.push(['updateWhere', query.filter, patch, options]);
+        const matched = this.rows.filter(row => this.matches(row, query.filter));
+        matched.forEach(row => {
+          Object.assign(row, patch);
+          options?.increment?.forEach(field => { row[field] = Number(row[field] ?? 0) + 1; });
+        });
+        return { success: true, metadata: { executionTime: 1, affectedCount: matched.length } };
+      }
+
+      async deleteWhere(entityName: string, query: IQuery) {
+        this.bulkCalls.push(['deleteWhere', query.filter]);
+        const before = this.rows.length;
+        this.rows = this.rows.filter(row => !this.matches(row, query.filter));
+        return { success: true, metadata: { executionTime: 1, affectedCount: before - this.rows.length } };
+      }
+    }
+
+    let bulk: BulkProvider;
+    beforeEach(() => {
+      bulk = new BulkProvider();
+    });
+
+    it('should validate every row before creating any and report invalid rows by position', async () => {
+      const result = await activeRecord.createMany([
+        { name: 'Ann', email: 'ann@example.com' },
+        { name: '', email: 'bob@example.com' },
+        { name: 'Cid', email: 'cid@example.com' },
+        { name: '', email: 'dee@example.com' }
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.rowErrors?.map(row => row.index)).toEqual([1, 3]);
+      expect(result.rowErrors?.[0]?.errors[0]?.field).toBe('name');
+      expect(provider.rows).toHaveLength(0);
+    });
+
+    it('should create rows in one provider call and run afterCreate per row', async () => {
+      const created: unknown[] = [];
+      const users = new ActiveRecord<TestEntity>(testSchema, dataTypeHandler, bulk)
+        .addHooks({ afterCreate: (record, context) => { created.push([record.name, context.id]); } });
+
+      const result = await users.createMany([
+        { name: 'Ann', email: 'ann@example.com' },
+        { name: 'Bob', email: 'bob@example.com', age: '40' as any }
+      ]);
+
+      expect(result).toMatchObject({ success: true, ids: [1, 2], metadata: { affectedCount: 2 } });
+      expect(bulk.bulkCalls).toEqual([['createMany', [
+        expect.objectContaining({ name: 'Ann' }),
+        expect.objectContaining({ name: 'Bob', age: 40 })
+      ], { sequences: [{ field: 'id', sequence: 'TestEntity.id' }] }]]);
+      expect(created).toEqual([['Ann', 1], ['Bob', 2]]);
+    });
+
+    it('should create rows one by one in a transaction when the provider has no createMany', async () => {
+      const result = await activeRecord.createMany([
+        { name: 'Ann', email: 'ann@example.com' },
+        { name: 'Bob', email: 'bob@example.com' }
+      ]);
+
+      expect(result).toMatchObject({ success: true, ids: [1, 2], metadata: { affectedCount: 2 } });
+      expect(provider.rows.map(row => row.name)).toEqual(['Ann', 'Bob']);
+    });
+
+    it('should update the matching records with one write and bump version tokens', async () => {
+      const users = new ActiveRecord<TestEntity & { version: number }>(
+        {
+          ...testSchema,
+          fields: { ...testSchema.fields, version: { name: 'version', type: 'number', nullable: true, concurrency: 'version' } }
+        } as IEntitySchema<TestEntity & { version: number }>,
+        dataTypeHandler,
+        bulk
+      );
+      bulk.rows = [{ id: 1, name: 'Ann', age: 30, version: 1 }, { id: 2, name: 'Bob', age: 30, version: 4 }, { id: 3, name: 'Cid', age: 50, version: 1 }];
+
+      const result = await users.where('age', 'eq', 30).updateWhere({ isActive: 'false' as any });
+
+      expect(result).toMatchObject({ success: true, metadata: { affectedCount: 2 } });
+      expect(bulk.bulkCalls).toEqual([['updateWhere', { field: 'age', operator: 'eq', value: 30 }, { isActive: false }, { key: 'id', increment: ['version'] }]]);
+      expect(bulk.rows.map(row => row.version)).toEqual([2, 5, 1]);
+    });
+
+    it('should refuse bulk writes on paged, searched or expanded queries', async () => {
+      const users = new ActiveRecord<TestEntity>(testSchema, dataTypeHandler, bulk);
+
+      const limited = await users.where('age', 'eq', 30).limit(10).deleteWhere();
+      const invalid = await users.updateWhere({ name: '' });
+
+      expect(limited.errors?.[0]).toMatchObject({
+        code: 'UNSUPPORTED_BULK_QUERY',
+        message: "deleteWhere() on 'TestEntity' only takes where conditions, not limit(), offset() or after()"
+      });
+      expect(invalid.success).toBe(false);
+      expect(bulk.bulkCalls).toEqual([]);
+      // The refused query is consumed
+      await users.find();
+      expect(bulk.lastQuery?.pagination).toBeUndefined();
+    });
+
+    it('should stamp soft-deleted records through one update and run the delete hooks once', async () => {
+      const contexts: unknown[] = [];
+      const users = new ActiveRecord<TestEntity & { deletedAt: Date | null }>(
+        {
+          ...testSchema,
+          fields: { ...testSchema.fields, deletedAt: { name: 'deletedAt', type: 'date', nullable: true } },
+          softDelete: { field: 'deletedAt' }
+        } as IEntitySchema<TestEntity & { deletedAt: Date | null }>,
+        dataTypeHandler,
+        bulk
+      ).addHooks({ beforeDelete: context => { contexts.push(context); }, afterDelete: context => { contexts.push(context); } });
+      bulk.rows = [{ id: 1, name: 'Ann', deletedAt: null }, { id: 2, name: 'Ann', deletedAt: null }, { id: 3, name: 'Bob', deletedAt: null }];
+
+      const result = await users.where('name', 'eq', 'Ann').deleteWhere();
+
+      expect(result).toMatchObject({ success: true, metadata: { affectedCount: 2 } });
+      expect(bulk.bulkCalls[0]?.[1]).toEqual({
+        field: '', operator: 'eq', value: null, logicalOperator: 'and',
+        children: [{ field: 'name', operator: 'eq', value: 'Ann' }, { field: 'deletedAt', operator: 'eq', value: null }]
+      });
+      expect(bulk.rows.map(row => row.deletedAt instanceof Date)).toEqual([true, true, false]);
+      expect(contexts).toEqual([{ entityName: 'TestEntity', operation: 'delete' }, { entityName: 'TestEntity', operation: 'delete' }]);
+    });
+  });
+
+  describe('Upserts', () => {
+    type Versioned = TestEntity & { version: number };
+    const versionedSchema = {
+      ...testSchema,
+      fields: { ...testSchema.fields, version: { name: 'version', type: 'number', nullable: true, concurrency: 'version' } }
+    } as IEntitySchema<Versioned>;
+
+    it('should hand the conflict keys, updated fields and version token to the provider', async () => {
+      const upsertSpy = vi.fn(async (entityName: string, data: Record<string, unknown>) => ({
+        success: true, data: { ...data, id: 4 }, id: 4, metadata: { executionTime: 1, created: false, updated: true }
+      }));
+      const events: string[] = [];
+      const users = new ActiveRecord<Versioned>(versionedSchema, dataTypeHandler, Object.assign(provider, { upsert: upsertSpy }))
+        .addHooks({
+          beforeCreate: (data, context) => { events.push(`beforeCreate ${context.operation}`); return { ...data, isActive: true }; },
+          beforeUpdate: data => { events.push('beforeUpdate'); return data; },
+          afterCreate: () => { events.push('afterCreate'); },
+          afterUpdate: (record, context) => { events.push(`afterUpdate ${context.operation} ${String(context.id)}`); }
+        });
+
+      const result = await users.upsert({ email: 'ann@example.com', name: 'Ann', age: '31' as any }, { conflictKeys: ['email'] });
+
+      expect(result.metadata).toEqual({ executionTime: 1, created: false, updated: true });
+      expect(upsertSpy.mock.calls[0]?.[1]).toMatchObject({ email: 'ann@example.com', name: 'Ann', age: 31, isActive: true });
+      // Hook additions and defaults only fill new records
+      expect(upsertSpy.mock.calls[0]?.[2]).toEqual({
+        sequences: [{ field: 'id', sequence: 'TestEntity.id' }],
+        conflictKeys: ['email'],
+        update: ['name', 'age'],
+        increment: ['version']
+      });
+      expect(events).toEqual(['beforeCreate upsert', 'afterUpdate upsert 4']);
+    });
+
+    it('should look the record up and create or update it when the provider has no upsert', async () => {
+      const created = await activeRecord.upsert({ email: 'ann@example.com', name: 'Ann', age: 30 }, { conflictKeys: ['email'] });
+      expect(created).toMatchObject({ success: true, id: 1, metadata: { created: true, updated: false } });
+
+      const updated = await activeRecord.upsert({ email: 'ann@example.com', name: 'Anna' }, { conflictKeys: ['email'] });
+      expect(updated).toMatchObject({ success: true, id: 1, metadata: { created: false, updated: true } });
+      expect(provider.rows).toEqual([expect.objectContaining({ id: 1, name: 'Anna', age: 30 })]);
+      expect(provider.lastQuery?.filter).toEqual({ field: 'email', operator: 'eq', value: 'ann@example.com' });
+    });
+
+    it('should require values for the conflict keys', async () => {
+      const result = await activeRecord.upsert({ name: 'Ann' }, { conflictKeys: ['email'] });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toMatchObject({ code: 'UPSERT_KEY_MISSING', field: 'email' });
+      expect(provider.rows).toHaveLength(0);
+    });
   });
 
   describe('Error Handling', () => {
@@ -319,10 +2038,51 @@ describe('ActiveRecord', () => {
     });
   });
 
+  describe('Native Queries', () => {
+    it('should translate the pending query without consuming it', async () => {
+      const http = new HTTPODataProvider('https://example.com/odata');
+      activeRecord.where('age', 'gt', 30).select('name').limit(5);
+
+      const explained = await activeRecord.toNative(http);
+
+      expect(explained.success).toBe(true);
+      expect(explained.native).toEqual({
+        method: 'GET',
+        url: 'https://example.com/odata/TestEntity?$filter=age%20gt%2030&$select=name&$top=5&$count=true'
+      });
+
+      await activeRecord.find();
+      expect(provider.lastQuery).toMatchObject({
+        filter: { field: 'age', operator: 'gt', value: 30 },
+        select: { fields: ['name'] },
+        pagination: { take: 5 }
+      });
+    });
+
+    it('should report builder errors and providers that cannot explain', async () => {
+      const invalid = await activeRecord.where('invalidField' as keyof TestEntity, 'eq', 'value').explain();
+      expect(invalid.success).toBe(false);
+      expect(invalid.errors?.[0]?.code).toBe('INVALID_FIELD');
+
+      const unsupported = await new ActiveRecord<TestEntity>(testSchema, dataTypeHandler, provider).explain();
+      expect(unsupported.success).toBe(false);
+      expect(unsupported.errors?.[0]?.code).toBe('EXPLAIN_NOT_SUPPORTED');
+    });
+  });
+
   describe('Schema Warnings', () => {
     it('should detect schema drift and provide warnings', () => {
       const warnings = activeRecord.getWarnings();
       expect(Array.isArray(warnings)).toBe(true);
     });
+
+    it('should report warnings with the query they were collected for only', async () => {
+      const warning = { type: 'field_missing' as const, field: 'nickname', message: "Field 'nickname' is missing", severity: 'warning' as const };
+      activeRecord.getWarnings().push(warning);
+
+      expect((await activeRecord.where('name', 'eq', 'Ann').find()).warnings).toEqual([warning]);
+      expect(activeRecord.getWarnings()).toEqual([]);
+      expect((await activeRecord.find()).warnings).toEqual([]);
+    });
   });
 });
@@ -12,75 +12,232 @@ import type {
   IValidationResult,
   ICreateResult,
   IUpdateResult,
-  IDeleteResult
+  IDeleteResult,
+  IActiveRecordProvider,
+  IEntityNamespace,
+  IQueryExpand,
+  IEntityHooks,
+  IHookContext,
+  IFieldDefinition,
+  IModelInstance,
+  IQueryBuilder,
+  IQueryScope,
+  IWriteOptions,
+  IAggregateExpression,
+  IComputedFieldDefinition,
+  IExpressionNode,
+  IQueryCompute,
+  ICreateOptions,
+  ISequenceField,
+  IExplainOptions,
+  IExplainResult,
+  IRelationDefinition,
+  ILinkChange,
+  ILinkResult,
+  IBulkResult,
+  IBulkRowError,
+  IUpsertOptions,
+  IUpsertResult
 } from 'odata-active-record-contracts';
+import { ValidationEngine } from './validation-engine';
+import { Model } from './model';
+import type { IAggregateRow } from './aggregates';
+import { parseExpression, evaluateExpression, getExpressionFields } from './expression';
+import { isDefaultGenerator, generateDefault } from './defaults';
+import { getLambdaPaths } from './lambda';
+import { RelationCascade } from './cascade';
+import { runInTransaction, runSerialized } from './transaction';
+
+/**
+ * Optimistic concurrency options for updates and deletes
+ */
+export interface IConcurrencyOptions {
+  /** Concurrency field value the record was read with (updates default to the value in the data) */
+  expected?: unknown;
+  /** ETag the record was read with */
+  etag?: string;
+}
+
+/**
+ * Options for upserts
+ */
+export interface IUpsertKeyOptions<T> {
+  /** Fields that identify the record to update; SQLite needs a primary key or unique index on them */
+  conflictKeys: (keyof T & string)[];
+}
+
+/**
+ * A write prepared for a provider batch, with the entity's before-hooks, defaults, conversion and validation applied
+ */
+export interface IPreparedWrite<T> {
+  /** Whether the write passed the hooks and validation */
+  success: boolean;
+  /** The write to send; soft deletes are sent as updates */
+  type: 'create' | 'update' | 'delete';
+  /** The data to send */
+  data?: Partial<T>;
+  errors?: IUserFriendlyError[];
+  /** Run the after-hooks once the provider applied the write */
+  complete(record: T | undefined, id: unknown): Promise<void>;
+}
+
+/** Page size used to stream from providers that have no streamQuery */
+const STREAM_PAGE_SIZE = 100;
+
+/**
+ * Options for keyset (cursor) pagination
+ */
+export interface IPaginateOptions {
+  /** nextPageToken of the previous page; omit for the first page */
+  cursor?: string;
+  /** Page size */
+  limit?: number;
+}
+
+/**
+ * Options for full-text search
+ */
+export interface ISearchOptions<T> {
+  /** Fields to search instead of the schema's fulltext indexes and astro.searchable fields */
+  fields?: (keyof T)[];
+}
+
+/**
+ * A schema computed field with its parsed expression
+ */
+interface IParsedComputedField {
+  definition: IComputedFieldDefinition;
+  expression: IExpressionNode;
+}
+
+/**
+ * A query taken from the builder with the errors and warnings collected while building it
+ */
+interface IPendingQuery {
+  query: IQuery;
+  errors: IUserFriendlyError[];
+  warnings: ISchemaWarning[];
+}
 
 /**
  * ActiveRecord class - The main class for OData Active Record pattern
  * Provides fluent query interface with seamless data type handling
  */
-export class ActiveRecord<T = Record<string, unknown>> {
+export class ActiveRecord<T = Record<string, unknown>> implements IQueryBuilder<T> {
   private query: IQuery = {};
   private warnings: ISchemaWarning[] = [];
   private errors: IUserFriendlyError[] = [];
+  private hooks: IEntityHooks<T>[] = [];
+  private skipDefaultScope = false;
+  private keyset = false;
+  private trashed: 'exclude' | 'include' | 'only' = 'exclude';
+  private includes: string[] = [];
+  // Set on relation accessor queries: find() answers from the loaded batch while the query is unchanged
+  private preloaded: { key: string; load: () => Promise<IModelInstance<T>[]> } | undefined;
+  // Set on many-to-many accessor queries: the keys to match are only known once the join is read
+  private deferredKeys: { field: string; load: () => Promise<unknown[]> } | undefined;
+  private validationEngine: ValidationEngine;
+  private computedFields?: { fields: IParsedComputedField[]; errors: IUserFriendlyError[] };
+  // Values of cached computed fields, keyed by '<primary key>:<field>'
+  private computedCache = new Map<string, { value: unknown; expiresAt: number }>();
 
   constructor(
     private schema: IEntitySchema<T>,
-    private dataTypeHandler: IDataTypeHandler
-  ) {}
+    private dataTypeHandler: IDataTypeHandler,
+    private provider?: IActiveRecordProvider,
+    private namespace?: IEntityNamespace
+  ) {
+    this.validationEngine = new ValidationEngine(dataTypeHandler);
+  }
 
   /**
-   * Add a where condition to the query
+   * Add a where condition to the query (combined with AND).
+   * Besides field, operator and value it takes a lambda condition, e.g. where(any('tags', t => t.eq('urgent'))).
    */
-  where(field: keyof T, operator: string, value: unknown): this {
-    if (!this.validateField(field)) {
-      this.addError({
-        code: 'INVALID_FIELD',
-        message: `Field '${String(field)}' does not exist in schema`,
-        suggestion: `Available fields: ${Object.keys(this.schema.fields).join(', ')}`,
-        severity: 'error',
-        actionable: true,
-        field: String(field)
-      });
-      return this;
+  where(condition: IQueryFilter): this;
+  where(field: keyof T, operator: string, value: unknown): this;
+  where(field: keyof T | IQueryFilter, operator?: string, value?: unknown): this {
+    const condition = typeof field === 'object' ? this.buildLambdaCondition(field) : this.buildCondition(field, operator ?? '', value);
+    if (condition) {
+      this.appendFilter(condition, 'and');
     }
+    return this;
+  }
 
-    // Validate operator
-    const validOperators = ['eq', 'ne', 'lt', 'le', 'gt', 'ge', 'in', 'contains', 'startswith', 'endswith'];
-    if (!validOperators.includes(operator)) {
-      this.addError({
-        code: 'INVALID_OPERATOR',
-        message: `Invalid operator '${operator}'`,
-        suggestion: `Valid operators: ${validOperators.join(', ')}`,
-        severity: 'error',
-        actionable: true
-      });
-      return this;
+  /**
+   * Add an AND where condition to the query
+   */
+  andWhere(field: keyof T, operator: string, value: unknown): this {
+    return this.where(field, operator, value);
+  }
+
+  /**
+   * Add an OR where condition to the query.
+   * Conditions combine left to right: where(A).orWhere(B).where(C) is (A or B) and C.
+   */
+  orWhere(condition: IQueryFilter): this;
+  orWhere(field: keyof T, operator: string, value: unknown): this;
+  orWhere(field: keyof T | IQueryFilter, operator?: string, value?: unknown): this {
+    const condition = typeof field === 'object' ? this.buildLambdaCondition(field) : this.buildCondition(field, operator ?? '', value);
+    if (condition) {
+      this.appendFilter(condition, 'or');
     }
+    return this;
+  }
 
-    // Auto-convert value based on field type
-    const fieldDef = this.schema.fields[field];
-    const convertedValue = this.dataTypeHandler.autoConvert(value, fieldDef.type);
+  /**
+   * Add a condition written as an OData boolean expression (combined with AND),
+   * e.g. whereExpression("tolower(name) eq 'ann' and year(createdAt) ge 2024")
+   */
+  whereExpression(expression: string | IExpressionNode): this {
+    const condition = this.buildExpressionCondition(expression);
+    if (condition) {
+      this.appendFilter(condition, 'and');
+    }
+    return this;
+  }
 
-    const filter: IQueryFilter = {
-      field: String(field),
-      operator: operator as any,
-      value: convertedValue
-    };
+  /**
+   * Add a condition written as an OData boolean expression (combined with OR)
+   */
+  orWhereExpression(expression: string | IExpressionNode): this {
+    const condition = this.buildExpressionCondition(expression);
+    if (condition) {
+      this.appendFilter(condition, 'or');
+    }
+    return this;
+  }
 
-    if (!this.query.filter) {
-      this.query.filter = filter;
-    } else {
-      // Combine with existing filter using AND
-      this.query.filter = {
-        field: '',
-        operator: 'eq',
-        value: null,
-        logicalOperator: 'and',
-        children: [this.query.filter, filter]
-      };
+  /**
+   * Add a parenthesized group of conditions (combined with AND)
+   */
+  whereGroup(callback: (query: ActiveRecord<T>) => void): this {
+    const group = this.buildGroup(callback);
+    if (group) {
+      this.appendFilter(group, 'and');
+    }
+    return this;
+  }
+
+  /**
+   * Add a parenthesized group of conditions (combined with OR)
+   */
+  orWhereGroup(callback: (query: ActiveRecord<T>) => void): this {
+    const group = this.buildGroup(callback);
+    if (group) {
+      this.appendFilter(group, 'or');
     }
+    return this;
+  }
 
+  /**
+   * Add a negated group of conditions (combined with AND)
+   */
+  not(callback: (query: ActiveRecord<T>) => void): this {
+    const group = this.buildGroup(callback);
+    if (group) {
+      this.appendFilter({ ...group, not: !group.not }, 'and');
+    }
     return this;
   }
 
@@ -161,304 +318,2229 @@ export class ActiveRecord<T = Record<string, unknown>> {
   }
 
   /**
-   * Expand a relationship
+   * Continue after the page a token was issued for.
+   * The token comes from the nextPageToken of a previous page with the same ordering.
+   */
+  after(token: string): this {
+    if (!this.query.pagination) {
+      this.query.pagination = {};
+    }
+    this.query.pagination.cursor = token;
+    this.keyset = true;
+    return this;
+  }
+
+  /**
+   * Execute the query as one page of keyset pagination.
+   * The result's nextPageToken fetches the following page and hasMore tells whether there is one.
+   */
+  async paginate(options: IPaginateOptions = {}): Promise<IQueryResult<IModelInstance<T>>> {
+    if (options.cursor !== undefined) {
+      this.after(options.cursor);
+    }
+    if (options.limit !== undefined) {
+      this.limit(options.limit);
+    }
+    if (!this.query.pagination) {
+      this.query.pagination = {};
+    }
+    this.keyset = true;
+    return this.find();
+  }
+
+  /**
+   * Expand a relationship declared in the schema's relations.
+   * The optional callback builds a nested query that is validated against the target schema.
    */
   expand(relation: string, callback?: (query: ActiveRecord<any>) => void): this {
-    if (!this.query.expand) {
-      this.query.expand = [];
+    const relationDef = this.schema.relations?.find(r => r.name === relation);
+    if (!relationDef) {
+      this.addError(this.createInvalidRelationError(relation));
+      return this;
     }
 
-    const expandQuery = {
+    const targetSchema = this.resolveSchema(relationDef.targetEntity);
+    const expandQuery: IQueryExpand = {
       relation,
-      single: false
+      single: relationDef.type === 'many-to-one' || relationDef.type === 'one-to-one',
+      targetEntity: targetSchema?.name ?? relationDef.targetEntity,
+      sourceField: relationDef.sourceField,
+      targetField: relationDef.targetField,
+      ...(relationDef.through ? { through: relationDef.through } : {})
     };
 
     if (callback) {
-      // Create a new ActiveRecord instance for the nested query
-      const nestedActiveRecord = new ActiveRecord({} as any, this.dataTypeHandler);
+      if (!targetSchema) {
+        this.addError(this.createUnknownEntityError(relationDef));
+        return this;
+      }
+
+      const nestedActiveRecord = new ActiveRecord<any>(targetSchema, this.dataTypeHandler, undefined, this.namespace);
       callback(nestedActiveRecord);
-      // Note: In a real implementation, we would need to return the ActiveRecord instance itself
-      // as it implements IQueryBuilder, but for now we'll omit the nestedQuery property
+
+      const { query, errors } = nestedActiveRecord.takeQuery();
+      errors.forEach(error => this.addError({
+        ...error,
+        context: { ...error.context, relation }
+      }));
+      if (Object.keys(query).length > 0) {
+        expandQuery.nestedQuery = query;
+      }
     }
 
+    if (!this.query.expand) {
+      this.query.expand = [];
+    }
     this.query.expand.push(expandQuery);
     return this;
   }
 
   /**
-   * Execute the query and return results
+   * Eager-load relations declared in the schema's relations, e.g. include('author', 'comments.author').
+   * find() loads each relation for the whole result set with one 'in' query on the related entity,
+   * so the records' relation accessors resolve without further queries.
    */
-  async find(): Promise<IQueryResult<T>> {
-    try {
-      // For now, return a mock result
-      // In a real implementation, this would execute against a database
-      const mockData: T[] = [];
-      const executionTime = Math.random() * 100; // Mock execution time
-
-      return {
-        data: mockData,
-        success: this.errors.length === 0,
-        errors: this.errors.length > 0 ? this.errors : [],
-        warnings: this.warnings.length > 0 ? this.warnings : [],
-        metadata: {
-          count: mockData.length,
-          executionTime,
-          cacheStatus: 'miss' as const
-        }
-      };
-    } catch (error) {
-      return {
-        data: [],
-        success: false,
-        errors: [this.createUserFriendlyError(error as Error)],
-        metadata: {
-          count: 0,
-          executionTime: 0,
-          cacheStatus: 'miss' as const
-        }
-      };
+  include(...relations: string[]): this {
+    for (const path of relations) {
+      const relation = path.split('.')[0] ?? '';
+      if (!this.schema.relations?.some(r => r.name === relation)) {
+        this.addError(this.createInvalidRelationError(relation));
+        continue;
+      }
+      this.includes.push(path);
     }
+    return this;
   }
 
   /**
-   * Execute the query and return a single result
+   * A fresh query on a relation's target entity, with that entity's provider and hooks.
+   * Throws a user-friendly error when the relation or its target entity is unknown.
    */
-  async findOne(): Promise<T | null> {
-    const result = await this.find();
-    if (result.success && result.data.length > 0) {
-      return result.data[0] || null;
+  relatedQuery(relation: string): ActiveRecord<any> {
+    const relationDef = this.schema.relations?.find(r => r.name === relation);
+    if (!relationDef) {
+      throw this.createInvalidRelationError(relation);
     }
-    return null;
+    const target = this.resolveEntity(relationDef.targetEntity);
+    if (!target) {
+      throw this.createUnknownEntityError(relationDef);
+    }
+
+    return target.fork();
   }
 
   /**
-   * Execute a count query
+   * Answer find() with already loaded records as long as the pending query stays as it is now.
+   * Used by relation accessors; adding conditions, ordering or limits runs the query instead.
    */
-  async count(): Promise<number> {
-    const result = await this.find();
-    return result.metadata.count;
+  preload(load: () => Promise<IModelInstance<T>[]>): this {
+    this.preloaded = { key: this.getPendingKey(), load };
+    return this;
   }
 
   /**
-   * Create a new entity
+   * Match a field against keys that are loaded when the query runs, e.g. the targets a join entity links to
    */
-  create(data: Partial<T>): ICreateResult<T> {
-    try {
-      const convertedData = this.convertDataTypes(data);
-      const validationResult = this.validateData(convertedData);
-
-      if (!validationResult.isValid) {
-        return {
-          success: false,
-          errors: validationResult.errors,
-          metadata: {
-            created: false,
-            executionTime: 0
-          }
-        };
-      }
-
-      // Mock creation - in real implementation, this would save to database
-      const createdEntity = {
-        ...convertedData,
-        id: Math.floor(Math.random() * 1000000) // Mock ID
-      } as T;
+  whereKeysFrom(field: keyof T & string, load: () => Promise<unknown[]>): this {
+    this.deferredKeys = { field, load };
+    return this;
+  }
 
-      return {
-        data: createdEntity,
-        id: (createdEntity as any).id,
-        success: true,
-        metadata: {
-          created: true,
-          executionTime: Math.random() * 50
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        errors: [this.createUserFriendlyError(error as Error)],
-        metadata: {
-          created: false,
-          executionTime: 0
-        }
-      };
+  /**
+   * Apply a named scope declared in the schema's scopes.
+   * The scope's conditions are added as one group combined with AND.
+   */
+  scope(name: string, ...args: unknown[]): this {
+    const scope = this.schema.scopes?.[name];
+    if (!scope) {
+      const declared = Object.keys(this.schema.scopes ?? {});
+      this.addError({
+        code: 'UNKNOWN_SCOPE',
+        message: `Scope '${name}' is not declared on entity '${this.schema.name}'`,
+        suggestion: declared.length > 0
+          ? `Available scopes: ${declared.join(', ')}`
+          : `Declare the scope in the '${this.schema.name}' schema's scopes`,
+        severity: 'error',
+        actionable: true
+      });
+      return this;
     }
+
+    const { query, errors } = this.buildScope(scope, args, name);
+    errors.forEach(error => this.addError(error));
+    this.mergeScopeQuery(query);
+    return this;
   }
 
   /**
-   * Update an entity
+   * Skip the schema's default scope for the next query
    */
-  update(id: any, data: Partial<T>): IUpdateResult<T> {
-    try {
-      const convertedData = this.convertDataTypes(data);
-      const validationResult = this.validateData(convertedData);
-
-      if (!validationResult.isValid) {
-        return {
-          success: false,
-          errors: validationResult.errors,
-          metadata: {
-            updated: false,
-            affectedCount: 0,
-            executionTime: 0
-          }
-        };
-      }
+  unscoped(): this {
+    this.skipDefaultScope = true;
+    return this;
+  }
 
-      // Mock update - in real implementation, this would update in database
-      const updatedEntity = {
-        id,
-        ...convertedData
-      } as T;
+  /**
+   * Execute the query against the bound provider and return model instances.
+   * The pending query is consumed, so the next chain starts from scratch.
+   */
+  async find(): Promise<IQueryResult<IModelInstance<T>>> {
+    const { includes, preloaded } = this;
+    if (preloaded && includes.length === 0 && this.errors.length === 0 && preloaded.key === this.getPendingKey()) {
+      const { warnings } = this.takeQuery();
+      return this.loadPreloaded(preloaded.load, warnings);
+    }
 
-      return {
-        data: updatedEntity,
-        success: true,
+    const failed = await this.resolveDeferredKeys();
+    if (failed) {
+      const { warnings } = this.takeQuery();
+      return this.createFailedQueryResult([failed], warnings);
+    }
 
-        metadata: {
-          updated: true,
-          affectedCount: 1,
-          executionTime: Math.random() * 50
-        }
-      };
-    } catch (error) {
-              return {
-          success: false,
-          errors: [this.createUserFriendlyError(error as Error)],
-                  metadata: {
-          updated: false,
-          affectedCount: 0,
-          executionTime: 0
-        }
-        };
+    const { query, errors, warnings } = this.consumeQuery();
+    if (errors.length > 0) {
+      return this.createFailedQueryResult(errors, warnings);
     }
+
+    return this.runQuery(query, includes, warnings);
   }
 
   /**
-   * Delete an entity
+   * Execute the query and return a single result
    */
-  delete(id: any): IDeleteResult {
-    try {
-      // Mock deletion - in real implementation, this would delete from database
-      return {
-        success: true,
-        metadata: {
-          deleted: true,
-          affectedCount: 1,
-          executionTime: Math.random() * 30
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        errors: [this.createUserFriendlyError(error as Error)],
-        metadata: {
-          deleted: false,
-          affectedCount: 0,
-          executionTime: 0
-        }
-      };
+  async findOne(): Promise<IModelInstance<T> | null> {
+    if (this.query.pagination?.take === undefined) {
+      this.limit(1);
+    }
+    const result = await this.find();
+    if (result.success && result.data.length > 0) {
+      return result.data[0] || null;
     }
+    return null;
   }
 
   /**
-   * Validate if a field exists in the schema
+   * Find a single record by primary key, leaving any pending query untouched
    */
-  validateField(field: keyof T): boolean {
-    return field in this.schema.fields;
+  async findById(id: unknown): Promise<IModelInstance<T> | null> {
+    const { query, errors } = this.withDefaultScope({
+      query: {
+        filter: { field: this.getPrimaryKey(), operator: 'eq', value: id },
+        pagination: { take: 1 }
+      },
+      errors: []
+    });
+    if (errors.length > 0) {
+      return null;
+    }
+
+    const result = await this.runQuery(this.withComputedFields(this.withSoftDeleteFilter(query, 'exclude')));
+    return result.success ? result.data[0] ?? null : null;
   }
 
   /**
-   * Get the schema
+   * Full-text search the schema's fulltext index fields (or astro.searchable fields).
+   * Without an explicit orderBy the most relevant records come first.
    */
-  getSchema(): IEntitySchema<T> {
-    return this.schema;
+  search(term: string, options: ISearchOptions<T> = {}): this {
+    const invalidFields = (options.fields ?? []).filter(field => !this.validateField(field));
+    if (invalidFields.length > 0) {
+      this.addError({
+        code: 'INVALID_FIELDS',
+        message: `Invalid search fields: ${invalidFields.join(', ')}`,
+        suggestion: `Available fields: ${Object.keys(this.schema.fields).join(', ')}`,
+        severity: 'error',
+        actionable: true
+      });
+      return this;
+    }
+
+    // A blank term matches everything, so it leaves the query unchanged
+    if (!term.trim()) {
+      return this;
+    }
+
+    this.query.search = term.trim();
+    const fields = options.fields?.map(field => String(field)) ?? this.getSearchableFields();
+    if (fields.length > 0) {
+      this.query.searchFields = fields;
+    }
+    return this;
   }
 
   /**
-   * Get warnings
+   * Group results by fields for aggregate()
    */
-  getWarnings(): ISchemaWarning[] {
-    return this.warnings;
+  groupBy(...fields: (keyof T)[]): this {
+    const invalidFields = fields.filter(field => !this.validateField(field));
+    if (invalidFields.length > 0) {
+      this.addError({
+        code: 'INVALID_FIELDS',
+        message: `Invalid fields: ${invalidFields.join(', ')}`,
+        suggestion: `Available fields: ${Object.keys(this.schema.fields).join(', ')}`,
+        severity: 'error',
+        actionable: true
+      });
+      return this;
+    }
+
+    this.query.apply = {
+      groupBy: [...(this.query.apply?.groupBy ?? []), ...fields.map(f => String(f))],
+      aggregate: this.query.apply?.aggregate ?? {}
+    };
+    return this;
+  }
+
+  /**
+   * Execute the query as an aggregation: one row per group with the group fields and each alias.
+   * Conditions filter the records before grouping; orderBy and limit apply to the groups.
+   */
+  async aggregate<A extends Record<string, IAggregateExpression>>(
+    aggregations: A
+  ): Promise<IQueryResult<IAggregateRow<T, A>>> {
+    for (const [alias, expression] of Object.entries(aggregations)) {
+      if (expression.fn !== 'count' && !this.validateField(expression.field as keyof T)) {
+        this.addError({
+          code: 'INVALID_FIELD',
+          message: `Field '${String(expression.field)}' of aggregate '${alias}' does not exist in schema`,
+          suggestion: `Available fields: ${Object.keys(this.schema.fields).join(', ')}`,
+          severity: 'error',
+          actionable: true,
+          field: String(expression.field)
+        });
+      }
+    }
+    this.query.apply = { ...this.query.apply, aggregate: aggregations };
+
+    const failed = await this.resolveDeferredKeys();
+    if (failed) {
+      const { warnings } = this.takeQuery();
+      return this.createFailedQueryResult([failed], warnings);
+    }
+
+    const { query, errors, warnings } = this.consumeQuery();
+    const provider = this.provider;
+    if (errors.length > 0 || !provider) {
+      return this.createFailedQueryResult(errors.length > 0 ? errors : [this.createNoProviderError()], warnings);
+    }
+
+    try {
+      const result = await provider.executeQuery<IAggregateRow<T, A>>(this.schema.name, query);
+      return {
+        ...result,
+        errors: result.errors ?? [],
+        warnings: [...(result.warnings ?? []), ...warnings]
+      };
+    } catch (error) {
+      return this.createFailedQueryResult([this.createUserFriendlyError(error)], warnings);
+    }
+  }
+
+  /**
+   * Execute a count query
+   */
+  async count(): Promise<number> {
+    this.query.count = true;
+    const result = await this.find();
+    return result.metadata.totalCount ?? result.metadata.count;
+  }
+
+  /**
+   * Stream the matching records as model instances without loading the whole result set.
+   * The pending query is consumed right away; records are read as the loop asks for them,
+   * and failures are thrown as user-friendly errors.
+   */
+  stream(): AsyncIterable<IModelInstance<T>> {
+    if (this.deferredKeys) {
+      const { field, load } = this.deferredKeys;
+      const { skipDefaultScope, trashed, keyset } = this;
+      const pending = this.takeQuery();
+      return this.streamDeferred(field, load, pending, () => this.prepareQuery(pending, skipDefaultScope, trashed, keyset));
+    }
+    const { query, errors } = this.consumeQuery();
+    return this.streamRecords(query, errors);
+  }
+
+  /**
+   * Translate the pending query into a provider's native query (SQL and parameters, MongoDB filter or
+   * pipeline, OData URL) without running it. The pending query is left in place, so find() can follow.
+   */
+  async toNative(provider: IActiveRecordProvider | undefined = this.provider): Promise<IExplainResult> {
+    return this.explainWith(provider, {});
+  }
+
+  /**
+   * Like toNative() for the bound provider; with `plan: true`, SQLite also reports its query plan
+   * and the tables it reads in full
+   */
+  async explain(options: IExplainOptions = {}): Promise<IExplainResult> {
+    return this.explainWith(this.provider, options);
+  }
+
+  /**
+   * Explain the pending query through a provider
+   */
+  private async explainWith(provider: IActiveRecordProvider | undefined, options: IExplainOptions): Promise<IExplainResult> {
+    const { query, errors } = this.previewQuery();
+    if (errors.length > 0 || !provider) {
+      return { success: false, provider: provider?.getName() ?? '', errors: errors.length > 0 ? errors : [this.createNoProviderError()] };
+    }
+    if (!provider.explainQuery) {
+      return {
+        success: false,
+        provider: provider.getName(),
+        errors: [{
+          code: 'EXPLAIN_NOT_SUPPORTED',
+          message: `Provider '${provider.getName()}' cannot explain queries`,
+          suggestion: 'Use the SQLite, MongoDB or HTTP OData provider to inspect native queries',
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+
+    try {
+      return await provider.explainQuery(this.schema.name, query, options);
+    } catch (error) {
+      return { success: false, provider: provider.getName(), errors: [this.createUserFriendlyError(error)] };
+    }
+  }
+
+  /**
+   * Stream a query whose deferred keys are loaded before the first record is read
+   */
+  private async *streamDeferred(
+    field: string,
+    load: () => Promise<unknown[]>,
+    pending: IPendingQuery,
+    prepare: () => IPendingQuery
+  ): AsyncGenerator<IModelInstance<T>> {
+    let keys: unknown[];
+    try {
+      keys = await load();
+    } catch (error) {
+      throw this.createUserFriendlyError(error);
+    }
+    pending.query = this.withKeys(pending.query, field, keys);
+    const { query, errors } = prepare();
+    yield* this.streamRecords(query, errors);
+  }
+
+  /**
+   * Stream a built query through the provider, the afterFind hooks and model instantiation
+   */
+  private async *streamRecords(query: IQuery, errors: IUserFriendlyError[]): AsyncGenerator<IModelInstance<T>> {
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+    const provider = this.provider;
+    if (!provider) {
+      throw this.createNoProviderError();
+    }
+
+    const context = this.createHookContext('find');
+    const records = provider.streamQuery
+      ? provider.streamQuery<T>(this.schema.name, query)
+      : this.streamPages(provider, query);
+
+    for await (const record of records) {
+      let data: T[] = [this.fillComputedFields(record, query)];
+      for (const hooks of this.hooks) {
+        data = (await hooks.afterFind?.(data, context)) ?? data;
+      }
+      for (const item of data) {
+        yield Model.instantiate(this, item);
+      }
+    }
+  }
+
+  /**
+   * Read a query in keyset pages for providers that cannot stream natively
+   */
+  private async *streamPages(provider: IActiveRecordProvider, query: IQuery): AsyncGenerator<T> {
+    const ordered = this.withKeysetOrder(query);
+    let remaining = query.pagination?.take ?? Infinity;
+    // A stream after a page token starts where that page ended
+    let pagination: IQueryPagination = query.pagination?.cursor
+      ? { cursor: query.pagination.cursor }
+      : query.pagination?.skip ? { skip: query.pagination.skip } : {};
+
+    while (remaining > 0) {
+      const result = await provider.executeQuery<T>(this.schema.name, {
+        ...ordered,
+        pagination: { ...pagination, take: Math.min(remaining, STREAM_PAGE_SIZE) }
+      });
+      if (!result.success) {
+        throw result.errors?.[0] ?? this.createUserFriendlyError(new Error('Query execution failed'));
+      }
+
+      yield* result.data.slice(0, remaining);
+      remaining -= result.data.length;
+
+      const token = result.metadata.nextPageToken;
+      if (!result.metadata.hasMore || !token) {
+        return;
+      }
+      pagination = { cursor: token };
+    }
+  }
+
+  /**
+   * Run a built query through the provider, the afterFind hooks and model instantiation
+   */
+  private async runQuery(
+    query: IQuery,
+    includes: string[] = [],
+    warnings: ISchemaWarning[] = []
+  ): Promise<IQueryResult<IModelInstance<T>>> {
+    const provider = this.provider;
+    if (!provider) {
+      return this.createFailedQueryResult([this.createNoProviderError()], warnings);
+    }
+
+    try {
+      const result = await provider.executeQuery<T>(this.schema.name, query);
+      let data = result.data;
+      if (result.success) {
+        data = data.map(record => this.fillComputedFields(record, query));
+        const context = this.createHookContext('find');
+        for (const hooks of this.hooks) {
+          data = (await hooks.afterFind?.(data, context)) ?? data;
+        }
+      }
+
+      const instances = data.map(record => Model.instantiate(this, record));
+      const loader = Model.share(this, instances);
+      if (result.success && includes.length > 0) {
+        await loader.include(includes);
+      }
+
+      return {
+        ...result,
+        data: instances,
+        errors: result.errors ?? [],
+        warnings: [...(result.warnings ?? []), ...warnings]
+      };
+    } catch (error) {
+      return this.createFailedQueryResult([this.createUserFriendlyError(error)], warnings);
+    }
+  }
+
+  /**
+   * Load the deferred keys of whereKeysFrom() into the pending query, returning the error when loading fails
+   */
+  private async resolveDeferredKeys(): Promise<IUserFriendlyError | null> {
+    const deferred = this.deferredKeys;
+    if (!deferred) {
+      return null;
+    }
+    this.deferredKeys = undefined;
+    try {
+      this.query = this.withKeys(this.query, deferred.field, await deferred.load());
+      return null;
+    } catch (error) {
+      return this.createUserFriendlyError(error);
+    }
+  }
+
+  /**
+   * A query that additionally matches a field against keys
+   */
+  private withKeys(query: IQuery, field: string, keys: unknown[]): IQuery {
+    const condition: IQueryFilter = { field, operator: 'in', value: keys };
+    return { ...query, filter: this.combineFilters(query.filter, condition, 'and') };
+  }
+
+  /**
+   * Build a query result from records loaded by a relation accessor's batch
+   */
+  private async loadPreloaded(
+    load: () => Promise<IModelInstance<T>[]>,
+    warnings: ISchemaWarning[]
+  ): Promise<IQueryResult<IModelInstance<T>>> {
+    try {
+      const data = await load();
+      return {
+        data,
+        success: true,
+        errors: [],
+        warnings,
+        metadata: { count: data.length, executionTime: 0, cacheStatus: 'hit' }
+      };
+    } catch (error) {
+      return this.createFailedQueryResult([this.createUserFriendlyError(error)], warnings);
+    }
+  }
+
+  /**
+   * Create a new entity.
+   * Fields left out get their defaultValue before validation; autoIncrement and sequence() fields are numbered by the provider.
+   */
+  async create(data: Partial<T>): Promise<ICreateResult<T>> {
+    try {
+      const context = this.createHookContext('create');
+      const hookedData = await this.runBeforeHooks('beforeCreate', data, context);
+      const { data: defaultedData, options } = this.applyDefaults(hookedData);
+      const convertedData = this.convertDataTypes(defaultedData);
+      const validationResult = await this.validateData(convertedData);
+
+      if (!validationResult.isValid) {
+        return {
+          success: false,
+          errors: validationResult.errors,
+          metadata: {
+            created: false,
+            executionTime: 0
+          }
+        };
+      }
+
+      if (!this.provider) {
+        return {
+          success: false,
+          errors: [this.createNoProviderError()],
+          metadata: {
+            created: false,
+            executionTime: 0
+          }
+        };
+      }
+
+      const provider = this.provider;
+      const result = await runSerialized(provider, () => provider.create<T>(this.schema.name, convertedData, options));
+      if (result.success) {
+        const record = result.data ?? convertedData as T;
+        for (const hooks of this.hooks) {
+          await hooks.afterCreate?.(record, { ...context, id: result.id });
+        }
+      }
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        errors: [this.createUserFriendlyError(error)],
+        metadata: {
+          created: false,
+          executionTime: 0
+        }
+      };
+    }
+  }
+
+  /**
+   * Update an entity.
+   * With a concurrency field and an expected token (from the options or the data) the write only applies while the record still has it;
+   * without one the update overwrites whatever is stored.
+   */
+  async update(id: any, data: Partial<T>, options: IConcurrencyOptions = {}): Promise<IUpdateResult<T>> {
+    try {
+      const context = this.createHookContext('update', id);
+      const hookedData = await this.runBeforeHooks('beforeUpdate', data, context);
+      const convertedData = this.convertDataTypes(hookedData);
+      const validationResult = await this.validateData(convertedData, true);
+
+      if (!validationResult.isValid) {
+        return {
+          success: false,
+          errors: validationResult.errors,
+          metadata: {
+            updated: false,
+            affectedCount: 0,
+            executionTime: 0
+          }
+        };
+      }
+
+      if (!this.provider) {
+        return {
+          success: false,
+          errors: [this.createNoProviderError()],
+          metadata: {
+            updated: false,
+            affectedCount: 0,
+            executionTime: 0
+          }
+        };
+      }
+
+      const token = this.getConcurrencyField();
+      const writeOptions = this.buildWriteOptions(options, token ? convertedData[token as keyof T] : undefined);
+      const writeData = token
+        ? { ...convertedData, [token]: await this.nextConcurrencyValueFor(id, writeOptions) }
+        : convertedData;
+
+      const provider = this.provider;
+      const cascade = new RelationCascade(this, 'update');
+      const record = cascade.touches(writeData as Record<string, unknown>) ? await this.findForCascade(id) : null;
+      if (record) {
+        const error = await cascade.changing(record, writeData as Record<string, unknown>).checkRestrict(record);
+        if (error) {
+          return { success: false, errors: [error], metadata: { updated: false, affectedCount: 0, executionTime: 0 } };
+        }
+      }
+
+      // Related records follow the new keys in the same transaction, so a failure leaves the record unchanged
+      const result = await (record ? runInTransaction : runSerialized)(provider, async (): Promise<IUpdateResult<T>> => {
+        const error = record ? await cascade.beforeKeyUpdate(record) : null;
+        const updated = error ? null : await provider.update<T>(this.schema.name, id, writeData, writeOptions);
+        const cascadeError = error ?? (updated?.success && record
+          ? await cascade.afterKeyUpdate(record, { ...record, ...writeData })
+          : null);
+        return cascadeError
+          ? { success: false, errors: [cascadeError], metadata: { updated: false, affectedCount: 0, executionTime: 0 } }
+          : updated!;
+      });
+      if (result.success) {
+        this.forgetComputedValues(id);
+        const record = result.data ?? convertedData as T;
+        for (const hooks of this.hooks) {
+          await hooks.afterUpdate?.(record, context);
+        }
+      }
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        errors: [this.createUserFriendlyError(error)],
+        metadata: {
+          updated: false,
+          affectedCount: 0,
+          executionTime: 0
+        }
+      };
+    }
+  }
+
+  /**
+   * Delete an entity.
+   * With a softDelete schema option the record is stamped instead of removed.
+   */
+  async delete(id: any, options: IConcurrencyOptions = {}): Promise<IDeleteResult> {
+    return this.removeRecord(id, Boolean(this.schema.softDelete), options);
+  }
+
+  /**
+   * Permanently delete an entity, even when the schema uses soft delete
+   */
+  async forceDelete(id: any, options: IConcurrencyOptions = {}): Promise<IDeleteResult> {
+    return this.removeRecord(id, false, options);
+  }
+
+  /**
+   * Clear the soft-delete stamp of an entity, moving its concurrency token on like update() does
+   */
+  async restore(id: any, options: IConcurrencyOptions = {}): Promise<IUpdateResult<T>> {
+    const softDelete = this.schema.softDelete;
+    if (!softDelete || !this.provider) {
+      return {
+        success: false,
+        errors: [softDelete ? this.createNoProviderError() : this.createSoftDeleteDisabledError('restore')],
+        metadata: { updated: false, affectedCount: 0, executionTime: 0 }
+      };
+    }
+
+    try {
+      const provider = this.provider;
+      return await runSerialized(provider, async () => {
+        const writeOptions = this.buildWriteOptions(options);
+        const data: Record<string, unknown> = { [softDelete.field]: null };
+        const token = this.getConcurrencyField();
+        if (token) {
+          data[token] = await this.nextConcurrencyValueFor(id, writeOptions);
+        }
+        return provider.update<T>(this.schema.name, id, data as Partial<T>, writeOptions);
+      });
+    } catch (error) {
+      return {
+        success: false,
+        errors: [this.createUserFriendlyError(error)],
+        metadata: { updated: false, affectedCount: 0, executionTime: 0 }
+      };
+    }
+  }
+
+  /**
+   * Prepare a write that is sent to the provider as part of a batch (EntityNamespace changesets) instead of through
+   * create(), update() or delete(): runs the before-hooks, defaults, type conversion, validation and concurrency token,
+   * and turns soft deletes into updates. Fields the batch sets by other means (bound) are left to it.
+   */
+  async prepareWrite(
+    type: 'create' | 'update' | 'delete',
+    id: unknown,
+    data: Partial<T> = {},
+    bound: string[] = []
+  ): Promise<IPreparedWrite<T>> {
+    const noop = async () => {};
+    try {
+      if (type === 'delete') {
+        const context = this.createHookContext('delete', id);
+        for (const hooks of this.hooks) {
+          await hooks.beforeDelete?.(context);
+        }
+        const softDelete = this.schema.softDelete;
+        const stamp: Record<string, unknown> = softDelete ? { [softDelete.field]: new Date() } : {};
+        const token = this.getConcurrencyField();
+        if (softDelete && token) {
+          stamp[token] = await this.nextConcurrencyValueFor(id, {});
+        }
+        return {
+          success: true,
+          type: softDelete ? 'update' : 'delete',
+          ...(softDelete ? { data: stamp as Partial<T> } : {}),
+          complete: async () => {
+            this.forgetComputedValues(id);
+            for (const hooks of this.hooks) {
+              await hooks.afterDelete?.(context);
+            }
+          }
+        };
+      }
+
+      const context = this.createHookContext(type, id);
+      const hookedData = await this.runBeforeHooks(type === 'create' ? 'beforeCreate' : 'beforeUpdate', data, context);
+      const convertedData = this.convertDataTypes(type === 'create' ? this.applyDefaults(hookedData).data : hookedData);
+      const validationResult = await this.validateData(convertedData, type === 'update');
+      const errors = validationResult.errors.filter(error => !error.field || !bound.includes(error.field));
+      if (errors.length > 0) {
+        return { success: false, type, errors, complete: noop };
+      }
+
+      const token = type === 'update' ? this.getConcurrencyField() : undefined;
+      const writeData = token
+        ? { ...convertedData, [token]: await this.nextConcurrencyValueFor(id, this.buildWriteOptions({}, convertedData[token as keyof T])) }
+        : convertedData;
+      return {
+        success: true,
+        type,
+        data: writeData,
+        complete: async (record, writtenId) => {
+          if (type === 'update') {
+            this.forgetComputedValues(id);
+          }
+          for (const hooks of this.hooks) {
+            await (type === 'create'
+              ? hooks.afterCreate?.(record ?? writeData as T, { ...context, id: writtenId })
+              : hooks.afterUpdate?.(record ?? writeData as T, context));
+          }
+        }
+      };
+    } catch (error) {
+      return { success: false, type, errors: [this.createUserFriendlyError(error)], complete: noop };
+    }
+  }
+
+  /**
+   * Insert a record, or update the record whose conflict keys match, in one atomic provider write:
+   * INSERT ... ON CONFLICT DO UPDATE (SQLite), updateOne with upsert (MongoDB) or a PATCH that creates missing entities (HTTP).
+   * Only the fields passed in are updated; defaults and fields added by beforeCreate hooks only fill new records.
+   * Only the beforeCreate hooks run before the write, with operation 'upsert' since the record may exist; beforeUpdate does not run.
+   * afterCreate or afterUpdate runs depending on the outcome, with the same 'upsert' operation.
+   */
+  async upsert(data: Partial<T>, options: IUpsertKeyOptions<T>): Promise<IUpsertResult<T>> {
+    try {
+      const context = this.createHookContext('upsert');
+      const hookedData = await this.runBeforeHooks('beforeCreate', data, context);
+      const { data: defaultedData, options: createOptions } = this.applyDefaults(hookedData);
+      const convertedData = this.convertDataTypes(defaultedData) as Record<string, unknown>;
+
+      const missingKeys = options.conflictKeys.filter(key => convertedData[key] === undefined || convertedData[key] === null);
+      if (missingKeys.length > 0) {
+        return this.createFailedUpsertResult([{
+          code: 'UPSERT_KEY_MISSING',
+          message: `upsert() on '${this.schema.name}' needs a value for ${missingKeys.map(key => `'${key}'`).join(', ')} to find the record to update`,
+          suggestion: `Pass ${missingKeys.join(', ')} in the data, or choose conflict keys the data has values for`,
+          severity: 'error',
+          actionable: true,
+          field: missingKeys[0]!
+        }]);
+      }
+
+      const validationResult = await this.validateData(convertedData as Partial<T>);
+      if (!validationResult.isValid) {
+        return this.createFailedUpsertResult(validationResult.errors);
+      }
+      if (!this.provider) {
+        return this.createFailedUpsertResult([this.createNoProviderError()]);
+      }
+
+      // The concurrency token moves on when an existing record is updated
+      const token = this.getConcurrencyField();
+      const update = Object.keys(data).filter(field => field in convertedData && field !== token && !options.conflictKeys.includes(field as keyof T & string));
+      const upsertOptions: IUpsertOptions = { ...createOptions, conflictKeys: options.conflictKeys, update };
+      if (token && (this.schema.fields[token as keyof T] as IFieldDefinition).concurrency === 'timestamp') {
+        convertedData[token] = new Date();
+        update.push(token);
+      } else if (token) {
+        upsertOptions.increment = [token];
+      }
+
+      const provider = this.provider;
+      const result = provider.upsert
+        ? await runSerialized(provider, () => provider.upsert!<T>(this.schema.name, convertedData as Partial<T>, upsertOptions))
+        : await runInTransaction(provider, () => this.upsertByLookup(provider, convertedData, upsertOptions));
+      if (result.success) {
+        this.forgetComputedValues(result.id);
+        const record = result.data ?? convertedData as T;
+        const created = result.metadata?.created ?? false;
+        for (const hooks of this.hooks) {
+          await (created
+            ? hooks.afterCreate?.(record, { ...context, id: result.id })
+            : hooks.afterUpdate?.(record, { ...context, id: result.id }));
+        }
+      }
+      return result;
+    } catch (error) {
+      return this.createFailedUpsertResult([this.createUserFriendlyError(error)]);
+    }
+  }
+
+  /**
+   * Create many entities in one batch: one prepared statement in a transaction (SQLite), insertMany (MongoDB) or $batch (HTTP).
+   * Every row is validated first; when any row is invalid nothing is written and the errors are listed by row position.
+   * A row the data source rejects rolls the batch back, except on MongoDB servers without transactions (standalone mongod),
+   * where the rows before it stay written and are reported in ids and metadata.affectedCount.
+   */
+  async createMany(rows: Partial<T>[]): Promise<IBulkResult<T>> {
+    try {
+      const context = this.createHookContext('create');
+      const prepared: Partial<T>[] = [];
+      const rowErrors: IBulkRowError[] = [];
+      const sequences = new Map<string, ISequenceField>();
+      for (const [index, row] of rows.entries()) {
+        const hookedData = await this.runBeforeHooks('beforeCreate', row, context);
+        const { data: defaultedData, options } = this.applyDefaults(hookedData);
+        const convertedData = this.convertDataTypes(defaultedData);
+        const validationResult = await this.validateData(convertedData);
+        if (!validationResult.isValid) {
+          rowErrors.push({ index, errors: validationResult.errors });
+        }
+        options.sequences?.forEach(sequence => sequences.set(sequence.field, sequence));
+        prepared.push(convertedData);
+      }
+
+      if (rowErrors.length > 0) {
+        return this.createFailedBulkResult([], rowErrors);
+      }
+      if (!this.provider) {
+        return this.createFailedBulkResult([this.createNoProviderError()]);
+      }
+
+      // Providers number only the rows that leave a sequence field out
+      const options: ICreateOptions = sequences.size > 0 ? { sequences: [...sequences.values()] } : {};
+      const provider = this.provider;
+      const result = provider.createMany
+        ? await runSerialized(provider, () => provider.createMany!<T>(this.schema.name, prepared, options))
+        : await runInTransaction(provider, () => this.createEach(provider, prepared, options));
+      if (result.success) {
+        for (const [index, record] of (result.data ?? prepared as T[]).entries()) {
+          for (const hooks of this.hooks) {
+            await hooks.afterCreate?.(record, { ...context, ...(result.ids?.[index] !== undefined ? { id: result.ids[index] } : {}) });
+          }
+        }
+      }
+      return result;
+    } catch (error) {
+      return this.createFailedBulkResult([this.createUserFriendlyError(error)]);
+    }
+  }
+
+  /**
+   * Apply a patch to every record the pending query matches, in one provider write
+   * (UPDATE, updateMany or a PATCH $batch). The patch is validated once and the beforeUpdate hooks
+   * run once without an id; afterUpdate hooks do not run, as the updated records are not read back.
+   * When the patch changes a relation key with cascade rules, records are updated one by one in a transaction.
+   */
+  async updateWhere(patch: Partial<T>): Promise<IBulkResult<T>> {
+    const pending = await this.takeBulkQuery('updateWhere');
+    if (pending.errors.length > 0) {
+      return this.createFailedBulkResult(pending.errors);
+    }
+    const provider = this.provider;
+    if (!provider) {
+      return this.createFailedBulkResult([this.createNoProviderError()]);
+    }
+
+    try {
+      if (!provider.updateWhere || new RelationCascade(this, 'update').touches(patch as Record<string, unknown>)) {
+        return await this.writeEach(provider, pending.query, id => this.update(id, patch));
+      }
+
+      const context = this.createHookContext('update');
+      const hookedData = await this.runBeforeHooks('beforeUpdate', patch, context);
+      const convertedData = this.convertDataTypes(hookedData);
+      const validationResult = await this.validateData(convertedData, true);
+      if (!validationResult.isValid) {
+        return this.createFailedBulkResult(validationResult.errors);
+      }
+      if (Object.keys(convertedData).length === 0) {
+        return { success: true, metadata: { executionTime: 0, affectedCount: 0 } };
+      }
+
+      const { data, increment } = this.withBulkConcurrency(convertedData as Record<string, unknown>);
+      const result = await runSerialized(provider, () => provider.updateWhere!<T>(this.schema.name, pending.query, data as Partial<T>, {
+        key: this.getPrimaryKey(),
+        ...(increment ? { increment } : {})
+      }));
+      if (result.success) {
+        this.computedCache.clear();
+      }
+      return result;
+    } catch (error) {
+      return this.createFailedBulkResult([this.createUserFriendlyError(error)]);
+    }
+  }
+
+  /**
+   * Delete every record the pending query matches, in one provider write (DELETE, deleteMany or a DELETE $batch).
+   * With a softDelete schema option the records are stamped instead. The beforeDelete and afterDelete hooks run once without an id.
+   * When relations have delete cascade rules, records are deleted one by one in a transaction.
+   */
+  async deleteWhere(): Promise<IBulkResult> {
+    const pending = await this.takeBulkQuery('deleteWhere');
+    if (pending.errors.length > 0) {
+      return this.createFailedBulkResult(pending.errors);
+    }
+    const provider = this.provider;
+    if (!provider) {
+      return this.createFailedBulkResult([this.createNoProviderError()]);
+    }
+
+    try {
+      const softDelete = this.schema.softDelete;
+      if (!(softDelete ? provider.updateWhere : provider.deleteWhere) || !new RelationCascade(this, 'delete').isEmpty()) {
+        return await this.writeEach(provider, pending.query, id => this.delete(id));
+      }
+
+      const context = this.createHookContext('delete');
+      for (const hooks of this.hooks) {
+        await hooks.beforeDelete?.(context);
+      }
+
+      const options = { key: this.getPrimaryKey() };
+      const result = await runSerialized(provider, (): Promise<IBulkResult> => {
+        if (!softDelete) {
+          return provider.deleteWhere!(this.schema.name, pending.query, options);
+        }
+        const { data, increment } = this.withBulkConcurrency({ [softDelete.field]: new Date() });
+        return provider.updateWhere!(this.schema.name, pending.query, data, { ...options, ...(increment ? { increment } : {}) });
+      });
+
+      if (result.success) {
+        this.computedCache.clear();
+        for (const hooks of this.hooks) {
+          await hooks.afterDelete?.(context);
+        }
+      }
+      return result;
+    } catch (error) {
+      return this.createFailedBulkResult([this.createUserFriendlyError(error)]);
+    }
+  }
+
+  /**
+   * Include soft-deleted records in the next query
+   */
+  withTrashed(): this {
+    this.trashed = 'include';
+    return this;
+  }
+
+  /**
+   * Only return soft-deleted records in the next query
+   */
+  onlyTrashed(): this {
+    if (!this.schema.softDelete) {
+      this.addError(this.createSoftDeleteDisabledError('onlyTrashed'));
+      return this;
+    }
+    this.trashed = 'only';
+    return this;
+  }
+
+  /**
+   * Link related records (by their targetField values) to a record through a many-to-many relation
+   */
+  async attach(id: unknown, relation: string, targets: unknown[]): Promise<ILinkResult> {
+    return this.updateLinks(id, relation, 'attach', targets);
+  }
+
+  /**
+   * Unlink related records of a many-to-many relation; without targets every link of the record is removed
+   */
+  async detach(id: unknown, relation: string, targets?: unknown[]): Promise<ILinkResult> {
+    return this.updateLinks(id, relation, 'detach', targets);
+  }
+
+  /**
+   * Link exactly the given related records, removing the record's other links of the relation
+   */
+  async sync(id: unknown, relation: string, targets: unknown[]): Promise<ILinkResult> {
+    return this.updateLinks(id, relation, 'sync', targets);
+  }
+
+  /**
+   * Hand a link change of a many-to-many relation to the provider
+   */
+  private async updateLinks(
+    id: unknown,
+    relation: string,
+    mode: ILinkChange['mode'],
+    targets?: unknown[]
+  ): Promise<ILinkResult> {
+    const relationDef = this.schema.relations?.find(r => r.name === relation);
+    if (!relationDef) {
+      return this.createFailedLinkResult([this.createInvalidRelationError(relation)]);
+    }
+    if (relationDef.type !== 'many-to-many' || !relationDef.through) {
+      return this.createFailedLinkResult([{
+        code: 'INVALID_RELATION',
+        message: `Relation '${relation}' of entity '${this.schema.name}' is not a many-to-many relation with a through definition`,
+        suggestion: "Declare type: 'many-to-many' and through: { entity, sourceKey, targetKey } (or through: { field }) on the relation",
+        severity: 'error',
+        actionable: true
+      }]);
+    }
+    const provider = this.provider;
+    if (!provider) {
+      return this.createFailedLinkResult([this.createNoProviderError()]);
+    }
+    if (!provider.updateLinks) {
+      return this.createFailedLinkResult([{
+        code: 'LINKS_NOT_SUPPORTED',
+        message: `Provider '${provider.getName()}' cannot change many-to-many links`,
+        suggestion: 'Use the SQLite, MongoDB or HTTP OData provider, or write the join records directly',
+        severity: 'error',
+        actionable: true
+      }]);
+    }
+
+    try {
+      // The links refer to the source field, which is usually the primary key
+      let sourceValue = id;
+      if (relationDef.sourceField !== this.getPrimaryKey()) {
+        const record = await this.findById(id);
+        if (!record) {
+          return this.createFailedLinkResult([{
+            code: 'RECORD_NOT_FOUND',
+            message: `${this.schema.name} with ${this.getPrimaryKey()} '${String(id)}' was not found`,
+            suggestion: 'Check the id, or create the record before linking it',
+            severity: 'error',
+            actionable: true
+          }]);
+        }
+        sourceValue = (record as Record<string, unknown>)[relationDef.sourceField];
+      }
+
+      const targetType = this.resolveSchema(relationDef.targetEntity)?.fields[relationDef.targetField]?.type;
+      const change = {
+        relation,
+        id,
+        sourceValue,
+        targetEntity: this.resolveSchema(relationDef.targetEntity)?.name ?? relationDef.targetEntity,
+        targetField: relationDef.targetField,
+        through: relationDef.through,
+        mode,
+        ...(targets
+          ? { targetValues: targetType ? targets.map(target => this.dataTypeHandler.autoConvert(target, targetType)) : targets }
+          : {})
+      };
+      return await runSerialized(provider, () => provider.updateLinks!(this.schema.name, change));
+    } catch (error) {
+      return this.createFailedLinkResult([this.createUserFriendlyError(error)]);
+    }
+  }
+
+  /**
+   * Register lifecycle hooks; they run in registration order.
+   * Before hooks may return replacement data and cancel the operation by throwing an IUserFriendlyError.
+   */
+  addHooks(hooks: IEntityHooks<T>): this {
+    this.hooks.push(hooks);
+    return this;
+  }
+
+  /**
+   * Bind the data provider used to execute queries and writes
+   */
+  setProvider(provider: IActiveRecordProvider): this {
+    this.provider = provider;
+    return this;
+  }
+
+  /**
+   * Get the bound data provider
+   */
+  getProvider(): IActiveRecordProvider | null {
+    return this.provider ?? null;
+  }
+
+  /**
+   * Validate if a field exists in the schema, as a stored or computed field
+   */
+  validateField(field: keyof T): boolean {
+    return field in this.schema.fields || this.getComputedField(String(field)) !== undefined;
+  }
+
+  /**
+   * Get the primary key field, falling back to 'id' when the schema marks none
+   */
+  getPrimaryKey(): string {
+    const primary = Object.entries(this.schema.fields).find(([, field]) => (field as IFieldDefinition).primary);
+    return primary ? primary[0] : 'id';
+  }
+
+  /**
+   * Get the fields covered by fulltext indexes, falling back to astro.searchable fields
+   */
+  getSearchableFields(): string[] {
+    const indexed = (this.schema.indexes ?? [])
+      .filter(index => index.type === 'fulltext')
+      .flatMap(index => index.fields ?? index.columns ?? []);
+    if (indexed.length > 0) {
+      return [...new Set(indexed)];
+    }
+    return Object.entries(this.schema.fields)
+      .filter(([, field]) => (field as IFieldDefinition).astro?.searchable)
+      .map(([name]) => name);
+  }
+
+  /**
+   * Get the field marked as the optimistic concurrency token, if any
+   */
+  getConcurrencyField(): string | undefined {
+    return Object.entries(this.schema.fields).find(([, field]) => (field as IFieldDefinition).concurrency)?.[0];
+  }
+
+  /**
+   * Get the schema
+   */
+  getSchema(): IEntitySchema<T> {
+    return this.schema;
+  }
+
+  /**
+   * Get the warnings of the pending query; they are handed to its result and cleared when it runs
+   */
+  getWarnings(): ISchemaWarning[] {
+    return this.warnings;
+  }
+
+  /**
+   * Get the built query
+   */
+  buildQuery(): IQuery {
+    return this.query;
+  }
+
+  /**
+   * Get the built query (IQueryBuilder alias of buildQuery)
+   */
+  build(): IQuery {
+    return this.buildQuery();
+  }
+
+  /**
+   * Fill in the defaultValue of fields the data leaves out.
+   * Sequences are numbered by the provider, so they come back as create options instead of values.
+   */
+  private applyDefaults(data: Partial<T>): { data: Partial<T>; options: ICreateOptions } {
+    const values: Record<string, unknown> = { ...data };
+    const sequences: ISequenceField[] = [];
+
+    for (const [name, field] of Object.entries(this.schema.fields) as [string, IFieldDefinition][]) {
+      if (values[name] !== undefined) {
+        continue;
+      }
+
+      const defaultValue = field.defaultValue;
+      if (field.autoIncrement || (isDefaultGenerator(defaultValue) && defaultValue.generator === 'sequence')) {
+        const generator = isDefaultGenerator(defaultValue) ? defaultValue : undefined;
+        sequences.push({
+          field: name,
+          sequence: generator?.sequence ?? `${this.schema.name}.${name}`,
+          ...(generator?.start !== undefined ? { start: generator.start } : {})
+        });
+      } else if (isDefaultGenerator(defaultValue)) {
+        values[name] = generateDefault(defaultValue);
+      } else if (typeof defaultValue === 'function') {
+        values[name] = defaultValue(values);
+      } else if (defaultValue !== undefined) {
+        // Copy object and array defaults so records never share them
+        values[name] = defaultValue !== null && typeof defaultValue === 'object' && !(defaultValue instanceof Date)
+          ? JSON.parse(JSON.stringify(defaultValue))
+          : defaultValue;
+      }
+    }
+
+    return { data: values as Partial<T>, options: sequences.length > 0 ? { sequences } : {} };
+  }
+
+  /**
+   * Convert data types based on schema
+   */
+  private convertDataTypes(data: Partial<T>): Partial<T> {
+    const converted: Partial<T> = {};
+
+    for (const [key, value] of Object.entries(data)) {
+      const fieldDef = this.schema.fields[key as keyof T];
+      if (fieldDef) {
+        const convertedValue = this.dataTypeHandler.autoConvert(value, fieldDef.type);
+        (converted as any)[key] = convertedValue;
+      }
+    }
+
+    return converted;
+  }
+
+  /**
+   * Validate data against the schema's field and entity rules
+   */
+  private async validateData(data: Partial<T>, partial = false): Promise<IValidationResult> {
+    const errors = await this.validationEngine.validate(this.schema, data, { partial });
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: [],
+      suggestions: errors.map(e => e.suggestion).filter(Boolean) as string[]
+    };
+  }
+
+  /**
+   * Validate a single condition and convert its value to the field type
+   */
+  private buildCondition(field: keyof T, operator: string, value: unknown): IQueryFilter | null {
+    if (!this.validateField(field)) {
+      this.addError({
+        code: 'INVALID_FIELD',
+        message: `Field '${String(field)}' does not exist in schema`,
+        suggestion: `Available fields: ${Object.keys(this.schema.fields).join(', ')}`,
+        severity: 'error',
+        actionable: true,
+        field: String(field)
+      });
+      return null;
+    }
+
+    // Validate operator
+    const validOperators = ['eq', 'ne', 'lt', 'le', 'gt', 'ge', 'in', 'contains', 'startswith', 'endswith'];
+    if (!validOperators.includes(operator)) {
+      this.addError({
+        code: 'INVALID_OPERATOR',
+        message: `Invalid operator '${operator}'`,
+        suggestion: `Valid operators: ${validOperators.join(', ')}`,
+        severity: 'error',
+        actionable: true
+      });
+      return null;
+    }
+
+    // Auto-convert value based on field type
+    const fieldDef = this.schema.fields[field] ?? { type: this.getComputedField(String(field))!.definition.resultType };
+    const convertedValue = operator === 'in' && Array.isArray(value)
+      ? value.map(item => this.dataTypeHandler.autoConvert(item, fieldDef.type))
+      : this.dataTypeHandler.autoConvert(value, fieldDef.type);
+
+    return {
+      field: String(field),
+      operator: operator as IQueryFilter['operator'],
+      value: convertedValue
+    };
+  }
+
+  /**
+   * Check a lambda condition against the schema. Array fields are matched element by element;
+   * one-to-many relations get the join fields so providers can look the related records up.
+   */
+  private buildLambdaCondition(filter: IQueryFilter): IQueryFilter | null {
+    const lambda = filter.lambda;
+    if (!lambda) {
+      this.addError({
+        code: 'INVALID_CONDITION',
+        message: 'Conditions passed to where() must be built with any() or all()',
+        suggestion: "Use where(field, operator, value), or where(any('tags', t => t.eq('urgent')))",
+        severity: 'error',
+        actionable: true
+      });
+      return null;
+    }
+
+    const fieldDef = this.schema.fields[filter.field as keyof T] as IFieldDefinition | undefined;
+    if (fieldDef?.type === 'array') {
+      return filter;
+    }
+
+    const relationDef = this.schema.relations?.find(r => r.name === filter.field);
+    if (!fieldDef && !relationDef) {
+      this.addError({
+        code: 'INVALID_FIELD',
+        message: `Field '${filter.field}' does not exist in schema`,
+        suggestion: `Lambdas work on array fields and relations: ${[
+          ...Object.keys(this.schema.fields),
+          ...(this.schema.relations ?? []).map(r => r.name)
+        ].join(', ')}`,
+        severity: 'error',
+        actionable: true,
+        field: filter.field
+      });
+      return null;
+    }
+    if (relationDef?.type !== 'one-to-many' && !(relationDef?.type === 'many-to-many' && relationDef.through)) {
+      this.addError({
+        code: 'INVALID_LAMBDA',
+        message: `'${filter.field}' is not a collection, so ${lambda.operator}() can't be applied to it`,
+        suggestion: `Use ${lambda.operator}() on array fields, one-to-many relations or many-to-many relations with a through definition`,
+        severity: 'error',
+        actionable: true,
+        field: filter.field
+      });
+      return null;
+    }
+
+    // Related records are compared field by field, so the element itself has no value to compare
+    const targetSchema = this.resolveSchema(relationDef.targetEntity);
+    const invalidPaths = getLambdaPaths(lambda.condition).filter(path => {
+      const [variable, member] = path.split('/');
+      return variable !== lambda.variable || !member || (targetSchema !== undefined && !(member in targetSchema.fields));
+    });
+    if (invalidPaths.length > 0) {
+      this.addError({
+        code: 'INVALID_FIELD',
+        message: `Invalid fields in ${lambda.operator}() over '${filter.field}': ${invalidPaths.join(', ')}`,
+        suggestion: targetSchema
+          ? `Compare fields of the related records, e.g. ${lambda.variable}.field('${Object.keys(targetSchema.fields)[0] ?? 'id'}')`
+          : 'Compare fields of the related records with field(name)',
+        severity: 'error',
+        actionable: true,
+        field: filter.field
+      });
+      return null;
+    }
+
+    return {
+      ...filter,
+      lambda: {
+        ...lambda,
+        ...(lambda.condition ? { condition: this.convertLambdaValues(lambda.condition, targetSchema) } : {}),
+        targetEntity: targetSchema?.name ?? relationDef.targetEntity,
+        sourceField: relationDef.sourceField,
+        targetField: relationDef.targetField,
+        ...(relationDef.through ? { through: relationDef.through } : {})
+      }
+    };
+  }
+
+  /**
+   * Convert the values of a relation lambda's condition to the related fields' types
+   */
+  private convertLambdaValues(condition: IQueryFilter, targetSchema?: IEntitySchema<any>): IQueryFilter {
+    if (condition.children) {
+      return { ...condition, children: condition.children.map(child => this.convertLambdaValues(child, targetSchema)) };
+    }
+    const fieldDef = targetSchema?.fields[condition.field.split('/')[1] ?? ''] as IFieldDefinition | undefined;
+    if (!fieldDef) {
+      return condition;
+    }
+    const value = condition.operator === 'in' && Array.isArray(condition.value)
+      ? condition.value.map(item => this.dataTypeHandler.autoConvert(item, fieldDef.type))
+      : this.dataTypeHandler.autoConvert(condition.value, fieldDef.type);
+    return { ...condition, value };
+  }
+
+  /**
+   * Parse an expression condition and check the fields it refers to
+   */
+  private buildExpressionCondition(expression: string | IExpressionNode): IQueryFilter | null {
+    let node: IExpressionNode;
+    try {
+      node = typeof expression === 'string' ? parseExpression(expression) : expression;
+    } catch (error) {
+      this.addError({
+        code: 'INVALID_EXPRESSION',
+        message: `Invalid filter expression: ${error instanceof Error ? error.message : String(error)}`,
+        suggestion: `Use OData expression syntax, e.g. "tolower(name) eq 'ann'" or "price mul quantity gt 100"`,
+        severity: 'error',
+        actionable: true
+      });
+      return null;
+    }
+
+    const unknownFields = getExpressionFields(node).filter(field => !this.validateField(field as keyof T));
+    if (unknownFields.length > 0) {
+      this.addError({
+        code: 'INVALID_FIELD',
+        message: `Fields do not exist in schema: ${unknownFields.join(', ')}`,
+        suggestion: `Available fields: ${Object.keys(this.schema.fields).join(', ')}`,
+        severity: 'error',
+        actionable: true,
+        ...(unknownFields[0] !== undefined ? { field: unknownFields[0] } : {})
+      });
+      return null;
+    }
+
+    return { field: '', operator: 'eq', value: null, expression: node };
+  }
+
+  /**
+   * Everything find() depends on, to tell whether a preloaded query was changed
+   */
+  private getPendingKey(): string {
+    return JSON.stringify([this.query, this.skipDefaultScope, this.trashed, this.keyset]);
+  }
+
+  /**
+   * Look up another entity's registered ActiveRecord in the owning namespace (or this one for self-relations)
+   */
+  private resolveEntity(entityName: string): ActiveRecord<any> | undefined {
+    const registered = this.namespace?.getEntity(entityName)
+      ?? this.namespace?.listEntities()
+        .map(name => this.namespace?.getEntity(name))
+        .find(entity => entity?.getSchema().name === entityName);
+    if (registered instanceof ActiveRecord) {
+      return registered;
+    }
+    return entityName === this.schema.name ? this : undefined;
+  }
+
+  /**
+   * Look up another entity's schema in the owning namespace
+   */
+  private resolveSchema(entityName: string): IEntitySchema<any> | undefined {
+    const schemas = this.namespace?.getSchemas() ?? {};
+    return schemas[entityName] ?? Object.values(schemas).find(schema => schema.name === entityName);
+  }
+
+  /**
+   * Run a group callback against a fresh builder and return its filter tree
+   */
+  private buildGroup(callback: (query: ActiveRecord<T>) => void): IQueryFilter | null {
+    const groupQuery = new ActiveRecord<T>(this.schema, this.dataTypeHandler, undefined, this.namespace);
+    callback(groupQuery);
+
+    const { query, errors } = groupQuery.takeQuery();
+    errors.forEach(error => this.addError(error));
+    return query.filter ?? null;
+  }
+
+  /**
+   * Combine a filter with the current filter tree
+   */
+  private appendFilter(filter: IQueryFilter, logicalOperator: 'and' | 'or'): void {
+    this.query.filter = this.combineFilters(this.query.filter, filter, logicalOperator);
+  }
+
+  /**
+   * Combine two filters.
+   * Chains of the same operator are kept flat instead of nesting one level per call.
+   */
+  private combineFilters(current: IQueryFilter | undefined, filter: IQueryFilter, logicalOperator: 'and' | 'or'): IQueryFilter {
+    if (!current) {
+      return filter;
+    }
+
+    if (current.children && current.logicalOperator === logicalOperator && !current.not) {
+      return { ...current, children: [...current.children, filter] };
+    }
+
+    return {
+      field: '',
+      operator: 'eq',
+      value: null,
+      logicalOperator,
+      children: [current, filter]
+    };
+  }
+
+  /**
+   * Run a scope against a fresh builder and return what it built
+   */
+  private buildScope(
+    scope: IQueryScope<T>,
+    args: unknown[],
+    name: string
+  ): { query: IQuery; errors: IUserFriendlyError[] } {
+    const scopeQuery = new ActiveRecord<T>(this.schema, this.dataTypeHandler, undefined, this.namespace);
+    scope(scopeQuery, ...args);
+
+    const { query, errors } = scopeQuery.takeQuery();
+    return {
+      query,
+      errors: errors.map(error => ({ ...error, context: { ...error.context, scope: name } }))
+    };
+  }
+
+  /**
+   * Merge a scope's query into the pending query.
+   * Sorting already on the query keeps precedence; select and pagination are only taken when unset.
+   */
+  private mergeScopeQuery(scopeQuery: IQuery): void {
+    if (scopeQuery.filter) {
+      this.appendFilter(scopeQuery.filter, 'and');
+    }
+    if (scopeQuery.orderBy) {
+      this.query.orderBy = this.mergeOrders(this.query.orderBy, scopeQuery.orderBy);
+    }
+    if (scopeQuery.select && !this.query.select) {
+      this.query.select = scopeQuery.select;
+    }
+    if (scopeQuery.pagination) {
+      this.query.pagination = { ...scopeQuery.pagination, ...this.query.pagination };
+    }
+    if (scopeQuery.expand) {
+      this.query.expand = [...(this.query.expand ?? []), ...scopeQuery.expand];
+    }
+    if (scopeQuery.search && !this.query.search) {
+      this.query.search = scopeQuery.search;
+      if (scopeQuery.searchFields) {
+        this.query.searchFields = scopeQuery.searchFields;
+      }
+    }
+  }
+
+  /**
+   * Apply the schema's default scope underneath a taken query
+   */
+  private withDefaultScope(pending: { query: IQuery; errors: IUserFriendlyError[] }): { query: IQuery; errors: IUserFriendlyError[] } {
+    const defaultScope = this.schema.defaultScope;
+    if (!defaultScope) {
+      return pending;
+    }
+
+    const scoped = this.buildScope(defaultScope, [], 'default');
+    const query: IQuery = { ...scoped.query, ...pending.query };
+    if (scoped.query.filter) {
+      query.filter = pending.query.filter
+        ? this.combineFilters(scoped.query.filter, pending.query.filter, 'and')
+        : scoped.query.filter;
+    }
+    if (scoped.query.orderBy) {
+      query.orderBy = this.mergeOrders(pending.query.orderBy, scoped.query.orderBy);
+    }
+    if (scoped.query.pagination) {
+      query.pagination = { ...scoped.query.pagination, ...pending.query.pagination };
+    }
+
+    return { query, errors: [...pending.errors, ...scoped.errors] };
   }
 
   /**
-   * Get the built query
+   * Append sort orders, skipping fields that are already sorted on
    */
-  buildQuery(): IQuery {
-    return this.query;
+  private mergeOrders(current: IQueryOrder[] | undefined, added: IQueryOrder[]): IQueryOrder[] {
+    const orders = [...(current ?? [])];
+    for (const order of added) {
+      if (!orders.some(existing => existing.field === order.field)) {
+        orders.push(order);
+      }
+    }
+    return orders;
   }
 
   /**
-   * Convert data types based on schema
+   * Take the pending query for execution with the default scope, soft-delete filter,
+   * keyset ordering and computed fields applied
    */
-  private convertDataTypes(data: Partial<T>): Partial<T> {
-    const converted: Partial<T> = {};
+  private consumeQuery(): IPendingQuery {
+    const { skipDefaultScope, trashed, keyset } = this;
+    return this.prepareQuery(this.takeQuery(), skipDefaultScope, trashed, keyset);
+  }
 
-    for (const [key, value] of Object.entries(data)) {
-      const fieldDef = this.schema.fields[key as keyof T];
-      if (fieldDef) {
-        const convertedValue = this.dataTypeHandler.autoConvert(value, fieldDef.type);
-        (converted as any)[key] = convertedValue;
+  /**
+   * The query consumeQuery() would hand over, leaving the builder state as it is
+   */
+  private previewQuery(): IPendingQuery {
+    const pending = { query: this.query, errors: [...this.errors], warnings: [...this.warnings] };
+    return this.prepareQuery(pending, this.skipDefaultScope, this.trashed, this.keyset);
+  }
+
+  /**
+   * Apply the default scope, soft-delete filter, keyset ordering and computed fields to a pending query
+   */
+  private prepareQuery(
+    pending: IPendingQuery,
+    skipDefaultScope: boolean,
+    trashed: 'exclude' | 'include' | 'only',
+    keyset: boolean
+  ): IPendingQuery {
+    const { query, errors } = skipDefaultScope ? pending : this.withDefaultScope(pending);
+    const filtered = this.withSoftDeleteFilter(query, trashed);
+    const computed = this.withComputedFields(keyset ? this.withKeysetOrder(filtered) : filtered);
+    return { query: computed, errors: [...errors, ...this.parseComputedFields().errors], warnings: pending.warnings };
+  }
+
+  /**
+   * Hand over the pending query with its errors and warnings, resetting the builder state
+   */
+  private takeQuery(): IPendingQuery {
+    const pending = { query: this.query, errors: this.errors, warnings: this.warnings };
+    this.query = {};
+    this.errors = [];
+    this.warnings = [];
+    this.skipDefaultScope = false;
+    this.keyset = false;
+    this.trashed = 'exclude';
+    this.includes = [];
+    this.preloaded = undefined;
+    this.deferredKeys = undefined;
+    return pending;
+  }
+
+  /**
+   * Create an empty, failed query result
+   */
+  private createFailedQueryResult<R = IModelInstance<T>>(
+    errors: IUserFriendlyError[],
+    warnings: ISchemaWarning[] = []
+  ): IQueryResult<R> {
+    return {
+      data: [],
+      success: false,
+      errors,
+      warnings,
+      metadata: {
+        count: 0,
+        executionTime: 0,
+        cacheStatus: 'miss' as const
+      }
+    };
+  }
+
+  /**
+   * Delete a record, either by stamping the soft-delete field or by removing it
+   */
+  private async removeRecord(id: any, soft: boolean, options: IConcurrencyOptions): Promise<IDeleteResult> {
+    try {
+      if (!this.provider) {
+        return {
+          success: false,
+          errors: [this.createNoProviderError()],
+          metadata: {
+            deleted: false,
+            affectedCount: 0,
+            executionTime: 0
+          }
+        };
+      }
+
+      const context = this.createHookContext('delete', id);
+      for (const hooks of this.hooks) {
+        await hooks.beforeDelete?.(context);
       }
+
+      const provider = this.provider;
+      const cascade = new RelationCascade(this, 'delete');
+      const record = cascade.isEmpty() ? null : await this.findForCascade(id);
+      const restricted = record ? await cascade.checkRestrict(record) : null;
+      if (restricted) {
+        return { success: false, errors: [restricted], metadata: { deleted: false, affectedCount: 0, executionTime: 0 } };
+      }
+
+      const writeOptions = this.buildWriteOptions(options);
+      // Related records go in the same transaction, so a failure leaves every record in place
+      const result = await (record ? runInTransaction : runSerialized)(provider, async (): Promise<IDeleteResult> => {
+        const error = record ? await cascade.applyDelete(record, soft) : null;
+        if (error) {
+          return { success: false, errors: [error], metadata: { deleted: false, affectedCount: 0, executionTime: 0 } };
+        }
+        return soft
+          ? this.stampDeleted(provider, id, writeOptions)
+          : provider.delete(this.schema.name, id, writeOptions);
+      });
+      if (result.success) {
+        this.forgetComputedValues(id);
+        for (const hooks of this.hooks) {
+          await hooks.afterDelete?.(context);
+        }
+      }
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        errors: [this.createUserFriendlyError(error)],
+        metadata: {
+          deleted: false,
+          affectedCount: 0,
+          executionTime: 0
+        }
+      };
     }
+  }
 
-    return converted;
+  /**
+   * Take the pending query for a bulk write. Only its filter applies, so queries that
+   * search, page, aggregate or expand are refused rather than widened to every match.
+   */
+  private async takeBulkQuery(method: string): Promise<{ query: IQuery; errors: IUserFriendlyError[] }> {
+    const failed = await this.resolveDeferredKeys();
+    if (failed) {
+      this.takeQuery();
+      return { query: {}, errors: [failed] };
+    }
+
+    const includes = this.includes;
+    const { query, errors } = this.consumeQuery();
+    const unsupported = [
+      query.search ? 'search()' : '',
+      query.pagination ? 'limit(), offset() or after()' : '',
+      query.apply ? 'groupBy()' : '',
+      query.expand?.length || includes.length > 0 ? 'expand() or include()' : ''
+    ].filter(Boolean);
+    if (unsupported.length > 0) {
+      errors.push({
+        code: 'UNSUPPORTED_BULK_QUERY',
+        message: `${method}() on '${this.schema.name}' only takes where conditions, not ${unsupported.join(', ')}`,
+        suggestion: `Narrow the records with where() instead, or ${method === 'deleteWhere' ? 'delete' : 'update'} the records of a find() one by one`,
+        severity: 'error',
+        actionable: true
+      });
+    }
+    return { query, errors };
   }
 
   /**
-   * Validate data against schema
+   * The concurrency token of a bulk write: a new timestamp, or a version every provider increments
    */
-  private validateData(data: Partial<T>): IValidationResult {
-    const errors: IUserFriendlyError[] = [];
-    const warnings: ISchemaWarning[] = [];
+  private withBulkConcurrency(data: Record<string, unknown>): { data: Record<string, unknown>; increment?: string[] } {
+    const token = this.getConcurrencyField();
+    if (!token || token in data) {
+      return { data };
+    }
+    const fieldDef = this.schema.fields[token as keyof T] as IFieldDefinition;
+    return fieldDef.concurrency === 'timestamp'
+      ? { data: { ...data, [token]: new Date() } }
+      : { data, increment: [token] };
+  }
 
-    for (const [key, value] of Object.entries(data)) {
-      const fieldDef = this.schema.fields[key as keyof T];
-      if (!fieldDef) {
-        errors.push({
-          code: 'INVALID_FIELD',
-          message: `Field '${key}' does not exist in schema`,
-          suggestion: `Available fields: ${Object.keys(this.schema.fields).join(', ')}`,
-          severity: 'error',
-          actionable: true,
-          field: key
-        });
-        continue;
+  /**
+   * Create rows one by one for providers without createMany; the caller's transaction undoes earlier rows on a failure
+   */
+  private async createEach(provider: IActiveRecordProvider, rows: Partial<T>[], options: ICreateOptions): Promise<IBulkResult<T>> {
+    const data: T[] = [];
+    const ids: unknown[] = [];
+    for (const [index, row] of rows.entries()) {
+      const result = await provider.create<T>(this.schema.name, row, options);
+      if (!result.success) {
+        return this.createFailedBulkResult([], [{ index, errors: result.errors ?? [] }]);
+      }
+      data.push(result.data ?? row as T);
+      ids.push(result.id);
+    }
+    return { success: true, data, ids, metadata: { executionTime: 0, affectedCount: rows.length } };
+  }
+
+  /**
+   * Write every record a query matches through a single-record method, in one transaction.
+   * The first failure stops the writes and is reported by the record's position among the matches.
+   */
+  private async writeEach<R>(
+    provider: IActiveRecordProvider,
+    query: IQuery,
+    write: (id: unknown) => Promise<{ success: boolean; errors?: IUserFriendlyError[] }>
+  ): Promise<IBulkResult<R>> {
+    const primaryKey = this.getPrimaryKey();
+    const keyQuery: IQuery = { ...query, select: { fields: [primaryKey] } };
+    const ids: unknown[] = [];
+    for await (const record of provider.streamQuery ? provider.streamQuery<T>(this.schema.name, keyQuery) : this.streamPages(provider, keyQuery)) {
+      ids.push((record as Record<string, unknown>)[primaryKey]);
+    }
+
+    return runInTransaction(provider, async (): Promise<IBulkResult<R>> => {
+      for (const [index, id] of ids.entries()) {
+        const result = await write(id);
+        if (!result.success) {
+          return this.createFailedBulkResult<R>([], [{ index, errors: result.errors ?? [] }]);
+        }
       }
+      return { success: true, metadata: { executionTime: 0, affectedCount: ids.length } };
+    });
+  }
 
-      // Check required fields
-      if (!fieldDef.nullable && (value === null || value === undefined || value === '')) {
-        errors.push({
-          code: 'REQUIRED_FIELD',
-          message: `Field '${key}' is required`,
-          suggestion: `Provide a value for the ${key} field`,
-          severity: 'error',
-          actionable: true,
-          field: key
-        });
+  /**
+   * Upsert for providers without upsert: look the record up by its conflict keys, then create or update it.
+   * Runs in the caller's transaction where the provider has one.
+   */
+  private async upsertByLookup(
+    provider: IActiveRecordProvider,
+    data: Record<string, unknown>,
+    options: IUpsertOptions
+  ): Promise<IUpsertResult<T>> {
+    const lookup = this.fork().unscoped().withTrashed();
+    options.conflictKeys.forEach(key => lookup.where(key as keyof T, 'eq', data[key]));
+    const existing = await lookup.findOne() as Record<string, unknown> | null;
+
+    if (!existing) {
+      const created = await provider.create<T>(this.schema.name, data as Partial<T>, options.sequences ? { sequences: options.sequences } : {});
+      return {
+        success: created.success,
+        ...(created.data !== undefined ? { data: created.data } : {}),
+        ...(created.id !== undefined ? { id: created.id } : {}),
+        ...(created.errors ? { errors: created.errors } : {}),
+        metadata: { executionTime: created.metadata?.executionTime ?? 0, created: created.success, updated: false }
+      };
+    }
+
+    const id = existing[this.getPrimaryKey()];
+    const patch: Record<string, unknown> = Object.fromEntries((options.update ?? []).map(field => [field, data[field]]));
+    options.increment?.forEach(field => { patch[field] = (Number(existing[field]) || 0) + 1; });
+    const updated = await provider.update<T>(this.schema.name, id, patch as Partial<T>);
+    return {
+      success: updated.success,
+      ...(updated.data !== undefined ? { data: updated.data } : {}),
+      id,
+      ...(updated.errors ? { errors: updated.errors } : {}),
+      metadata: { executionTime: updated.metadata?.executionTime ?? 0, created: false, updated: updated.success }
+    };
+  }
+
+  private createFailedUpsertResult(errors: IUserFriendlyError[]): IUpsertResult<T> {
+    return { success: false, errors, metadata: { executionTime: 0, created: false, updated: false } };
+  }
+
+  private createFailedBulkResult<R = T>(errors: IUserFriendlyError[], rowErrors?: IBulkRowError[]): IBulkResult<R> {
+    return {
+      success: false,
+      ...(errors.length > 0 ? { errors } : {}),
+      ...(rowErrors ? { rowErrors } : {}),
+      metadata: { executionTime: 0, affectedCount: 0 }
+    };
+  }
+
+  /**
+   * Load a record for its cascade rules, whatever the default scope and soft-delete state
+   */
+  private async findForCascade(id: unknown): Promise<Record<string, unknown> | null> {
+    const query = this.fork().unscoped().withTrashed().where(this.getPrimaryKey() as keyof T, 'eq', id);
+    return (await query.findOne()) as Record<string, unknown> | null;
+  }
+
+  /**
+   * A fresh builder for this entity with its provider and hooks, leaving this builder's pending query alone
+   */
+  private fork(): ActiveRecord<T> {
+    const query = new ActiveRecord<T>(this.schema, this.dataTypeHandler, this.provider, this.namespace);
+    this.hooks.forEach(hooks => query.addHooks(hooks));
+    return query;
+  }
+
+  /**
+   * Soft delete a record through a provider update, reported as a delete result
+   */
+  private async stampDeleted(provider: IActiveRecordProvider, id: any, writeOptions: IWriteOptions): Promise<IDeleteResult> {
+    const data: Record<string, unknown> = { [this.schema.softDelete!.field]: new Date() };
+    const token = this.getConcurrencyField();
+    if (token) {
+      data[token] = await this.nextConcurrencyValueFor(id, writeOptions);
+    }
+    const result = await provider.update<T>(this.schema.name, id, data as Partial<T>, writeOptions);
+    const affectedCount = result.metadata?.affectedCount ?? (result.success ? 1 : 0);
+
+    const deleteResult: IDeleteResult = {
+      success: result.success,
+      metadata: {
+        deleted: result.success && affectedCount > 0,
+        affectedCount,
+        executionTime: result.metadata?.executionTime ?? 0
       }
+    };
+    if (result.errors) {
+      deleteResult.errors = result.errors;
+    }
+    return deleteResult;
+  }
+
+  /**
+   * Add the soft-delete condition for the given trashed mode
+   */
+  private withSoftDeleteFilter(query: IQuery, trashed: 'exclude' | 'include' | 'only'): IQuery {
+    const softDelete = this.schema.softDelete;
+    if (!softDelete || trashed === 'include') {
+      return query;
+    }
+
+    const condition: IQueryFilter = {
+      field: softDelete.field,
+      operator: trashed === 'only' ? 'ne' : 'eq',
+      value: null
+    };
+    return { ...query, filter: this.combineFilters(query.filter, condition, 'and') };
+  }
+
+  /**
+   * Keyset pages need a unique ordering, so the primary key breaks ties
+   */
+  private withKeysetOrder(query: IQuery): IQuery {
+    const primaryKey = this.getPrimaryKey();
+    const orderBy = query.orderBy ?? [];
+    if (orderBy.some(order => order.field === primaryKey)) {
+      return query;
+    }
+    return { ...query, orderBy: [...orderBy, { field: primaryKey, direction: 'asc' }] };
+  }
 
-      // Check email validation
-      if (fieldDef.type === 'string' && key.toLowerCase().includes('email')) {
-        if (typeof value === 'string' && !this.dataTypeHandler.validateEmail(value)) {
+  /**
+   * Parse the schema's computed field expressions once; invalid ones are reported on every query
+   */
+  private parseComputedFields(): { fields: IParsedComputedField[]; errors: IUserFriendlyError[] } {
+    if (!this.computedFields) {
+      const fields: IParsedComputedField[] = [];
+      const errors: IUserFriendlyError[] = [];
+      for (const definition of this.schema.computed ?? []) {
+        try {
+          const expression = parseExpression(definition.expression);
+          const unknownFields = getExpressionFields(expression)
+            .filter(name => !(name in this.schema.fields) && !fields.some(field => field.definition.name === name));
+          if (unknownFields.length > 0) {
+            throw new Error(`Unknown fields: ${unknownFields.join(', ')}`);
+          }
+          fields.push({ definition, expression });
+        } catch (error) {
           errors.push({
-            code: 'INVALID_EMAIL',
-            message: `Invalid email format for field '${key}'`,
-            suggestion: 'Please provide a valid email address',
+            code: 'INVALID_EXPRESSION',
+            message: `Computed field '${definition.name}' has an invalid expression: ${error instanceof Error ? error.message : String(error)}`,
+            suggestion: 'Use OData expression syntax, e.g. "price mul quantity" or "concat(firstName, lastName)"',
             severity: 'error',
             actionable: true,
-            field: key
+            field: definition.name
           });
         }
       }
+      this.computedFields = { fields, errors };
+    }
+    return this.computedFields;
+  }
+
+  private getComputedField(name: string): IParsedComputedField | undefined {
+    return this.parseComputedFields().fields.find(field => field.definition.name === name);
+  }
+
+  /**
+   * Ask the provider to compute the fields the query refers to, plus every uncached computed field
+   * when all fields are selected. Cached fields are left to fillComputedFields unless the query needs them.
+   */
+  private withComputedFields(query: IQuery): IQuery {
+    const fields = this.parseComputedFields().fields;
+    if (fields.length === 0) {
+      return query;
+    }
+
+    const referenced = new Set<string>([
+      ...(query.select?.fields ?? []),
+      ...(query.orderBy ?? []).map(order => order.field),
+      ...(query.apply?.groupBy ?? []),
+      ...Object.values(query.apply?.aggregate ?? {}).map(expression => expression.field ?? ''),
+      ...this.getFilterFields(query.filter)
+    ]);
+    const needed = new Set(fields
+      .filter(field => referenced.has(field.definition.name) || (!query.select && !query.apply && !field.definition.cached))
+      .map(field => field.definition.name));
+
+    // A computed field may use the ones declared before it
+    for (const field of [...fields].reverse()) {
+      if (needed.has(field.definition.name)) {
+        getExpressionFields(field.expression).forEach(name => needed.add(name));
+      }
+    }
+
+    const compute: IQueryCompute[] = fields
+      .filter(field => needed.has(field.definition.name))
+      .map(field => ({ name: field.definition.name, expression: field.expression }));
+    return compute.length > 0 ? { ...query, compute } : query;
+  }
+
+  private getFilterFields(filter?: IQueryFilter): string[] {
+    if (!filter) {
+      return [];
+    }
+    if (filter.expression) {
+      return getExpressionFields(filter.expression);
+    }
+    return filter.children ? filter.children.flatMap(child => this.getFilterFields(child)) : [filter.field];
+  }
+
+  /**
+   * Fill in computed fields the provider did not return, honoring cached fields' cacheTtl
+   */
+  private fillComputedFields(record: T, query: IQuery): T {
+    if (this.parseComputedFields().fields.length === 0) {
+      return record;
+    }
+    const values: Record<string, unknown> = { ...(record as Record<string, unknown>) };
+    const id = values[this.getPrimaryKey()];
+
+    for (const { definition, expression } of this.parseComputedFields().fields) {
+      if (query.select && !query.select.fields.includes(definition.name)) {
+        continue;
+      }
+
+      const cacheKey = definition.cached && id !== undefined && id !== null ? `${String(id)}:${definition.name}` : undefined;
+      const cachedValue = cacheKey ? this.computedCache.get(cacheKey) : undefined;
+      if (cacheKey && cachedValue && cachedValue.expiresAt > Date.now()) {
+        values[definition.name] = cachedValue.value;
+        continue;
+      }
+
+      if (!(definition.name in values)) {
+        // Without the fields it reads (e.g. left out by select) the value can't be computed here
+        if (!getExpressionFields(expression).every(name => name in values)) {
+          continue;
+        }
+        values[definition.name] = evaluateExpression(expression, values);
+      }
+
+      if (cacheKey) {
+        const ttl = definition.cacheTtl !== undefined ? definition.cacheTtl * 1000 : Infinity;
+        this.computedCache.set(cacheKey, { value: values[definition.name], expiresAt: Date.now() + ttl });
+      }
+    }
+    return values as T;
+  }
+
+  /**
+   * Drop the cached computed values of a record after it was written
+   */
+  private forgetComputedValues(id: unknown): void {
+    for (const key of this.computedCache.keys()) {
+      if (key.startsWith(`${String(id)}:`)) {
+        this.computedCache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Turn the token the caller or model supplies into provider write conditions.
+   * Without one the write is unconditional: last write wins.
+   */
+  private buildWriteOptions(options: IConcurrencyOptions, dataValue?: unknown): IWriteOptions {
+    const writeOptions: IWriteOptions = {};
+    const token = this.getConcurrencyField();
+    const expected = options.expected ?? dataValue;
+    if (token && expected !== undefined) {
+      writeOptions.concurrency = { field: token, expected };
+    }
+    if (options.etag) {
+      writeOptions.etag = options.etag;
+    }
+    return writeOptions;
+  }
+
+  /**
+   * Next concurrency token of a record. Unconditional writes read the stored version to move it on;
+   * that read guards nothing, it only keeps the version counting.
+   */
+  private async nextConcurrencyValueFor(id: any, writeOptions: IWriteOptions): Promise<unknown> {
+    if (writeOptions.concurrency) {
+      return this.nextConcurrencyValue(writeOptions.concurrency.expected);
+    }
+    const token = this.getConcurrencyField();
+    const fieldDef = token ? this.schema.fields[token as keyof T] as IFieldDefinition : undefined;
+    if (!token || !this.provider || id === undefined || fieldDef?.concurrency === 'timestamp') {
+      return this.nextConcurrencyValue(undefined);
+    }
+    const current = await this.provider.executeQuery<Record<string, unknown>>(this.schema.name, {
+      filter: { field: this.getPrimaryKey(), operator: 'eq', value: id },
+      select: { fields: [token] },
+      pagination: { take: 1 }
+    });
+    return this.nextConcurrencyValue(current.data?.[0]?.[token]);
+  }
+
+  /**
+   * Next concurrency token: the version after the expected one, or the current time
+   */
+  private nextConcurrencyValue(expected: unknown): unknown {
+    const token = this.getConcurrencyField();
+    const fieldDef = token ? this.schema.fields[token as keyof T] as IFieldDefinition : undefined;
+    if (fieldDef?.concurrency === 'timestamp') {
+      return new Date();
     }
+    return (Number(expected) || 0) + 1;
+  }
 
+  private createSoftDeleteDisabledError(method: string): IUserFriendlyError {
     return {
-      isValid: errors.length === 0,
-      errors,
-      warnings,
-      suggestions: errors.map(e => e.suggestion).filter(Boolean) as string[]
+      code: 'SOFT_DELETE_DISABLED',
+      message: `${method}() requires soft delete, which is not enabled for entity '${this.schema.name}'`,
+      suggestion: `Add softDelete: { field: 'deletedAt' } to the '${this.schema.name}' schema`,
+      severity: 'error',
+      actionable: true
+    };
+  }
+
+  /**
+   * Build the context passed to lifecycle hooks
+   */
+  private createHookContext(operation: IHookContext['operation'], id?: unknown): IHookContext {
+    const context: IHookContext = { entityName: this.schema.name, operation };
+    if (this.namespace) {
+      context.namespace = this.namespace.getName();
+    }
+    if (id !== undefined) {
+      context.id = id;
+    }
+    return context;
+  }
+
+  /**
+   * Pass write data through the before hooks, letting each one replace it
+   */
+  private async runBeforeHooks(
+    name: 'beforeCreate' | 'beforeUpdate',
+    data: Partial<T>,
+    context: IHookContext
+  ): Promise<Partial<T>> {
+    let current: Partial<T> = { ...data };
+    for (const hooks of this.hooks) {
+      current = (await hooks[name]?.(current, context)) ?? current;
+    }
+    return current;
+  }
+
+  /**
+   * Create a failed link change result
+   */
+  private createFailedLinkResult(errors: IUserFriendlyError[]): ILinkResult {
+    return { success: false, errors, metadata: { attached: 0, detached: 0, executionTime: 0 } };
+  }
+
+  /**
+   * Create the error for a relation the schema does not declare
+   */
+  private createInvalidRelationError(relation: string): IUserFriendlyError {
+    const declared = (this.schema.relations ?? []).map(r => r.name);
+    return {
+      code: 'INVALID_RELATION',
+      message: `Relation '${relation}' is not declared on entity '${this.schema.name}'`,
+      suggestion: declared.length > 0
+        ? `Available relations: ${declared.join(', ')}`
+        : `Declare the relation in the '${this.schema.name}' schema's relations`,
+      severity: 'error',
+      actionable: true
+    };
+  }
+
+  /**
+   * Create the error for a relation whose target entity is not registered
+   */
+  private createUnknownEntityError(relationDef: IRelationDefinition): IUserFriendlyError {
+    return {
+      code: 'UNKNOWN_ENTITY',
+      message: `Target entity '${relationDef.targetEntity}' of relation '${relationDef.name}' is not registered`,
+      suggestion: `Register '${relationDef.targetEntity}' in the same namespace before building nested queries`,
+      severity: 'error',
+      actionable: true
+    };
+  }
+
+  /**
+   * Create the error returned when no provider is bound
+   */
+  private createNoProviderError(): IUserFriendlyError {
+    return {
+      code: 'NO_PROVIDER',
+      message: `No data provider is bound to entity '${this.schema.name}'`,
+      suggestion: 'Pass a provider to the ActiveRecord constructor or call setProvider() (or EntityNamespace.setProvider())',
+      severity: 'error',
+      actionable: true
     };
   }
 
@@ -472,7 +2554,12 @@ export class ActiveRecord<T = Record<string, unknown>> {
   /**
    * Create a user-friendly error from a raw error
    */
-  private createUserFriendlyError(error: Error): IUserFriendlyError {
+  private createUserFriendlyError(error: unknown): IUserFriendlyError {
+    // Hooks cancel operations by throwing a ready-made user-friendly error
+    if (!(error instanceof Error)) {
+      return this.isUserFriendlyError(error) ? error : this.createUserFriendlyError(new Error(String(error)));
+    }
+
     return {
       code: 'INTERNAL_ERROR',
       message: error.message,
@@ -485,4 +2572,10 @@ export class ActiveRecord<T = Record<string, unknown>> {
       }
     };
   }
+
+  private isUserFriendlyError(value: unknown): value is IUserFriendlyError {
+    return typeof value === 'object' && value !== null &&
+      typeof (value as IUserFriendlyError).code === 'string' &&
+      typeof (value as IUserFriendlyError).message === 'string';
+  }
 }
@@ -0,0 +1,41 @@
+import type { IAggregateExpression } from 'odata-active-record-contracts';
+
+/**
+ * Aggregate expression helpers for ActiveRecord.aggregate(), e.g.
+ * `.groupBy('category').aggregate({ total: sum('price'), products: count() })`
+ */
+
+export function sum(field: string): IAggregateExpression & { fn: 'sum' } {
+  return { fn: 'sum', field };
+}
+
+export function avg(field: string): IAggregateExpression & { fn: 'avg' } {
+  return { fn: 'avg', field };
+}
+
+export function min(field: string): IAggregateExpression & { fn: 'min' } {
+  return { fn: 'min', field };
+}
+
+export function max(field: string): IAggregateExpression & { fn: 'max' } {
+  return { fn: 'max', field };
+}
+
+export function countDistinct(field: string): IAggregateExpression & { fn: 'countDistinct' } {
+  return { fn: 'countDistinct', field };
+}
+
+/**
+ * Number of rows in each group
+ */
+export function count(): IAggregateExpression & { fn: 'count' } {
+  return { fn: 'count' };
+}
+
+/**
+ * Row returned by an aggregation: the group fields plus one value per alias.
+ * min and max keep the field's own type, the other functions produce numbers.
+ */
+export type IAggregateRow<T, A extends Record<string, IAggregateExpression>> = Partial<T> & {
+  [K in keyof A]: A[K]['fn'] extends 'min' | 'max' ? unknown : number;
+};
@@ -0,0 +1,258 @@
+import type {
+  IRelationCascadeAction,
+  IRelationDefinition,
+  IUserFriendlyError
+} from 'odata-active-record-contracts';
+import type { ActiveRecord } from './active-record';
+
+interface ICascadeRule {
+  relation: IRelationDefinition;
+  action: IRelationCascadeAction;
+}
+
+/**
+ * RelationCascade class - Applies the cascade rules of a schema's relations when a record is deleted
+ * or its relation keys change: related records are deleted, moved to the new key, nulled or protect the record (restrict)
+ */
+export class RelationCascade {
+  private rules: ICascadeRule[];
+  // Many-to-many targets detached before a key change, attached again to the new key afterwards
+  private movedLinks = new Map<string, unknown[]>();
+
+  constructor(
+    private activeRecord: ActiveRecord<any>,
+    private event: 'delete' | 'update'
+  ) {
+    this.rules = (activeRecord.getSchema().relations ?? []).flatMap(relation => {
+      const rule = relation.cascade?.[event];
+      // Deleting a record never reaches through to the record it belongs to
+      if (!rule || relation.type === 'many-to-one') {
+        return [];
+      }
+      return [{ relation, action: rule === true ? 'cascade' as const : rule }];
+    });
+  }
+
+  /**
+   * Whether no relation declares a rule for the event
+   */
+  isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  /**
+   * Whether update data sets the key of a relation with a rule
+   */
+  touches(data: Record<string, unknown>): boolean {
+    return this.rules.some(({ relation }) => relation.sourceField in data);
+  }
+
+  /**
+   * Keep the rules of relations whose key changes from the record to the update data
+   */
+  changing(record: Record<string, unknown>, data: Record<string, unknown>): this {
+    this.rules = this.rules.filter(({ relation }) =>
+      relation.sourceField in data && String(record[relation.sourceField]) !== String(data[relation.sourceField]));
+    return this;
+  }
+
+  /**
+   * The error of the restrict rules that related records still violate, listing them; null when none do
+   */
+  async checkRestrict(record: Record<string, unknown>): Promise<IUserFriendlyError | null> {
+    const blocking: { relation: string; entity: string; ids: unknown[] }[] = [];
+    for (const { relation, action } of this.rules) {
+      if (action !== 'restrict') {
+        continue;
+      }
+      const ids = relation.type === 'many-to-many'
+        ? await this.getLinkedValues(relation, record)
+        : (await this.getRelatedRecords(relation, record)).map(related => related[this.getTargetKey(relation)]);
+      if (ids.length > 0) {
+        blocking.push({ relation: relation.name, entity: relation.targetEntity, ids });
+      }
+    }
+    if (blocking.length === 0) {
+      return null;
+    }
+
+    const schema = this.activeRecord.getSchema();
+    const id = record[this.activeRecord.getPrimaryKey()];
+    const listed = blocking.map(({ relation, entity, ids }) =>
+      `${ids.length} ${entity} (${relation}: ${ids.slice(0, 10).map(String).join(', ')}${ids.length > 10 ? ', ...' : ''})`);
+    return {
+      code: this.event === 'delete' ? 'DELETE_RESTRICTED' : 'UPDATE_RESTRICTED',
+      message: `Cannot ${this.event === 'delete' ? 'delete' : 'change the keys of'} ${schema.name} '${String(id)}': still referenced by ${listed.join(' and ')}`,
+      suggestion: `Delete or reassign the related records first, or change the relation's cascade.${this.event} rule`,
+      severity: 'error',
+      actionable: true,
+      details: { blocking }
+    };
+  }
+
+  /**
+   * Delete or null the related records of a record about to be deleted.
+   * A soft delete soft-deletes related records where their schema allows it and keeps nulled keys, so restore() finds them again.
+   */
+  async applyDelete(record: Record<string, unknown>, soft: boolean): Promise<IUserFriendlyError | null> {
+    for (const { relation, action } of this.rules) {
+      if (action === 'restrict' || (soft && action === 'setNull')) {
+        continue;
+      }
+      if (relation.type === 'many-to-many') {
+        const error = await this.detachAll(relation, record);
+        if (error) {
+          return error;
+        }
+        continue;
+      }
+
+      const target = this.activeRecord.relatedQuery(relation.name);
+      const targetKey = target.getPrimaryKey();
+      for (const related of await this.getRelatedRecords(relation, record, !soft)) {
+        const id = related[targetKey];
+        const result = action === 'setNull'
+          ? await target.update(id, { [relation.targetField]: null })
+          : soft ? await target.delete(id) : await target.forceDelete(id);
+        if (!result.success) {
+          return this.createCascadeError(relation, id, action, result.errors?.[0]);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Unlink many-to-many relations from the old key before the record's key changes
+   */
+  async beforeKeyUpdate(record: Record<string, unknown>): Promise<IUserFriendlyError | null> {
+    for (const { relation, action } of this.rules) {
+      if (action === 'restrict' || relation.type !== 'many-to-many' || !relation.through?.entity) {
+        continue;
+      }
+      if (action === 'cascade') {
+        this.movedLinks.set(relation.name, await this.getLinkedValues(relation, record));
+      }
+      const error = await this.detachAll(relation, record);
+      if (error) {
+        return error;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Point the related records at the record's new key, or null their keys
+   */
+  async afterKeyUpdate(record: Record<string, unknown>, updated: Record<string, unknown>): Promise<IUserFriendlyError | null> {
+    const primaryKey = this.activeRecord.getPrimaryKey();
+    for (const { relation, action } of this.rules) {
+      if (action === 'restrict') {
+        continue;
+      }
+      if (relation.type === 'many-to-many') {
+        const moved = this.movedLinks.get(relation.name) ?? [];
+        if (moved.length > 0) {
+          const result = await this.activeRecord.attach(updated[primaryKey], relation.name, moved);
+          if (!result.success) {
+            return this.createCascadeError(relation, updated[primaryKey], action, result.errors?.[0]);
+          }
+        }
+        continue;
+      }
+
+      const target = this.activeRecord.relatedQuery(relation.name);
+      const targetKey = target.getPrimaryKey();
+      const value = action === 'cascade' ? updated[relation.sourceField] : null;
+      for (const related of await this.getRelatedRecords(relation, record, true)) {
+        const result = await target.update(related[targetKey], { [relation.targetField]: value });
+        if (!result.success) {
+          return this.createCascadeError(relation, related[targetKey], action, result.errors?.[0]);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The records of a relation that refer to the record (including soft-deleted ones when asked)
+   */
+  private async getRelatedRecords(
+    relation: IRelationDefinition,
+    record: Record<string, unknown>,
+    withTrashed = false
+  ): Promise<Record<string, unknown>[]> {
+    const key = record[relation.sourceField];
+    if (key === undefined || key === null) {
+      return [];
+    }
+    const query = this.activeRecord.relatedQuery(relation.name).unscoped().where(relation.targetField, 'eq', key);
+    if (withTrashed) {
+      query.withTrashed();
+    }
+
+    const related: Record<string, unknown>[] = [];
+    for await (const item of query.stream()) {
+      related.push(item as Record<string, unknown>);
+    }
+    return related;
+  }
+
+  /**
+   * The targetField values a many-to-many relation links the record to
+   */
+  private async getLinkedValues(relation: IRelationDefinition, record: Record<string, unknown>): Promise<unknown[]> {
+    const through = relation.through;
+    if (through?.field) {
+      // Embedded links go away with the record
+      return this.event === 'delete' ? [] : (Array.isArray(record[through.field]) ? record[through.field] as unknown[] : []);
+    }
+    const provider = this.activeRecord.getProvider();
+    if (!through?.entity || !through.sourceKey || !through.targetKey || !provider) {
+      return [];
+    }
+
+    const result = await provider.read<Record<string, unknown>>(through.entity, {
+      filter: { field: through.sourceKey, operator: 'eq', value: record[relation.sourceField] }
+    });
+    if (!result.success) {
+      throw result.errors?.[0] ?? new Error(`Failed to read the links of relation '${relation.name}'`);
+    }
+    return (result.data ?? []).map(link => link[through.targetKey!]);
+  }
+
+  /**
+   * Remove every link of a many-to-many relation held in a join entity
+   */
+  private async detachAll(relation: IRelationDefinition, record: Record<string, unknown>): Promise<IUserFriendlyError | null> {
+    if (!relation.through?.entity) {
+      return null;
+    }
+    const id = record[this.activeRecord.getPrimaryKey()];
+    const result = await this.activeRecord.detach(id, relation.name);
+    return result.success ? null : this.createCascadeError(relation, id, 'cascade', result.errors?.[0]);
+  }
+
+  private getTargetKey(relation: IRelationDefinition): string {
+    return this.activeRecord.relatedQuery(relation.name).getPrimaryKey();
+  }
+
+  private createCascadeError(
+    relation: IRelationDefinition,
+    id: unknown,
+    action: IRelationCascadeAction,
+    cause?: IUserFriendlyError
+  ): IUserFriendlyError {
+    const applied = relation.type === 'many-to-many'
+      ? 'unlink'
+      : action === 'setNull' ? 'clear the key of' : this.event === 'delete' ? 'delete' : 'move';
+    return {
+      code: 'CASCADE_FAILED',
+      message: `Could not ${applied} related ${relation.targetEntity} '${String(id)}' of relation '${relation.name}'${cause ? `: ${cause.message}` : ''}`,
+      suggestion: cause?.suggestion ?? `Check the ${relation.targetEntity} records of relation '${relation.name}'`,
+      severity: 'error',
+      actionable: true,
+      ...(cause ? { details: { cause } } : {})
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { randomBytes, randomUUID } from 'crypto';
+import type { IDefaultGenerator } from 'odata-active-record-contracts';
+
+/**
+ * Built-in defaultValue generators, e.g.
+ * `{ name: 'id', type: 'string', primary: true, defaultValue: uuid() }`
+ */
+
+export function uuid(): IDefaultGenerator & { generator: 'uuid' } {
+  return { generator: 'uuid' };
+}
+
+export function now(): IDefaultGenerator & { generator: 'now' } {
+  return { generator: 'now' };
+}
+
+export function cuid(): IDefaultGenerator & { generator: 'cuid' } {
+  return { generator: 'cuid' };
+}
+
+/**
+ * Next number of a sequence kept by the data source; the name defaults to '<entity>.<field>'
+ */
+export function sequence(options: { name?: string; start?: number } = {}): IDefaultGenerator & { generator: 'sequence' } {
+  return {
+    generator: 'sequence',
+    ...(options.name !== undefined ? { sequence: options.name } : {}),
+    ...(options.start !== undefined ? { start: options.start } : {})
+  };
+}
+
+/**
+ * Whether a defaultValue is one of the built-in generators
+ */
+export function isDefaultGenerator(value: unknown): value is IDefaultGenerator {
+  return typeof value === 'object' && value !== null &&
+    ['uuid', 'now', 'cuid', 'sequence'].includes((value as IDefaultGenerator).generator);
+}
+
+let cuidCounter = 0;
+
+/**
+ * Generate a value for a uuid(), now() or cuid() default
+ */
+export function generateDefault(generator: IDefaultGenerator): unknown {
+  switch (generator.generator) {
+    case 'uuid':
+      return randomUUID();
+    case 'now':
+      return new Date();
+    case 'cuid': {
+      // 'c' + timestamp + process-wide counter + random block, all base 36
+      cuidCounter = (cuidCounter + 1) % 36 ** 4;
+      const random = Array.from(randomBytes(8), byte => (byte % 36).toString(36)).join('');
+      return `c${Date.now().toString(36)}${cuidCounter.toString(36).padStart(4, '0')}${random}`;
+    }
+    default:
+      throw new Error(`Generator '${generator.generator}' is assigned by the data source`);
+  }
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ActiveRecord } from './active-record';
 import type { IEntitySchema, IDataTypeHandler } from 'odata-active-record-contracts';
+import { MockProvider } from './test-helpers';
 
 // Real-world entity example
 interface User {
@@ -206,7 +207,7 @@ describe('E2E: Complete Active Record Workflow', () => {
 
   beforeEach(() => {
     dataTypeHandler = new ProductionDataTypeHandler();
-    userModel = new ActiveRecord<User>(userSchema, dataTypeHandler);
+    userModel = new ActiveRecord<User>(userSchema, dataTypeHandler, new MockProvider());
   });
 
   describe('Complete User Management Workflow', () => {
@@ -214,7 +215,7 @@ describe('E2E: Complete Active Record Workflow', () => {
       // 1. CREATE - Create a new user with mixed data types
       console.log('🎯 Step 1: Creating user with mixed data types...');
       
-      const createResult = userModel.create({
+      const createResult = await userModel.create({
         firstName: 'John',
         lastName: 'Doe',
         email: 'john.doe@example.com',
@@ -264,7 +265,7 @@ describe('E2E: Complete Active Record Workflow', () => {
       console.log('🎯 Step 4: Updating user data...');
       
       const userId = createResult.data?.id;
-      const updateResult = userModel.update(userId, {
+      const updateResult = await userModel.update(userId, {
         age: '30', // String that should be converted to number
         preferences: '{"theme": "light", "notifications": false}' // String that should be converted to JSON
       });
@@ -279,16 +280,16 @@ describe('E2E: Complete Active Record Workflow', () => {
       // 5. DELETE - Delete user
       console.log('🎯 Step 5: Deleting user...');
       
-      const deleteResult = userModel.delete(userId);
+      const deleteResult = await userModel.delete(userId);
       expect(deleteResult.success).toBe(true);
       console.log('✅ User deleted successfully');
     });
 
-    it('should handle validation errors gracefully with helpful messages', () => {
+    it('should handle validation errors gracefully with helpful messages', async () => {
       console.log('🎯 Testing error handling with invalid data...');
       
       // Try to create user with invalid data
-      const result = userModel.create({
+      const result = await userModel.create({
         firstName: '', // Empty string should fail validation
         lastName: 'Doe',
         email: 'invalid-email', // Invalid email should fail validation
@@ -338,7 +339,7 @@ describe('E2E: Complete Active Record Workflow', () => {
       console.log('✅ Fluent query building works correctly');
     });
 
-    it('should demonstrate the easiest possible usage', () => {
+    it('should demonstrate the easiest possible usage', async () => {
       console.log('🎯 Demonstrating the easiest possible usage...');
       
       // This is how easy it should be to use OData Active Record
@@ -352,7 +353,7 @@ describe('E2E: Complete Active Record Workflow', () => {
       expect(users).toBe(userModel);
       
       // Data types should be handled automatically
-      const user = userModel.create({
+      const user = await userModel.create({
         firstName: 'Jane',
         lastName: 'Smith',
         email: 'jane.smith@example.com',
@@ -383,7 +384,7 @@ describe('E2E: Complete Active Record Workflow', () => {
         { firstName: 'Carol', lastName: 'Davis', email: 'carol@example.com', age: '35' }
       ];
 
-      const results = users.map(user => userModel.create(user));
+      const results = await Promise.all(users.map(user => userModel.create(user)));
       
       expect(results.length).toBe(3);
       expect(results.every(r => r.success)).toBe(true);
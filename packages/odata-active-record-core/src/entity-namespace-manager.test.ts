@@ -5,8 +5,9 @@ import type {
   IEntitySchema, 
   IDataTypeHandler, 
   IEntityNamespaceManager,
-  IEntityNamespace 
+  IEntityNamespace
 } from 'odata-active-record-contracts';
+import { MockProvider } from './test-helpers';
 
 // Test entities
 interface User {
@@ -394,9 +395,11 @@ describe('EntityNamespaceManager', () => {
   });
 
   describe('Data Type Handling Across Namespaces', () => {
-    it('should maintain consistent data type handling across namespaces', () => {
-      const namespace1 = manager.createNamespace('namespace1');
+    it('should maintain consistent data type handling across namespaces', async () => {
+      const provider = new MockProvider();
+      const namespace1 = manager.createNamespace('namespace1', provider);
       const namespace2 = manager.createNamespace('namespace2');
+      namespace2.setProvider(provider);
       
       namespace1.registerEntity('User', userSchema);
       namespace2.registerEntity('User', userSchema);
@@ -405,8 +408,8 @@ describe('EntityNamespaceManager', () => {
       const user2 = namespace2.getEntity('User');
       
       // Both should handle data types the same way
-      const result1 = user1?.create({ name: 'John', age: '25' });
-      const result2 = user2?.create({ name: 'Jane', age: '30' });
+      const result1 = await user1?.create({ name: 'John', age: '25' });
+      const result2 = await user2?.create({ name: 'Jane', age: '30' });
       
       expect(result1?.success).toBe(true);
       expect(result2?.success).toBe(true);
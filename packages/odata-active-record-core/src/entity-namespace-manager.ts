@@ -6,7 +6,8 @@ import type {
   IValidationResult,
   INamespaceStats,
   IUserFriendlyError,
-  ISchemaWarning
+  ISchemaWarning,
+  IActiveRecordProvider
 } from 'odata-active-record-contracts';
 
 /**
@@ -19,16 +20,16 @@ export class EntityNamespaceManager implements IEntityNamespaceManager {
   constructor(private dataTypeHandler: IDataTypeHandler) {}
 
   /**
-   * Create a new entity namespace
+   * Create a new entity namespace, optionally bound to a data provider
    */
-  createNamespace(name: string): IEntityNamespace {
+  createNamespace(name: string, provider?: IActiveRecordProvider): IEntityNamespace {
     // Check if namespace already exists
     if (this.namespaces.has(name)) {
       return this.namespaces.get(name)!;
     }
 
     // Create new namespace
-    const namespace = new EntityNamespace(name, this.dataTypeHandler);
+    const namespace = new EntityNamespace(name, this.dataTypeHandler, provider);
     this.namespaces.set(name, namespace);
     
     return namespace;
@@ -1,24 +1,38 @@
 import { ActiveRecord } from './active-record';
+import { runInTransaction, isTransactionUnsupported } from './transaction';
+import { RelationCascade } from './cascade';
+import type { IPreparedWrite } from './active-record';
 import type {
   IEntitySchema,
   IDataTypeHandler,
   IEntityNamespace,
   IValidationResult,
   IUserFriendlyError,
-  ISchemaWarning
+  ISchemaWarning,
+  IActiveRecordProvider,
+  IEntityHooks,
+  ICrossEntityOperations,
+  ITransactionOperation,
+  ITransactionOperationResult,
+  ITransactionReference,
+  ITransactionResult,
+  IChangesetRequest,
+  ICreateResult,
+  ISQLiteProvider
 } from 'odata-active-record-contracts';
 
 /**
  * EntityNamespace class - Manages a single namespace with multiple entities
  * Provides complete isolation for entities within this namespace
  */
-export class EntityNamespace implements IEntityNamespace {
+export class EntityNamespace implements IEntityNamespace, Pick<ICrossEntityOperations, 'executeTransaction'> {
   private entities: Map<string, ActiveRecord<any>> = new Map();
   private schemas: Map<string, IEntitySchema> = new Map();
 
   constructor(
     private name: string,
-    private dataTypeHandler: IDataTypeHandler
+    private dataTypeHandler: IDataTypeHandler,
+    private provider?: IActiveRecordProvider
   ) {}
 
   /**
@@ -42,11 +56,11 @@ export class EntityNamespace implements IEntityNamespace {
     }
 
     // Create new ActiveRecord instance for this entity
-    const activeRecord = new ActiveRecord<T>(schema, this.dataTypeHandler);
+    const activeRecord = new ActiveRecord<T>(schema, this.dataTypeHandler, this.provider, this);
     
     // Store both the ActiveRecord instance and the schema
     this.entities.set(entityName, activeRecord);
-    this.schemas.set(entityName, schema);
+    this.schemas.set(entityName, schema as IEntitySchema);
   }
 
   /**
@@ -98,6 +112,86 @@ export class EntityNamespace implements IEntityNamespace {
     return schemas;
   }
 
+  /**
+   * Set the data provider used by every entity in this namespace
+   */
+  setProvider(provider: IActiveRecordProvider): void {
+    this.provider = provider;
+    for (const activeRecord of this.entities.values()) {
+      activeRecord.setProvider(provider);
+    }
+  }
+
+  /**
+   * Get the data provider used by this namespace
+   */
+  getProvider(): IActiveRecordProvider | null {
+    return this.provider ?? null;
+  }
+
+  /**
+   * Register lifecycle hooks for an entity; hooks run in registration order
+   */
+  registerHooks<T = Record<string, unknown>>(entityName: string, hooks: IEntityHooks<T>): boolean {
+    const activeRecord = this.getEntity<T>(entityName);
+    if (!activeRecord) {
+      return false;
+    }
+    activeRecord.addHooks(hooks);
+    return true;
+  }
+
+  /**
+   * Run create, update and delete operations atomically: either every operation applies or none does.
+   * SQLite and MongoDB providers run them through their entities (hooks, validation and cascades included) in one transaction;
+   * HTTP providers send them as one $batch changeset, prepared by the same hooks and validation. `ref()` values stand for records created by earlier operations.
+   */
+  async executeTransaction<T = Record<string, unknown>>(operations: ITransactionOperation[]): Promise<ITransactionResult<T>> {
+    const startTime = Date.now();
+    const invalid = this.checkTransaction(operations);
+    if (invalid) {
+      return this.finishTransaction<T>(operations, [], startTime, false, [invalid]);
+    }
+
+    const provider = this.provider!;
+    if (typeof (provider as Partial<ISQLiteProvider>).beginTransaction !== 'function') {
+      return this.runChangeset<T>(operations, startTime);
+    }
+
+    const results: ITransactionOperationResult<T>[] = [];
+    const created = new Map<string, Record<string, unknown>>();
+    try {
+      await runInTransaction(provider, async () => {
+        for (const operation of operations) {
+          const result = await this.runOperation<T>(operation, created);
+          results.push(result);
+          if (!result.success) {
+            return { success: false };
+          }
+        }
+        return { success: true };
+      }, { required: true });
+    } catch (error) {
+      if (isTransactionUnsupported(error)) {
+        return this.finishTransaction<T>(operations, results, startTime, false, [{
+          code: 'TRANSACTIONS_NOT_SUPPORTED',
+          message: `The provider of namespace '${this.name}' cannot apply writes atomically: its server has no transactions`,
+          suggestion: 'Run MongoDB as a replica set (a single member is enough) for transactions',
+          severity: 'error',
+          actionable: true
+        }]);
+      }
+      return this.finishTransaction<T>(operations, results, startTime, true, [{
+        code: 'TRANSACTION_FAILED',
+        message: `The transaction failed and was rolled back: ${error instanceof Error ? error.message : String(error)}`,
+        suggestion: 'Check the provider connection and retry the transaction',
+        severity: 'error',
+        actionable: true
+      }]);
+    }
+    return this.finishTransaction<T>(operations, results, startTime, true);
+  }
+
   /**
    * Validate that all entities in this namespace are compatible
    */
@@ -229,4 +323,262 @@ export class EntityNamespace implements IEntityNamespace {
     const validation = this.validateNamespace();
     return !validation.isValid || validation.warnings.length > 0;
   }
+
+  /**
+   * The error that keeps a transaction from starting: unknown entities, missing ids,
+   * references to records no earlier operation creates, or a provider without transactions; null when it can run
+   */
+  private checkTransaction(operations: ITransactionOperation[]): IUserFriendlyError | null {
+    const invalid = (message: string, suggestion: string, index?: number): IUserFriendlyError => ({
+      code: 'INVALID_TRANSACTION',
+      message: index === undefined ? message : `Operation ${index + 1}: ${message}`,
+      suggestion,
+      severity: 'error',
+      actionable: true,
+      ...(index !== undefined ? { details: { index } } : {})
+    });
+
+    const refs = new Set<string>();
+    for (const [index, operation] of operations.entries()) {
+      if (!this.entities.has(operation.entity)) {
+        return invalid(`entity '${operation.entity}' is not registered in namespace '${this.name}'`,
+          `Register the entity first, or use one of: ${this.listEntities().join(', ')}`, index);
+      }
+      if (operation.type !== 'create' && (operation.id === undefined || operation.id === null)) {
+        return invalid(`${operation.type} operations need the id of the record to ${operation.type}`, 'Set the operation\'s id', index);
+      }
+      const references = [operation.id, ...Object.values(operation.data ?? {})].filter(isTransactionReference);
+      const unknown = references.find(reference => !refs.has(reference.$ref));
+      if (unknown) {
+        return invalid(`'${unknown.$ref}' does not name a record created earlier in the transaction`,
+          'Give the create operation a ref and place it before the operations that reference it', index);
+      }
+      if (operation.ref !== undefined) {
+        if (operation.type !== 'create' || refs.has(operation.ref)) {
+          return invalid(`ref '${operation.ref}' ${operation.type !== 'create' ? 'is only allowed on create operations' : 'is already taken'}`,
+            'Use a unique ref name on create operations', index);
+        }
+        refs.add(operation.ref);
+      }
+    }
+
+    if (!this.provider) {
+      return invalid(`No data provider is bound to namespace '${this.name}'`, 'Call setProvider() before running transactions');
+    }
+    const transactional = this.provider as Partial<ISQLiteProvider>;
+    if (typeof transactional.beginTransaction !== 'function' && typeof this.provider.executeChangeset !== 'function') {
+      return {
+        code: 'TRANSACTIONS_NOT_SUPPORTED',
+        message: `The provider of namespace '${this.name}' cannot apply writes atomically`,
+        suggestion: 'Use a provider with transactions (SQLite, MongoDB) or $batch changesets (HTTP OData)',
+        severity: 'error',
+        actionable: true
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Run one operation through its entity, with references resolved against the records created so far
+   */
+  private async runOperation<T>(
+    operation: ITransactionOperation,
+    created: Map<string, Record<string, unknown>>
+  ): Promise<ITransactionOperationResult<T>> {
+    const entity = this.entities.get(operation.entity)!;
+    const primaryKey = entity.getPrimaryKey();
+    const resolve = (value: unknown): unknown => {
+      if (!isTransactionReference(value)) {
+        return value;
+      }
+      const record = created.get(value.$ref) ?? {};
+      return record[value.field ?? primaryKey];
+    };
+    const id = resolve(operation.id);
+    const data = Object.fromEntries(Object.entries(operation.data ?? {}).map(([field, value]) => [field, resolve(value)]));
+
+    const result = operation.type === 'create'
+      ? await entity.create(data)
+      : operation.type === 'update' ? await entity.update(id, data) : await entity.delete(id);
+    const record = 'data' in result ? result.data as Record<string, unknown> | undefined : undefined;
+    const writtenId = operation.type === 'create' ? (result as ICreateResult).id ?? record?.[primaryKey] : id;
+    if (result.success && operation.ref !== undefined) {
+      created.set(operation.ref, { ...data, ...record, [primaryKey]: writtenId });
+    }
+    return {
+      operation,
+      success: result.success,
+      ...(record ? { data: record as T } : {}),
+      ...(writtenId !== undefined ? { id: writtenId } : {}),
+      ...(result.errors ? { errors: result.errors } : {})
+    };
+  }
+
+  /**
+   * Send the operations to the provider as one changeset, each prepared by its entity's before-hooks, defaults and validation;
+   * the after-hooks run once the service applied them all.
+   * Id references address the created entity; data references bind the many-to-one relation the field keys.
+   */
+  private async runChangeset<T>(operations: ITransactionOperation[], startTime: number): Promise<ITransactionResult<T>> {
+    const positions = new Map<string, number>();
+    const requests: IChangesetRequest[] = [];
+    const prepared: IPreparedWrite<any>[] = [];
+    for (const [index, operation] of operations.entries()) {
+      const entity = this.entities.get(operation.entity)!;
+      const schema = entity.getSchema();
+      const refuse = (error: Omit<IUserFriendlyError, 'severity' | 'actionable'>): ITransactionResult<T> =>
+        this.finishTransaction<T>(operations, [], startTime, false, [{ ...error, severity: 'error', actionable: true, details: { index } }]);
+      const unsupported = (reference: ITransactionReference, field?: string): ITransactionResult<T> => refuse({
+        code: 'TRANSACTION_REFERENCE_UNSUPPORTED',
+        message: `Operation ${index + 1}: ${field ? `field '${field}' of ${schema.name}` : 'the id'} cannot reference '${reference.$ref}'${reference.field ? ` field '${reference.field}'` : ''} in a $batch changeset`,
+        suggestion: field
+          ? `Changesets reference created records through many-to-one relations: declare one with sourceField '${field}', and reference the record itself`
+          : 'Changesets can only address created records by their id: reference the record without a field'
+      });
+
+      // Cascades read and write related records one by one, which a changeset cannot do
+      const cascade = operation.type === 'create' ? null : new RelationCascade(entity, operation.type);
+      if (cascade && !cascade.isEmpty() && (operation.type === 'delete' || cascade.touches(operation.data ?? {}))) {
+        return refuse({
+          code: 'TRANSACTION_CASCADE_UNSUPPORTED',
+          message: `Operation ${index + 1}: the ${operation.type} cascade rules of ${schema.name} cannot run in a $batch changeset`,
+          suggestion: `Run this ${operation.type} through the ${operation.entity} entity outside the transaction, or delete the related records in earlier operations`
+        });
+      }
+
+      const request: IChangesetRequest = { type: operation.type, entityName: schema.name };
+      if (isTransactionReference(operation.id)) {
+        if (operation.id.field) {
+          return unsupported(operation.id);
+        }
+        request.entityRef = positions.get(operation.id.$ref)!;
+      } else if (operation.id !== undefined) {
+        request.id = operation.id;
+      }
+
+      const data: Record<string, unknown> = {};
+      const bind: Record<string, number> = {};
+      const bound: string[] = [];
+      for (const [field, value] of Object.entries(operation.data ?? {})) {
+        if (!isTransactionReference(value)) {
+          data[field] = value;
+          continue;
+        }
+        const position = positions.get(value.$ref)!;
+        const targetName = operations[position]!.entity;
+        const targetSchema = this.entities.get(targetName)!.getSchema().name;
+        const relation = (schema.relations ?? []).find(candidate => candidate.type === 'many-to-one'
+          && candidate.sourceField === field
+          && (candidate.targetEntity === targetName || candidate.targetEntity === targetSchema));
+        if (!relation || value.field) {
+          return unsupported(value, field);
+        }
+        bind[relation.name] = position;
+        bound.push(field);
+      }
+
+      const write = await entity.prepareWrite(operation.type, isTransactionReference(operation.id) ? undefined : operation.id, data, bound);
+      if (!write.success) {
+        const skipped = operations.slice(0, index).map(() => undefined);
+        return this.finishTransaction<T>(operations, [...skipped, { operation, success: false, errors: write.errors ?? [] }], startTime, false);
+      }
+      prepared.push(write);
+      request.type = write.type;
+      if (write.data) {
+        request.data = write.data as Record<string, unknown>;
+      }
+      if (Object.keys(bind).length > 0) {
+        request.bind = bind;
+      }
+      requests.push(request);
+      if (operation.ref !== undefined) {
+        positions.set(operation.ref, index);
+      }
+    }
+
+    const changeset = await this.provider!.executeChangeset!(requests);
+    if (changeset.results.length === 0) {
+      return this.finishTransaction<T>(operations, [], startTime, true, changeset.errors || []);
+    }
+    const results = operations.map((operation, index): ITransactionOperationResult<T> => {
+      const result = changeset.results[index] ?? { success: false };
+      const request = requests[index]!;
+      const id = request.type === 'create'
+        ? result.id
+        : request.entityRef !== undefined ? changeset.results[request.entityRef]?.id : request.id;
+      return {
+        operation,
+        success: result.success,
+        ...(result.data ? { data: result.data as T } : {}),
+        ...(id !== undefined ? { id } : {}),
+        ...(result.errors ? { errors: result.errors } : {})
+      };
+    });
+    if (results.every(result => result.success)) {
+      for (const [index, write] of prepared.entries()) {
+        await write.complete(results[index]!.data, results[index]!.id);
+      }
+    }
+    return this.finishTransaction<T>(operations, results, startTime, true);
+  }
+
+  /**
+   * Complete a transaction's result. After a failure every operation reports it:
+   * the failed one with its own errors, the others as aborted, since their writes were rolled back or never made.
+   */
+  private finishTransaction<T>(
+    operations: ITransactionOperation[],
+    results: (ITransactionOperationResult<T> | undefined)[],
+    startTime: number,
+    started: boolean,
+    errors: IUserFriendlyError[] = []
+  ): ITransactionResult<T> {
+    const failedIndex = results.findIndex(result => result && !result.success);
+    const failed = results[failedIndex];
+    const failure: IUserFriendlyError[] = failed
+      ? [{
+        code: 'TRANSACTION_FAILED',
+        message: `Operation ${failedIndex + 1} (${failed.operation.type} ${failed.operation.entity}) failed${failed.errors?.[0] ? `: ${failed.errors[0].message}` : ''}; no operation was applied`,
+        suggestion: failed.errors?.[0]?.suggestion ?? 'Fix the failed operation and run the transaction again',
+        severity: 'error',
+        actionable: true,
+        details: { index: failedIndex, errors: failed.errors ?? [] }
+      }]
+      : errors;
+    const success = failure.length === 0;
+
+    return {
+      success,
+      results: success ? results.filter(result => result !== undefined) : operations.map((operation, index) => {
+        const result = results[index];
+        if (result && !result.success) {
+          return result;
+        }
+        return {
+          operation,
+          success: false,
+          errors: [{
+            code: 'TRANSACTION_ABORTED',
+            message: `Operation ${index + 1} (${operation.type} ${operation.entity}) was ${result ? 'rolled back' : 'not applied'} because the transaction failed`,
+            suggestion: 'Fix the error reported for the transaction and run it again',
+            severity: 'warning',
+            actionable: false
+          }]
+        };
+      }),
+      ...(success ? {} : { errors: failure }),
+      metadata: {
+        operationCount: results.filter(result => result !== undefined).length,
+        executionTime: Date.now() - startTime,
+        rolledBack: !success && started
+      }
+    };
+  }
+}
+
+/**
+ * Whether an operation value is a ref() to a record created earlier in the transaction
+ */
+function isTransactionReference(value: unknown): value is ITransactionReference {
+  return typeof value === 'object' && value !== null && typeof (value as ITransactionReference).$ref === 'string';
 }
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { parseExpression, evaluateExpression, serializeExpression } from './expression';
+
+describe('Expressions', () => {
+  it('should parse OData expressions with operator precedence', () => {
+    const expression = parseExpression("price add price mul 2 gt 10 and not startswith(name, 'x')");
+
+    expect(evaluateExpression(expression, { price: 4, name: 'abc' })).toBe(true);
+    expect(evaluateExpression(expression, { price: 3, name: 'abc' })).toBe(false);
+    expect(serializeExpression(expression)).toBe("((price add (price mul 2)) gt 10) and not startswith(name,'x')");
+    expect(evaluateExpression(parseExpression('year(createdAt) sub 2000'), { createdAt: '2024-03-01T00:00:00Z' })).toBe(24);
+    expect(evaluateExpression(parseExpression('age add 1'), { age: null })).toBeNull();
+  });
+
+  it('should report the position of syntax errors', () => {
+    expect(() => parseExpression('price mul (quantity')).toThrow("Expected ')' before end of expression at position 19");
+    expect(() => parseExpression('eval(price)')).toThrow("Unknown function 'eval' at position 0");
+  });
+});
@@ -0,0 +1,526 @@
+import type { IExpressionNode, IExpressionBinaryOperator } from 'odata-active-record-contracts';
+
+/**
+ * OData-style expressions: parsing, safe in-memory evaluation and serialization.
+ * Expressions only read record fields and call the functions listed below, nothing else is reachable.
+ */
+
+/**
+ * Raised for malformed expressions; position is the 0-based offset of the offending input
+ */
+export class ExpressionSyntaxError extends Error {
+  constructor(public readonly reason: string, public readonly position: number) {
+    super(`${reason} at position ${position}`);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
+/** Supported functions with their minimum and maximum argument counts */
+export const EXPRESSION_FUNCTIONS: Record<string, [number, number]> = {
+  concat: [2, 2],
+  contains: [2, 2],
+  startswith: [2, 2],
+  endswith: [2, 2],
+  length: [1, 1],
+  indexof: [2, 2],
+  substring: [2, 3],
+  tolower: [1, 1],
+  toupper: [1, 1],
+  trim: [1, 1],
+  year: [1, 1],
+  month: [1, 1],
+  day: [1, 1],
+  hour: [1, 1],
+  minute: [1, 1],
+  second: [1, 1],
+  now: [0, 0],
+  round: [1, 1],
+  floor: [1, 1],
+  ceiling: [1, 1]
+};
+
+const BINARY_PRECEDENCE: Record<IExpressionBinaryOperator, number> = {
+  or: 1,
+  and: 2,
+  eq: 3,
+  ne: 3,
+  gt: 4,
+  ge: 4,
+  lt: 4,
+  le: 4,
+  in: 4,
+  add: 5,
+  sub: 5,
+  mul: 6,
+  div: 6,
+  mod: 6
+};
+
+interface IToken {
+  type: 'string' | 'number' | 'date' | 'word' | 'punct' | 'end';
+  value: string;
+  position: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?/;
+const NUMBER_PATTERN = /^\d+(\.\d+)?([eE][+-]?\d+)?/;
+const WORD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+/**
+ * Parse an OData expression into an expression tree.
+ * Pass a map to collect the source offset of every node, e.g. for error reporting.
+ */
+export function parseExpression(source: string, positions?: Map<IExpressionNode, number>): IExpressionNode {
+  const parser = new ExpressionParser(tokenize(source), positions ?? new Map());
+  const node = parser.parseExpression(0);
+  parser.expectEnd();
+  return node;
+}
+
+function tokenize(source: string): IToken[] {
+  const tokens: IToken[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const char = source[position]!;
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',' || char === '-') {
+      tokens.push({ type: 'punct', value: char, position });
+      position++;
+      continue;
+    }
+
+    if (char === "'") {
+      // Quotes inside strings are doubled: 'O''Neil'
+      let value = '';
+      let index = position + 1;
+      for (;;) {
+        if (index >= source.length) {
+          throw new ExpressionSyntaxError('Unterminated string literal', position);
+        }
+        if (source[index] === "'") {
+          if (source[index + 1] === "'") {
+            value += "'";
+            index += 2;
+            continue;
+          }
+          break;
+        }
+        value += source[index];
+        index++;
+      }
+      tokens.push({ type: 'string', value, position });
+      position = index + 1;
+      continue;
+    }
+
+    const date = DATE_PATTERN.exec(rest);
+    if (date) {
+      tokens.push({ type: 'date', value: date[0], position });
+      position += date[0].length;
+      continue;
+    }
+
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position });
+      position += number[0].length;
+      continue;
+    }
+
+    const word = WORD_PATTERN.exec(rest);
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], position });
+      position += word[0].length;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character '${char}'`, position);
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Precedence-climbing parser over the token list
+ */
+class ExpressionParser {
+  private index = 0;
+
+  constructor(private tokens: IToken[], private positions: Map<IExpressionNode, number>) {}
+
+  parseExpression(minPrecedence: number): IExpressionNode {
+    const start = this.peek().position;
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const operator = token.type === 'word' ? token.value as IExpressionBinaryOperator : undefined;
+      const precedence = operator ? BINARY_PRECEDENCE[operator] : undefined;
+      if (!operator || precedence === undefined || precedence <= minPrecedence) {
+        return left;
+      }
+      this.next();
+      const right = operator === 'in' ? this.parseList() : this.parseExpression(precedence);
+      left = this.at(start, { kind: 'binary', operator, left, right });
+    }
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new ExpressionSyntaxError(`Unexpected '${token.value}'`, token.position);
+    }
+  }
+
+  /**
+   * Parenthesized, comma-separated list, the right side of 'in'
+   */
+  private parseList(): IExpressionNode {
+    const start = this.peek().position;
+    this.expect('(');
+    const items = [this.parseExpression(0)];
+    while (this.peek().type === 'punct' && this.peek().value === ',') {
+      this.next();
+      items.push(this.parseExpression(0));
+    }
+    this.expect(')');
+    return this.at(start, { kind: 'list', items });
+  }
+
+  private parseUnary(): IExpressionNode {
+    const token = this.peek();
+    if (token.type === 'word' && token.value === 'not') {
+      this.next();
+      return this.at(token.position, { kind: 'unary', operator: 'not', operand: this.parseUnary() });
+    }
+    if (token.type === 'punct' && token.value === '-') {
+      this.next();
+      const operand = this.parseUnary();
+      // Fold negative number literals
+      if (operand.kind === 'literal' && typeof operand.value === 'number') {
+        return this.at(token.position, { kind: 'literal', value: -operand.value });
+      }
+      return this.at(token.position, { kind: 'unary', operator: 'negate', operand });
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): IExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'string':
+        return this.at(token.position, { kind: 'literal', value: token.value });
+      case 'number':
+        return this.at(token.position, { kind: 'literal', value: Number(token.value) });
+      case 'date': {
+        const date = new Date(token.value);
+        if (Number.isNaN(date.getTime())) {
+          throw new ExpressionSyntaxError(`Invalid date '${token.value}'`, token.position);
+        }
+        return this.at(token.position, { kind: 'literal', value: date });
+      }
+      case 'punct':
+        if (token.value === '(') {
+          const inner = this.parseExpression(0);
+          this.expect(')');
+          return inner;
+        }
+        break;
+      case 'word':
+        if (token.value === 'true' || token.value === 'false') {
+          return this.at(token.position, { kind: 'literal', value: token.value === 'true' });
+        }
+        if (token.value === 'null') {
+          return this.at(token.position, { kind: 'literal', value: null });
+        }
+        if (this.peek().value === '(' && this.peek().type === 'punct') {
+          return this.parseCall(token);
+        }
+        if (token.value in BINARY_PRECEDENCE || token.value === 'not') {
+          break;
+        }
+        return this.at(token.position, { kind: 'field', name: token.value });
+      case 'end':
+        throw new ExpressionSyntaxError('Unexpected end of expression', token.position);
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected '${token.value}'`, token.position);
+  }
+
+  private parseCall(nameToken: IToken): IExpressionNode {
+    const name = nameToken.value.toLowerCase();
+    const arity = EXPRESSION_FUNCTIONS[name];
+    if (!arity) {
+      throw new ExpressionSyntaxError(`Unknown function '${nameToken.value}'`, nameToken.position);
+    }
+
+    this.expect('(');
+    const args: IExpressionNode[] = [];
+    if (!(this.peek().type === 'punct' && this.peek().value === ')')) {
+      args.push(this.parseExpression(0));
+      while (this.peek().type === 'punct' && this.peek().value === ',') {
+        this.next();
+        args.push(this.parseExpression(0));
+      }
+    }
+    this.expect(')');
+
+    const [minArgs, maxArgs] = arity;
+    if (args.length < minArgs || args.length > maxArgs) {
+      const expected = minArgs === maxArgs ? `${minArgs}` : `${minArgs} to ${maxArgs}`;
+      throw new ExpressionSyntaxError(`Function '${name}' takes ${expected} argument(s), got ${args.length}`, nameToken.position);
+    }
+    return this.at(nameToken.position, { kind: 'call', name, args });
+  }
+
+  private at(position: number, node: IExpressionNode): IExpressionNode {
+    this.positions.set(node, position);
+    return node;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new ExpressionSyntaxError(
+        token.type === 'end' ? `Expected '${value}' before end of expression` : `Expected '${value}' but found '${token.value}'`,
+        token.position
+      );
+    }
+  }
+
+  private peek(): IToken {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): IToken {
+    const token = this.tokens[this.index]!;
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+}
+
+/**
+ * Evaluate an expression tree against a record.
+ * Like OData, operations on null yield null and comparisons treat dates by their time.
+ */
+export function evaluateExpression(node: IExpressionNode, record: Record<string, unknown>): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return record[node.name] ?? null;
+    case 'unary': {
+      const operand = evaluateExpression(node.operand, record);
+      if (node.operator === 'not') {
+        return operand === null ? null : !operand;
+      }
+      return typeof operand === 'number' ? -operand : null;
+    }
+    case 'binary':
+      return evaluateBinary(node.operator, evaluateExpression(node.left, record), evaluateExpression(node.right, record));
+    case 'call':
+      return evaluateCall(node.name, node.args.map(arg => evaluateExpression(arg, record)));
+    case 'list':
+      return node.items.map(item => evaluateExpression(item, record));
+  }
+}
+
+function evaluateBinary(operator: IExpressionBinaryOperator, left: unknown, right: unknown): unknown {
+  switch (operator) {
+    case 'and':
+      return Boolean(left) && Boolean(right);
+    case 'or':
+      return Boolean(left) || Boolean(right);
+    case 'eq':
+      return compareValues(left, right) === 0;
+    case 'ne':
+      return compareValues(left, right) !== 0;
+    case 'in':
+      return Array.isArray(right) && right.some(item => compareValues(left, item) === 0);
+  }
+
+  if (left === null || right === null || left === undefined || right === undefined) {
+    return operator === 'gt' || operator === 'ge' || operator === 'lt' || operator === 'le' ? false : null;
+  }
+
+  switch (operator) {
+    case 'gt':
+      return compareValues(left, right) > 0;
+    case 'ge':
+      return compareValues(left, right) >= 0;
+    case 'lt':
+      return compareValues(left, right) < 0;
+    case 'le':
+      return compareValues(left, right) <= 0;
+    case 'add':
+      return Number(left) + Number(right);
+    case 'sub':
+      return Number(left) - Number(right);
+    case 'mul':
+      return Number(left) * Number(right);
+    case 'div':
+      return Number(right) === 0 ? null : Number(left) / Number(right);
+    case 'mod':
+      return Number(right) === 0 ? null : Number(left) % Number(right);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Order two values: dates by time, numbers numerically, everything else as strings.
+ * Returns NaN when either side is null and they differ.
+ */
+function compareValues(left: unknown, right: unknown): number {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left ?? null) === (right ?? null) ? 0 : NaN;
+  }
+  if (left instanceof Date || right instanceof Date) {
+    return (toDate(left)?.getTime() ?? NaN) - (toDate(right)?.getTime() ?? NaN);
+  }
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return Number(left) - Number(right);
+  }
+  const a = String(left);
+  const b = String(right);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function evaluateCall(name: string, args: unknown[]): unknown {
+  if (name === 'now') {
+    return new Date();
+  }
+  if (args.some(arg => arg === null || arg === undefined)) {
+    return null;
+  }
+
+  const [first, second, third] = args;
+  switch (name) {
+    case 'concat':
+      return `${String(first)}${String(second)}`;
+    case 'contains':
+      return String(first).includes(String(second));
+    case 'startswith':
+      return String(first).startsWith(String(second));
+    case 'endswith':
+      return String(first).endsWith(String(second));
+    case 'length':
+      return Array.isArray(first) ? first.length : String(first).length;
+    case 'indexof':
+      return String(first).indexOf(String(second));
+    case 'substring':
+      return third === undefined
+        ? String(first).substring(Number(second))
+        : String(first).substr(Number(second), Number(third));
+    case 'tolower':
+      return String(first).toLowerCase();
+    case 'toupper':
+      return String(first).toUpperCase();
+    case 'trim':
+      return String(first).trim();
+    case 'year':
+      return toDate(first)?.getUTCFullYear() ?? null;
+    case 'month':
+      return toDate(first) ? toDate(first)!.getUTCMonth() + 1 : null;
+    case 'day':
+      return toDate(first)?.getUTCDate() ?? null;
+    case 'hour':
+      return toDate(first)?.getUTCHours() ?? null;
+    case 'minute':
+      return toDate(first)?.getUTCMinutes() ?? null;
+    case 'second':
+      return toDate(first)?.getUTCSeconds() ?? null;
+    case 'round':
+      return Math.round(Number(first));
+    case 'floor':
+      return Math.floor(Number(first));
+    case 'ceiling':
+      return Math.ceil(Number(first));
+    default:
+      return null;
+  }
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+/**
+ * Write an expression tree back in OData syntax
+ */
+export function serializeExpression(node: IExpressionNode): string {
+  switch (node.kind) {
+    case 'literal':
+      return serializeLiteral(node.value);
+    case 'field':
+      return node.name;
+    case 'unary':
+      return node.operator === 'not'
+        ? `not ${serializeOperand(node.operand)}`
+        : `-${serializeOperand(node.operand)}`;
+    case 'binary':
+      return `${serializeOperand(node.left)} ${node.operator} ${serializeOperand(node.right)}`;
+    case 'call':
+      return `${node.name}(${node.args.map(serializeExpression).join(',')})`;
+    case 'list':
+      return `(${node.items.map(serializeExpression).join(',')})`;
+  }
+}
+
+function serializeOperand(node: IExpressionNode): string {
+  return node.kind === 'binary' ? `(${serializeExpression(node)})` : serializeExpression(node);
+}
+
+function serializeLiteral(value: string | number | boolean | null | Date): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  return String(value);
+}
+
+/**
+ * Names of the fields an expression reads
+ */
+export function getExpressionFields(node: IExpressionNode): string[] {
+  switch (node.kind) {
+    case 'field':
+      return [node.name];
+    case 'unary':
+      return getExpressionFields(node.operand);
+    case 'binary':
+      return [...new Set([...getExpressionFields(node.left), ...getExpressionFields(node.right)])];
+    case 'call':
+      return [...new Set(node.args.flatMap(getExpressionFields))];
+    case 'list':
+      return [...new Set(node.items.flatMap(getExpressionFields))];
+    default:
+      return [];
+  }
+}
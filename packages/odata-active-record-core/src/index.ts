@@ -1,7 +1,19 @@
 // Main exports
 export { ActiveRecord } from './active-record';
+export type { IConcurrencyOptions, IPaginateOptions, ISearchOptions, IUpsertKeyOptions } from './active-record';
+export { Model } from './model';
+export type { IRelationAccessors } from './model';
 export { EntityNamespace } from './entity-namespace';
+export { ref } from './transaction';
 export { EntityNamespaceManager } from './entity-namespace-manager';
+export { ValidationEngine } from './validation-engine';
+export type { IValidationOptions } from './validation-engine';
+export { sum, avg, min, max, count, countDistinct } from './aggregates';
+export type { IAggregateRow } from './aggregates';
+export { uuid, now, cuid, sequence } from './defaults';
+export { any, all, LambdaVariable } from './lambda';
+export { parseExpression, evaluateExpression, serializeExpression, ExpressionSyntaxError } from './expression';
+export { parseODataQuery, serializeODataQuery, serializeODataFilter, formatODataLiteral, ODataQueryError } from './odata-query';
 
 // Export providers
 export { ConnectionPool } from './providers/connection-pool';
@@ -21,14 +33,28 @@ export type {
   IQueryResult,
   IQuery,
   IQueryFilter,
+  IQueryLambda,
   IQuerySelect,
   IQueryOrder,
   IQueryPagination,
+  IQueryApply,
+  IAggregateExpression,
+  IAggregateFunction,
+  IQueryCompute,
+  IExpressionNode,
+  IComputedFieldDefinition,
   ISchemaWarning,
   IValidationResult,
+  IValidationRule,
+  IEntityValidationRule,
+  IValidationError,
   ICreateResult,
   IUpdateResult,
   IDeleteResult,
+  IExplainOptions,
+  IExplainResult,
+  INativeQuery,
+  IQueryPlanStep,
   IEntityNamespace,
   IEntityNamespaceManager,
   ICrossEntityOperations,
@@ -41,5 +67,17 @@ export type {
   ITransactionOperation,
   ITransactionResult,
   ITransactionOperationResult,
-  INamespaceStats
+  ITransactionReference,
+  IChangesetRequest,
+  IChangesetResult,
+  INamespaceStats,
+  IHookContext,
+  IEntityHooks,
+  IModel,
+  IModelInstance,
+  IModelChanges,
+  IFieldChange,
+  IWriteOptions,
+  ICreateOptions,
+  IDefaultGenerator
 } from 'odata-active-record-contracts';
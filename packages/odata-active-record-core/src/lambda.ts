@@ -0,0 +1,115 @@
+import type { IQueryFilter } from 'odata-active-record-contracts';
+
+/**
+ * Lambda condition helpers for ActiveRecord.where(), e.g.
+ * `.where(any('tags', t => t.eq('urgent')))` or `.where(any('lines', l => l.field('price').gt(100)))`
+ */
+
+/**
+ * The element of a collection inside a lambda: compare it directly, or one of its fields via field()
+ */
+export class LambdaVariable {
+  constructor(public readonly path: string) {}
+
+  /**
+   * A field of the element, for arrays of objects and relations
+   */
+  field(name: string): LambdaVariable {
+    return new LambdaVariable(`${this.path}/${name}`);
+  }
+
+  eq(value: unknown): IQueryFilter {
+    return { field: this.path, operator: 'eq', value };
+  }
+
+  ne(value: unknown): IQueryFilter {
+    return { field: this.path, operator: 'ne', value };
+  }
+
+  gt(value: unknown): IQueryFilter {
+    return { field: this.path, operator: 'gt', value };
+  }
+
+  ge(value: unknown): IQueryFilter {
+    return { field: this.path, operator: 'ge', value };
+  }
+
+  lt(value: unknown): IQueryFilter {
+    return { field: this.path, operator: 'lt', value };
+  }
+
+  le(value: unknown): IQueryFilter {
+    return { field: this.path, operator: 'le', value };
+  }
+
+  in(values: unknown[]): IQueryFilter {
+    return { field: this.path, operator: 'in', value: values };
+  }
+
+  contains(value: string): IQueryFilter {
+    return { field: this.path, operator: 'contains', value };
+  }
+
+  startswith(value: string): IQueryFilter {
+    return { field: this.path, operator: 'startswith', value };
+  }
+
+  endswith(value: string): IQueryFilter {
+    return { field: this.path, operator: 'endswith', value };
+  }
+
+  and(...conditions: IQueryFilter[]): IQueryFilter {
+    return { field: '', operator: 'eq', value: null, logicalOperator: 'and', children: conditions };
+  }
+
+  or(...conditions: IQueryFilter[]): IQueryFilter {
+    return { field: '', operator: 'eq', value: null, logicalOperator: 'or', children: conditions };
+  }
+
+  not(condition: IQueryFilter): IQueryFilter {
+    return { ...condition, not: !condition.not };
+  }
+}
+
+/**
+ * At least one element of the collection matches; without a predicate, the collection is not empty
+ */
+export function any(field: string, predicate?: (element: LambdaVariable) => IQueryFilter): IQueryFilter {
+  return buildLambda('any', field, predicate);
+}
+
+/**
+ * Every element of the collection matches; empty collections match too
+ */
+export function all(field: string, predicate: (element: LambdaVariable) => IQueryFilter): IQueryFilter {
+  return buildLambda('all', field, predicate);
+}
+
+function buildLambda(
+  operator: 'any' | 'all',
+  field: string,
+  predicate?: (element: LambdaVariable) => IQueryFilter
+): IQueryFilter {
+  // Named after the collection like in OData, e.g. tags/any(t: ...)
+  const variable = /[A-Za-z]/.exec(field)?.[0]?.toLowerCase() ?? 'x';
+  return {
+    field,
+    operator: 'eq',
+    value: null,
+    lambda: {
+      operator,
+      variable,
+      ...(predicate ? { condition: predicate(new LambdaVariable(variable)) } : {})
+    }
+  };
+}
+
+/**
+ * Every element path a lambda condition refers to: the variable itself or `variable/field`
+ */
+export function getLambdaPaths(condition?: IQueryFilter): string[] {
+  if (!condition) {
+    return [];
+  }
+  return condition.children ? condition.children.flatMap(getLambdaPaths) : [condition.field];
+}
@@ -0,0 +1,342 @@
+import type {
+  IModel,
+  IModelChanges,
+  IModelInstance,
+  IReadResult,
+  IUpdateResult,
+  IDeleteResult,
+  IUserFriendlyError,
+  IRelationDefinition,
+  ILinkResult
+} from 'odata-active-record-contracts';
+import type { ActiveRecord, IConcurrencyOptions } from './active-record';
+import { RelationLoader } from './relation-loader';
+
+interface IModelState<T> {
+  activeRecord: ActiveRecord<T>;
+  original: Record<string, unknown>;
+  destroyed: boolean;
+  // Shared by the records of one result set so relation loads are batched across them
+  loader?: RelationLoader;
+}
+
+/**
+ * Relation accessors of a model instance, e.g. IModelInstance<Post> & IRelationAccessors<{ author: User; comments: Comment[] }>.
+ * Single relations resolve to the related record; collections return a query builder scoped to the record.
+ */
+export type IRelationAccessors<R> = {
+  [K in keyof R]: R[K] extends Array<infer E>
+    ? () => ActiveRecord<E>
+    : () => Promise<IModelInstance<NonNullable<R[K]>> | null>;
+};
+
+// Kept off the instance so only entity fields are enumerable (spread, JSON, equality checks)
+const modelState = new WeakMap<object, IModelState<any>>();
+
+/**
+ * Model class - A loaded record with dirty tracking and persistence methods
+ */
+export class Model<T = Record<string, unknown>> implements IModel<T> {
+  constructor(activeRecord: ActiveRecord<T>, attributes: T) {
+    Object.assign(this, attributes);
+    modelState.set(this, { activeRecord, original: snapshot(attributes), destroyed: false });
+
+    // Accessors stay off the enumerable fields and never shadow fields, e.g. relations already expanded into the record
+    for (const relation of activeRecord.getSchema().relations ?? []) {
+      if (!(relation.name in this)) {
+        Object.defineProperty(this, relation.name, {
+          value: () => this.related(relation),
+          enumerable: false,
+          configurable: true,
+          writable: true
+        });
+      }
+    }
+  }
+
+  /**
+   * Wrap a plain record in a model instance
+   */
+  static instantiate<T>(activeRecord: ActiveRecord<T>, attributes: T): IModelInstance<T> {
+    return new Model<T>(activeRecord, attributes) as unknown as IModelInstance<T>;
+  }
+
+  /**
+   * Let the records of one result set batch their relation loads
+   */
+  static share<T>(activeRecord: ActiveRecord<T>, instances: IModelInstance<T>[]): RelationLoader {
+    const loader = new RelationLoader(activeRecord, instances);
+    for (const instance of instances) {
+      const state = modelState.get(instance);
+      if (state) {
+        state.loader = loader;
+      }
+    }
+    return loader;
+  }
+
+  /**
+   * Whether any schema field (or the given field) changed since load or the last save
+   */
+  isDirty(field?: keyof T): boolean {
+    const changes = this.changes();
+    return field === undefined ? Object.keys(changes).length > 0 : field in changes;
+  }
+
+  /**
+   * The changed schema fields with their previous and current values
+   */
+  changes(): IModelChanges<T> {
+    const { activeRecord, original } = this.state();
+    const current = this as unknown as Record<string, unknown>;
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+    for (const field of Object.keys(activeRecord.getSchema().fields)) {
+      if (fingerprint(original[field]) !== fingerprint(current[field])) {
+        changes[field] = { from: original[field], to: current[field] };
+      }
+    }
+
+    return changes as IModelChanges<T>;
+  }
+
+  /**
+   * Persist the changed fields with a partial update
+   */
+  async save(): Promise<IUpdateResult<T>> {
+    const state = this.state();
+    const error = this.checkPersisted('save');
+    if (error) {
+      return { success: false, errors: [error], metadata: { updated: false, affectedCount: 0, executionTime: 0 } };
+    }
+
+    const changes = Object.entries(this.changes()) as [string, { to: unknown }][];
+    if (changes.length === 0) {
+      return { success: true, data: this as unknown as T, metadata: { updated: false, affectedCount: 0, executionTime: 0 } };
+    }
+
+    const data = Object.fromEntries(changes.map(([field, change]) => [field, change.to])) as Partial<T>;
+    const result = await state.activeRecord.update(this.getId(), data, this.concurrencyOptions());
+    if (result.success) {
+      // Keep values normalised by hooks or the provider, then start tracking from here
+      Object.assign(this, data, result.data ?? {});
+      state.original = snapshot(this);
+    }
+    return result;
+  }
+
+  /**
+   * Refresh the fields from the data source and discard unsaved changes
+   */
+  async reload(): Promise<IReadResult<T>> {
+    const state = this.state();
+    const error = this.checkPersisted('reload');
+    if (error) {
+      return { success: false, errors: [error] };
+    }
+
+    const record = await state.activeRecord.findById(this.getId());
+    if (!record) {
+      return {
+        success: false,
+        errors: [{
+          code: 'RECORD_NOT_FOUND',
+          message: `${state.activeRecord.getSchema().name} with ${state.activeRecord.getPrimaryKey()} '${String(this.getId())}' was not found`,
+          suggestion: 'The record may have been deleted, or the data provider may be unavailable',
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+
+    for (const field of Object.keys(this)) {
+      delete (this as Record<string, unknown>)[field];
+    }
+    Object.assign(this, record);
+    state.original = snapshot(this);
+    return { success: true, data: [this as unknown as T] };
+  }
+
+  /**
+   * Delete the record from the data source
+   */
+  async destroy(): Promise<IDeleteResult> {
+    const state = this.state();
+    const error = this.checkPersisted('destroy');
+    if (error) {
+      return { success: false, errors: [error], metadata: { deleted: false, affectedCount: 0, executionTime: 0 } };
+    }
+
+    const result = await state.activeRecord.delete(this.getId(), this.concurrencyOptions());
+    if (result.success) {
+      state.destroyed = true;
+    }
+    return result;
+  }
+
+  /**
+   * Link related records (by their targetField values) through a many-to-many relation
+   */
+  async attach(relation: string, targets: unknown[]): Promise<ILinkResult> {
+    return this.updateLinks(relation, 'attach', targets);
+  }
+
+  /**
+   * Unlink related records of a many-to-many relation; without targets every link is removed
+   */
+  async detach(relation: string, targets?: unknown[]): Promise<ILinkResult> {
+    return this.updateLinks(relation, 'detach', targets);
+  }
+
+  /**
+   * Link exactly the given related records, removing any other links of the relation
+   */
+  async sync(relation: string, targets: unknown[]): Promise<ILinkResult> {
+    return this.updateLinks(relation, 'sync', targets);
+  }
+
+  /**
+   * Change the links of a relation and forget the ones loaded before
+   */
+  private async updateLinks(relation: string, mode: 'attach' | 'detach' | 'sync', targets?: unknown[]): Promise<ILinkResult> {
+    const state = this.state();
+    const error = this.checkPersisted(mode);
+    if (error) {
+      return { success: false, errors: [error], metadata: { attached: 0, detached: 0, executionTime: 0 } };
+    }
+
+    const { activeRecord } = state;
+    const result = mode === 'attach'
+      ? await activeRecord.attach(this.getId(), relation, targets ?? [])
+      : mode === 'detach'
+        ? await activeRecord.detach(this.getId(), relation, targets)
+        : await activeRecord.sync(this.getId(), relation, targets ?? []);
+    if (!result.success) {
+      return result;
+    }
+
+    // The next access reads the links again, for this record only
+    delete state.loader;
+    const arrayField = activeRecord.getSchema().relations?.find(r => r.name === relation)?.through?.field;
+    if (arrayField) {
+      // Embedded id arrays live on the record itself: take the stored value without touching other unsaved changes
+      const record = await activeRecord.findById(this.getId());
+      const value = (record as Record<string, unknown> | null)?.[arrayField];
+      (this as Record<string, unknown>)[arrayField] = value;
+      state.original[arrayField] = snapshot({ [arrayField]: value })[arrayField];
+    }
+    return result;
+  }
+
+  /**
+   * Accessor of a relation: the related record for single relations,
+   * a query builder for collections that find() answers from the batch while no condition is added
+   */
+  private related(relation: IRelationDefinition): Promise<IModelInstance<any> | null> | ActiveRecord<any> {
+    const state = this.state();
+    state.loader ??= new RelationLoader(state.activeRecord, [this]);
+    const loader = state.loader;
+
+    if (relation.type === 'many-to-one' || relation.type === 'one-to-one') {
+      return loader.related(relation, this).then(records => records[0] ?? null);
+    }
+
+    const query = state.activeRecord.relatedQuery(relation.name);
+    if (relation.type === 'many-to-many' && relation.through) {
+      // The linked keys come from the join, so they are read when the query runs
+      return query
+        .whereKeysFrom(relation.targetField, () => loader.linkedValues(relation, this))
+        .preload(() => loader.related(relation, this));
+    }
+
+    const key = (this as Record<string, unknown>)[relation.sourceField];
+    return query
+      .where(relation.targetField, 'eq', key)
+      .preload(() => loader.related(relation, this));
+  }
+
+  /**
+   * The concurrency token and ETag this model was loaded with
+   */
+  private concurrencyOptions(): IConcurrencyOptions {
+    const { activeRecord, original } = this.state();
+    const options: IConcurrencyOptions = {};
+    const token = activeRecord.getConcurrencyField();
+    if (token && original[token] !== undefined) {
+      options.expected = original[token];
+    }
+    const etag = original['@odata.etag'];
+    if (typeof etag === 'string') {
+      options.etag = etag;
+    }
+    return options;
+  }
+
+  private state(): IModelState<T> {
+    return modelState.get(this) as IModelState<T>;
+  }
+
+  private getId(): unknown {
+    return (this as Record<string, unknown>)[this.state().activeRecord.getPrimaryKey()];
+  }
+
+  /**
+   * Return an error when the model can no longer be addressed in the data source
+   */
+  private checkPersisted(action: string): IUserFriendlyError | null {
+    const { activeRecord, destroyed } = this.state();
+    const primaryKey = activeRecord.getPrimaryKey();
+
+    if (destroyed) {
+      return {
+        code: 'MODEL_DESTROYED',
+        message: `Cannot ${action} a ${activeRecord.getSchema().name} that has been destroyed`,
+        suggestion: 'Create a new record instead',
+        severity: 'error',
+        actionable: true
+      };
+    }
+
+    const id = this.getId();
+    if (id === undefined || id === null) {
+      return {
+        code: 'MISSING_PRIMARY_KEY',
+        message: `Cannot ${action} a ${activeRecord.getSchema().name} without a '${primaryKey}' value`,
+        suggestion: `Include '${primaryKey}' when selecting fields`,
+        severity: 'error',
+        actionable: true,
+        field: primaryKey
+      };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Copy field values so later in-place edits of arrays and objects still count as changes
+ */
+function snapshot(attributes: unknown): Record<string, unknown> {
+  const copy: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(attributes as Record<string, unknown>)) {
+    copy[field] = isPlainValue(value) ? JSON.parse(JSON.stringify(value)) : value;
+  }
+  return copy;
+}
+
+function isPlainValue(value: unknown): boolean {
+  return Array.isArray(value) || (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype);
+}
+
+/**
+ * Comparable representation of a field value
+ */
+function fingerprint(value: unknown): unknown {
+  if (value instanceof Date) {
+    return `date:${value.getTime()}`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `json:${JSON.stringify(value)}`;
+  }
+  return value;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { parseODataQuery, serializeODataQuery, ODataQueryError } from './odata-query';
+
+describe('OData Query Strings', () => {
+  it('should parse system query options into a query', () => {
+    const query = parseODataQuery(
+      "/Products?$filter=Price%20gt%2010%20and%20(Category%20eq%20'Tea'%20or%20not%20contains(Name,'green'))" +
+      '&$select=Name,Price&$orderby=Price desc,Name&$top=5&$skip=10&$count=true&$search=green%20tea&custom=1'
+    );
+
+    expect(query).toEqual({
+      filter: {
+        field: '', operator: 'eq', value: null, logicalOperator: 'and',
+        children: [
+          { field: 'Price', operator: 'gt', value: 10 },
+          {
+            field: '', operator: 'eq', value: null, logicalOperator: 'or',
+            children: [
+              { field: 'Category', operator: 'eq', value: 'Tea' },
+              { field: 'Name', operator: 'contains', value: 'green', not: true }
+            ]
+          }
+        ]
+      },
+      select: { fields: ['Name', 'Price'] },
+      orderBy: [{ field: 'Price', direction: 'desc' }, { field: 'Name', direction: 'asc' }],
+      pagination: { take: 5, skip: 10 },
+      count: true,
+      search: 'green tea'
+    });
+  });
+
+  it('should parse nested expand options and in lists', () => {
+    const query = parseODataQuery("$filter=Status in ('open','closed') and 18 le Age&$expand=Orders($filter=Total gt 100;$orderby=Total desc;$top=3;$expand=Items),Customer");
+
+    expect(query.filter?.children).toEqual([
+      { field: 'Status', operator: 'in', value: ['open', 'closed'] },
+      { field: 'Age', operator: 'ge', value: 18 }
+    ]);
+    expect(query.expand).toEqual([
+      {
+        relation: 'Orders',
+        nestedQuery: {
+          filter: { field: 'Total', operator: 'gt', value: 100 },
+          orderBy: [{ field: 'Total', direction: 'desc' }],
+          pagination: { take: 3 },
+          expand: [{ relation: 'Items' }]
+        }
+      },
+      { relation: 'Customer' }
+    ]);
+  });
+
+  it('should serialize queries canonically and round-trip them', () => {
+    const source = "$top=5&$orderby=Name&$filter=(Age ge 18) and not (Name eq 'O''Brien')&$expand=Orders($top=3;$select=Id)&$compute=Price mul Quantity as Total";
+    const canonical = serializeODataQuery(parseODataQuery(source));
+
+    expect(decodeURIComponent(canonical)).toBe(
+      "$filter=Age ge 18 and not (Name eq 'O''Brien')&$orderby=Name asc&$top=5&$expand=Orders($select=Id;$top=3)&$compute=Price mul Quantity as Total"
+    );
+    expect(serializeODataQuery(parseODataQuery(canonical))).toBe(canonical);
+  });
+
+  it('should report parse errors with their position', () => {
+    const expectError = (input: string, message: string, position: number) => {
+      try {
+        parseODataQuery(input);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ODataQueryError);
+        expect((error as ODataQueryError).message).toBe(message);
+        expect((error as ODataQueryError).position).toBe(position);
+      }
+    };
+
+    expectError('$top=ten', "$top: Expected a non-negative integer, got 'ten' at position 5", 5);
+    expectError('$filter=Name eq', '$filter: Unexpected end of expression at position 15', 15);
+    expectError('$filter=Name%20eq%20)', "$filter: Unexpected ')' at position 20", 20);
+    expectError('$top=1&$filter=Price mul 2', '$filter: Expected a boolean expression at position 15', 15);
+    expectError('$expand=Orders($top=1', "$expand: Expected ')' at position 21", 21);
+    expectError('$top=1&$top=2', "Duplicate query option '$top' at position 7", 7);
+    expectError('$levels=2', "Unsupported query option '$levels' at position 0", 0);
+  });
+});
@@ -0,0 +1,463 @@
+import type { IQuery, IQueryFilter, IQueryExpand, IQueryCompute, IExpressionNode } from 'odata-active-record-contracts';
+import { parseExpression, serializeExpression, ExpressionSyntaxError } from './expression';
+
+/**
+ * OData v4 query strings: parsing into an IQuery and serializing an IQuery back.
+ * Supported system query options are $filter, $select, $orderby, $top, $skip, $skiptoken,
+ * $expand (with nested options), $compute, $count and $search.
+ */
+
+/**
+ * Raised for malformed or unsupported query strings; position is the 0-based offset in the parsed input
+ */
+export class ODataQueryError extends Error {
+  constructor(public readonly reason: string, public readonly position: number, public readonly option?: string) {
+    super(`${option ? `${option}: ` : ''}${reason} at position ${position}`);
+    this.name = 'ODataQueryError';
+  }
+}
+
+/** Decoded text with the input offset of every character (plus one past the end) */
+interface ISegment {
+  text: string;
+  offsets: number[];
+}
+
+/** Options that do not change the result and are accepted but ignored */
+const IGNORED_OPTIONS = ['$format'];
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+const FLIPPED_OPERATORS: Record<string, IQueryFilter['operator']> = {
+  eq: 'eq',
+  ne: 'ne',
+  gt: 'lt',
+  ge: 'le',
+  lt: 'gt',
+  le: 'ge'
+};
+
+const STRING_FUNCTIONS = ['contains', 'startswith', 'endswith'];
+
+/**
+ * Parse an OData query string, e.g. `$filter=Price gt 10&$orderby=Name&$top=5`.
+ * Accepts a full URL or a string with a leading '?'; custom (non-$) options are ignored.
+ */
+export function parseODataQuery(input: string): IQuery {
+  const start = input.indexOf('?') + 1;
+  const query: IQuery = {};
+  const seen = new Set<string>();
+
+  for (const part of splitTopLevel({ text: input.slice(start), offsets: offsetsFrom(start, input.length - start) }, '&', false)) {
+    if (part.text === '') {
+      continue;
+    }
+    const equals = part.text.indexOf('=');
+    const rawName = equals === -1 ? part.text : part.text.slice(0, equals);
+    const name = decodeSegment(rawName, offsetAt(part, 0)).text;
+    if (!name.startsWith('$')) {
+      continue;
+    }
+
+    const option = name.toLowerCase();
+    if (seen.has(option)) {
+      throw new ODataQueryError(`Duplicate query option '${name}'`, offsetAt(part, 0));
+    }
+    seen.add(option);
+
+    const rawValue = equals === -1 ? '' : part.text.slice(equals + 1);
+    applyQueryOption(query, name, decodeSegment(rawValue, offsetAt(part, equals + 1)), offsetAt(part, 0));
+  }
+
+  return query;
+}
+
+/**
+ * Serialize a query to its canonical OData query string (without the leading '?').
+ * Options come in a fixed order and expressions in their canonical spelling,
+ * so equivalent queries produce identical strings.
+ */
+export function serializeODataQuery(query: IQuery): string {
+  return buildQueryOptions(query)
+    .map(([name, value]) => `${name}=${encodeOptionValue(value)}`)
+    .join('&');
+}
+
+/**
+ * Serialize a filter to a $filter expression
+ */
+export function serializeODataFilter(filter: IQueryFilter, nested = false): string {
+  if (filter.not) {
+    return `not (${serializeODataFilter({ ...filter, not: false })})`;
+  }
+
+  if (filter.children?.length) {
+    const joiner = filter.logicalOperator === 'or' ? ' or ' : ' and ';
+    const expression = filter.children.map(child => serializeODataFilter(child, true)).join(joiner);
+    return nested && filter.children.length > 1 ? `(${expression})` : expression;
+  }
+
+  if (filter.expression) {
+    const expression = serializeExpression(filter.expression);
+    return nested && filter.expression.kind === 'binary' ? `(${expression})` : expression;
+  }
+
+  // Lambdas over collections, e.g. Tags/any(t: t eq 'urgent')
+  if (filter.lambda) {
+    const { operator, variable, condition } = filter.lambda;
+    return `${filter.field}/${operator}(${condition ? `${variable}: ${serializeODataFilter(condition)}` : ''})`;
+  }
+
+  const { field, operator, value } = filter;
+  switch (operator) {
+    case 'contains':
+    case 'startswith':
+    case 'endswith':
+      return `${operator}(${field},${formatODataLiteral(value)})`;
+    case 'in': {
+      const values = Array.isArray(value) ? value : [value];
+      return `${field} in (${values.map(formatODataLiteral).join(',')})`;
+    }
+    default:
+      return `${field} ${operator} ${formatODataLiteral(value)}`;
+  }
+}
+
+/**
+ * Format a value as an OData literal
+ */
+export function formatODataLiteral(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return `'${JSON.stringify(value).replace(/'/g, "''")}'`;
+}
+
+function applyQueryOption(query: IQuery, name: string, value: ISegment, namePosition: number): void {
+  const option = name.toLowerCase();
+  const text = value.text.trim();
+  const valuePosition = offsetAt(value, value.text.length - value.text.trimStart().length);
+
+  switch (option) {
+    case '$filter': {
+      const positions = new Map<IExpressionNode, number>();
+      query.filter = toFilter(parseOptionExpression(value, name, positions), name, positions, value);
+      return;
+    }
+    case '$select': {
+      const fields = splitTopLevel(value, ',').map(item => {
+        if (item.text !== '*' && !IDENTIFIER_PATTERN.test(item.text)) {
+          throw new ODataQueryError(`Invalid field name '${item.text}'`, offsetAt(item, 0), name);
+        }
+        return item.text;
+      });
+      // '*' selects everything, which is the default
+      if (!fields.includes('*')) {
+        query.select = { fields };
+      }
+      return;
+    }
+    case '$orderby':
+      query.orderBy = splitTopLevel(value, ',').map(item => {
+        const [field = '', direction = 'asc', ...rest] = item.text.split(/\s+/);
+        if (!IDENTIFIER_PATTERN.test(field)) {
+          throw new ODataQueryError(`Invalid field name '${field}'`, offsetAt(item, 0), name);
+        }
+        const normalized = direction.toLowerCase();
+        if ((normalized !== 'asc' && normalized !== 'desc') || rest.length > 0) {
+          throw new ODataQueryError(`Expected 'asc' or 'desc' after '${field}'`, offsetAt(item, field.length + 1), name);
+        }
+        return { field, direction: normalized };
+      });
+      return;
+    case '$top':
+    case '$skip': {
+      if (!/^\d+$/.test(text)) {
+        throw new ODataQueryError(`Expected a non-negative integer, got '${text}'`, valuePosition, name);
+      }
+      query.pagination = { ...query.pagination, [option === '$top' ? 'take' : 'skip']: Number(text) };
+      return;
+    }
+    case '$skiptoken':
+      query.pagination = { ...query.pagination, cursor: text };
+      return;
+    case '$count':
+      if (text !== 'true' && text !== 'false') {
+        throw new ODataQueryError(`Expected 'true' or 'false', got '${text}'`, valuePosition, name);
+      }
+      query.count = text === 'true';
+      return;
+    case '$search':
+      if (text === '') {
+        throw new ODataQueryError('Expected a search term', valuePosition, name);
+      }
+      query.search = text;
+      return;
+    case '$compute':
+      query.compute = splitTopLevel(value, ',').map(item => parseCompute(item, name));
+      return;
+    case '$expand':
+      query.expand = splitTopLevel(value, ',').map(item => parseExpand(item));
+      return;
+    default:
+      if (IGNORED_OPTIONS.includes(option)) {
+        return;
+      }
+      throw new ODataQueryError(`Unsupported query option '${name}'`, namePosition);
+  }
+}
+
+function parseOptionExpression(value: ISegment, option: string, positions = new Map<IExpressionNode, number>()): IExpressionNode {
+  try {
+    return parseExpression(value.text, positions);
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      throw new ODataQueryError(error.reason, offsetAt(value, error.position), option);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Convert a parsed $filter expression into a filter tree: and/or groups, negation,
+ * comparisons between a field and a literal, 'in' lists and the string predicates.
+ * Any other boolean expression, e.g. `tolower(Name) eq 'tea'`, is kept as an expression condition.
+ */
+function toFilter(node: IExpressionNode, option: string, positions: Map<IExpressionNode, number>, segment: ISegment): IQueryFilter {
+  switch (node.kind) {
+    case 'unary':
+      if (node.operator === 'not') {
+        const filter = toFilter(node.operand, option, positions, segment);
+        return { ...filter, not: !filter.not };
+      }
+      break;
+    case 'binary': {
+      if (node.operator === 'and' || node.operator === 'or') {
+        const children = [node.left, node.right].flatMap(child => {
+          const filter = toFilter(child, option, positions, segment);
+          // Flatten chains of the same operator into one group
+          return filter.children && !filter.not && filter.logicalOperator === node.operator ? filter.children : [filter];
+        });
+        return { field: '', operator: 'eq', value: null, logicalOperator: node.operator, children };
+      }
+      if (node.operator === 'in') {
+        if (node.left.kind === 'field' && node.right.kind === 'list' && node.right.items.every(item => item.kind === 'literal')) {
+          return { field: node.left.name, operator: 'in', value: node.right.items.map(item => item.kind === 'literal' ? item.value : null) };
+        }
+        return { field: '', operator: 'eq', value: null, expression: node };
+      }
+      const operator = FLIPPED_OPERATORS[node.operator];
+      if (operator) {
+        if (node.left.kind === 'field' && node.right.kind === 'literal') {
+          return { field: node.left.name, operator: node.operator as IQueryFilter['operator'], value: node.right.value };
+        }
+        if (node.left.kind === 'literal' && node.right.kind === 'field') {
+          return { field: node.right.name, operator, value: node.left.value };
+        }
+        return { field: '', operator: 'eq', value: null, expression: node };
+      }
+      break;
+    }
+    case 'call':
+      if (STRING_FUNCTIONS.includes(node.name)) {
+        const [target, argument] = node.args;
+        return target?.kind === 'field' && argument?.kind === 'literal'
+          ? { field: target.name, operator: node.name as IQueryFilter['operator'], value: argument.value }
+          : { field: '', operator: 'eq', value: null, expression: node };
+      }
+      break;
+    case 'field':
+      // A bare boolean field
+      return { field: node.name, operator: 'eq', value: true };
+    case 'literal':
+      if (typeof node.value === 'boolean') {
+        return { field: '', operator: 'eq', value: null, expression: node };
+      }
+      break;
+  }
+
+  throw new ODataQueryError('Expected a boolean expression', offsetAt(segment, positions.get(node) ?? 0), option);
+}
+
+function parseCompute(item: ISegment, option: string): IQueryCompute {
+  const match = /\s+as\s+([A-Za-z_][A-Za-z0-9_]*)$/.exec(item.text);
+  if (!match) {
+    throw new ODataQueryError("Expected 'expression as name'", offsetAt(item, item.text.length), option);
+  }
+  return {
+    name: match[1] ?? '',
+    expression: parseOptionExpression(sliceSegment(item, 0, match.index), option)
+  };
+}
+
+function parseExpand(item: ISegment): IQueryExpand {
+  const open = item.text.indexOf('(');
+  const relation = (open === -1 ? item.text : item.text.slice(0, open)).trim();
+  if (!IDENTIFIER_PATTERN.test(relation)) {
+    throw new ODataQueryError(`Invalid navigation property '${relation}'`, offsetAt(item, 0), '$expand');
+  }
+  if (open === -1) {
+    return { relation };
+  }
+  if (!item.text.endsWith(')')) {
+    throw new ODataQueryError("Expected ')'", offsetAt(item, item.text.length), '$expand');
+  }
+
+  // Nested options are separated by ';', e.g. Orders($select=Id;$top=5)
+  const nestedQuery: IQuery = {};
+  const seen = new Set<string>();
+  for (const option of splitTopLevel(sliceSegment(item, open + 1, item.text.length - 1), ';')) {
+    const equals = option.text.indexOf('=');
+    const name = (equals === -1 ? option.text : option.text.slice(0, equals)).trim();
+    if (!name.startsWith('$')) {
+      throw new ODataQueryError(`Expected a query option, got '${name}'`, offsetAt(option, 0), '$expand');
+    }
+    if (seen.has(name.toLowerCase())) {
+      throw new ODataQueryError(`Duplicate query option '${name}'`, offsetAt(option, 0), '$expand');
+    }
+    seen.add(name.toLowerCase());
+    applyQueryOption(nestedQuery, name, sliceSegment(option, equals === -1 ? option.text.length : equals + 1, option.text.length), offsetAt(option, 0));
+  }
+
+  return Object.keys(nestedQuery).length > 0 ? { relation, nestedQuery } : { relation };
+}
+
+function buildQueryOptions(query: IQuery): Array<[string, string]> {
+  const options: Array<[string, string]> = [];
+
+  const filter = query.filter ? serializeODataFilter(query.filter) : '';
+  if (filter) {
+    options.push(['$filter', filter]);
+  }
+  if (query.search) {
+    options.push(['$search', query.search]);
+  }
+  // Excluding fields has no OData equivalent, so such a selection returns every field
+  if (query.select?.fields.length && !query.select.exclude) {
+    options.push(['$select', query.select.fields.join(',')]);
+  }
+  if (query.orderBy?.length) {
+    options.push(['$orderby', query.orderBy.map(order => `${order.field} ${order.direction}`).join(',')]);
+  }
+  if (query.pagination?.take !== undefined) {
+    options.push(['$top', String(query.pagination.take)]);
+  }
+  if (query.pagination?.skip) {
+    options.push(['$skip', String(query.pagination.skip)]);
+  }
+  if (query.pagination?.cursor) {
+    options.push(['$skiptoken', query.pagination.cursor]);
+  }
+  if (query.expand?.length) {
+    options.push(['$expand', query.expand.map(expand => {
+      const nested = expand.nestedQuery ? buildQueryOptions(expand.nestedQuery) : [];
+      return nested.length > 0
+        ? `${expand.relation}(${nested.map(([name, value]) => `${name}=${value}`).join(';')})`
+        : expand.relation;
+    }).join(',')]);
+  }
+  if (query.compute?.length) {
+    options.push(['$compute', query.compute.map(field => `${serializeExpression(field.expression)} as ${field.name}`).join(',')]);
+  }
+  if (query.count !== undefined) {
+    options.push(['$count', String(query.count)]);
+  }
+
+  return options;
+}
+
+/**
+ * Percent-encode an option value, keeping the delimiters OData reads literally readable
+ */
+function encodeOptionValue(value: string): string {
+  return encodeURIComponent(value).replace(/%(2C|24|3A|2F|3B|3D|40)/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeSegment(raw: string, base: number): ISegment {
+  let text = '';
+  const offsets: number[] = [];
+  let index = 0;
+
+  while (index < raw.length) {
+    if (raw[index] !== '%') {
+      text += raw[index];
+      offsets.push(base + index);
+      index++;
+      continue;
+    }
+
+    // Decode a run of escapes together so multi-byte UTF-8 sequences come out whole
+    const start = index;
+    while (raw[index] === '%' && /^[0-9A-Fa-f]{2}$/.test(raw.slice(index + 1, index + 3))) {
+      index += 3;
+    }
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(raw.slice(start, index));
+    } catch {
+      decoded = '';
+    }
+    if (index === start || decoded === '') {
+      throw new ODataQueryError('Malformed percent-encoding', base + start);
+    }
+    text += decoded;
+    offsets.push(...Array.from({ length: decoded.length }, () => base + start));
+  }
+
+  offsets.push(base + raw.length);
+  return { text, offsets };
+}
+
+/**
+ * Split on a separator outside quotes and parentheses; parts are trimmed
+ */
+function splitTopLevel(segment: ISegment, separator: string, trim = true): ISegment[] {
+  const parts: ISegment[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let index = 0; index < segment.text.length; index++) {
+    const char = segment.text[index];
+    if (char === "'") {
+      // A doubled quote inside a string toggles twice, leaving the state unchanged
+      quoted = !quoted;
+    } else if (!quoted && char === '(') {
+      depth++;
+    } else if (!quoted && char === ')') {
+      depth--;
+    } else if (!quoted && depth === 0 && char === separator) {
+      parts.push(sliceSegment(segment, start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(sliceSegment(segment, start, segment.text.length));
+
+  return trim ? parts.map(trimSegment) : parts;
+}
+
+function sliceSegment(segment: ISegment, from: number, to: number): ISegment {
+  return { text: segment.text.slice(from, to), offsets: segment.offsets.slice(from, to + 1) };
+}
+
+function trimSegment(segment: ISegment): ISegment {
+  const leading = segment.text.length - segment.text.trimStart().length;
+  return sliceSegment(segment, leading, leading + segment.text.trim().length);
+}
+
+function offsetAt(segment: ISegment, index: number): number {
+  return segment.offsets[Math.min(index, segment.offsets.length - 1)] ?? 0;
+}
+
+function offsetsFrom(base: number, length: number): number[] {
+  return Array.from({ length: length + 1 }, (_, index) => base + index);
+}
@@ -1,20 +1,60 @@
 import type { 
   IHTTPODataProvider, 
+  ICrudProvider,
   IConnectionResult, 
   IConnectionStats, 
   IQueryResult, 
+  ICreateResult,
+  IReadResult,
+  IUpdateResult,
+  IDeleteResult,
   IEntityMetadataResult,
   IServiceDocumentResult,
   IMetadataDocumentResult,
   IHTTPResponse,
   IServiceCapabilities,
-  IUserFriendlyError
+  IUserFriendlyError,
+  IWriteOptions,
+  IQueryApply,
+  IAggregateExpression,
+  IQueryCompute,
+  IExplainResult,
+  ILinkChange,
+  ILinkResult,
+  IBulkResult,
+  IBulkRowError,
+  IBulkWriteOptions,
+  IUpsertOptions,
+  IUpsertResult,
+  IChangesetRequest,
+  IChangesetResult
 } from 'odata-active-record-contracts';
+import { serializeExpression } from '../expression';
+import { serializeODataQuery, serializeODataFilter, formatODataLiteral } from '../odata-query';
+import { diffLinks } from './links';
+
+// Requests sent per $batch; each batch is one atomicity group
+const BATCH_SIZE = 100;
+
+interface IBatchRequest {
+  method: 'POST' | 'PATCH' | 'DELETE';
+  url: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Positions of earlier requests in the same batch whose content id the URL or body references */
+  dependsOn?: number[];
+}
+
+interface IBatchResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: any;
+}
 
 /**
  * Real HTTP OData Provider Implementation
  */
-export class HTTPODataProvider implements IHTTPODataProvider {
+export class HTTPODataProvider implements IHTTPODataProvider, ICrudProvider {
   private baseUrl: string;
   private authHeaders: Record<string, string> = {};
   private connected = false;
@@ -161,13 +201,19 @@ export class HTTPODataProvider implements IHTTPODataProvider {
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
 
+      // Server-driven paging: the next page is announced through @odata.nextLink
+      const nextLink = response.data?.['@odata.nextLink'];
+      const nextPageToken = typeof nextLink === 'string' ? this.extractSkipToken(nextLink) : undefined;
+
       return {
         data: (response.data?.value as T[]) || [],
         success: true,
         metadata: {
           count: (response.data?.['@odata.count'] as number) || 0,
           executionTime,
-          cacheStatus: 'miss'
+          cacheStatus: 'miss',
+          hasMore: typeof nextLink === 'string',
+          ...(nextPageToken ? { nextPageToken } : {})
         }
       };
     } catch (error) {
@@ -190,6 +236,50 @@ export class HTTPODataProvider implements IHTTPODataProvider {
     }
   }
 
+  /**
+   * Stream query entities page by page, following @odata.nextLink until the service has no more pages.
+   * Only the current page is held in memory and the next one is requested once it has been consumed.
+   */
+  async *streamQuery<T = Record<string, unknown>>(
+    entityName: string,
+    query: any
+  ): AsyncGenerator<T> {
+    let url: string | undefined = `${this.baseUrl}/${entityName}${this.buildODataQueryString(query)}`;
+    let remaining: number = query.pagination?.take ?? Infinity;
+
+    while (url && remaining > 0) {
+      this.totalQueries++;
+      const response: IHTTPResponse = await this.makeRequest(url);
+      if (!response.success) {
+        const error: IUserFriendlyError = {
+          code: 'STREAM_FAILED',
+          message: `Streaming query failed: ${response.errors?.[0]?.message ?? 'Unknown error'}`,
+          details: { errors: response.errors || [] },
+          severity: 'error',
+          actionable: true
+        };
+        throw error;
+      }
+
+      const entities = (response.data?.value as T[]) || [];
+      for (const entity of entities.slice(0, remaining)) {
+        yield entity;
+      }
+      remaining -= entities.length;
+
+      const nextLink = response.data?.['@odata.nextLink'];
+      url = typeof nextLink === 'string' ? new URL(nextLink, `${this.baseUrl}/`).toString() : undefined;
+    }
+  }
+
+  async explainQuery(entityName: string, query: any): Promise<IExplainResult> {
+    return {
+      success: true,
+      provider: this.getName(),
+      native: { method: 'GET', url: `${this.baseUrl}/${entityName}${this.buildODataQueryString(query)}` }
+    };
+  }
+
   async getEntityMetadata(entityName: string): Promise<IEntityMetadataResult> {
     try {
       const response = await this.makeRequest(`/$metadata`);
@@ -310,6 +400,560 @@ export class HTTPODataProvider implements IHTTPODataProvider {
     }
   }
 
+  async create<T = Record<string, unknown>>(
+    entityName: string,
+    data: Partial<T>
+  ): Promise<ICreateResult<T>> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+
+      const response = await this.makeRequest<T>(`/${entityName}`, {
+        method: 'POST',
+        headers: { 'Prefer': 'return=representation' },
+        body: data
+      });
+
+      if (!response.success) {
+        return {
+          success: false,
+          errors: response.errors || []
+        };
+      }
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+
+      return {
+        data: response.data as T,
+        success: true,
+        id: this.extractKeyFromLocation(response.headers?.['location']),
+        metadata: {
+          executionTime,
+          created: true
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'CREATE_FAILED',
+          message: `Failed to create entity: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+  }
+
+  async read<T = Record<string, unknown>>(
+    entityName: string,
+    query?: any
+  ): Promise<IReadResult<T>> {
+    const result = await this.executeQuery<T>(entityName, query || {});
+
+    if (!result.success) {
+      return {
+        success: false,
+        errors: result.errors || []
+      };
+    }
+
+    return {
+      data: result.data,
+      success: true,
+      metadata: {
+        totalCount: result.metadata.count,
+        executionTime: result.metadata.executionTime,
+        cached: false
+      }
+    };
+  }
+
+  async update<T = Record<string, unknown>>(
+    entityName: string,
+    id: any,
+    data: Partial<T>,
+    options: IWriteOptions = {}
+  ): Promise<IUpdateResult<T>> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+
+      const response = await this.makeRequest<T>(this.buildEntityPath(entityName, id), {
+        method: 'PATCH',
+        headers: { 'Prefer': 'return=representation', ...this.buildConditionalHeaders(options) },
+        body: data
+      });
+
+      if (!response.success) {
+        return {
+          success: false,
+          errors: this.mapConcurrencyErrors(entityName, id, response)
+        };
+      }
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+
+      // Services that ignore the Prefer header answer 204 without a body
+      const updatedData = (response.data && typeof response.data === 'object')
+        ? response.data as T
+        : { ...data } as T;
+
+      return {
+        data: updatedData,
+        success: true,
+        metadata: {
+          executionTime,
+          updated: true,
+          affectedCount: 1
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'UPDATE_FAILED',
+          message: `Failed to update entity: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+  }
+
+  async delete(entityName: string, id: any, options: IWriteOptions = {}): Promise<IDeleteResult> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+
+      const response = await this.makeRequest(this.buildEntityPath(entityName, id), {
+        method: 'DELETE',
+        headers: this.buildConditionalHeaders(options)
+      });
+
+      if (!response.success) {
+        return {
+          success: false,
+          errors: this.mapConcurrencyErrors(entityName, id, response)
+        };
+      }
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+
+      return {
+        success: true,
+        metadata: {
+          executionTime,
+          deleted: true,
+          affectedCount: 1
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'DELETE_FAILED',
+          message: `Failed to delete entity: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+  }
+
+  /**
+   * Upsert through a PATCH to the entity's key: OData services create the entity when none has that key (201 Created).
+   * The service cannot tell insert-only fields apart, so the whole data is sent either way.
+   */
+  async upsert<T = Record<string, unknown>>(
+    entityName: string,
+    data: Partial<T>,
+    options: IUpsertOptions
+  ): Promise<IUpsertResult<T>> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+
+      const record = data as Record<string, unknown>;
+      const id = options.conflictKeys.length === 1
+        ? record[options.conflictKeys[0]!]
+        : Object.fromEntries(options.conflictKeys.map(key => [key, record[key]]));
+      const response = await this.makeRequest<T>(this.buildEntityPath(entityName, id), {
+        method: 'PATCH',
+        headers: { 'Prefer': 'return=representation' },
+        body: data
+      });
+
+      if (!response.success) {
+        return {
+          success: false,
+          errors: response.errors || []
+        };
+      }
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+
+      const created = response.statusCode === 201;
+      return {
+        data: (response.data && typeof response.data === 'object') ? response.data as T : { ...data } as T,
+        success: true,
+        id,
+        metadata: { executionTime, created, updated: !created }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'UPSERT_FAILED',
+          message: `Failed to upsert entity: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+  }
+
+  async exists(entityName: string, id: any): Promise<boolean> {
+    try {
+      const response = await this.makeRequest(this.buildEntityPath(entityName, id));
+      return response.success;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Change the links of a navigation property through its $ref endpoint: POST adds a reference, DELETE removes one.
+   * The current references are read first so only the links that change are sent.
+   */
+  async updateLinks(entityName: string, change: ILinkChange): Promise<ILinkResult> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+      const refPath = `${this.buildEntityPath(entityName, change.id)}/${change.relation}/$ref`;
+
+      const current = await this.makeRequest<{ value?: Array<{ '@odata.id'?: string }> }>(refPath);
+      if (!current.success) {
+        return { success: false, errors: current.errors || [], metadata: { attached: 0, detached: 0, executionTime: Date.now() - startTime } };
+      }
+      const linked = (current.data?.value ?? []).map(ref => this.extractKeyFromLocation(ref['@odata.id']));
+      const { added, removed } = diffLinks(linked, change);
+
+      for (const value of removed) {
+        const target = encodeURIComponent(`${this.baseUrl}${this.buildEntityPath(change.targetEntity, value)}`);
+        const response = await this.makeRequest(`${refPath}?$id=${target}`, { method: 'DELETE' });
+        if (!response.success) {
+          return { success: false, errors: response.errors || [], metadata: { attached: 0, detached: 0, executionTime: Date.now() - startTime } };
+        }
+      }
+      for (const value of added) {
+        const response = await this.makeRequest(refPath, {
+          method: 'POST',
+          body: { '@odata.id': `${this.baseUrl}${this.buildEntityPath(change.targetEntity, value)}` }
+        });
+        if (!response.success) {
+          return { success: false, errors: response.errors || [], metadata: { attached: 0, detached: removed.length, executionTime: Date.now() - startTime } };
+        }
+      }
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+      return { success: true, metadata: { attached: added.length, detached: removed.length, executionTime } };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'LINK_UPDATE_FAILED',
+          message: `Failed to update links of '${change.relation}': ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }],
+        metadata: { attached: 0, detached: 0, executionTime: 0 }
+      };
+    }
+  }
+
+  /**
+   * Create entities through JSON $batch requests instead of one round trip per entity.
+   * Each batch of up to 100 rows is atomic: a failing row rolls back its batch, earlier batches stay created.
+   */
+  async createMany<T = Record<string, unknown>>(entityName: string, rows: Partial<T>[]): Promise<IBulkResult<T>> {
+    const startTime = Date.now();
+    const batch = await this.sendBatch(rows.map(row => ({ method: 'POST', url: entityName, body: row })));
+    if (!batch.responses) {
+      return { success: false, errors: batch.errors || [], metadata: { executionTime: Date.now() - startTime, affectedCount: 0 } };
+    }
+
+    const rowErrors = this.collectRowErrors(entityName, 'create', batch.responses);
+    const created = batch.responses.filter(response => response.status < 400);
+    const executionTime = Date.now() - startTime;
+    this.queryTimes.push(executionTime);
+    return {
+      success: rowErrors.length === 0,
+      data: created.map(response => response.body as T),
+      ids: created.map(response => this.extractKeyFromLocation(response.headers?.['location'] ?? response.headers?.['Location'])),
+      ...(rowErrors.length > 0 ? { rowErrors } : {}),
+      metadata: { executionTime, affectedCount: created.length }
+    };
+  }
+
+  /**
+   * Patch every matching entity: the keys are read through the query, then one PATCH per entity is sent through $batch
+   */
+  async updateWhere<T = Record<string, unknown>>(
+    entityName: string,
+    query: any,
+    patch: Partial<T>,
+    options: IBulkWriteOptions = {}
+  ): Promise<IBulkResult<T>> {
+    const startTime = Date.now();
+    const increments = options.increment ?? [];
+    const matched = await this.readMatching(entityName, query, options, increments);
+    if (!matched.entities) {
+      return { success: false, errors: matched.errors || [], metadata: { executionTime: Date.now() - startTime, affectedCount: 0 } };
+    }
+
+    const key = options.key!;
+    // OData has no increment, so version fields are written as their next value: only safe while the ETag still matches
+    const unguarded = increments.length > 0 ? matched.entities.filter(entity => !entity['@odata.etag']) : [];
+    if (unguarded.length > 0) {
+      return {
+        success: false,
+        errors: [{
+          code: 'BULK_INCREMENT_UNGUARDED',
+          message: `Cannot increment ${increments.join(', ')} of ${unguarded.length} ${entityName} entities: the service sent no ETag to guard the read version with`,
+          suggestion: `Enable ETags on '${entityName}' in the service, or update these entities one by one with an expected version`,
+          severity: 'error',
+          actionable: true,
+          details: { ids: unguarded.map(entity => entity[key]) }
+        }],
+        metadata: { executionTime: Date.now() - startTime, affectedCount: 0 }
+      };
+    }
+
+    const batch = await this.sendBatch(matched.entities.map(entity => ({
+      method: 'PATCH',
+      url: this.buildEntityPath(entityName, entity[key]).slice(1),
+      body: { ...patch, ...Object.fromEntries(increments.map(field => [field, Number(entity[field] ?? 0) + 1])) },
+      ...(entity['@odata.etag'] ? { headers: { 'If-Match': String(entity['@odata.etag']) } } : {})
+    })));
+    return this.toBulkResult(entityName, 'update', batch, startTime);
+  }
+
+  /**
+   * Delete every matching entity: the keys are read through the query, then one DELETE per entity is sent through $batch
+   */
+  async deleteWhere(entityName: string, query: any, options: IBulkWriteOptions = {}): Promise<IBulkResult> {
+    const startTime = Date.now();
+    const matched = await this.readMatching(entityName, query, options);
+    if (!matched.entities) {
+      return { success: false, errors: matched.errors || [], metadata: { executionTime: Date.now() - startTime, affectedCount: 0 } };
+    }
+
+    const batch = await this.sendBatch(matched.entities.map(entity => ({
+      method: 'DELETE',
+      url: this.buildEntityPath(entityName, entity[options.key!]).slice(1)
+    })));
+    return this.toBulkResult(entityName, 'delete', batch, startTime);
+  }
+
+  /**
+   * Apply writes as one $batch changeset, which the service applies completely or not at all.
+   * Requests reach entities created earlier in the changeset through their content id: `$0/...` URLs and `@odata.bind` values.
+   */
+  async executeChangeset(requests: IChangesetRequest[]): Promise<IChangesetResult> {
+    const startTime = Date.now();
+    const batch = await this.postBatch(requests.map((request): IBatchRequest => {
+      const binds = Object.entries(request.bind ?? {});
+      const dependsOn = [...binds.map(([, position]) => position), ...(request.entityRef !== undefined ? [request.entityRef] : [])];
+      const body = request.type === 'delete'
+        ? undefined
+        : { ...request.data, ...Object.fromEntries(binds.map(([navigation, position]) => [`${navigation}@odata.bind`, `$${position}`])) };
+      return {
+        method: request.type === 'create' ? 'POST' : request.type === 'update' ? 'PATCH' : 'DELETE',
+        url: request.type === 'create'
+          ? request.entityName
+          : request.entityRef !== undefined ? `$${request.entityRef}` : this.buildEntityPath(request.entityName, request.id).slice(1),
+        ...(body ? { body } : {}),
+        ...(dependsOn.length > 0 ? { dependsOn } : {})
+      };
+    }));
+    if (!batch.responses) {
+      return { success: false, results: [], errors: batch.errors || [] };
+    }
+
+    const rowErrors = batch.responses.flatMap((response, index) =>
+      this.collectRowErrors(requests[index]!.entityName, requests[index]!.type, [response]).map(row => ({ ...row, index })));
+    this.queryTimes.push(Date.now() - startTime);
+    return {
+      success: rowErrors.length === 0,
+      results: batch.responses.map((response, index) => {
+        const failed = rowErrors.find(row => row.index === index);
+        const location = response.headers?.['location'] ?? response.headers?.['Location'];
+        return {
+          success: !failed,
+          ...(response.body && typeof response.body === 'object' ? { data: response.body } : {}),
+          ...(location ? { id: this.extractKeyFromLocation(location) } : {}),
+          ...(failed ? { errors: failed.errors } : {})
+        };
+      }),
+      ...(rowErrors.length > 0 ? { errors: rowErrors.flatMap(row => row.errors) } : {})
+    };
+  }
+
+  /**
+   * The key (and any further fields) of every entity matching the query's filter
+   */
+  private async readMatching(
+    entityName: string,
+    query: any,
+    options: IBulkWriteOptions,
+    fields: string[] = []
+  ): Promise<{ entities?: Record<string, unknown>[]; errors?: IUserFriendlyError[] }> {
+    if (!options.key) {
+      return {
+        errors: [{
+          code: 'BULK_KEY_REQUIRED',
+          message: `Bulk writes to '${entityName}' need the key field of its entities`,
+          suggestion: 'Pass options.key with the primary key field',
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+
+    try {
+      const entities: Record<string, unknown>[] = [];
+      const select = { fields: [options.key, ...fields] };
+      for await (const entity of this.streamQuery<Record<string, unknown>>(entityName, { ...(query.filter ? { filter: query.filter } : {}), select })) {
+        entities.push(entity);
+      }
+      return { entities };
+    } catch (error) {
+      return { errors: [error as IUserFriendlyError] };
+    }
+  }
+
+  /**
+   * Send write requests as JSON $batch requests of up to 100, each one atomicity group.
+   * Responses are returned in request order.
+   */
+  private async sendBatch(requests: IBatchRequest[]): Promise<{ responses?: IBatchResponse[]; errors?: IUserFriendlyError[] }> {
+    const responses: IBatchResponse[] = [];
+    for (let offset = 0; offset < requests.length; offset += BATCH_SIZE) {
+      const batch = await this.postBatch(requests.slice(offset, offset + BATCH_SIZE));
+      if (!batch.responses) {
+        return batch;
+      }
+      responses.push(...batch.responses);
+    }
+    return { responses };
+  }
+
+  /**
+   * Send requests as one JSON $batch request with a single atomicity group.
+   * Request positions are their content ids, so `$0` addresses the entity the first request created.
+   */
+  private async postBatch(requests: IBatchRequest[]): Promise<{ responses?: IBatchResponse[]; errors?: IUserFriendlyError[] }> {
+    this.totalQueries++;
+    const response = await this.makeRequest<{ responses?: Array<IBatchResponse & { id: string }> }>('/$batch', {
+      method: 'POST',
+      body: {
+        requests: requests.map((request, index) => ({
+          id: String(index),
+          atomicityGroup: 'g1',
+          ...(request.dependsOn?.length ? { dependsOn: request.dependsOn.map(String) } : {}),
+          method: request.method,
+          url: request.url,
+          headers: { 'Content-Type': 'application/json', ...(request.method === 'POST' ? { 'Prefer': 'return=representation' } : {}), ...request.headers },
+          ...(request.body !== undefined ? { body: request.body } : {})
+        }))
+      }
+    });
+    if (!response.success) {
+      return { errors: response.errors || [] };
+    }
+
+    // Services may answer in any order; ids bring the responses back to request order
+    const byId = new Map((response.data?.responses ?? []).map(item => [item.id, item]));
+    // A request without an answer was rolled back with its atomicity group
+    return { responses: requests.map((_, index) => byId.get(String(index)) ?? { status: 424 }) };
+  }
+
+  private toBulkResult<T>(
+    entityName: string,
+    operation: 'update' | 'delete',
+    batch: { responses?: IBatchResponse[]; errors?: IUserFriendlyError[] },
+    startTime: number
+  ): IBulkResult<T> {
+    if (!batch.responses) {
+      return { success: false, errors: batch.errors || [], metadata: { executionTime: Date.now() - startTime, affectedCount: 0 } };
+    }
+
+    const rowErrors = this.collectRowErrors(entityName, operation, batch.responses);
+    const executionTime = Date.now() - startTime;
+    this.queryTimes.push(executionTime);
+    return {
+      success: rowErrors.length === 0,
+      ...(rowErrors.length > 0 ? { rowErrors } : {}),
+      metadata: { executionTime, affectedCount: batch.responses.length - rowErrors.length }
+    };
+  }
+
+  private collectRowErrors(entityName: string, operation: 'create' | 'update' | 'delete', responses: IBatchResponse[]): IBulkRowError[] {
+    return responses.flatMap((response, index) => response.status < 400 ? [] : [{
+      index,
+      errors: [{
+        ...(response.status === 412
+          ? {
+            code: 'CONCURRENCY_CONFLICT',
+            message: `${entityName} row ${index} was changed by someone else (ETag no longer matches)`,
+            suggestion: 'Reload the records and apply your changes again'
+          }
+          : {
+            code: `${operation.toUpperCase()}_FAILED`,
+            message: `Failed to ${operation} ${entityName} row ${index}: ${response.body?.error?.message ?? `HTTP ${response.status}`}`
+          }),
+        details: { status: response.status, ...(response.body ? { body: response.body } : {}) },
+        severity: 'error' as const,
+        actionable: true
+      }]
+    }]);
+  }
+
+  /**
+   * If-Match header for writes made against a known ETag
+   */
+  private buildConditionalHeaders(options: IWriteOptions): Record<string, string> {
+    return options.etag ? { 'If-Match': options.etag } : {};
+  }
+
+  /**
+   * Report a failed If-Match precondition (412) as a concurrency conflict
+   */
+  private mapConcurrencyErrors(entityName: string, id: any, response: IHTTPResponse<unknown>): IUserFriendlyError[] {
+    if (response.statusCode !== 412) {
+      return response.errors || [];
+    }
+    return [{
+      code: 'CONCURRENCY_CONFLICT',
+      message: `${entityName} '${id}' was changed by someone else (ETag no longer matches)`,
+      suggestion: 'Reload the record and apply your changes again',
+      details: { errors: response.errors || [] },
+      severity: 'error',
+      actionable: true
+    }];
+  }
+
   getBaseUrl(): string {
     return this.baseUrl;
   }
@@ -332,21 +976,22 @@ export class HTTPODataProvider implements IHTTPODataProvider {
       const url = path.startsWith('http') ? path : `${this.baseUrl}${path}`;
       const method = options.method || 'GET';
       
+      const { headers: optionHeaders, body, ...restOptions } = options;
       const headers = {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
         ...this.authHeaders,
-        ...options.headers
+        ...optionHeaders
       };
 
       const requestOptions: RequestInit = {
+        ...restOptions,
         method,
-        headers,
-        ...options
+        headers
       };
 
-      if (options.body) {
-        requestOptions.body = JSON.stringify(options.body);
+      if (body) {
+        requestOptions.body = JSON.stringify(body);
       }
 
       const response = await fetch(url, requestOptions);
@@ -475,101 +1120,92 @@ export class HTTPODataProvider implements IHTTPODataProvider {
 
   // Private helper methods
   private buildODataQueryString(query: any): string {
-    const params: string[] = [];
+    // Grouping and aggregation go through $apply, where computed fields and the filter run before grouping,
+    // and aggregations return their group fields and aliases instead of a selection
+    const { filter, compute, select, apply, ...rest } = query;
+    const options = apply
+      ? [`$apply=${encodeURIComponent(this.buildApplyString(apply, filter, compute))}`, serializeODataQuery({ ...rest, count: true })]
+      : [serializeODataQuery({ ...query, count: true })];
 
-    // Handle filtering
-    if (query.filter) {
-      const filterString = this.convertFilterToOData(query.filter);
-      if (filterString) {
-        params.push(`$filter=${encodeURIComponent(filterString)}`);
-      }
-    }
+    return `?${options.join('&')}`;
+  }
 
-    // Handle field selection
-    if (query.select?.fields) {
-      const selectString = query.select.fields.join(',');
-      params.push(`$select=${encodeURIComponent(selectString)}`);
+  /**
+   * Build a $apply transformation sequence, e.g. filter(...)/groupby((Category),aggregate(Price with sum as Total))
+   */
+  private buildApplyString(apply: IQueryApply, filter?: any, compute?: IQueryCompute[]): string {
+    const steps: string[] = [];
+    if (compute?.length) {
+      steps.push(`compute(${this.buildComputeString(compute)})`);
     }
-
-    // Handle sorting
-    if (query.orderBy) {
-      const orderString = query.orderBy
-        .map((order: any) => `${order.field} ${order.direction}`)
-        .join(',');
-      params.push(`$orderby=${encodeURIComponent(orderString)}`);
+    const filterString = filter ? serializeODataFilter(filter) : '';
+    if (filterString) {
+      steps.push(`filter(${filterString})`);
     }
 
-    // Handle pagination
-    if (query.pagination) {
-      if (query.pagination.take) {
-        params.push(`$top=${query.pagination.take}`);
-      }
-      if (query.pagination.skip) {
-        params.push(`$skip=${query.pagination.skip}`);
-      }
+    const aggregates = Object.entries(apply.aggregate).map(([alias, expression]) => this.toODataAggregate(alias, expression));
+    const aggregateStep = aggregates.length > 0 ? `aggregate(${aggregates.join(',')})` : '';
+    if (apply.groupBy?.length) {
+      steps.push(`groupby((${apply.groupBy.join(',')})${aggregateStep ? `,${aggregateStep}` : ''})`);
+    } else if (aggregateStep) {
+      steps.push(aggregateStep);
     }
 
-    // Add count
-    params.push('$count=true');
-
-    return params.length > 0 ? `?${params.join('&')}` : '';
-  }
-
-  private convertFilterToOData(filter: any): string {
-    if (!filter) return '';
-
-    const { field, operator, value } = filter;
-
-    switch (operator) {
-      case 'eq':
-        return `${field} eq ${this.formatODataValue(value)}`;
-      case 'ne':
-        return `${field} ne ${this.formatODataValue(value)}`;
-      case 'gt':
-        return `${field} gt ${this.formatODataValue(value)}`;
-      case 'ge':
-        return `${field} ge ${this.formatODataValue(value)}`;
-      case 'lt':
-        return `${field} lt ${this.formatODataValue(value)}`;
-      case 'le':
-        return `${field} le ${this.formatODataValue(value)}`;
-      case 'contains':
-        return `contains(${field}, ${this.formatODataValue(value)})`;
-      case 'startswith':
-        return `startswith(${field}, ${this.formatODataValue(value)})`;
-      case 'endswith':
-        return `endswith(${field}, ${this.formatODataValue(value)})`;
-      case 'in':
-        const values = Array.isArray(value) ? value : [value];
-        const formattedValues = values.map(v => this.formatODataValue(v));
-        return `${field} in (${formattedValues.join(',')})`;
+    return steps.join('/');
+  }
+
+  /**
+   * Computed fields as 'expression as name' pairs, for $compute and the compute() transformation
+   */
+  private buildComputeString(compute: IQueryCompute[]): string {
+    return compute.map(field => `${serializeExpression(field.expression)} as ${field.name}`).join(',');
+  }
+
+  private toODataAggregate(alias: string, expression: IAggregateExpression): string {
+    switch (expression.fn) {
+      case 'count':
+        return `$count as ${alias}`;
+      case 'countDistinct':
+        return `${expression.field} with countdistinct as ${alias}`;
+      case 'avg':
+        return `${expression.field} with average as ${alias}`;
       default:
-        return `${field} eq ${this.formatODataValue(value)}`;
+        return `${expression.field} with ${expression.fn} as ${alias}`;
     }
   }
 
-  private formatODataValue(value: any): string {
-    if (value === null || value === undefined) {
-      return 'null';
-    }
-    
-    if (typeof value === 'string') {
-      return `'${value.replace(/'/g, "''")}'`;
-    }
-    
-    if (typeof value === 'number') {
-      return value.toString();
+  /**
+   * The $skiptoken of an @odata.nextLink, which is passed back as the next page's cursor
+   */
+  private extractSkipToken(nextLink: string): string | undefined {
+    try {
+      return new URL(nextLink, this.baseUrl).searchParams.get('$skiptoken') ?? undefined;
+    } catch {
+      return undefined;
     }
-    
-    if (typeof value === 'boolean') {
-      return value.toString();
+  }
+
+  private buildEntityPath(entityName: string, id: any): string {
+    // Compound keys are addressed by name, e.g. /Order_Details(OrderID=10248,ProductID=11)
+    const key = id !== null && typeof id === 'object' && !(id instanceof Date)
+      ? Object.entries(id).map(([name, value]) => `${name}=${formatODataLiteral(value)}`).join(',')
+      : formatODataLiteral(id);
+    return `/${entityName}(${key})`;
+  }
+
+  private extractKeyFromLocation(location?: string): any {
+    // OData services return the canonical URL of a created entity, e.g. /Products(5)
+    const keyMatch = location?.match(/\(([^)]*)\)\/?$/);
+    if (!keyMatch || keyMatch[1] === undefined) {
+      return undefined;
     }
-    
-    if (value instanceof Date) {
-      return value.toISOString();
+
+    const key = keyMatch[1];
+    if (key.startsWith("'") && key.endsWith("'")) {
+      return key.slice(1, -1).replace(/''/g, "'");
     }
-    
-    return `'${JSON.stringify(value).replace(/'/g, "''")}'`;
+    const numericKey = Number(key);
+    return isNaN(numericKey) ? key : numericKey;
   }
 
   private parseMetadataXml(xml: string, entityName: string): any {
@@ -0,0 +1,33 @@
+import type { ILinkChange } from 'odata-active-record-contracts';
+
+/**
+ * Link changes of many-to-many relations.
+ * Providers read the target keys a record currently links to and apply the difference computed here,
+ * so attach never duplicates a link and sync only touches the links that change.
+ */
+export interface ILinkDiff {
+  /** Target keys to link */
+  added: unknown[];
+  /** Currently linked target keys to unlink */
+  removed: unknown[];
+}
+
+/**
+ * The links to add and remove for a change, given the target keys currently linked.
+ * Keys are compared by their string form, so 7 and '7' are the same link.
+ */
+export function diffLinks(linked: unknown[], change: Pick<ILinkChange, 'mode' | 'targetValues'>): ILinkDiff {
+  const targets = [...new Map((change.targetValues ?? []).map(value => [String(value), value])).values()];
+  const isTarget = (value: unknown) => targets.some(target => String(target) === String(value));
+  const isLinked = (value: unknown) => linked.some(item => String(item) === String(value));
+
+  switch (change.mode) {
+    case 'attach':
+      return { added: targets.filter(value => !isLinked(value)), removed: [] };
+    case 'detach':
+      // Without targets every link goes
+      return { added: [], removed: change.targetValues ? linked.filter(isTarget) : [...linked] };
+    case 'sync':
+      return { added: targets.filter(value => !isLinked(value)), removed: linked.filter(value => !isTarget(value)) };
+  }
+}
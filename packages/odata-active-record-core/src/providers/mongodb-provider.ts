@@ -12,8 +12,70 @@ import type {
   IEntityMetadataResult,
   IServiceDocumentResult,
   IMetadataDocumentResult,
-  IUserFriendlyError
+  IUserFriendlyError,
+  IWriteOptions,
+  IQueryOrder,
+  IQueryApply,
+  IAggregateExpression,
+  IExpressionNode,
+  IExpressionBinaryOperator,
+  IQueryCompute,
+  IQueryFilter,
+  IQueryLambda,
+  ICreateOptions,
+  IExplainResult,
+  INativeQuery,
+  ILinkChange,
+  ILinkResult,
+  ITransactionHandle,
+  IBulkResult,
+  IBulkWriteOptions,
+  IUpsertOptions,
+  IUpsertResult
 } from 'odata-active-record-contracts';
+import type { ClientSession } from 'mongodb';
+import { encodePageToken, decodePageToken, buildKeysetFilter, createInvalidPageTokenError } from './page-token';
+import { getLambdaPaths } from '../lambda';
+import { diffLinks } from './links';
+import { getOpenTransaction, runInTransaction } from '../transaction';
+
+const MONGO_OPERATORS: Record<IExpressionBinaryOperator, string> = {
+  add: '$add',
+  sub: '$subtract',
+  mul: '$multiply',
+  div: '$divide',
+  mod: '$mod',
+  eq: '$eq',
+  ne: '$ne',
+  gt: '$gt',
+  ge: '$gte',
+  lt: '$lt',
+  le: '$lte',
+  in: '$in',
+  and: '$and',
+  or: '$or'
+};
+
+/**
+ * A compiled query: find() arguments, or a pipeline when the query needs aggregation stages.
+ * Order keys are fetched for page tokens only and dropped from the results.
+ */
+interface IFindStatement {
+  filter: any;
+  projection: any;
+  sort: any;
+  skip: number;
+  limit: number;
+  orderKeys: string[];
+  pipeline?: any[];
+}
+
+/**
+ * A transaction with the client session its reads and writes run in
+ */
+interface IMongoTransactionHandle extends ITransactionHandle {
+  session: ClientSession;
+}
 
 /**
  * Real MongoDB Provider Implementation
@@ -28,6 +90,8 @@ export class MongoDBProvider implements IMongoDBProvider {
   private connectionString: string;
   private databaseName: string;
   private options: any;
+  // Whether the server runs transactions (replica set member or mongos), checked on the first transaction
+  private transactionsSupported: boolean | undefined;
 
   constructor(connectionString: string, databaseName: string, options: any = {}) {
     this.connectionString = connectionString;
@@ -60,6 +124,7 @@ export class MongoDBProvider implements IMongoDBProvider {
       await this.client.connect();
       this.database = this.client.db(this.databaseName);
       this.connected = true;
+      this.transactionsSupported = undefined;
 
       const connectionTime = Date.now() - startTime;
 
@@ -161,58 +226,67 @@ export class MongoDBProvider implements IMongoDBProvider {
     entityName: string,
     query: any
   ): Promise<IQueryResult<T>> {
+    if (query.apply) {
+      return this.executeAggregation<T>(entityName, query);
+    }
+
     try {
       this.totalQueries++;
       const startTime = Date.now();
 
       const collection = this.database.collection(entityName);
-      let mongoQuery: any = {};
 
       // Convert OData query to MongoDB query
-      if (query.filter) {
-        mongoQuery = this.convertODataFilterToMongo(query.filter);
+      const filterQuery = await this.buildFilterQuery(query.filter);
+      const mongoQuery = this.withTextSearch(filterQuery, query);
+
+      const statement = this.buildFindStatement(query, filterQuery);
+      if (!statement) {
+        return {
+          data: [],
+          success: false,
+          errors: [createInvalidPageTokenError()],
+          metadata: { count: 0, executionTime: 0, cacheStatus: 'miss' }
+        };
       }
+      const { projection, sort, skip, limit, orderKeys } = statement;
+      const orderBy: IQueryOrder[] = query.orderBy ?? [];
 
-      // Handle select fields
-      let projection: any = {};
-      if (query.select?.fields) {
-        query.select.fields.forEach((field: string) => {
-          projection[field] = 1;
-        });
-        if (!query.select.exclude) {
-          projection._id = 0; // Exclude _id by default unless explicitly included
+      let data: any[];
+
+      if (statement.pipeline) {
+        // Expansions need $lookup and computed fields $addFields, so run the query as an aggregation pipeline
+        data = await collection.aggregate(statement.pipeline, this.withSession()).toArray();
+      } else {
+        // Execute query
+        const cursor = collection.find(statement.filter, this.withSession({ projection }));
+        
+        if (Object.keys(sort).length > 0) {
+          cursor.sort(sort);
+        }
+        
+        if (skip > 0) {
+          cursor.skip(skip);
+        }
+        
+        if (limit > 0) {
+          cursor.limit(limit + 1);
         }
-      }
 
-      // Handle sorting
-      let sort: any = {};
-      if (query.orderBy) {
-        query.orderBy.forEach((order: any) => {
-          sort[order.field] = order.direction === 'asc' ? 1 : -1;
-        });
+        data = await cursor.toArray();
       }
 
-      // Handle pagination
-      const limit = query.pagination?.take || 50;
-      const skip = query.pagination?.skip || 0;
+      // Filters on computed fields only work after $addFields, so those counts run through the pipeline
+      const count = query.compute?.length
+        ? (await collection.aggregate([...this.buildMatchStages(query, filterQuery), { $count: 'count' }], this.withSession()).toArray())[0]?.count ?? 0
+        : await collection.countDocuments(mongoQuery, this.withSession());
 
-      // Execute query
-      const cursor = collection.find(mongoQuery, { projection });
-      
-      if (Object.keys(sort).length > 0) {
-        cursor.sort(sort);
+      const hasMore = data.length > limit;
+      if (hasMore) {
+        data.pop();
       }
-      
-      if (skip > 0) {
-        cursor.skip(skip);
-      }
-      
-      if (limit > 0) {
-        cursor.limit(limit);
-      }
-
-      const data = await cursor.toArray();
-      const count = await collection.countDocuments(mongoQuery);
+      const nextPageToken = hasMore ? encodePageToken(data[data.length - 1], orderBy) : undefined;
+      data.forEach(document => orderKeys.forEach(key => delete document[key]));
 
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
@@ -223,7 +297,9 @@ export class MongoDBProvider implements IMongoDBProvider {
         metadata: {
           count,
           executionTime,
-          cacheStatus: 'miss'
+          cacheStatus: 'miss',
+          hasMore,
+          ...(nextPageToken ? { nextPageToken } : {})
         }
       };
     } catch (error) {
@@ -246,6 +322,305 @@ export class MongoDBProvider implements IMongoDBProvider {
     }
   }
 
+  /**
+   * Build the find() arguments for a query, or the aggregation pipeline when it expands relations or computes fields;
+   * undefined when the page token does not match the query
+   */
+  private buildFindStatement(query: any, filterQuery: any): IFindStatement | undefined {
+    // Keyset pagination continues right after the document the page token was issued for
+    const orderBy: IQueryOrder[] = query.orderBy ?? [];
+    let pageFilter = filterQuery;
+    if (query.pagination?.cursor) {
+      const values = decodePageToken(query.pagination.cursor, orderBy);
+      if (!values) {
+        return undefined;
+      }
+      const keyset = this.convertODataFilterToMongo(buildKeysetFilter(orderBy, values.map(value => this.fromTokenValue(value))));
+      pageFilter = Object.keys(filterQuery).length > 0 ? { $and: [filterQuery, keyset] } : keyset;
+    }
+    const pageQuery = this.withTextSearch(pageFilter, query);
+
+    // Handle select fields (order keys needed by page tokens are fetched as well)
+    let projection: any = {};
+    const orderKeys: string[] = [];
+    if (query.select?.fields) {
+      query.select.fields.forEach((field: string) => {
+        projection[field] = 1;
+      });
+      if (!query.select.exclude) {
+        projection._id = 0; // Exclude _id by default unless explicitly included
+        orderKeys.push(...orderBy.map(order => order.field).filter(field => !(field in projection)));
+        orderKeys.forEach(field => { projection[field] = 1; });
+      }
+    }
+
+    // Handle sorting (searches without an explicit order come back by relevance)
+    let sort: any = this.buildRelevanceSort(query);
+    if (query.orderBy) {
+      query.orderBy.forEach((order: any) => {
+        sort[order.field] = order.direction === 'asc' ? 1 : -1;
+      });
+    }
+
+    // Handle pagination (one extra document tells whether another page follows)
+    const limit = query.pagination?.take || 50;
+    const skip = query.pagination?.skip || 0;
+
+    if (!query.expand?.length && !query.compute?.length) {
+      return { filter: pageQuery, projection, sort, skip, limit, orderKeys };
+    }
+
+    const pipeline: any[] = this.buildMatchStages(query, pageFilter);
+    if (Object.keys(sort).length > 0) {
+      pipeline.push({ $sort: sort });
+    }
+    if (skip > 0) {
+      pipeline.push({ $skip: skip });
+    }
+    if (limit > 0) {
+      pipeline.push({ $limit: limit + 1 });
+    }
+    pipeline.push(...this.buildLookupStages(query.expand));
+    if (Object.keys(projection).length > 0) {
+      pipeline.push({ $project: this.withExpandedFields(projection, query.expand) });
+    }
+    return { filter: pageQuery, projection, sort, skip, limit, orderKeys, pipeline };
+  }
+
+  /**
+   * Execute a grouped/aggregate query as a $group pipeline through aggregate()
+   */
+  private async executeAggregation<T>(entityName: string, query: any): Promise<IQueryResult<T>> {
+    let filterQuery: any;
+    try {
+      filterQuery = await this.buildFilterQuery(query.filter);
+    } catch (error) {
+      return {
+        data: [],
+        success: false,
+        errors: [{
+          code: 'AGGREGATION_FAILED',
+          message: `Aggregation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }],
+        metadata: { count: 0, executionTime: 0, cacheStatus: 'miss' }
+      };
+    }
+
+    const { grouped, pipeline } = this.buildAggregatePipelines(query, filterQuery);
+
+    const result = await this.aggregate<T>(entityName, pipeline);
+    if (!result.success) {
+      return {
+        data: [],
+        success: false,
+        errors: result.errors ?? [],
+        metadata: { count: 0, executionTime: 0, cacheStatus: 'miss' }
+      };
+    }
+
+    const data = result.data ?? [];
+    let count = data.length;
+    if (query.pagination) {
+      const counted = await this.aggregate<{ count: number }>(entityName, [...grouped, { $count: 'count' }]);
+      count = counted.data?.[0]?.count ?? 0;
+    }
+
+    return {
+      data,
+      success: true,
+      metadata: {
+        count,
+        executionTime: result.metadata?.executionTime ?? 0,
+        cacheStatus: 'miss'
+      }
+    };
+  }
+
+  /**
+   * Build the $group pipeline of an aggregate query, both paged and (for counting) unpaged
+   */
+  private buildAggregatePipelines(query: any, filterQuery: any): { grouped: any[]; pipeline: any[] } {
+    const apply: IQueryApply = query.apply;
+    const groupBy = apply.groupBy ?? [];
+
+    const group: any = {
+      _id: groupBy.length > 0 ? Object.fromEntries(groupBy.map(field => [field, `$${field}`])) : null
+    };
+    const projection: any = { _id: 0 };
+    groupBy.forEach(field => {
+      projection[field] = `$_id.${field}`;
+    });
+    for (const [alias, expression] of Object.entries(apply.aggregate)) {
+      group[alias] = this.toMongoAccumulator(expression);
+      // Distinct values are collected as a set and counted afterwards
+      projection[alias] = expression.fn === 'countDistinct' ? { $size: `$${alias}` } : 1;
+    }
+
+    const grouped: any[] = [
+      ...this.buildMatchStages(query, filterQuery),
+      { $group: group },
+      { $project: projection }
+    ];
+
+    const pipeline = [...grouped];
+    if (query.orderBy?.length) {
+      const sort: any = {};
+      query.orderBy.forEach((order: any) => {
+        sort[order.field] = order.direction === 'asc' ? 1 : -1;
+      });
+      pipeline.push({ $sort: sort });
+    }
+    if (query.pagination?.skip) {
+      pipeline.push({ $skip: query.pagination.skip });
+    }
+    if (query.pagination) {
+      pipeline.push({ $limit: query.pagination.take || 50 });
+    }
+    return { grouped, pipeline };
+  }
+
+  private toMongoAccumulator(expression: IAggregateExpression): any {
+    switch (expression.fn) {
+      case 'count':
+        return { $sum: 1 };
+      case 'countDistinct':
+        return { $addToSet: `$${expression.field}` };
+      default:
+        return { [`$${expression.fn}`]: `$${expression.field}` };
+    }
+  }
+
+  /**
+   * Stream query documents from a MongoDB cursor, which fetches them from the server in batches.
+   * Breaking out of the loop early closes the cursor.
+   */
+  async *streamQuery<T = Record<string, unknown>>(
+    entityName: string,
+    query: any
+  ): AsyncGenerator<T> {
+    let cursor: any;
+    const orderBy: IQueryOrder[] = query.orderBy ?? [];
+    const after = query.pagination?.cursor ? decodePageToken(query.pagination.cursor, orderBy) : undefined;
+    if (after === null) {
+      throw createInvalidPageTokenError();
+    }
+    try {
+      this.totalQueries++;
+
+      const collection = this.database.collection(entityName);
+      let filterQuery = await this.buildFilterQuery(query.filter);
+      // Like a page, a stream after a page token starts right after the document the token was issued for
+      if (after) {
+        const keyset = this.convertODataFilterToMongo(buildKeysetFilter(orderBy, after.map(value => this.fromTokenValue(value))));
+        filterQuery = Object.keys(filterQuery).length > 0 ? { $and: [filterQuery, keyset] } : keyset;
+      }
+
+      const projection: any = {};
+      if (query.select?.fields) {
+        query.select.fields.forEach((field: string) => {
+          projection[field] = 1;
+        });
+        if (!query.select.exclude) {
+          projection._id = 0;
+        }
+      }
+
+      const sort: any = this.buildRelevanceSort(query);
+      (query.orderBy ?? []).forEach((order: any) => {
+        sort[order.field] = order.direction === 'asc' ? 1 : -1;
+      });
+
+      const skip = query.pagination?.skip || 0;
+      const limit = query.pagination?.take || 0;
+
+      if (query.expand?.length || query.compute?.length) {
+        const pipeline: any[] = this.buildMatchStages(query, filterQuery);
+        if (Object.keys(sort).length > 0) {
+          pipeline.push({ $sort: sort });
+        }
+        if (skip > 0) {
+          pipeline.push({ $skip: skip });
+        }
+        if (limit > 0) {
+          pipeline.push({ $limit: limit });
+        }
+        pipeline.push(...this.buildLookupStages(query.expand));
+        if (Object.keys(projection).length > 0) {
+          pipeline.push({ $project: this.withExpandedFields(projection, query.expand) });
+        }
+        cursor = collection.aggregate(pipeline, this.withSession());
+      } else {
+        cursor = collection.find(this.withTextSearch(filterQuery, query), this.withSession({ projection }));
+        if (Object.keys(sort).length > 0) {
+          cursor.sort(sort);
+        }
+        if (skip > 0) {
+          cursor.skip(skip);
+        }
+        if (limit > 0) {
+          cursor.limit(limit);
+        }
+      }
+    } catch (error) {
+      throw this.createStreamError(error);
+    }
+
+    try {
+      for await (const document of cursor) {
+        yield document as T;
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  async explainQuery(entityName: string, query: any): Promise<IExplainResult> {
+    try {
+      const lookups: NonNullable<INativeQuery['lookups']> = [];
+      const filterQuery = await this.buildFilterQuery(query.filter, lookups);
+      const native: INativeQuery = { collection: entityName, ...(lookups.length > 0 ? { lookups } : {}) };
+
+      if (query.apply) {
+        return { success: true, provider: this.getName(), native: { ...native, pipeline: this.buildAggregatePipelines(query, filterQuery).pipeline } };
+      }
+
+      const statement = this.buildFindStatement(query, filterQuery);
+      if (!statement) {
+        return { success: false, provider: this.getName(), errors: [createInvalidPageTokenError()] };
+      }
+      if (statement.pipeline) {
+        return { success: true, provider: this.getName(), native: { ...native, pipeline: statement.pipeline } };
+      }
+      return {
+        success: true,
+        provider: this.getName(),
+        native: {
+          ...native,
+          filter: statement.filter,
+          projection: statement.projection,
+          sort: statement.sort,
+          skip: statement.skip,
+          limit: statement.limit + 1
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        provider: this.getName(),
+        errors: [{
+          code: 'EXPLAIN_FAILED',
+          message: `Query could not be explained: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+  }
+
   async getEntityMetadata(entityName: string): Promise<IEntityMetadataResult> {
     try {
       const collection = this.database.collection(entityName);
@@ -358,23 +733,31 @@ export class MongoDBProvider implements IMongoDBProvider {
 
   async create<T = Record<string, unknown>>(
     entityName: string,
-    data: Partial<T>
+    data: Partial<T>,
+    options: ICreateOptions = {}
   ): Promise<ICreateResult<T>> {
     try {
       this.totalQueries++;
       const startTime = Date.now();
 
       const collection = this.database.collection(entityName);
+      const sequenced: Record<string, number> = {};
+      for (const { field, sequence, start } of options.sequences ?? []) {
+        if ((data as Record<string, unknown>)[field] === undefined) {
+          sequenced[field] = await this.nextSequenceValue(sequence, start);
+        }
+      }
       
       // Add timestamps
       const documentToInsert = {
         ...data,
+        ...sequenced,
         createdAt: new Date(),
         updatedAt: new Date()
       };
 
-      const result = await collection.insertOne(documentToInsert);
-      const insertedDocument = await collection.findOne({ _id: result.insertedId });
+      const result = await collection.insertOne(documentToInsert, this.withSession());
+      const insertedDocument = await collection.findOne({ _id: result.insertedId }, this.withSession());
 
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
@@ -417,7 +800,7 @@ export class MongoDBProvider implements IMongoDBProvider {
 
       if (query) {
         if (query.filter) {
-          mongoQuery = this.convertODataFilterToMongo(query.filter);
+          mongoQuery = await this.buildFilterQuery(query.filter);
         }
         
         if (query.select?.fields) {
@@ -427,8 +810,8 @@ export class MongoDBProvider implements IMongoDBProvider {
         }
       }
 
-      const data = await collection.find(mongoQuery, { projection }).toArray();
-      const totalCount = await collection.countDocuments(mongoQuery);
+      const data = await collection.find(mongoQuery, this.withSession({ projection })).toArray();
+      const totalCount = await collection.countDocuments(mongoQuery, this.withSession());
 
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
@@ -459,7 +842,8 @@ export class MongoDBProvider implements IMongoDBProvider {
   async update<T = Record<string, unknown>>(
     entityName: string,
     id: any,
-    data: Partial<T>
+    data: Partial<T>,
+    options: IWriteOptions = {}
   ): Promise<IUpdateResult<T>> {
     try {
       this.totalQueries++;
@@ -469,34 +853,38 @@ export class MongoDBProvider implements IMongoDBProvider {
       
       // Convert string ID to ObjectId if needed
       const objectId = this.convertToObjectId(id);
+      const filter = this.buildWriteFilter(objectId, options);
       
       const updateData = {
         ...data,
         updatedAt: new Date()
       };
 
-      const result = await collection.findOneAndUpdate(
-        { _id: objectId },
-        { $set: updateData },
-        { returnDocument: 'after' }
-      );
+      const result = await collection.updateOne(filter, { $set: updateData }, this.withSession());
 
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
 
-      // If result.value is undefined, fetch the updated document
-      let updatedData = result.value as T;
-      if (!updatedData) {
-        updatedData = await collection.findOne({ _id: objectId }) as T;
+      if (result.matchedCount === 0) {
+        const conflict = options.concurrency && await this.exists(entityName, id);
+        return {
+          success: false,
+          errors: [conflict
+            ? this.createConcurrencyConflictError(entityName, id, options.concurrency!.field)
+            : this.createNotFoundError(entityName, id)],
+          metadata: { executionTime, updated: false, affectedCount: 0 }
+        };
       }
 
+      const updatedData = await collection.findOne({ _id: objectId }, this.withSession()) as T;
+
       return {
         data: updatedData,
         success: true,
         metadata: {
           executionTime,
           updated: true,
-          affectedCount: result.ok ? 1 : 0
+          affectedCount: result.matchedCount
         }
       };
     } catch (error) {
@@ -513,7 +901,7 @@ export class MongoDBProvider implements IMongoDBProvider {
     }
   }
 
-  async delete(entityName: string, id: any): Promise<IDeleteResult> {
+  async delete(entityName: string, id: any, options: IWriteOptions = {}): Promise<IDeleteResult> {
     try {
       this.totalQueries++;
       const startTime = Date.now();
@@ -523,11 +911,22 @@ export class MongoDBProvider implements IMongoDBProvider {
       // Convert string ID to ObjectId if needed
       const objectId = this.convertToObjectId(id);
 
-      const result = await collection.deleteOne({ _id: objectId });
+      const result = await collection.deleteOne(this.buildWriteFilter(objectId, options), this.withSession());
 
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
 
+      if (result.deletedCount === 0) {
+        const conflict = options.concurrency && await this.exists(entityName, id);
+        return {
+          success: false,
+          errors: [conflict
+            ? this.createConcurrencyConflictError(entityName, id, options.concurrency!.field)
+            : this.createNotFoundError(entityName, id)],
+          metadata: { executionTime, deleted: false, affectedCount: 0 }
+        };
+      }
+
       return {
         success: true,
         metadata: {
@@ -550,17 +949,371 @@ export class MongoDBProvider implements IMongoDBProvider {
     }
   }
 
+  /**
+   * Insert documents with one ordered insertMany; a failing document stops the batch and is reported by its position
+   */
+  async createMany<T = Record<string, unknown>>(
+    entityName: string,
+    rows: Partial<T>[],
+    options: ICreateOptions = {}
+  ): Promise<IBulkResult<T>> {
+    this.totalQueries++;
+    const startTime = Date.now();
+    const collection = this.database.collection(entityName);
+    let atomic = false;
+
+    try {
+      const now = new Date();
+      const documents: Record<string, unknown>[] = [];
+      for (const row of rows) {
+        const document: Record<string, unknown> = { ...row, createdAt: now, updatedAt: now };
+        for (const { field, sequence, start } of options.sequences ?? []) {
+          if (document[field] === undefined) {
+            document[field] = await this.nextSequenceValue(sequence, start);
+          }
+        }
+        documents.push(document);
+      }
+      if (documents.length === 0) {
+        return { success: true, data: [], ids: [], metadata: { executionTime: 0, affectedCount: 0 } };
+      }
+
+      const { result } = await runInTransaction(this, async () => {
+        // Inside a transaction a failing row leaves nothing behind; standalone servers keep the rows before it
+        atomic = Boolean(getOpenTransaction(this));
+        return { success: true, result: await collection.insertMany(documents, this.withSession({ ordered: true })) };
+      });
+      const ids = documents.map((_, index) => result.insertedIds[index]);
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+      return {
+        success: true,
+        data: documents as T[],
+        ids,
+        metadata: { executionTime, affectedCount: result.insertedCount }
+      };
+    } catch (error: any) {
+      // A BulkWriteError lists the failing documents; without a transaction the ones before them are already written
+      const writeErrors: any[] = error?.writeErrors ? [].concat(error.writeErrors) : [];
+      const written: Record<number, unknown> = atomic ? {} : error?.result?.insertedIds ?? error?.insertedIds ?? {};
+      const describe = (index: number, cause: any): IUserFriendlyError => ({
+        code: 'CREATE_FAILED',
+        message: `Failed to create row ${index}: ${cause?.errmsg ?? cause?.message ?? 'Unknown error'}`,
+        details: error instanceof Error ? { stack: error.stack } : {},
+        severity: 'error',
+        actionable: true
+      });
+      return {
+        success: false,
+        ...(writeErrors.length > 0
+          ? { rowErrors: writeErrors.map(writeError => ({ index: writeError.index, errors: [describe(writeError.index, writeError)] })) }
+          : { errors: [describe(0, error)] }),
+        ...(Object.keys(written).length > 0 ? { ids: Object.values(written) } : {}),
+        metadata: { executionTime: Date.now() - startTime, affectedCount: atomic ? 0 : Object.keys(written).length }
+      };
+    }
+  }
+
+  /**
+   * Update every document matching the filter with one updateMany
+   */
+  async updateWhere<T = Record<string, unknown>>(
+    entityName: string,
+    query: any,
+    patch: Partial<T>,
+    options: IBulkWriteOptions = {}
+  ): Promise<IBulkResult<T>> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+
+      const collection = this.database.collection(entityName);
+      const filter = await this.buildFilterQuery(query.filter);
+      const increments = options.increment ?? [];
+      const result = await collection.updateMany(filter, {
+        $set: { ...patch, updatedAt: new Date() },
+        ...(increments.length > 0 ? { $inc: Object.fromEntries(increments.map(field => [field, 1])) } : {})
+      }, this.withSession());
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+      return { success: true, metadata: { executionTime, affectedCount: result.matchedCount } };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'UPDATE_FAILED',
+          message: `Failed to update documents: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }],
+        metadata: { executionTime: 0, affectedCount: 0 }
+      };
+    }
+  }
+
+  /**
+   * Delete every document matching the filter with one deleteMany
+   */
+  async deleteWhere(entityName: string, query: any): Promise<IBulkResult> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+
+      const collection = this.database.collection(entityName);
+      const result = await collection.deleteMany(await this.buildFilterQuery(query.filter), this.withSession());
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+      return { success: true, metadata: { executionTime, affectedCount: result.deletedCount } };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'DELETE_FAILED',
+          message: `Failed to delete documents: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }],
+        metadata: { executionTime: 0, affectedCount: 0 }
+      };
+    }
+  }
+
+  /**
+   * Insert a document or update the one whose conflict keys match, with updateOne({ upsert: true }).
+   * Fields that are not updated only go into new documents ($setOnInsert); sequences are numbered once a document was inserted.
+   */
+  async upsert<T = Record<string, unknown>>(
+    entityName: string,
+    data: Partial<T>,
+    options: IUpsertOptions
+  ): Promise<IUpsertResult<T>> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+
+      const collection = this.database.collection(entityName);
+      const record = data as Record<string, unknown>;
+      const filter = Object.fromEntries(options.conflictKeys.map(key => [key, record[key]]));
+      const updated = options.update ?? Object.keys(record).filter(field => !options.conflictKeys.includes(field));
+      const increments = options.increment ?? [];
+      const now = new Date();
+      const onInsert = Object.entries(record).filter(([field]) => !updated.includes(field) && !increments.includes(field));
+
+      const result = await collection.updateOne(filter, {
+        $set: { ...Object.fromEntries(updated.filter(field => field in record).map(field => [field, record[field]])), updatedAt: now },
+        $setOnInsert: { ...Object.fromEntries(onInsert), createdAt: now },
+        ...(increments.length > 0 ? { $inc: Object.fromEntries(increments.map(field => [field, 1])) } : {})
+      }, this.withSession({ upsert: true }));
+
+      const created = result.upsertedCount > 0;
+      if (created) {
+        const sequenced: Record<string, number> = {};
+        for (const { field, sequence, start } of options.sequences ?? []) {
+          if (record[field] === undefined) {
+            sequenced[field] = await this.nextSequenceValue(sequence, start);
+          }
+        }
+        if (Object.keys(sequenced).length > 0) {
+          await collection.updateOne({ _id: result.upsertedId }, { $set: sequenced }, this.withSession());
+        }
+      }
+      const document = await collection.findOne(created ? { _id: result.upsertedId } : filter, this.withSession());
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+
+      return {
+        data: document as T,
+        success: true,
+        id: document?._id,
+        metadata: { executionTime, created, updated: !created }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'UPSERT_FAILED',
+          message: `Failed to upsert document: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+  }
+
   async exists(entityName: string, id: any): Promise<boolean> {
     try {
       const collection = this.database.collection(entityName);
       const objectId = this.convertToObjectId(id);
-      const result = await collection.findOne({ _id: objectId }, { projection: { _id: 1 } });
+      const result = await collection.findOne({ _id: objectId }, this.withSession({ projection: { _id: 1 } }));
       return result !== null;
     } catch (error) {
       return false;
     }
   }
 
+  /**
+   * Change the links of a many-to-many relation: documents of a join collection,
+   * or the id array embedded in the source document
+   */
+  async updateLinks(entityName: string, change: ILinkChange): Promise<ILinkResult> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+      const { entity, sourceKey, targetKey, field } = change.through;
+      let counts: { attached: number; detached: number };
+
+      if (field) {
+        const collection = this.database.collection(entityName);
+        const objectId = this.convertToObjectId(change.id);
+        const document = await collection.findOne({ _id: objectId }, this.withSession({ projection: { [field]: 1 } }));
+        if (!document) {
+          throw new Error(`${entityName} '${String(change.id)}' was not found`);
+        }
+        const { added, removed } = diffLinks(Array.isArray(document[field]) ? document[field] : [], change);
+        if (removed.length > 0) {
+          await collection.updateOne({ _id: objectId }, { $pull: { [field]: { $in: removed } } }, this.withSession());
+        }
+        if (added.length > 0) {
+          await collection.updateOne({ _id: objectId }, { $addToSet: { [field]: { $each: added } } }, this.withSession());
+        }
+        counts = { attached: added.length, detached: removed.length };
+      } else if (entity && sourceKey && targetKey) {
+        const collection = this.database.collection(entity);
+        const linked = await collection.distinct(targetKey, { [sourceKey]: change.sourceValue }, this.withSession());
+        const { added, removed } = diffLinks(linked, change);
+        if (removed.length > 0) {
+          await collection.deleteMany({ [sourceKey]: change.sourceValue, [targetKey]: { $in: removed } }, this.withSession());
+        }
+        if (added.length > 0) {
+          await collection.insertMany(added.map(value => ({ [sourceKey]: change.sourceValue, [targetKey]: value })), this.withSession());
+        }
+        counts = { attached: added.length, detached: removed.length };
+      } else {
+        throw new Error(`Relation '${change.relation}' needs through.field or through.entity, sourceKey and targetKey`);
+      }
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+      return { success: true, metadata: { ...counts, executionTime } };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'LINK_UPDATE_FAILED',
+          message: `Failed to update links of '${change.relation}': ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }],
+        metadata: { attached: 0, detached: 0, executionTime: 0 }
+      };
+    }
+  }
+
+  /**
+   * Begin a multi-document transaction in a client session. Reads and writes of the calls runInTransaction()
+   * opens it for run in the session; other calls don't see it. MongoDB needs a replica set or sharded cluster for this:
+   * standalone servers are refused with TRANSACTIONS_NOT_SUPPORTED, and runInTransaction() then writes without one.
+   */
+  async beginTransaction(): Promise<IMongoTransactionHandle> {
+    if (!(await this.supportsTransactions())) {
+      const error: IUserFriendlyError = {
+        code: 'TRANSACTIONS_NOT_SUPPORTED',
+        message: 'MongoDB only runs transactions on a replica set member or mongos, not on a standalone server',
+        suggestion: 'Run MongoDB as a replica set (a single member is enough) for atomic writes',
+        severity: 'error',
+        actionable: true
+      };
+      throw error;
+    }
+    const session: ClientSession = this.client.startSession();
+    session.startTransaction();
+    let active = true;
+
+    const end = async (action: 'commitTransaction' | 'abortTransaction') => {
+      try {
+        await session[action]();
+      } finally {
+        active = false;
+        await session.endSession();
+      }
+    };
+    return {
+      session,
+      commit: () => end('commitTransaction'),
+      rollback: () => end('abortTransaction'),
+      isActive: () => active
+    };
+  }
+
+  /**
+   * Whether the server is a replica set member or mongos, which standalone servers are not
+   */
+  private async supportsTransactions(): Promise<boolean> {
+    if (this.transactionsSupported === undefined) {
+      const hello = await this.database.admin().command({ hello: 1 });
+      this.transactionsSupported = hello.setName !== undefined || hello.msg === 'isdbgrid';
+    }
+    return this.transactionsSupported;
+  }
+
+  /**
+   * Driver options with the session of the transaction the calling async chain has open, if any
+   */
+  private withSession(options: Record<string, unknown> = {}): Record<string, unknown> {
+    const session = getOpenTransaction<IMongoTransactionHandle>(this)?.session;
+    return session ? { ...options, session } : options;
+  }
+
+  /**
+   * Match the document by id and, for concurrency-checked writes, by its expected token
+   */
+  private buildWriteFilter(objectId: any, options: IWriteOptions): Record<string, unknown> {
+    const filter: Record<string, unknown> = { _id: objectId };
+    if (options.concurrency) {
+      filter[options.concurrency.field] = options.concurrency.expected;
+    }
+    return filter;
+  }
+
+  private createStreamError(error: unknown): IUserFriendlyError {
+    return {
+      code: 'STREAM_FAILED',
+      message: `Streaming query failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      details: error instanceof Error ? { stack: error.stack } : {},
+      severity: 'error',
+      actionable: true
+    };
+  }
+
+  private createNotFoundError(entityName: string, id: any): IUserFriendlyError {
+    return {
+      code: 'RECORD_NOT_FOUND',
+      message: `${entityName} '${id}' was not found`,
+      suggestion: 'Check the id, or create the record first',
+      severity: 'error',
+      actionable: true
+    };
+  }
+
+  private createConcurrencyConflictError(entityName: string, id: any, field: string): IUserFriendlyError {
+    return {
+      code: 'CONCURRENCY_CONFLICT',
+      message: `${entityName} '${id}' was changed by someone else (${field} no longer matches)`,
+      suggestion: 'Reload the record and apply your changes again',
+      severity: 'error',
+      actionable: true,
+      field
+    };
+  }
+
   getDatabase(): any {
     return this.database;
   }
@@ -578,7 +1331,7 @@ export class MongoDBProvider implements IMongoDBProvider {
       const startTime = Date.now();
 
       const collection = this.database.collection(collectionName);
-      const data = await collection.aggregate(pipeline).toArray();
+      const data = await collection.aggregate(pipeline, this.withSession()).toArray();
 
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
@@ -605,6 +1358,16 @@ export class MongoDBProvider implements IMongoDBProvider {
     }
   }
 
+  /**
+   * Create the text index that full-text searches ($text) run against
+   */
+  async createSearchIndex(collectionName: string, fields: string[]): Promise<void> {
+    await this.createIndexes(collectionName, [{
+      key: Object.fromEntries(fields.map(field => [field, 'text'])),
+      name: `${collectionName}_text`
+    }]);
+  }
+
   async createIndexes(collectionName: string, indexes: any[]): Promise<void> {
     try {
       const collection = this.database.collection(collectionName);
@@ -643,9 +1406,221 @@ export class MongoDBProvider implements IMongoDBProvider {
     }
   }
 
+  private buildLookupStages(expands: any[], depth = 0): any[] {
+    const stages: any[] = [];
+    // Each nesting level gets its own variable so inner lookups can't shadow outer join keys
+    const joinKey = `joinKey${depth}`;
+
+    for (const expand of expands) {
+      const nested = expand.nestedQuery || {};
+      const through = expand.through;
+      // Many-to-many: the join key is the array of linked target keys
+      const linksField = `__${expand.relation}Links`;
+      const lookupPipeline: any[] = [
+        { $match: { $expr: through ? { $in: [`$${expand.targetField}`, `$$${joinKey}`] } : { $eq: [`$${expand.targetField}`, `$$${joinKey}`] } } }
+      ];
+
+      if (nested.filter) {
+        lookupPipeline.push({ $match: this.convertODataFilterToMongo(nested.filter) });
+      }
+      if (nested.orderBy?.length) {
+        const sort: any = {};
+        nested.orderBy.forEach((order: any) => {
+          sort[order.field] = order.direction === 'asc' ? 1 : -1;
+        });
+        lookupPipeline.push({ $sort: sort });
+      }
+      if (nested.pagination?.skip) {
+        lookupPipeline.push({ $skip: nested.pagination.skip });
+      }
+      if (nested.pagination?.take) {
+        lookupPipeline.push({ $limit: nested.pagination.take });
+      }
+      if (nested.expand?.length) {
+        lookupPipeline.push(...this.buildLookupStages(nested.expand, depth + 1));
+      }
+      if (nested.select?.fields) {
+        const projection: any = { _id: 0 };
+        nested.select.fields.forEach((field: string) => {
+          projection[field] = 1;
+        });
+        lookupPipeline.push({ $project: this.withExpandedFields(projection, nested.expand) });
+      }
+
+      let joinValue: any = `$${expand.sourceField}`;
+      if (through?.field) {
+        joinValue = { $ifNull: [`$${through.field}`, []] };
+      } else if (through?.entity) {
+        stages.push({
+          $lookup: { from: through.entity, localField: expand.sourceField, foreignField: through.sourceKey, as: linksField }
+        });
+        joinValue = `$${linksField}.${through.targetKey}`;
+      }
+
+      stages.push({
+        $lookup: {
+          from: expand.targetEntity || expand.relation,
+          let: { [joinKey]: joinValue },
+          pipeline: lookupPipeline,
+          as: expand.relation
+        }
+      });
+      if (through?.entity) {
+        stages.push({ $unset: linksField });
+      }
+
+      if (expand.single) {
+        stages.push({
+          $set: { [expand.relation]: { $ifNull: [{ $arrayElemAt: [`$${expand.relation}`, 0] }, null] } }
+        });
+      }
+    }
+
+    return stages;
+  }
+
+  private withExpandedFields(projection: any, expands?: any[]): any {
+    // An inclusion projection would otherwise drop the expanded relations
+    const result = { ...projection };
+    expands?.forEach((expand: any) => {
+      result[expand.relation] = 1;
+    });
+    return result;
+  }
+
+  /**
+   * Convert a filter to a MongoDB query, first looking up the keys that satisfy relation lambdas
+   */
+  private async buildFilterQuery(filter?: IQueryFilter, lookups?: INativeQuery['lookups']): Promise<any> {
+    return filter ? this.convertODataFilterToMongo(await this.resolveRelationLambdas(filter, lookups)) : {};
+  }
+
+  /**
+   * Replace any/all over relations with key conditions: any() becomes 'sourceField in (keys of matching
+   * related documents)', all() becomes 'sourceField not in (keys of related documents that fail the condition)'.
+   * When explaining, the lookups are collected instead of run and the keys are left as { $lookupKeys: n } placeholders.
+   */
+  private async resolveRelationLambdas(filter: IQueryFilter, lookups?: INativeQuery['lookups']): Promise<IQueryFilter> {
+    if (filter.children?.length) {
+      return { ...filter, children: await Promise.all(filter.children.map(child => this.resolveRelationLambdas(child, lookups))) };
+    }
+
+    const lambda = filter.lambda;
+    if (!lambda?.targetEntity || !lambda.sourceField || !lambda.targetField) {
+      return filter;
+    }
+
+    const negated = lambda.operator === 'all';
+    if (negated && !lambda.condition) {
+      return { field: '', operator: 'eq', value: null, expression: { kind: 'literal', value: true }, not: Boolean(filter.not) };
+    }
+    const condition = lambda.condition ? this.convertODataFilterToMongo(this.toElementFilter(lambda.condition, lambda.variable)) : {};
+    const lookupFilter = negated ? { $nor: [condition] } : condition;
+    const distinct = async (collection: string, field: string, query: any) => lookups
+      ? { $lookupKeys: lookups.push({ collection, distinct: field, filter: query }) - 1 }
+      : this.database.collection(collection).distinct(field, query, this.withSession());
+    const keys = await distinct(lambda.targetEntity, lambda.targetField, lookupFilter);
+    const not = Boolean(filter.not) !== negated;
+
+    // Many-to-many: match the embedded id array, or the sources the join collection links to those keys
+    const { through } = lambda;
+    if (through?.field) {
+      return { field: through.field, operator: 'in', value: keys, not };
+    }
+    if (through?.entity && through.sourceKey && through.targetKey) {
+      const sourceKeys = await distinct(through.entity, through.sourceKey, { [through.targetKey]: { $in: keys } });
+      return { field: lambda.sourceField, operator: 'in', value: sourceKeys, not };
+    }
+
+    return { field: lambda.sourceField, operator: 'in', value: keys, not };
+  }
+
+  /**
+   * Rename a lambda condition's element paths (t/price) to document paths (price)
+   */
+  private toElementFilter(condition: IQueryFilter, variable: string): IQueryFilter {
+    if (condition.children) {
+      return { ...condition, children: condition.children.map(child => this.toElementFilter(child, variable)) };
+    }
+    return { ...condition, field: condition.field.slice(variable.length + 1).replace(/\//g, '.') };
+  }
+
+  /**
+   * any/all over an array field: $elemMatch for any, and for all no element matching the negated condition.
+   * Conditions compare fields of object elements (t/price) or the elements themselves (t).
+   */
+  private convertLambdaToMongo(field: string, lambda: IQueryLambda): any {
+    if (lambda.targetEntity) {
+      throw new Error(`Relation '${field}' in ${lambda.operator}() has to be resolved before the query is built`);
+    }
+    if (!lambda.condition) {
+      return lambda.operator === 'any' ? { [`${field}.0`]: { $exists: true } } : {};
+    }
+
+    const paths = new Set(getLambdaPaths(lambda.condition));
+    let element: any;
+    let failing: any;
+    if (!paths.has(lambda.variable)) {
+      element = this.convertODataFilterToMongo(this.toElementFilter(lambda.condition, lambda.variable));
+      failing = { $nor: [element] };
+    } else if (paths.size === 1) {
+      element = this.convertElementCondition(lambda.condition);
+      failing = { $not: element };
+    } else {
+      throw new Error(`${lambda.operator}() over '${field}' can't compare both the elements and their fields`);
+    }
+
+    return lambda.operator === 'any'
+      ? { [field]: { $elemMatch: element } }
+      : { [field]: { $not: { $elemMatch: failing } } };
+  }
+
+  /**
+   * Operator document for conditions on the array elements themselves, e.g. { $gt: 5, $lt: 10 }
+   */
+  private convertElementCondition(condition: IQueryFilter): any {
+    if (condition.not) {
+      return { $not: this.convertElementCondition({ ...condition, not: false }) };
+    }
+
+    if (condition.children?.length) {
+      if (condition.logicalOperator !== 'or') {
+        return Object.assign({}, ...condition.children.map(child => this.convertElementCondition(child)));
+      }
+      // $elemMatch has no $or for plain values, but alternatives of equality are a $in
+      if (condition.children.every(child => !child.not && !child.children && child.operator === 'eq')) {
+        return { $in: condition.children.map(child => child.value) };
+      }
+      throw new Error("Alternatives on array elements are only supported as 'eq' comparisons");
+    }
+
+    // 'eq' converts to the bare value, the other operators to an operator document
+    const converted = this.convertODataFilterToMongo({ ...condition, field: 'element' }).element;
+    const isOperatorDocument = converted !== null && typeof converted === 'object' &&
+      Object.keys(converted).length > 0 && Object.keys(converted).every(key => key.startsWith('$'));
+    return isOperatorDocument ? converted : { $eq: converted };
+  }
+
   private convertODataFilterToMongo(filter: any): any {
     if (!filter) return {};
 
+    if (filter.not) {
+      return { $nor: [this.convertODataFilterToMongo({ ...filter, not: false })] };
+    }
+
+    if (filter.children?.length) {
+      const mongoOperator = filter.logicalOperator === 'or' ? '$or' : '$and';
+      return { [mongoOperator]: filter.children.map((child: any) => this.convertODataFilterToMongo(child)) };
+    }
+
+    if (filter.expression) {
+      return { $expr: this.compileExpression(filter.expression) };
+    }
+
+    if (filter.lambda) {
+      return this.convertLambdaToMongo(filter.field, filter.lambda);
+    }
+
     const { field, operator, value } = filter;
 
     switch (operator) {
@@ -705,6 +1680,131 @@ export class MongoDBProvider implements IMongoDBProvider {
     return 'string';
   }
 
+  /**
+   * Add a $text condition for full-text searches, which match the fields of the collection's text index
+   */
+  private withTextSearch(mongoQuery: any, query: any): any {
+    return query.search ? { ...mongoQuery, $text: { $search: query.search } } : mongoQuery;
+  }
+
+  /**
+   * Next value of a named sequence, starting at start (default 1).
+   * Sequences are documents in the counters collection, incremented atomically.
+   */
+  async nextSequenceValue(name: string, start = 1): Promise<number> {
+    const counter = await this.database.collection('counters').findOneAndUpdate(
+      { _id: name },
+      [{ $set: { value: { $add: [{ $ifNull: ['$value', start - 1] }, 1] } } }],
+      { upsert: true, returnDocument: 'after' }
+    );
+    return counter.value;
+  }
+
+  /**
+   * Leading pipeline stages: the $text match (which must be the first stage), computed fields, then the filter
+   */
+  private buildMatchStages(query: any, filter: any): any[] {
+    if (!query.compute?.length) {
+      return [{ $match: this.withTextSearch(filter, query) }];
+    }
+    return [
+      ...(query.search ? [{ $match: this.withTextSearch({}, query) }] : []),
+      // One stage per field, so a computed field can use the ones before it
+      ...query.compute.map((field: IQueryCompute) => ({ $addFields: { [field.name]: this.compileExpression(field.expression) } })),
+      { $match: filter }
+    ];
+  }
+
+  /**
+   * Compile an expression tree to an aggregation expression
+   */
+  private compileExpression(node: IExpressionNode): any {
+    switch (node.kind) {
+      case 'literal':
+        // $literal keeps strings starting with '$' from being read as field paths
+        return typeof node.value === 'string' ? { $literal: node.value } : node.value;
+      case 'field':
+        return `$${node.name}`;
+      case 'unary': {
+        const operand = this.compileExpression(node.operand);
+        return node.operator === 'not' ? { $not: [operand] } : { $multiply: [-1, operand] };
+      }
+      case 'binary':
+        return { [MONGO_OPERATORS[node.operator]]: [this.compileExpression(node.left), this.compileExpression(node.right)] };
+      case 'call':
+        return this.compileFunction(node.name, node.args.map(arg => this.compileExpression(arg)));
+      case 'list':
+        return node.items.map(item => this.compileExpression(item));
+    }
+  }
+
+  private compileFunction(name: string, args: any[]): any {
+    const [first, second, third] = args;
+    switch (name) {
+      case 'concat':
+        return { $concat: [first, second] };
+      case 'contains':
+        return { $gte: [{ $indexOfCP: [first, second] }, 0] };
+      case 'startswith':
+        return { $eq: [{ $indexOfCP: [first, second] }, 0] };
+      case 'endswith': {
+        const start = { $subtract: [{ $strLenCP: first }, { $strLenCP: second }] };
+        return { $cond: [{ $gte: [start, 0] }, { $eq: [{ $substrCP: [first, start, { $strLenCP: second }] }, second] }, false] };
+      }
+      case 'length':
+        return { $strLenCP: first };
+      case 'indexof':
+        return { $indexOfCP: [first, second] };
+      case 'substring':
+        return { $substrCP: [first, second, third ?? { $strLenCP: first }] };
+      case 'tolower':
+        return { $toLower: first };
+      case 'toupper':
+        return { $toUpper: first };
+      case 'trim':
+        return { $trim: { input: first } };
+      case 'year':
+        return { $year: first };
+      case 'month':
+        return { $month: first };
+      case 'day':
+        return { $dayOfMonth: first };
+      case 'hour':
+        return { $hour: first };
+      case 'minute':
+        return { $minute: first };
+      case 'second':
+        return { $second: first };
+      case 'now':
+        return '$$NOW';
+      case 'round':
+        return { $round: [first, 0] };
+      case 'floor':
+        return { $floor: first };
+      case 'ceiling':
+        return { $ceil: first };
+      default:
+        throw new Error(`Function '${name}' is not supported in MongoDB expressions`);
+    }
+  }
+
+  /**
+   * Sort by text score when a search has no explicit order
+   */
+  private buildRelevanceSort(query: any): any {
+    return query.search && !query.orderBy?.length ? { score: { $meta: 'textScore' } } : {};
+  }
+
+  /**
+   * Turn ObjectIds carried through a page token back into ObjectId instances
+   */
+  private fromTokenValue(value: unknown): unknown {
+    if (value !== null && typeof value === 'object' && '$oid' in value) {
+      return this.convertToObjectId(String((value as { $oid: unknown }).$oid));
+    }
+    return value;
+  }
+
   private convertToObjectId(id: any): any {
     if (typeof id === 'string' && /^[0-9a-fA-F]{24}$/.test(id)) {
       // Dynamic import to avoid bundling issues
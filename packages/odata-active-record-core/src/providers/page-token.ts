@@ -0,0 +1,103 @@
+import type { IQueryFilter, IQueryOrder, IUserFriendlyError } from 'odata-active-record-contracts';
+
+/**
+ * Page tokens for keyset (cursor) pagination.
+ * A token records the ordering it was issued for and the last row's value for each order key,
+ * so the next page can start right after that row instead of skipping an offset.
+ */
+interface IPageTokenPayload {
+  /** Ordering the token was issued for, as 'field direction' */
+  o: string[];
+  /** The last row's value for each order key */
+  v: unknown[];
+}
+
+/**
+ * Encode the order key values of the last row of a page into an opaque token
+ */
+export function encodePageToken(row: Record<string, unknown>, orderBy: IQueryOrder[]): string | undefined {
+  if (orderBy.length === 0 || orderBy.some(order => !(order.field in row))) {
+    return undefined;
+  }
+
+  const payload: IPageTokenPayload = {
+    o: orderBy.map(order => `${order.field} ${order.direction}`),
+    v: orderBy.map(order => encodeValue(row[order.field]))
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a token into the order key values it holds.
+ * Returns null when the token is malformed or was issued for a different ordering.
+ */
+export function decodePageToken(token: string, orderBy: IQueryOrder[]): unknown[] | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as IPageTokenPayload;
+    const ordering = orderBy.map(order => `${order.field} ${order.direction}`);
+    if (!Array.isArray(payload.o) || !Array.isArray(payload.v) ||
+        payload.v.length !== ordering.length || payload.o.join(',') !== ordering.join(',')) {
+      return null;
+    }
+    return payload.v.map(decodeValue);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the keyset predicate that matches the rows after the given order key values:
+ * (a > va) OR (a = va AND b > vb) OR ..., with '<' for descending keys
+ */
+export function buildKeysetFilter(orderBy: IQueryOrder[], values: unknown[]): IQueryFilter {
+  const branches = orderBy.map((order, index): IQueryFilter => {
+    const equalities = orderBy.slice(0, index).map((previous, position): IQueryFilter => ({
+      field: previous.field,
+      operator: 'eq',
+      value: values[position]
+    }));
+    const comparison: IQueryFilter = {
+      field: order.field,
+      operator: order.direction === 'desc' ? 'lt' : 'gt',
+      value: values[index]
+    };
+    return equalities.length === 0
+      ? comparison
+      : { field: '', operator: 'eq', value: null, logicalOperator: 'and', children: [...equalities, comparison] };
+  });
+
+  return branches.length === 1
+    ? branches[0]!
+    : { field: '', operator: 'eq', value: null, logicalOperator: 'or', children: branches };
+}
+
+/**
+ * Error reported when a page token cannot be used with the query
+ */
+export function createInvalidPageTokenError(): IUserFriendlyError {
+  return {
+    code: 'INVALID_PAGE_TOKEN',
+    message: 'The page token is malformed or was issued for a different ordering',
+    suggestion: 'Pass the nextPageToken of the previous page together with the same orderBy',
+    severity: 'error',
+    actionable: true
+  };
+}
+
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  // MongoDB ObjectIds keep their identity through the token
+  if (value !== null && typeof value === 'object' && (value as { _bsontype?: string })._bsontype === 'ObjectId') {
+    return { $oid: String(value) };
+  }
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (value !== null && typeof value === 'object' && '$date' in value) {
+    return new Date(String((value as { $date: unknown }).$date));
+  }
+  return value;
+}
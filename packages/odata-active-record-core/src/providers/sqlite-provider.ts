@@ -14,8 +14,60 @@ import type {
   IMetadataDocumentResult,
   ISQLiteDatabaseStats,
   ITransactionHandle,
-  IUserFriendlyError
+  IUserFriendlyError,
+  IWriteOptions,
+  IQueryOrder,
+  IQueryApply,
+  IAggregateExpression,
+  IExpressionNode,
+  IExpressionBinaryOperator,
+  IQueryCompute,
+  IQueryLambda,
+  ICreateOptions,
+  IExplainOptions,
+  IExplainResult,
+  INativeQuery,
+  IQueryPlanStep,
+  ILinkChange,
+  ILinkResult,
+  IRelationThrough,
+  IBulkResult,
+  IBulkWriteOptions,
+  IUpsertOptions,
+  IUpsertResult
 } from 'odata-active-record-contracts';
+import { encodePageToken, decodePageToken, buildKeysetFilter, createInvalidPageTokenError } from './page-token';
+import { getLambdaPaths } from '../lambda';
+import { diffLinks } from './links';
+
+const SQL_OPERATORS: Record<IExpressionBinaryOperator, string> = {
+  add: '+',
+  sub: '-',
+  mul: '*',
+  div: '/',
+  mod: '%',
+  eq: 'IS',
+  ne: 'IS NOT',
+  gt: '>',
+  ge: '>=',
+  lt: '<',
+  le: '<=',
+  in: 'IN',
+  and: 'AND',
+  or: 'OR'
+};
+
+/**
+ * A compiled query: the page of rows, how to count every match, and columns fetched only for internal use
+ */
+interface ISelectStatement {
+  sql: string;
+  params: any[];
+  countSql: string;
+  countParams: any[];
+  take: number | undefined;
+  hiddenKeys: string[];
+}
 
 /**
  * Real SQLite Provider Implementation
@@ -163,44 +215,86 @@ export class SQLiteProvider implements ISQLiteProvider {
     entityName: string,
     query: any
   ): Promise<IQueryResult<T>> {
+    if (query.apply) {
+      return this.executeAggregation<T>(entityName, query);
+    }
+
     try {
       this.totalQueries++;
       const startTime = Date.now();
 
-      let sql = `SELECT * FROM ${entityName}`;
-      const params: any[] = [];
-
-      // Handle filtering
-      if (query.filter) {
-        const whereClause = this.convertODataFilterToSQL(query.filter, params);
-        sql += ` WHERE ${whereClause}`;
+      const statement = this.buildSelectStatement(entityName, query);
+      if (!statement) {
+        return {
+          data: [],
+          success: false,
+          errors: [createInvalidPageTokenError()],
+          metadata: { count: 0, executionTime: 0, cacheStatus: 'miss' }
+        };
       }
+      const { take, hiddenKeys } = statement;
+      const orderBy: IQueryOrder[] = query.orderBy ?? [];
 
-      // Handle field selection
-      if (query.select?.fields) {
-        const fields = query.select.fields.join(', ');
-        sql = sql.replace('*', fields);
+      const stmt = this.database.prepare(statement.sql);
+      const data = stmt.all(...statement.params);
+      const count = this.database.prepare(statement.countSql).get(...statement.countParams).count;
+
+      const hasMore = take !== undefined && data.length > take;
+      if (hasMore) {
+        data.pop();
       }
+      const nextPageToken = hasMore ? encodePageToken(data[data.length - 1], orderBy) : undefined;
 
-      // Handle sorting
-      if (query.orderBy) {
-        const orderClause = query.orderBy
-          .map((order: any) => `${order.field} ${order.direction.toUpperCase()}`)
-          .join(', ');
-        sql += ` ORDER BY ${orderClause}`;
+      if (query.expand?.length) {
+        await this.attachExpansions(data, query.expand);
       }
+      data.forEach((row: any) => hiddenKeys.forEach(key => delete row[key]));
 
-      // Handle pagination
-      if (query.pagination) {
-        sql += ` LIMIT ${query.pagination.take || 50}`;
-        if (query.pagination.skip) {
-          sql += ` OFFSET ${query.pagination.skip}`;
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+
+      return {
+        data: data as T[],
+        success: true,
+        metadata: {
+          count,
+          executionTime,
+          cacheStatus: 'miss',
+          ...(take !== undefined ? { hasMore } : {}),
+          ...(nextPageToken ? { nextPageToken } : {})
         }
-      }
+      };
+    } catch (error) {
+      return {
+        data: [],
+        success: false,
+        errors: [{
+          code: 'QUERY_EXECUTION_FAILED',
+          message: `Query execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }],
+        metadata: {
+          count: 0,
+          executionTime: 0,
+          cacheStatus: 'miss'
+        }
+      };
+    }
+  }
 
-      const stmt = this.database.prepare(sql);
-      const data = stmt.all(...params);
-      const count = this.database.prepare(`SELECT COUNT(*) as count FROM ${entityName}`).get().count;
+  /**
+   * Execute a grouped/aggregate query as SELECT ... GROUP BY
+   */
+  private async executeAggregation<T>(entityName: string, query: any): Promise<IQueryResult<T>> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+
+      const statement = this.buildAggregateStatement(entityName, query);
+      const data = this.database.prepare(statement.sql).all(...statement.params);
+      const count = this.database.prepare(statement.countSql).get(...statement.countParams).count;
 
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
@@ -219,8 +313,8 @@ export class SQLiteProvider implements ISQLiteProvider {
         data: [],
         success: false,
         errors: [{
-          code: 'QUERY_EXECUTION_FAILED',
-          message: `Query execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          code: 'AGGREGATION_FAILED',
+          message: `Aggregation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
           details: error instanceof Error ? { stack: error.stack } : {},
           severity: 'error',
           actionable: true
@@ -234,6 +328,229 @@ export class SQLiteProvider implements ISQLiteProvider {
     }
   }
 
+  /**
+   * Build the SELECT and COUNT statements for a query; undefined when the page token does not match the query
+   */
+  private buildSelectStatement(entityName: string, query: any): ISelectStatement | undefined {
+    const params: any[] = [];
+    const source = this.buildSource(entityName, query, params);
+    const computed = this.buildComputedColumns(query.compute);
+    let whereSQL = '';
+    const orderBy: IQueryOrder[] = query.orderBy ?? [];
+
+    // Handle filtering
+    if (query.filter) {
+      const whereClause = this.convertODataFilterToSQL(query.filter, params, computed, entityName);
+      whereSQL = ` WHERE ${whereClause}`;
+    }
+
+    // Keyset pagination continues right after the row the page token was issued for
+    const pageParams = [...params];
+    let pageSQL = whereSQL;
+    if (query.pagination?.cursor) {
+      const values = decodePageToken(query.pagination.cursor, orderBy);
+      if (!values) {
+        return undefined;
+      }
+      const keysetClause = this.convertODataFilterToSQL(buildKeysetFilter(orderBy, values), pageParams, computed);
+      pageSQL = whereSQL ? `${whereSQL} AND ${keysetClause}` : ` WHERE ${keysetClause}`;
+    }
+
+    // Handle field selection (join keys needed by expansions and order keys needed by page tokens are fetched as well)
+    const joinKeys = this.getMissingJoinKeys(query);
+    const orderKeys = this.getMissingOrderKeys(query, joinKeys);
+    const columns = this.buildColumns(entityName, query, computed, [...joinKeys, ...orderKeys]);
+    let sql = `SELECT ${columns} FROM ${source}${pageSQL}`;
+
+    // Handle sorting (searches without an explicit order come back by relevance)
+    if (query.orderBy?.length) {
+      const orderClause = query.orderBy
+        .map((order: any) => `${computed[order.field] ?? order.field} ${order.direction.toUpperCase()}`)
+        .join(', ');
+      sql += ` ORDER BY ${orderClause}`;
+    } else if (query.search) {
+      sql += ' ORDER BY search_rank';
+    }
+
+    // Handle pagination (one extra row tells whether another page follows)
+    const take = query.pagination ? query.pagination.take || 50 : undefined;
+    if (take !== undefined) {
+      sql += ` LIMIT ${take + 1}`;
+      if (query.pagination.skip) {
+        sql += ` OFFSET ${query.pagination.skip}`;
+      }
+    }
+
+    return {
+      sql,
+      params: pageParams,
+      countSql: `SELECT COUNT(*) as count FROM ${source}${whereSQL}`,
+      countParams: params,
+      take,
+      hiddenKeys: [...joinKeys, ...orderKeys]
+    };
+  }
+
+  /**
+   * Build the SELECT ... GROUP BY and COUNT statements for an aggregate query
+   */
+  private buildAggregateStatement(entityName: string, query: any): ISelectStatement {
+    const apply: IQueryApply = query.apply;
+    const groupBy = apply.groupBy ?? [];
+    const computed = this.buildComputedColumns(query.compute);
+    const columns = [
+      ...groupBy.map(field => computed[field] ? `${computed[field]} AS ${field}` : field),
+      ...Object.entries(apply.aggregate).map(([alias, expression]) => `${this.toSQLAggregate(expression, computed)} AS ${alias}`)
+    ];
+
+    const params: any[] = [];
+    let groupedSQL = `SELECT ${columns.join(', ') || '*'} FROM ${this.buildSource(entityName, query, params)}`;
+    if (query.filter) {
+      groupedSQL += ` WHERE ${this.convertODataFilterToSQL(query.filter, params, computed, entityName)}`;
+    }
+    if (groupBy.length > 0) {
+      groupedSQL += ` GROUP BY ${groupBy.map(field => computed[field] ?? field).join(', ')}`;
+    }
+
+    let sql = groupedSQL;
+    if (query.orderBy?.length) {
+      const orderClause = query.orderBy
+        .map((order: any) => `${order.field} ${order.direction.toUpperCase()}`)
+        .join(', ');
+      sql += ` ORDER BY ${orderClause}`;
+    }
+    if (query.pagination) {
+      sql += ` LIMIT ${query.pagination.take || 50}`;
+      if (query.pagination.skip) {
+        sql += ` OFFSET ${query.pagination.skip}`;
+      }
+    }
+
+    return {
+      sql,
+      params,
+      countSql: `SELECT COUNT(*) as count FROM (${groupedSQL})`,
+      countParams: params,
+      take: undefined,
+      hiddenKeys: []
+    };
+  }
+
+  private toSQLAggregate(expression: IAggregateExpression, computed: Record<string, string>): string {
+    const column = expression.field ? computed[expression.field] ?? expression.field : '';
+    switch (expression.fn) {
+      case 'count':
+        return 'COUNT(*)';
+      case 'countDistinct':
+        return `COUNT(DISTINCT ${column})`;
+      default:
+        return `${expression.fn.toUpperCase()}(${column})`;
+    }
+  }
+
+  /**
+   * Stream query rows through better-sqlite3's iterate(), holding one row in memory at a time.
+   * The connection stays busy until iteration ends, so run other statements after the loop.
+   */
+  async *streamQuery<T = Record<string, unknown>>(
+    entityName: string,
+    query: any
+  ): AsyncGenerator<T> {
+    let rows: IterableIterator<unknown>;
+    const orderBy: IQueryOrder[] = query.orderBy ?? [];
+    const after = query.pagination?.cursor ? decodePageToken(query.pagination.cursor, orderBy) : undefined;
+    if (after === null) {
+      throw createInvalidPageTokenError();
+    }
+    try {
+      if (query.expand?.length) {
+        throw new Error('Expansions cannot be streamed; page through executeQuery instead');
+      }
+      this.totalQueries++;
+
+      const params: any[] = [];
+      const source = this.buildSource(entityName, query, params);
+      const computed = this.buildComputedColumns(query.compute);
+      let sql = `SELECT ${this.buildColumns(entityName, query, computed)} FROM ${source}`;
+
+      // Like a page, a stream after a page token starts right after the row the token was issued for
+      const conditions = [
+        ...(query.filter ? [this.convertODataFilterToSQL(query.filter, params, computed, entityName)] : []),
+        ...(after ? [this.convertODataFilterToSQL(buildKeysetFilter(orderBy, after), params, computed)] : [])
+      ];
+      if (conditions.length > 0) {
+        sql += ` WHERE ${conditions.join(' AND ')}`;
+      }
+
+      if (query.orderBy?.length) {
+        const orderClause = query.orderBy
+          .map((order: any) => `${computed[order.field] ?? order.field} ${order.direction.toUpperCase()}`)
+          .join(', ');
+        sql += ` ORDER BY ${orderClause}`;
+      } else if (query.search) {
+        sql += ' ORDER BY search_rank';
+      }
+
+      // Streams are unbounded unless the query asks for a page
+      if (query.pagination?.take !== undefined || query.pagination?.skip) {
+        sql += ` LIMIT ${query.pagination.take ?? -1}`;
+        if (query.pagination.skip) {
+          sql += ` OFFSET ${query.pagination.skip}`;
+        }
+      }
+
+      rows = this.database.prepare(sql).iterate(...params);
+    } catch (error) {
+      throw this.createStreamError(error);
+    }
+
+    // Leaving the loop early (break, return or a throw in the consumer) closes the iterator, which resets the statement
+    for (const row of rows) {
+      yield row as T;
+    }
+  }
+
+  async explainQuery(entityName: string, query: any, options: IExplainOptions = {}): Promise<IExplainResult> {
+    try {
+      const statement = query.apply ? this.buildAggregateStatement(entityName, query) : this.buildSelectStatement(entityName, query);
+      if (!statement) {
+        return { success: false, provider: this.getName(), errors: [createInvalidPageTokenError()] };
+      }
+      const native: INativeQuery = {
+        sql: statement.sql,
+        params: statement.params,
+        countSql: statement.countSql,
+        countParams: statement.countParams
+      };
+      if (!options.plan) {
+        return { success: true, provider: this.getName(), native };
+      }
+
+      // SCAN steps read a whole table; those using an index (e.g. SCAN users USING INDEX ...) don't count
+      const plan: IQueryPlanStep[] = this.database
+        .prepare(`EXPLAIN QUERY PLAN ${statement.sql}`)
+        .all(...statement.params)
+        .map((row: any) => ({ id: row.id, parent: row.parent, detail: row.detail }));
+      const fullScans = [...new Set(plan
+        .map(step => /^SCAN (?:TABLE )?(\w+)(?: AS \w+)?$/.exec(step.detail)?.[1])
+        .filter((table): table is string => table !== undefined))];
+
+      return { success: true, provider: this.getName(), native, plan, fullScans };
+    } catch (error) {
+      return {
+        success: false,
+        provider: this.getName(),
+        errors: [{
+          code: 'EXPLAIN_FAILED',
+          message: `Query could not be explained: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+  }
+
   async getEntityMetadata(entityName: string): Promise<IEntityMetadataResult> {
     try {
       const tableInfo = this.database.prepare(`
@@ -370,32 +687,34 @@ export class SQLiteProvider implements ISQLiteProvider {
 
   async create<T = Record<string, unknown>>(
     entityName: string,
-    data: Partial<T>
+    data: Partial<T>,
+    options: ICreateOptions = {}
   ): Promise<ICreateResult<T>> {
     try {
       this.totalQueries++;
       const startTime = Date.now();
 
-      const columns = Object.keys(data);
-      const placeholders = columns.map(() => '?').join(', ');
-      const values = Object.values(data).map(value => {
-        // Convert Date objects to ISO strings
-        if (value instanceof Date) {
-          return value.toISOString();
+      const record: Record<string, unknown> = { ...data };
+      for (const { field, sequence, start } of options.sequences ?? []) {
+        // An INTEGER PRIMARY KEY is numbered by SQLite itself
+        if (record[field] === undefined && !this.isRowIdColumn(entityName, field)) {
+          record[field] = await this.nextSequenceValue(sequence, start);
         }
-        // Convert booleans to integers
-        if (typeof value === 'boolean') {
-          return value ? 1 : 0;
-        }
-        return value;
-      });
+      }
 
-      const sql = `INSERT INTO ${entityName} (${columns.join(', ')}) VALUES (${placeholders})`;
+      const columns = Object.keys(record);
+      const placeholders = columns.map(() => '?').join(', ');
+      const values = Object.values(record).map(value => this.toSQLiteValue(value));
+
+      const sql = columns.length > 0
+        ? `INSERT INTO ${entityName} (${columns.join(', ')}) VALUES (${placeholders})`
+        : `INSERT INTO ${entityName} DEFAULT VALUES`;
       const stmt = this.database.prepare(sql);
       const result = stmt.run(...values);
 
       // Get the inserted record
       const insertedRecord = this.database.prepare(`SELECT * FROM ${entityName} WHERE rowid = ?`).get(result.lastInsertRowid);
+      const keyColumn = this.getKeyColumn(entityName);
 
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
@@ -403,7 +722,7 @@ export class SQLiteProvider implements ISQLiteProvider {
       return {
         data: insertedRecord as T,
         success: true,
-        id: result.lastInsertRowid,
+        id: keyColumn === 'rowid' ? result.lastInsertRowid : insertedRecord?.[keyColumn],
         metadata: {
           executionTime,
           created: true
@@ -435,7 +754,7 @@ export class SQLiteProvider implements ISQLiteProvider {
       const params: any[] = [];
 
       if (query?.filter) {
-        const whereClause = this.convertODataFilterToSQL(query.filter, params);
+        const whereClause = this.convertODataFilterToSQL(query.filter, params, {}, entityName);
         sql += ` WHERE ${whereClause}`;
       }
 
@@ -472,35 +791,40 @@ export class SQLiteProvider implements ISQLiteProvider {
   async update<T = Record<string, unknown>>(
     entityName: string,
     id: any,
-    data: Partial<T>
+    data: Partial<T>,
+    options: IWriteOptions = {}
   ): Promise<IUpdateResult<T>> {
     try {
       this.totalQueries++;
       const startTime = Date.now();
 
+      const keyColumn = this.getKeyColumn(entityName);
       const columns = Object.keys(data);
       const setClause = columns.map(col => `${col} = ?`).join(', ');
-      const values = [
-        ...Object.values(data).map(value => {
-          // Convert Date objects to ISO strings
-          if (value instanceof Date) {
-            return value.toISOString();
-          }
-          // Convert booleans to integers
-          if (typeof value === 'boolean') {
-            return value ? 1 : 0;
-          }
-          return value;
-        }), 
-        id
-      ];
+      const values = [...Object.values(data).map(value => this.toSQLiteValue(value)), this.toSQLiteValue(id)];
 
-      const sql = `UPDATE ${entityName} SET ${setClause} WHERE rowid = ?`;
+      let sql = `UPDATE ${entityName} SET ${setClause} WHERE ${keyColumn} = ?`;
+      if (options.concurrency) {
+        sql += ` AND ${options.concurrency.field} = ?`;
+        values.push(this.toSQLiteValue(options.concurrency.expected));
+      }
       const stmt = this.database.prepare(sql);
       const result = stmt.run(...values);
 
-      // Get the updated record
-      const updatedRecord = this.database.prepare(`SELECT * FROM ${entityName} WHERE rowid = ?`).get(id);
+      if (result.changes === 0) {
+        const conflict = options.concurrency && await this.exists(entityName, id);
+        return {
+          success: false,
+          errors: [conflict
+            ? this.createConcurrencyConflictError(entityName, id, options.concurrency!.field)
+            : this.createNotFoundError(entityName, keyColumn, id)],
+          metadata: { executionTime: Date.now() - startTime, updated: false, affectedCount: 0 }
+        };
+      }
+
+      // Get the updated record, by its new key when the update changed it
+      const key = columns.includes(keyColumn) ? (data as Record<string, unknown>)[keyColumn] : id;
+      const updatedRecord = this.database.prepare(`SELECT * FROM ${entityName} WHERE ${keyColumn} = ?`).get(this.toSQLiteValue(key));
 
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
@@ -528,14 +852,31 @@ export class SQLiteProvider implements ISQLiteProvider {
     }
   }
 
-  async delete(entityName: string, id: any): Promise<IDeleteResult> {
+  async delete(entityName: string, id: any, options: IWriteOptions = {}): Promise<IDeleteResult> {
     try {
       this.totalQueries++;
       const startTime = Date.now();
 
-      const sql = `DELETE FROM ${entityName} WHERE rowid = ?`;
+      const keyColumn = this.getKeyColumn(entityName);
+      let sql = `DELETE FROM ${entityName} WHERE ${keyColumn} = ?`;
+      const values = [this.toSQLiteValue(id)];
+      if (options.concurrency) {
+        sql += ` AND ${options.concurrency.field} = ?`;
+        values.push(this.toSQLiteValue(options.concurrency.expected));
+      }
       const stmt = this.database.prepare(sql);
-      const result = stmt.run(id);
+      const result = stmt.run(...values);
+
+      if (result.changes === 0) {
+        const conflict = options.concurrency && await this.exists(entityName, id);
+        return {
+          success: false,
+          errors: [conflict
+            ? this.createConcurrencyConflictError(entityName, id, options.concurrency!.field)
+            : this.createNotFoundError(entityName, keyColumn, id)],
+          metadata: { executionTime: Date.now() - startTime, deleted: false, affectedCount: 0 }
+        };
+      }
 
       const executionTime = Date.now() - startTime;
       this.queryTimes.push(executionTime);
@@ -562,15 +903,285 @@ export class SQLiteProvider implements ISQLiteProvider {
     }
   }
 
+  /**
+   * Insert rows in one transaction, reusing one prepared statement per column set.
+   * A failing row rolls the whole batch back and is reported by its position.
+   * A savepoint keeps this working inside a transaction the caller already began.
+   */
+  async createMany<T = Record<string, unknown>>(
+    entityName: string,
+    rows: Partial<T>[],
+    options: ICreateOptions = {}
+  ): Promise<IBulkResult<T>> {
+    this.totalQueries++;
+    const startTime = Date.now();
+    const statements = new Map<string, any>();
+    const selectInserted = this.database.prepare(`SELECT * FROM ${entityName} WHERE rowid = ?`);
+    const keyColumn = this.getKeyColumn(entityName);
+    const data: T[] = [];
+    const ids: unknown[] = [];
+    let index = 0;
+
+    try {
+      this.database.prepare('SAVEPOINT create_many').run();
+      for (; index < rows.length; index++) {
+        const record: Record<string, unknown> = { ...rows[index] };
+        for (const { field, sequence, start } of options.sequences ?? []) {
+          // An INTEGER PRIMARY KEY is numbered by SQLite itself
+          if (record[field] === undefined && !this.isRowIdColumn(entityName, field)) {
+            record[field] = await this.nextSequenceValue(sequence, start);
+          }
+        }
+
+        const columns = Object.keys(record);
+        const signature = columns.join(',');
+        let stmt = statements.get(signature);
+        if (!stmt) {
+          stmt = this.database.prepare(columns.length > 0
+            ? `INSERT INTO ${entityName} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+            : `INSERT INTO ${entityName} DEFAULT VALUES`);
+          statements.set(signature, stmt);
+        }
+        const result = stmt.run(...Object.values(record).map(value => this.toSQLiteValue(value)));
+        const inserted = selectInserted.get(result.lastInsertRowid);
+        ids.push(keyColumn === 'rowid' ? result.lastInsertRowid : inserted?.[keyColumn]);
+        data.push(inserted as T);
+      }
+      this.database.prepare('RELEASE create_many').run();
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+      return { success: true, data, ids, metadata: { executionTime, affectedCount: rows.length } };
+    } catch (error) {
+      if (this.database.inTransaction) {
+        this.database.prepare('ROLLBACK TO create_many').run();
+        this.database.prepare('RELEASE create_many').run();
+      }
+      return {
+        success: false,
+        rowErrors: [{
+          index,
+          errors: [{
+            code: 'CREATE_FAILED',
+            message: `Failed to create row ${index}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            details: error instanceof Error ? { stack: error.stack } : {},
+            severity: 'error',
+            actionable: true
+          }]
+        }],
+        metadata: { executionTime: Date.now() - startTime, affectedCount: 0 }
+      };
+    }
+  }
+
+  /**
+   * Update every row matching the filter with one UPDATE statement
+   */
+  async updateWhere<T = Record<string, unknown>>(
+    entityName: string,
+    query: any,
+    patch: Partial<T>,
+    options: IBulkWriteOptions = {}
+  ): Promise<IBulkResult<T>> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+
+      const params: any[] = Object.values(patch).map(value => this.toSQLiteValue(value));
+      const assignments = [
+        ...Object.keys(patch).map(column => `${column} = ?`),
+        ...(options.increment ?? []).map(column => `${column} = COALESCE(${column}, 0) + 1`)
+      ];
+      const where = this.convertODataFilterToSQL(query.filter, params, this.buildComputedColumns(query.compute), entityName);
+      const result = this.database.prepare(`UPDATE ${entityName} SET ${assignments.join(', ')} WHERE ${where}`).run(...params);
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+      return { success: true, metadata: { executionTime, affectedCount: result.changes } };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'UPDATE_FAILED',
+          message: `Failed to update records: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }],
+        metadata: { executionTime: 0, affectedCount: 0 }
+      };
+    }
+  }
+
+  /**
+   * Delete every row matching the filter with one DELETE statement
+   */
+  async deleteWhere(entityName: string, query: any): Promise<IBulkResult> {
+    try {
+      this.totalQueries++;
+      const startTime = Date.now();
+
+      const params: any[] = [];
+      const where = this.convertODataFilterToSQL(query.filter, params, this.buildComputedColumns(query.compute), entityName);
+      const result = this.database.prepare(`DELETE FROM ${entityName} WHERE ${where}`).run(...params);
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+      return { success: true, metadata: { executionTime, affectedCount: result.changes } };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'DELETE_FAILED',
+          message: `Failed to delete records: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }],
+        metadata: { executionTime: 0, affectedCount: 0 }
+      };
+    }
+  }
+
+  /**
+   * Insert a row or update the row whose conflict keys match, with INSERT ... ON CONFLICT DO UPDATE.
+   * The row is looked up in the same savepoint first, which tells whether it was created and whether sequences are needed.
+   */
+  async upsert<T = Record<string, unknown>>(
+    entityName: string,
+    data: Partial<T>,
+    options: IUpsertOptions
+  ): Promise<IUpsertResult<T>> {
+    this.totalQueries++;
+    const startTime = Date.now();
+    const { conflictKeys } = options;
+
+    try {
+      this.database.prepare('SAVEPOINT upsert').run();
+      const record: Record<string, unknown> = { ...data };
+      const existing = this.database.prepare(
+        `SELECT rowid FROM ${entityName} WHERE ${conflictKeys.map(key => `${key} = ?`).join(' AND ')}`
+      ).get(...conflictKeys.map(key => this.toSQLiteValue(record[key])));
+      if (!existing) {
+        for (const { field, sequence, start } of options.sequences ?? []) {
+          if (record[field] === undefined && !this.isRowIdColumn(entityName, field)) {
+            record[field] = await this.nextSequenceValue(sequence, start);
+          }
+        }
+      }
+
+      const columns = Object.keys(record);
+      const assignments = [
+        ...(options.update ?? columns.filter(column => !conflictKeys.includes(column)))
+          .filter(column => columns.includes(column))
+          .map(column => `${column} = excluded.${column}`),
+        ...(options.increment ?? []).map(column => `${column} = COALESCE(${column}, 0) + 1`)
+      ];
+      const returned = this.database.prepare(
+        `INSERT INTO ${entityName} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')}) ` +
+        `ON CONFLICT (${conflictKeys.join(', ')}) ${assignments.length > 0 ? `DO UPDATE SET ${assignments.join(', ')}` : 'DO NOTHING'} RETURNING rowid`
+      ).get(...Object.values(record).map(value => this.toSQLiteValue(value)));
+      const rowid = returned?.rowid ?? existing?.rowid;
+      const stored = this.database.prepare(`SELECT * FROM ${entityName} WHERE rowid = ?`).get(rowid);
+      const keyColumn = this.getKeyColumn(entityName);
+      this.database.prepare('RELEASE upsert').run();
+
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+      return {
+        data: stored as T,
+        success: true,
+        id: keyColumn === 'rowid' ? rowid : stored?.[keyColumn],
+        metadata: { executionTime, created: !existing, updated: Boolean(existing) }
+      };
+    } catch (error) {
+      if (this.database.inTransaction) {
+        this.database.prepare('ROLLBACK TO upsert').run();
+        this.database.prepare('RELEASE upsert').run();
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        success: false,
+        errors: [{
+          code: 'UPSERT_FAILED',
+          message: `Failed to upsert record: ${message}`,
+          ...(message.includes('ON CONFLICT clause does not match')
+            ? { suggestion: `Add a primary key or unique index on (${conflictKeys.join(', ')}) to ${entityName}` }
+            : {}),
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }]
+      };
+    }
+  }
+
   async exists(entityName: string, id: any): Promise<boolean> {
     try {
-      const result = this.database.prepare(`SELECT 1 FROM ${entityName} WHERE rowid = ?`).get(id);
+      const result = this.database.prepare(`SELECT 1 FROM ${entityName} WHERE ${this.getKeyColumn(entityName)} = ?`).get(this.toSQLiteValue(id));
       return result !== undefined;
     } catch (error) {
       return false;
     }
   }
 
+  /**
+   * Change the rows of a many-to-many relation's join table in one transaction.
+   * Links stored as id arrays on the record are not supported, the arrays are JSON text here.
+   */
+  async updateLinks(entityName: string, change: ILinkChange): Promise<ILinkResult> {
+    const startTime = Date.now();
+    const { entity, sourceKey, targetKey } = change.through;
+    if (!entity || !sourceKey || !targetKey) {
+      return {
+        success: false,
+        errors: [{
+          code: 'LINKS_NOT_SUPPORTED',
+          message: `Relation '${change.relation}' of '${entityName}' needs a join table: SQLite stores arrays as JSON text`,
+          suggestion: 'Declare through: { entity, sourceKey, targetKey } with a join table holding one row per link',
+          severity: 'error',
+          actionable: true
+        }],
+        metadata: { attached: 0, detached: 0, executionTime: 0 }
+      };
+    }
+
+    try {
+      this.totalQueries++;
+      const targets = (change.targetValues ?? []).map(value => this.toSQLiteValue(value));
+      const apply = this.database.transaction(() => {
+        const linked = this.database
+          .prepare(`SELECT ${targetKey} AS target FROM ${entity} WHERE ${sourceKey} = ?`)
+          .all(change.sourceValue)
+          .map((row: any) => row.target);
+        const { added, removed } = diffLinks(linked, { ...change, ...(change.targetValues ? { targetValues: targets } : {}) });
+
+        const remove = this.database.prepare(`DELETE FROM ${entity} WHERE ${sourceKey} = ? AND ${targetKey} = ?`);
+        removed.forEach(value => remove.run(change.sourceValue, value));
+        const insert = this.database.prepare(`INSERT INTO ${entity} (${sourceKey}, ${targetKey}) VALUES (?, ?)`);
+        added.forEach(value => insert.run(change.sourceValue, value));
+        return { attached: added.length, detached: removed.length };
+      });
+
+      const counts = apply();
+      const executionTime = Date.now() - startTime;
+      this.queryTimes.push(executionTime);
+      return { success: true, metadata: { ...counts, executionTime } };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          code: 'LINK_UPDATE_FAILED',
+          message: `Failed to update links of '${change.relation}': ${error instanceof Error ? error.message : 'Unknown error'}`,
+          details: error instanceof Error ? { stack: error.stack } : {},
+          severity: 'error',
+          actionable: true
+        }],
+        metadata: { attached: 0, detached: 0, executionTime: Date.now() - startTime }
+      };
+    }
+  }
+
   getDatabase(): any {
     return this.database;
   }
@@ -615,28 +1226,21 @@ export class SQLiteProvider implements ISQLiteProvider {
         const sqliteType = this.mapODataTypeToSQLite(field.type);
         let columnDef = `${name} ${sqliteType}`;
         
-        if (field.primaryKey) {
-          columnDef += ' PRIMARY KEY';
-          if (field.autoIncrement) {
-            columnDef += ' AUTOINCREMENT';
-          }
+        if (field.primaryKey || field.primary) {
+          // AUTOINCREMENT needs an INTEGER PRIMARY KEY, which never reuses the ids of deleted rows
+          columnDef = field.autoIncrement ? `${name} INTEGER PRIMARY KEY AUTOINCREMENT` : `${columnDef} PRIMARY KEY`;
         } else if (field.autoIncrement) {
-          // For non-primary auto-increment fields, use INTEGER PRIMARY KEY
-          columnDef = `${name} INTEGER PRIMARY KEY AUTOINCREMENT`;
+          // Other auto-increment fields are numbered from a sequence by create()
+          columnDef = `${name} INTEGER`;
         }
         
-        if (!field.nullable) {
+        if (!field.nullable && !field.autoIncrement) {
           columnDef += ' NOT NULL';
         }
         
-        if (field.defaultValue !== undefined) {
-          if (typeof field.defaultValue === 'function') {
-            // Skip function defaults for now
-          } else if (typeof field.defaultValue === 'string') {
-            columnDef += ` DEFAULT '${field.defaultValue}'`;
-          } else {
-            columnDef += ` DEFAULT ${field.defaultValue}`;
-          }
+        const defaultSQL = this.toSQLDefault(field.defaultValue);
+        if (defaultSQL) {
+          columnDef += ` DEFAULT ${defaultSQL}`;
         }
         
         return columnDef;
@@ -647,6 +1251,53 @@ export class SQLiteProvider implements ISQLiteProvider {
     } catch (error) {
       throw new Error(`Failed to create table: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    const searchFields = this.getSearchFields(schema);
+    if (searchFields.length > 0) {
+      await this.createSearchIndex(tableName, searchFields);
+    }
+  }
+
+  /**
+   * Next value of a named sequence, starting at start (default 1).
+   * Sequences live in the _sequences table and never hand out a value twice.
+   */
+  async nextSequenceValue(name: string, start = 1): Promise<number> {
+    this.database.prepare('CREATE TABLE IF NOT EXISTS _sequences (name TEXT PRIMARY KEY, value INTEGER NOT NULL)').run();
+    const row = this.database.prepare(
+      'INSERT INTO _sequences (name, value) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET value = value + 1 RETURNING value'
+    ).get(name, start);
+    return row.value;
+  }
+
+  /**
+   * Create an FTS5 index over text columns of a table, kept in sync with it by triggers.
+   * Rows that already exist are indexed right away.
+   */
+  async createSearchIndex(tableName: string, fields: string[]): Promise<void> {
+    try {
+      const ftsTable = `${tableName}_fts`;
+      const columns = fields.join(', ');
+      const newValues = fields.map(field => `new.${field}`).join(', ');
+      const oldValues = fields.map(field => `old.${field}`).join(', ');
+
+      this.database.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS ${ftsTable} USING fts5(${columns}, content='${tableName}', content_rowid='rowid');
+        CREATE TRIGGER IF NOT EXISTS ${ftsTable}_insert AFTER INSERT ON ${tableName} BEGIN
+          INSERT INTO ${ftsTable}(rowid, ${columns}) VALUES (new.rowid, ${newValues});
+        END;
+        CREATE TRIGGER IF NOT EXISTS ${ftsTable}_delete AFTER DELETE ON ${tableName} BEGIN
+          INSERT INTO ${ftsTable}(${ftsTable}, rowid, ${columns}) VALUES ('delete', old.rowid, ${oldValues});
+        END;
+        CREATE TRIGGER IF NOT EXISTS ${ftsTable}_update AFTER UPDATE ON ${tableName} BEGIN
+          INSERT INTO ${ftsTable}(${ftsTable}, rowid, ${columns}) VALUES ('delete', old.rowid, ${oldValues});
+          INSERT INTO ${ftsTable}(rowid, ${columns}) VALUES (new.rowid, ${newValues});
+        END;
+        INSERT INTO ${ftsTable}(${ftsTable}) VALUES ('rebuild');
+      `);
+    } catch (error) {
+      throw new Error(`Failed to create search index: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   async dropTable(tableName: string): Promise<void> {
@@ -753,30 +1404,403 @@ export class SQLiteProvider implements ISQLiteProvider {
   }
 
   // Private helper methods
-  private convertODataFilterToSQL(filter: any, params: any[]): string {
+  private toSQLiteValue(value: unknown): unknown {
+    // Convert Date objects to ISO strings
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    // Convert booleans to integers
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    // Arrays and plain objects are stored as JSON text
+    if (Array.isArray(value) || (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype)) {
+      return JSON.stringify(value);
+    }
+    return value;
+  }
+
+  /**
+   * Native column default for a defaultValue; generators SQLite can't express (cuid, sequences, functions) have none
+   */
+  private toSQLDefault(defaultValue: unknown): string | undefined {
+    if (defaultValue === undefined || typeof defaultValue === 'function') {
+      return undefined;
+    }
+    if (defaultValue !== null && typeof defaultValue === 'object' && 'generator' in defaultValue) {
+      switch ((defaultValue as { generator: string }).generator) {
+        case 'now':
+          return `(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+        case 'uuid':
+          // Random version 4 UUID
+          return "(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || " +
+            "substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || " +
+            "substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))))";
+        default:
+          return undefined;
+      }
+    }
+
+    const isJSON = defaultValue !== null && typeof defaultValue === 'object' && !(defaultValue instanceof Date);
+    return this.toSQLLiteral(isJSON ? JSON.stringify(defaultValue) : defaultValue);
+  }
+
+  /**
+   * The column records are addressed by: the table's single-column primary key, or rowid for tables without one
+   */
+  private getKeyColumn(tableName: string): string {
+    const keys = this.database.prepare(`PRAGMA table_info(${tableName})`).all().filter((info: any) => info.pk > 0);
+    return keys.length === 1 ? keys[0].name : 'rowid';
+  }
+
+  /**
+   * Whether a column is the table's INTEGER PRIMARY KEY, the alias SQLite numbers on insert
+   */
+  private isRowIdColumn(tableName: string, column: string): boolean {
+    const keys = this.database.prepare(`PRAGMA table_info(${tableName})`).all().filter((info: any) => info.pk > 0);
+    return keys.length === 1 && keys[0].name === column && String(keys[0].type).toUpperCase() === 'INTEGER';
+  }
+
+  private createStreamError(error: unknown): IUserFriendlyError {
+    return {
+      code: 'STREAM_FAILED',
+      message: `Streaming query failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      details: error instanceof Error ? { stack: error.stack } : {},
+      severity: 'error',
+      actionable: true
+    };
+  }
+
+  private createNotFoundError(entityName: string, keyColumn: string, id: any): IUserFriendlyError {
+    return {
+      code: 'RECORD_NOT_FOUND',
+      message: `${entityName} with ${keyColumn} '${id}' was not found`,
+      suggestion: 'Check the id, or create the record first',
+      severity: 'error',
+      actionable: true
+    };
+  }
+
+  private createConcurrencyConflictError(entityName: string, id: any, field: string): IUserFriendlyError {
+    return {
+      code: 'CONCURRENCY_CONFLICT',
+      message: `${entityName} '${id}' was changed by someone else (${field} no longer matches)`,
+      suggestion: 'Reload the record and apply your changes again',
+      severity: 'error',
+      actionable: true,
+      field
+    };
+  }
+
+  private getMissingJoinKeys(query: any): string[] {
+    if (!query.select?.fields || !query.expand?.length) {
+      return [];
+    }
+    const keys = query.expand
+      .map((expand: any) => expand.sourceField)
+      .filter((field: string | undefined) => field && !query.select.fields.includes(field));
+    return [...new Set<string>(keys)];
+  }
+
+  /**
+   * Fields covered by 'fulltext' indexes, falling back to astro.searchable fields
+   */
+  private getSearchFields(schema: any): string[] {
+    const indexed = (schema.indexes ?? [])
+      .filter((index: any) => index.type === 'fulltext')
+      .flatMap((index: any) => index.fields ?? index.columns ?? []);
+    if (indexed.length > 0) {
+      return [...new Set<string>(indexed)];
+    }
+    return Object.entries(schema.fields)
+      .filter(([, field]: [string, any]) => field.astro?.searchable)
+      .map(([name]) => name);
+  }
+
+  /**
+   * The FROM source of a query; full-text searches join the matching FTS rows and their rank
+   */
+  private buildSource(entityName: string, query: any, params: any[]): string {
+    if (!query.search) {
+      return entityName;
+    }
+
+    const ftsTable = `${entityName}_fts`;
+    const indexed = this.database
+      .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`)
+      .get(ftsTable);
+    if (!indexed) {
+      throw new Error(`'${entityName}' has no full-text index; declare a 'fulltext' index or astro.searchable fields, or call createSearchIndex()`);
+    }
+
+    params.push(this.toFTSQuery(query.search, query.searchFields));
+    return `${entityName} JOIN (SELECT rowid AS search_rowid, rank AS search_rank FROM ${ftsTable} WHERE ${ftsTable} MATCH ?) ` +
+      `ON search_rowid = ${entityName}.rowid`;
+  }
+
+  /**
+   * SELECT list: the selected fields (or every column) plus extra keys, with computed fields as expressions
+   */
+  private buildColumns(entityName: string, query: any, computed: Record<string, string>, extraKeys: string[] = []): string {
+    if (!query.select?.fields) {
+      const computedColumns = Object.entries(computed).map(([name, sql]) => `${sql} AS ${name}`);
+      return [`${entityName}.*`, ...computedColumns].join(', ');
+    }
+    return [...query.select.fields, ...extraKeys]
+      .map((field: string) => computed[field] ? `${computed[field]} AS ${field}` : field)
+      .join(', ');
+  }
+
+  /**
+   * Compile computed fields to SQL expressions; a computed field may use the ones before it
+   */
+  private buildComputedColumns(compute: IQueryCompute[] = []): Record<string, string> {
+    const computed: Record<string, string> = {};
+    for (const field of compute) {
+      computed[field.name] = this.compileExpression(field.expression, computed);
+    }
+    return computed;
+  }
+
+  /**
+   * Compile an expression tree to SQL. Literals are inlined as quoted SQL literals,
+   * so the result can appear anywhere in a statement without disturbing parameter order.
+   */
+  private compileExpression(node: IExpressionNode, computed: Record<string, string>): string {
+    switch (node.kind) {
+      case 'literal':
+        return this.toSQLLiteral(node.value);
+      case 'field':
+        return computed[node.name] ?? node.name;
+      case 'unary': {
+        const operand = this.compileExpression(node.operand, computed);
+        return node.operator === 'not' ? `(NOT ${operand})` : `(-${operand})`;
+      }
+      case 'binary': {
+        const left = this.compileExpression(node.left, computed);
+        const right = this.compileExpression(node.right, computed);
+        // Integer operands would otherwise divide without a fraction
+        return node.operator === 'div'
+          ? `(CAST(${left} AS REAL) / ${right})`
+          : `(${left} ${SQL_OPERATORS[node.operator]} ${right})`;
+      }
+      case 'call':
+        return this.compileFunction(node.name, node.args.map(arg => this.compileExpression(arg, computed)));
+      case 'list':
+        return `(${node.items.map(item => this.compileExpression(item, computed)).join(', ')})`;
+    }
+  }
+
+  private compileFunction(name: string, args: string[]): string {
+    const [first = 'NULL', second = 'NULL', third] = args;
+    const datePart: Record<string, string> = { year: '%Y', month: '%m', day: '%d', hour: '%H', minute: '%M', second: '%S' };
+    if (datePart[name]) {
+      return `CAST(strftime('${datePart[name]}', ${first}) AS INTEGER)`;
+    }
+
+    switch (name) {
+      case 'concat':
+        return `(${first} || ${second})`;
+      case 'contains':
+        return `(instr(${first}, ${second}) > 0)`;
+      case 'startswith':
+        return `(substr(${first}, 1, length(${second})) = ${second})`;
+      case 'endswith':
+        return `(substr(${first}, length(${first}) - length(${second}) + 1) = ${second})`;
+      case 'length':
+        return `length(${first})`;
+      case 'indexof':
+        return `(instr(${first}, ${second}) - 1)`;
+      case 'substring':
+        return `substr(${first}, ${second} + 1${third !== undefined ? `, ${third}` : ''})`;
+      case 'tolower':
+        return `lower(${first})`;
+      case 'toupper':
+        return `upper(${first})`;
+      case 'trim':
+        return `trim(${first})`;
+      case 'now':
+        return `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+      case 'round':
+        return `round(${first})`;
+      // floor() and ceil() are only available when SQLite is built with its math functions
+      case 'floor':
+        return `(CAST(${first} AS INTEGER) - (${first} < CAST(${first} AS INTEGER)))`;
+      case 'ceiling':
+        return `(CAST(${first} AS INTEGER) + (${first} > CAST(${first} AS INTEGER)))`;
+      default:
+        throw new Error(`Function '${name}' is not supported in SQLite expressions`);
+    }
+  }
+
+  private toSQLLiteral(value: unknown): string {
+    const converted = this.toSQLiteValue(value);
+    if (converted === null || converted === undefined) {
+      return 'NULL';
+    }
+    if (typeof converted === 'number') {
+      return String(converted);
+    }
+    return `'${String(converted).replace(/'/g, "''")}'`;
+  }
+
+  /**
+   * Quote each word so user input can't use FTS5 query syntax, restricted to the given columns
+   */
+  private toFTSQuery(term: string, fields?: string[]): string {
+    const words = term.split(/\s+/).filter(Boolean).map(word => `"${word.replace(/"/g, '""')}"`).join(' ');
+    return fields?.length ? `{${fields.join(' ')}} : (${words})` : words;
+  }
+
+  /**
+   * Order keys missing from the selected fields, which page tokens still need
+   */
+  private getMissingOrderKeys(query: any, joinKeys: string[]): string[] {
+    if (!query.select?.fields || !query.pagination) {
+      return [];
+    }
+    return (query.orderBy ?? [])
+      .map((order: IQueryOrder) => order.field)
+      .filter((field: string) => !query.select.fields.includes(field) && !joinKeys.includes(field));
+  }
+
+  /**
+   * Resolves expansions with one batched lookup per relation instead of a query per row.
+   * Nested pagination is applied per parent row after grouping.
+   */
+  private async attachExpansions(rows: any[], expands: any[]): Promise<void> {
+    for (const expand of expands) {
+      const { relation, sourceField, targetField } = expand;
+      if (!sourceField || !targetField) {
+        throw new Error(`Expansion '${relation}' has no join fields`);
+      }
+
+      const nested = expand.nestedQuery || {};
+      let keys = [...new Set(rows.map(row => row[sourceField]).filter(key => key !== null && key !== undefined))];
+      let related: any[] = [];
+
+      // Many-to-many: source keys map to the target keys of their join rows
+      const links = expand.through?.entity ? this.readJoinRows(expand.through, keys) : undefined;
+      if (links) {
+        keys = [...new Set([...links.values()].flat())];
+      } else if (expand.through) {
+        throw new Error(`Expansion '${relation}' needs a join table: SQLite stores arrays as JSON text`);
+      }
+
+      if (keys.length > 0) {
+        const keyFilter = { field: targetField, operator: 'in', value: keys };
+        const selectsTargetField = !nested.select?.fields || nested.select.fields.includes(targetField);
+        const result = await this.executeQuery<any>(expand.targetEntity || relation, {
+          ...nested,
+          filter: nested.filter
+            ? { field: '', operator: 'eq', value: null, logicalOperator: 'and', children: [keyFilter, nested.filter] }
+            : keyFilter,
+          select: selectsTargetField ? nested.select : { ...nested.select, fields: [...nested.select.fields, targetField] },
+          pagination: undefined
+        });
+
+        if (!result.success) {
+          throw new Error(result.errors?.[0]?.message || `Failed to expand '${relation}'`);
+        }
+        related = result.data;
+      }
+
+      const groups = new Map<string, any[]>();
+      if (links) {
+        // Grouped by source key, keeping the nested order whichever join row reached the related row
+        for (const [key, targetKeys] of links) {
+          const linked = new Set(targetKeys.map(String));
+          groups.set(key, related.filter(item => linked.has(String(item[targetField]))));
+        }
+      } else {
+        for (const item of related) {
+          const key = String(item[targetField]);
+          groups.set(key, [...(groups.get(key) || []), item]);
+        }
+      }
+
+      // The join key was only fetched for grouping when the nested select left it out
+      if (nested.select?.fields && !nested.select.fields.includes(targetField)) {
+        related.forEach(item => delete item[targetField]);
+      }
+
+      const skip = nested.pagination?.skip || 0;
+      const take = nested.pagination?.take;
+      for (const row of rows) {
+        const group = (groups.get(String(row[sourceField])) || [])
+          .slice(skip, take !== undefined ? skip + take : undefined);
+        row[relation] = expand.single ? (group[0] ?? null) : group;
+      }
+    }
+  }
+
+  /**
+   * The target keys each source key links to through a join table
+   */
+  private readJoinRows(through: IRelationThrough, keys: unknown[]): Map<string, unknown[]> {
+    const links = new Map<string, unknown[]>();
+    if (keys.length === 0) {
+      return links;
+    }
+    const rows = this.database
+      .prepare(`SELECT ${through.sourceKey} AS source, ${through.targetKey} AS target FROM ${through.entity} WHERE ${through.sourceKey} IN (${keys.map(() => '?').join(', ')})`)
+      .all(...keys);
+    for (const row of rows) {
+      links.set(String(row.source), [...(links.get(String(row.source)) || []), row.target]);
+    }
+    return links;
+  }
+
+  private convertODataFilterToSQL(filter: any, params: any[], computed: Record<string, string> = {}, entityName?: string): string {
     if (!filter) return '1=1';
 
-    const { field, operator, value } = filter;
-    const paramIndex = params.length;
+    if (filter.not) {
+      return `NOT (${this.convertODataFilterToSQL({ ...filter, not: false }, params, computed, entityName)})`;
+    }
+
+    if (filter.children?.length) {
+      const joiner = filter.logicalOperator === 'or' ? ' OR ' : ' AND ';
+      return `(${filter.children.map((child: any) => this.convertODataFilterToSQL(child, params, computed, entityName)).join(joiner)})`;
+    }
+
+    if (filter.lambda) {
+      return this.convertLambdaToSQL(filter.field, filter.lambda, params, computed, entityName);
+    }
+
+    if (filter.expression) {
+      return this.compileExpression(filter.expression, computed);
+    }
+
+    const { operator, value } = filter;
+    // Computed fields are compared through their SQL expression
+    const field = computed[filter.field] ?? filter.field;
+
+    // '= NULL' never matches in SQL
+    if (value === null && (operator === 'eq' || operator === 'ne')) {
+      return `${field} ${operator === 'eq' ? 'IS NULL' : 'IS NOT NULL'}`;
+    }
 
+    // Dates and booleans are bound the way they are stored
+    const bound = this.toSQLiteValue(value);
+    const list = (Array.isArray(value) ? value : [value]).map(item => this.toSQLiteValue(item));
     switch (operator) {
       case 'eq':
-        params.push(value);
+        params.push(bound);
         return `${field} = ?`;
       case 'ne':
-        params.push(value);
+        params.push(bound);
         return `${field} != ?`;
       case 'gt':
-        params.push(value);
+        params.push(bound);
         return `${field} > ?`;
       case 'ge':
-        params.push(value);
+        params.push(bound);
         return `${field} >= ?`;
       case 'lt':
-        params.push(value);
+        params.push(bound);
         return `${field} < ?`;
       case 'le':
-        params.push(value);
+        params.push(bound);
         return `${field} <= ?`;
       case 'contains':
         params.push(`%${value}%`);
@@ -788,19 +1812,74 @@ export class SQLiteProvider implements ISQLiteProvider {
         params.push(`%${value}`);
         return `${field} LIKE ?`;
       case 'in':
-        const placeholders = Array.isArray(value) ? value.map(() => '?') : ['?'];
-        params.push(...(Array.isArray(value) ? value : [value]));
-        return `${field} IN (${placeholders.join(', ')})`;
+        params.push(...list);
+        return `${field} IN (${list.map(() => '?').join(', ')})`;
       case 'notin':
-        const notInPlaceholders = Array.isArray(value) ? value.map(() => '?') : ['?'];
-        params.push(...(Array.isArray(value) ? value : [value]));
-        return `${field} NOT IN (${notInPlaceholders.join(', ')})`;
+        params.push(...list);
+        return `${field} NOT IN (${list.map(() => '?').join(', ')})`;
       default:
-        params.push(value);
+        params.push(bound);
         return `${field} = ?`;
     }
   }
 
+  /**
+   * any/all as a correlated EXISTS subquery, over json_each() for JSON array columns
+   * and over the related table for relations. all() holds when no element fails the condition.
+   */
+  private convertLambdaToSQL(
+    field: string,
+    lambda: IQueryLambda,
+    params: any[],
+    computed: Record<string, string>,
+    entityName?: string
+  ): string {
+    const alias = lambda.variable;
+    // Outer columns are qualified, the related table may have columns of the same name
+    const outer = (column: string) => computed[column] ?? (entityName ? `${entityName}.${column}` : column);
+    const paths: Record<string, string> = {};
+    const conditions: string[] = [];
+
+    if (lambda.through && !lambda.through.entity) {
+      throw new Error(`Filter on '${field}' needs a join table: SQLite stores arrays as JSON text`);
+    }
+
+    let source: string;
+    if (lambda.through?.entity && lambda.targetEntity && lambda.sourceField && lambda.targetField) {
+      // Many-to-many: reach the related rows through the join table
+      const link = `${alias}_link`;
+      source = `${lambda.through.entity} AS ${link} JOIN ${lambda.targetEntity} AS ${alias} ON ${alias}.${lambda.targetField} = ${link}.${lambda.through.targetKey}`;
+      conditions.push(`${link}.${lambda.through.sourceKey} = ${outer(lambda.sourceField)}`);
+      getLambdaPaths(lambda.condition).forEach(path => {
+        paths[path] = `${alias}.${path.slice(alias.length + 1)}`;
+      });
+    } else if (lambda.targetEntity && lambda.sourceField && lambda.targetField) {
+      source = `${lambda.targetEntity} AS ${alias}`;
+      conditions.push(`${alias}.${lambda.targetField} = ${outer(lambda.sourceField)}`);
+      getLambdaPaths(lambda.condition).forEach(path => {
+        paths[path] = `${alias}.${path.slice(alias.length + 1)}`;
+      });
+    } else {
+      source = `json_each(${outer(field)}) AS ${alias}`;
+      getLambdaPaths(lambda.condition).forEach(path => {
+        paths[path] = path === alias
+          ? `${alias}.value`
+          : `json_extract(${alias}.value, ${this.toSQLLiteral(`$.${path.slice(alias.length + 1)}`)})`;
+      });
+    }
+
+    if (lambda.condition) {
+      const condition = this.convertODataFilterToSQL(lambda.condition, params, paths);
+      // A condition that is false or NULL for an element fails all()
+      conditions.push(lambda.operator === 'all' ? `(${condition}) IS NOT 1` : condition);
+    } else if (lambda.operator === 'all') {
+      return '1=1';
+    }
+
+    const exists = `EXISTS (SELECT 1 FROM ${source}${conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''})`;
+    return lambda.operator === 'all' ? `NOT ${exists}` : exists;
+  }
+
   private mapSQLiteTypeToOData(sqliteType: string): string {
     const type = sqliteType.toLowerCase();
     if (type.includes('int') || type.includes('integer')) return 'Int32';
@@ -1,7 +1,13 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { MongoDBProvider } from './providers/mongodb-provider';
 import { SQLiteProvider } from './providers/sqlite-provider';
 import { HTTPODataProvider } from './providers/http-odata-provider';
+import { parseExpression } from './expression';
+import { parseODataQuery } from './odata-query';
+import { any, all } from './lambda';
+import { uuid, now } from './defaults';
+import { runInTransaction } from './transaction';
+import { encodePageToken } from './providers/page-token';
 import type { IDataProvider } from 'odata-active-record-contracts';
 
 // Test entity
@@ -153,6 +159,167 @@ describe('Real Database Providers', () => {
 
       console.log('✅ MongoDB OData queries successful');
     });
+
+    it('should explain queries as find() arguments or pipelines without connecting', async () => {
+      const explained = await mongoProvider.explainQuery('test_users', {
+        filter: { field: 'age', operator: 'gt', value: 25 },
+        select: { fields: ['name', 'email'], exclude: false },
+        orderBy: [{ field: 'name', direction: 'asc' }],
+        pagination: { take: 10, skip: 5 }
+      });
+
+      expect(explained).toEqual({
+        success: true,
+        provider: 'MongoDB',
+        native: {
+          collection: 'test_users',
+          filter: { age: { $gt: 25 } },
+          projection: { name: 1, email: 1, _id: 0 },
+          sort: { name: 1 },
+          skip: 5,
+          limit: 11
+        }
+      });
+
+      // Relation lambdas need the related keys first, so they are listed as lookups instead of run
+      const over100 = any('items', i => i.field('price').gt(100));
+      const lookedUp = await mongoProvider.explainQuery('orders', {
+        filter: { ...over100, lambda: { ...over100.lambda!, targetEntity: 'order_items', sourceField: 'id', targetField: 'orderId' } },
+        apply: { groupBy: ['customer'], aggregate: { orders: { fn: 'count' } } }
+      });
+
+      expect(lookedUp.native).toEqual({
+        collection: 'orders',
+        lookups: [{ collection: 'order_items', distinct: 'orderId', filter: { price: { $gt: 100 } } }],
+        pipeline: [
+          { $match: { id: { $in: [{ $lookupKeys: 0 }] } } },
+          { $group: { _id: { customer: '$customer' }, orders: { $sum: 1 } } },
+          { $project: { _id: 0, customer: '$_id.customer', orders: 1 } }
+        ]
+      });
+      expect(mongoProvider.isConnected()).toBe(false);
+    });
+
+    it('should insert batches in a transaction and report partial writes on standalone servers', async () => {
+      const duplicate = Object.assign(new Error('E11000 duplicate key'), {
+        writeErrors: [{ index: 1, errmsg: 'E11000 duplicate key' }],
+        result: { insertedIds: { 0: 'a' } }
+      });
+      const session = { startTransaction: vi.fn(), commitTransaction: vi.fn(), abortTransaction: vi.fn(), endSession: vi.fn() };
+      const insertMany = vi.fn().mockRejectedValue(duplicate);
+      const serverWith = (hello: Record<string, unknown>) => Object.assign(new MongoDBProvider('mongodb://localhost:27017/test', 'test'), {
+        client: { startSession: () => session },
+        database: { admin: () => ({ command: async () => hello }), collection: () => ({ insertMany }) }
+      });
+
+      const rolledBack = await serverWith({ setName: 'rs0' }).createMany('items', [{ sku: 'a' }, { sku: 'a' }]);
+      expect(insertMany.mock.calls[0]?.[1]).toMatchObject({ ordered: true, session });
+      expect(session.abortTransaction).toHaveBeenCalled();
+      expect(rolledBack).toMatchObject({ success: false, rowErrors: [{ index: 1 }], metadata: { affectedCount: 0 } });
+      expect(rolledBack.ids).toBeUndefined();
+
+      // Without replica set transactions the insert runs on its own and says what it left behind
+      const partial = await serverWith({ isWritablePrimary: true }).createMany('items', [{ sku: 'a' }, { sku: 'a' }]);
+      expect(insertMany.mock.calls[1]?.[1]).toEqual({ ordered: true });
+      expect(partial).toMatchObject({ success: false, ids: ['a'], metadata: { affectedCount: 1 } });
+      expect(session.startTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a transaction session to the calls it was opened for', async () => {
+      const session = { startTransaction: vi.fn(), commitTransaction: vi.fn(), abortTransaction: vi.fn(), endSession: vi.fn() };
+      const find = vi.fn((filter: unknown, options: Record<string, unknown>) => ({ toArray: async () => [] }));
+      Object.assign(mongoProvider, {
+        client: { startSession: () => session },
+        database: { admin: () => ({ command: async () => ({ setName: 'rs0' }) }), collection: () => ({ find, countDocuments: async () => 0 }) }
+      });
+
+      let release = () => {};
+      const transaction = runInTransaction(mongoProvider, async () => {
+        await mongoProvider.read('items');
+        await new Promise<void>(resolve => { release = resolve; });
+        return mongoProvider.read('items');
+      });
+      await vi.waitFor(() => expect(find).toHaveBeenCalledTimes(1));
+      // An unrelated read while the transaction is open stays out of its session
+      await mongoProvider.read('items');
+      release();
+      await transaction;
+
+      expect(find.mock.calls.map(([, options]) => options.session)).toEqual([session, undefined, session]);
+      expect(session.commitTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail writes that match no document like the SQLite provider', async () => {
+      const stored = new Set(['a']);
+      const collection = {
+        updateOne: vi.fn(async () => ({ matchedCount: 0 })),
+        deleteOne: vi.fn(async () => ({ deletedCount: 0 })),
+        findOne: vi.fn(async (filter: { _id: string }) => stored.has(filter._id) ? { _id: filter._id } : null)
+      };
+      Object.assign(mongoProvider, { database: { collection: () => collection } });
+
+      const missing = await mongoProvider.update('items', 'b', { qty: 1 });
+      expect(missing).toMatchObject({ success: false, errors: [{ code: 'RECORD_NOT_FOUND' }], metadata: { affectedCount: 0 } });
+      expect((await mongoProvider.delete('items', 'b')).errors?.[0]?.code).toBe('RECORD_NOT_FOUND');
+
+      // A document that exists but no longer carries the expected token is a conflict
+      const stale = await mongoProvider.update('items', 'a', { qty: 1 }, { concurrency: { field: 'version', expected: 1 } });
+      expect(stale.errors?.[0]?.code).toBe('CONCURRENCY_CONFLICT');
+      expect((await mongoProvider.delete('items', 'a', { concurrency: { field: 'version', expected: 1 } })).errors?.[0]?.code).toBe('CONCURRENCY_CONFLICT');
+    });
+
+    it('should stream the documents after a page token', async () => {
+      const find = vi.fn((filter: unknown) => ({
+        sort: vi.fn(),
+        close: async () => {},
+        async *[Symbol.asyncIterator]() { yield { id: 3 }; }
+      }));
+      Object.assign(mongoProvider, { database: { collection: () => ({ find }) } });
+      const orderBy = [{ field: 'id', direction: 'asc' as const }];
+      const cursor = encodePageToken({ id: 2 }, orderBy)!;
+
+      const ids: unknown[] = [];
+      for await (const document of mongoProvider.streamQuery<any>('items', { orderBy, pagination: { cursor } })) {
+        ids.push(document.id);
+      }
+
+      expect(ids).toEqual([3]);
+      expect(find.mock.calls[0]?.[0]).toEqual({ id: { $gt: 2 } });
+      await expect(mongoProvider.streamQuery('items', { orderBy: [{ field: 'id', direction: 'desc' }], pagination: { cursor } }).next())
+        .rejects.toMatchObject({ code: 'INVALID_PAGE_TOKEN' });
+    });
+
+    it('should explain many-to-many lookups through join collections and embedded id arrays', async () => {
+      const tagged = any('tags', t => t.field('label').eq('draft'));
+      const explained = await mongoProvider.explainQuery('posts', {
+        filter: {
+          ...tagged,
+          lambda: { ...tagged.lambda!, targetEntity: 'tags', sourceField: 'id', targetField: 'id', through: { entity: 'post_tags', sourceKey: 'postId', targetKey: 'tagId' } }
+        },
+        expand: [{ relation: 'tags', targetEntity: 'tags', sourceField: 'id', targetField: 'id', through: { field: 'tagIds' } }],
+        pagination: { take: 10 }
+      });
+
+      expect(explained.native).toEqual({
+        collection: 'posts',
+        lookups: [
+          { collection: 'tags', distinct: 'id', filter: { label: 'draft' } },
+          { collection: 'post_tags', distinct: 'postId', filter: { tagId: { $in: { $lookupKeys: 0 } } } }
+        ],
+        pipeline: [
+          { $match: { id: { $in: [{ $lookupKeys: 1 }] } } },
+          { $limit: 11 },
+          {
+            $lookup: {
+              from: 'tags',
+              let: { joinKey0: { $ifNull: ['$tagIds', []] } },
+              pipeline: [{ $match: { $expr: { $in: ['$id', '$$joinKey0'] } } }],
+              as: 'tags'
+            }
+          }
+        ]
+      });
+    });
   });
 
   describe('SQLite Provider', () => {
@@ -242,6 +409,729 @@ describe('Real Database Providers', () => {
       console.log('✅ SQLite OData queries successful');
     });
 
+    it('should bind date and boolean filter values the way they are stored', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('events', {
+        fields: {
+          id: { type: 'int32', primary: true, autoIncrement: true },
+          startsAt: { type: 'datetime' },
+          published: { type: 'boolean' }
+        }
+      });
+      await memoryProvider.create('events', { startsAt: new Date('2023-12-31T00:00:00Z'), published: true });
+      await memoryProvider.create('events', { startsAt: new Date('2024-02-01T00:00:00Z'), published: false });
+      await memoryProvider.create('events', { startsAt: new Date('2024-03-01T00:00:00Z'), published: true });
+
+      const later = await memoryProvider.executeQuery<any>('events', { filter: { field: 'startsAt', operator: 'gt', value: new Date('2024-01-01T00:00:00Z') } });
+      expect(later.data.map(event => event.id)).toEqual([2, 3]);
+      const published = await memoryProvider.executeQuery<any>('events', { filter: { field: 'published', operator: 'eq', value: true } });
+      expect(published.data.map(event => event.id)).toEqual([1, 3]);
+      const listed = await memoryProvider.executeQuery<any>('events', { filter: { field: 'startsAt', operator: 'in', value: [new Date('2024-03-01T00:00:00Z')] } });
+      expect(listed.data.map(event => event.id)).toEqual([3]);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should evaluate nested and/or/not filter groups', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('test_users_groups', userSchema);
+
+      for (const [name, age] of [['Ann', 20], ['Bob', 40], ['Cid', 60]] as const) {
+        await memoryProvider.create('test_users_groups', {
+          name,
+          email: `${name.toLowerCase()}@example.com`,
+          age,
+          isActive: true,
+          createdAt: new Date()
+        });
+      }
+
+      // name = 'Ann' OR (age > 30 AND NOT (name = 'Cid'))
+      const queryResult = await memoryProvider.executeQuery('test_users_groups', {
+        filter: {
+          field: '', operator: 'eq', value: null, logicalOperator: 'or',
+          children: [
+            { field: 'name', operator: 'eq', value: 'Ann' },
+            {
+              field: '', operator: 'eq', value: null, logicalOperator: 'and',
+              children: [
+                { field: 'age', operator: 'gt', value: 30 },
+                { field: 'name', operator: 'eq', value: 'Cid', not: true }
+              ]
+            }
+          ]
+        },
+        orderBy: [{ field: 'name', direction: 'asc' }]
+      });
+
+      expect(queryResult.success).toBe(true);
+      expect(queryResult.data.map((row: any) => row.name)).toEqual(['Ann', 'Bob']);
+      expect(queryResult.metadata.count).toBe(2);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should compile expression filters with functions and arithmetic', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('order_lines_filtered', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          product: { type: 'string' },
+          price: { type: 'number' },
+          quantity: { type: 'int32' },
+          shippedAt: { type: 'datetime' }
+        }
+      });
+      await memoryProvider.create('order_lines_filtered', { id: 1, product: '  Green Tea ', price: 4.4, quantity: 5, shippedAt: new Date('2024-02-10T09:00:00Z') });
+      await memoryProvider.create('order_lines_filtered', { id: 2, product: 'COFFEE', price: 7.5, quantity: 1, shippedAt: new Date('2023-12-01T18:00:00Z') });
+      await memoryProvider.create('order_lines_filtered', { id: 3, product: 'cocoa', price: 2.6, quantity: 3, shippedAt: new Date('2024-05-20T12:00:00Z') });
+
+      const ids = async (filter: string) => {
+        const result = await memoryProvider.executeQuery<any>('order_lines_filtered', {
+          ...parseODataQuery(`$filter=${filter}`),
+          orderBy: [{ field: 'id', direction: 'asc' }]
+        });
+        expect(result.success).toBe(true);
+        return result.data.map((row: any) => row.id);
+      };
+
+      expect(await ids("tolower(product) eq 'coffee'")).toEqual([2]);
+      expect(await ids("trim(toupper(product)) eq 'GREEN TEA' or length(product) eq 5")).toEqual([1, 3]);
+      expect(await ids("indexof(tolower(product), 'co') eq 0 and substring(product, 1, 2) ne 'OF'")).toEqual([3]);
+      expect(await ids('price mul quantity gt 10 and quantity mod 2 eq 1')).toEqual([1]);
+      expect(await ids('round(price) eq 3 or ceiling(price) eq 8')).toEqual([2, 3]);
+      expect(await ids('year(shippedAt) eq 2024 and not (month(shippedAt) ge 5) and hour(shippedAt) lt 12')).toEqual([1]);
+      expect(await ids('shippedAt lt now() and floor(price div 2) eq 2')).toEqual([1]);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should match any/all lambdas over JSON arrays and child tables', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('orders', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          customer: { type: 'string' },
+          tags: { type: 'array' },
+          lines: { type: 'array' }
+        }
+      });
+      await memoryProvider.createTable('order_items', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          orderId: { type: 'int32' },
+          price: { type: 'decimal' }
+        }
+      });
+      await memoryProvider.create('orders', { id: 1, customer: 'Ann', tags: ['urgent', 'gift'], lines: [{ sku: 'a', qty: 1 }, { sku: 'b', qty: 5 }] });
+      await memoryProvider.create('orders', { id: 2, customer: 'Bob', tags: ['gift'], lines: [{ sku: 'c', qty: 2 }] });
+      await memoryProvider.create('orders', { id: 3, customer: 'Cid', tags: [], lines: [] });
+      for (const [id, orderId, price] of [[1, 1, 20], [2, 1, 150], [3, 2, 40], [4, 2, 60]]) {
+        await memoryProvider.create('order_items', { id, orderId, price });
+      }
+
+      const items = { targetEntity: 'order_items', sourceField: 'id', targetField: 'orderId' };
+      const ids = async (filter: any) => {
+        const result = await memoryProvider.executeQuery<any>('orders', { filter, orderBy: [{ field: 'id', direction: 'asc' }] });
+        expect(result.success).toBe(true);
+        return result.data.map((row: any) => row.id);
+      };
+
+      expect(await ids(any('tags', t => t.eq('urgent')))).toEqual([1]);
+      expect(await ids(all('tags', t => t.eq('gift')))).toEqual([2, 3]);
+      expect(await ids(any('tags'))).toEqual([1, 2]);
+      expect(await ids({ ...any('tags'), not: true })).toEqual([3]);
+      expect(await ids(any('lines', l => l.and(l.field('qty').ge(2), l.field('sku').ne('c'))))).toEqual([1]);
+
+      // Orders having any line item over $100, and orders whose items are all over $30
+      const over100 = any('items', i => i.field('price').gt(100));
+      expect(await ids({ ...over100, lambda: { ...over100.lambda!, ...items } })).toEqual([1]);
+      const allOver30 = all('items', i => i.field('price').gt(30));
+      expect(await ids({ ...allOver30, lambda: { ...allOver30.lambda!, ...items } })).toEqual([2, 3]);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should explain queries as SQL with parameters and report full table scans', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('accounts', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          name: { type: 'string' },
+          age: { type: 'int32' }
+        }
+      });
+      const query: any = {
+        filter: { field: 'age', operator: 'gt', value: 30 },
+        select: { fields: ['name'] },
+        orderBy: [{ field: 'name', direction: 'asc' }],
+        pagination: { take: 10, skip: 20 }
+      };
+
+      const explained = await memoryProvider.explainQuery('accounts', query);
+      expect(explained).toEqual({
+        success: true,
+        provider: 'SQLite',
+        native: {
+          sql: 'SELECT name FROM accounts WHERE age > ? ORDER BY name ASC LIMIT 11 OFFSET 20',
+          params: [30],
+          countSql: 'SELECT COUNT(*) as count FROM accounts WHERE age > ?',
+          countParams: [30]
+        }
+      });
+
+      const scanned = await memoryProvider.explainQuery('accounts', query, { plan: true });
+      expect(scanned.plan?.length).toBeGreaterThan(0);
+      expect(scanned.fullScans).toEqual(['accounts']);
+
+      await memoryProvider.executeSQL('CREATE INDEX idx_accounts_age ON accounts(age)');
+      const indexed = await memoryProvider.explainQuery('accounts', query, { plan: true });
+      expect(indexed.plan?.some(step => step.detail.includes('idx_accounts_age'))).toBe(true);
+      expect(indexed.fullScans).toEqual([]);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should keep soft-deleted rows out of null-filtered queries', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('test_users_soft', {
+        fields: { ...userSchema.fields, deletedAt: { name: 'deletedAt', type: 'date', nullable: true } }
+      });
+
+      for (const name of ['Ann', 'Bob']) {
+        await memoryProvider.create('test_users_soft', {
+          name,
+          email: `${name.toLowerCase()}@example.com`,
+          age: 30,
+          isActive: true,
+          createdAt: new Date()
+        });
+      }
+      await memoryProvider.update('test_users_soft', 2, { deletedAt: new Date() });
+
+      const live = await memoryProvider.executeQuery<any>('test_users_soft', {
+        filter: { field: 'deletedAt', operator: 'eq', value: null }
+      });
+      const trashed = await memoryProvider.executeQuery<any>('test_users_soft', {
+        filter: { field: 'deletedAt', operator: 'ne', value: null }
+      });
+
+      expect(live.data.map((row: any) => row.name)).toEqual(['Ann']);
+      expect(trashed.data.map((row: any) => row.name)).toEqual(['Bob']);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should resolve nested expansions with batched lookups', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('authors', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          name: { type: 'string' }
+        }
+      });
+      await memoryProvider.createTable('posts', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          title: { type: 'string' },
+          authorId: { type: 'int32' },
+          published: { type: 'boolean' }
+        }
+      });
+
+      await memoryProvider.create('authors', { id: 1, name: 'Ann' });
+      await memoryProvider.create('authors', { id: 2, name: 'Bob' });
+      for (const [id, title, authorId, published] of [[1, 'A1', 1, 1], [2, 'A2', 1, 1], [3, 'A3', 1, 0], [4, 'B1', 2, 1]] as const) {
+        await memoryProvider.create('posts', { id, title, authorId, published });
+      }
+
+      const queryResult = await memoryProvider.executeQuery<any>('authors', {
+        select: { fields: ['name'] },
+        orderBy: [{ field: 'name', direction: 'asc' }],
+        expand: [{
+          relation: 'posts',
+          targetEntity: 'posts',
+          sourceField: 'id',
+          targetField: 'authorId',
+          nestedQuery: {
+            select: { fields: ['title'] },
+            filter: { field: 'published', operator: 'eq', value: 1 },
+            orderBy: [{ field: 'title', direction: 'desc' }],
+            pagination: { take: 1 },
+            expand: [{ relation: 'author', targetEntity: 'authors', sourceField: 'authorId', targetField: 'id', single: true }]
+          }
+        }]
+      });
+
+      expect(queryResult.success).toBe(true);
+      expect(queryResult.data).toEqual([
+        { name: 'Ann', posts: [{ title: 'A2', author: { id: 1, name: 'Ann' } }] },
+        { name: 'Bob', posts: [{ title: 'B1', author: { id: 2, name: 'Bob' } }] }
+      ]);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should link, expand and filter many-to-many relations through a join table', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('posts', { fields: { id: { type: 'int32', primaryKey: true }, title: { type: 'string' } } });
+      await memoryProvider.createTable('tags', { fields: { id: { type: 'int32', primaryKey: true }, label: { type: 'string' } } });
+      await memoryProvider.createTable('post_tags', { fields: { postId: { type: 'int32' }, tagId: { type: 'int32' } } });
+      await memoryProvider.create('posts', { id: 1, title: 'Hello' });
+      await memoryProvider.create('posts', { id: 2, title: 'News' });
+      for (const [id, label] of [[7, 'intro'], [8, 'release'], [9, 'draft']] as const) {
+        await memoryProvider.create('tags', { id, label });
+      }
+
+      const through = { entity: 'post_tags', sourceKey: 'postId', targetKey: 'tagId' };
+      const change = { relation: 'tags', targetEntity: 'tags', targetField: 'id', through };
+      const attached = await memoryProvider.updateLinks('posts', { ...change, id: 1, sourceValue: 1, mode: 'attach', targetValues: [7, 8, 8] });
+      expect(attached.metadata).toMatchObject({ attached: 2, detached: 0 });
+      // Attaching an existing link is a no-op, sync only touches the links that change
+      expect((await memoryProvider.updateLinks('posts', { ...change, id: 2, sourceValue: 2, mode: 'attach', targetValues: [8] })).metadata?.attached).toBe(1);
+      const synced = await memoryProvider.updateLinks('posts', { ...change, id: 2, sourceValue: 2, mode: 'sync', targetValues: [8, 9] });
+      expect(synced.metadata).toMatchObject({ attached: 1, detached: 0 });
+
+      const tags = { relation: 'tags', targetEntity: 'tags', sourceField: 'id', targetField: 'id', through };
+      const expanded = await memoryProvider.executeQuery<any>('posts', {
+        select: { fields: ['id', 'title'] },
+        orderBy: [{ field: 'id', direction: 'asc' }],
+        expand: [{ ...tags, nestedQuery: { select: { fields: ['label'] }, orderBy: [{ field: 'label', direction: 'asc' }] } }]
+      });
+      expect(expanded.success).toBe(true);
+      expect(expanded.data).toEqual([
+        { id: 1, title: 'Hello', tags: [{ label: 'intro' }, { label: 'release' }] },
+        { id: 2, title: 'News', tags: [{ label: 'draft' }, { label: 'release' }] }
+      ]);
+
+      const titles = async (filter: any) => {
+        const result = await memoryProvider.executeQuery<any>('posts', { filter, orderBy: [{ field: 'id', direction: 'asc' }] });
+        expect(result.success).toBe(true);
+        return result.data.map((row: any) => row.title);
+      };
+      const { relation, ...joined } = tags;
+      const draft = any('tags', t => t.field('label').eq('draft'));
+      expect(await titles({ ...draft, lambda: { ...draft.lambda!, ...joined } })).toEqual(['News']);
+      const noDraft = all('tags', t => t.field('label').ne('draft'));
+      expect(await titles({ ...noDraft, lambda: { ...noDraft.lambda!, ...joined } })).toEqual(['Hello']);
+
+      const detached = await memoryProvider.updateLinks('posts', { ...change, id: 1, sourceValue: 1, mode: 'detach' });
+      expect(detached.metadata).toMatchObject({ attached: 0, detached: 2 });
+      expect((await memoryProvider.read('post_tags')).data).toEqual([{ postId: 2, tagId: 8 }, { postId: 2, tagId: 9 }]);
+
+      // Embedded id arrays are JSON text in SQLite
+      const embedded = await memoryProvider.updateLinks('posts', { ...change, through: { field: 'tagIds' }, id: 1, sourceValue: 1, mode: 'attach', targetValues: [7] });
+      expect(embedded.errors?.[0]?.code).toBe('LINKS_NOT_SUPPORTED');
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should create, update and delete rows in bulk', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('bulk_items', {
+        fields: {
+          id: { type: 'int32', primaryKey: true, autoIncrement: true },
+          sku: { type: 'string' },
+          qty: { type: 'int32', nullable: true },
+          version: { type: 'int32', nullable: true }
+        }
+      });
+
+      const rows = Array.from({ length: 500 }, (_, index) => ({ sku: `SKU-${index}`, qty: index % 5 }));
+      const created = await memoryProvider.createMany('bulk_items', rows);
+      expect(created).toMatchObject({ success: true, metadata: { affectedCount: 500 } });
+      expect(created.ids?.slice(0, 2)).toEqual([1, 2]);
+      expect(created.data?.[499]).toMatchObject({ id: 500, sku: 'SKU-499' });
+
+      // A failing row rolls the batch back and is reported by its position
+      const failed = await memoryProvider.createMany('bulk_items', [{ sku: 'NEW-1' }, { sku: null }, { sku: 'NEW-3' }]);
+      expect(failed.success).toBe(false);
+      expect(failed.rowErrors?.[0]).toMatchObject({ index: 1, errors: [{ code: 'CREATE_FAILED' }] });
+      expect((await memoryProvider.executeQuery('bulk_items', { count: true })).metadata.count).toBe(500);
+
+      const updated = await memoryProvider.updateWhere('bulk_items', { filter: { field: 'qty', operator: 'eq', value: 0 } }, { qty: 10 }, { increment: ['version'] });
+      expect(updated).toMatchObject({ success: true, metadata: { affectedCount: 100 } });
+      const bumped = await memoryProvider.executeQuery<any>('bulk_items', { filter: { field: 'qty', operator: 'eq', value: 10 }, pagination: { take: 1 } });
+      expect(bumped.data[0]).toMatchObject({ qty: 10, version: 1 });
+
+      const deleted = await memoryProvider.deleteWhere('bulk_items', { filter: { field: 'qty', operator: 'lt', value: 3 } });
+      expect(deleted).toMatchObject({ success: true, metadata: { affectedCount: 200 } });
+
+      // Inside a caller's transaction the batch is rolled back with it
+      const transaction = await memoryProvider.beginTransaction();
+      expect((await memoryProvider.createMany('bulk_items', [{ sku: 'T-1' }, { sku: 'T-2' }])).success).toBe(true);
+      await transaction.rollback();
+      expect((await memoryProvider.executeQuery('bulk_items', { count: true })).metadata.count).toBe(300);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should insert or update rows by their conflict keys', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('stock_levels', {
+        fields: {
+          sku: { type: 'string', primaryKey: true },
+          qty: { type: 'int32', nullable: true },
+          note: { type: 'string', nullable: true },
+          version: { type: 'int32', nullable: true }
+        }
+      });
+      const options = { conflictKeys: ['sku'], update: ['qty'], increment: ['version'] };
+
+      const created = await memoryProvider.upsert('stock_levels', { sku: 'A-1', qty: 5, note: 'first import', version: 1 }, options);
+      expect(created).toMatchObject({ success: true, data: { sku: 'A-1', qty: 5, version: 1 }, metadata: { created: true, updated: false } });
+
+      const updated = await memoryProvider.upsert('stock_levels', { sku: 'A-1', qty: 8, note: 'second import', version: 1 }, options);
+      expect(updated).toMatchObject({ success: true, id: created.id, metadata: { created: false, updated: true } });
+      // Fields outside the update list keep their stored values
+      expect(updated.data).toEqual({ sku: 'A-1', qty: 8, note: 'first import', version: 2 });
+      expect((await memoryProvider.read('stock_levels')).data).toHaveLength(1);
+
+      const unindexed = await memoryProvider.upsert('stock_levels', { sku: 'B-1', qty: 1 }, { conflictKeys: ['qty'] });
+      expect(unindexed.errors?.[0]).toMatchObject({ code: 'UPSERT_FAILED', suggestion: 'Add a primary key or unique index on (qty) to stock_levels' });
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should only apply writes whose concurrency token still matches', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('versioned_notes', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          body: { type: 'string' },
+          version: { type: 'int32' }
+        }
+      });
+      await memoryProvider.create('versioned_notes', { id: 1, body: 'draft', version: 1 });
+
+      const updated = await memoryProvider.update<any>('versioned_notes', 1, { body: 'final', version: 2 }, {
+        concurrency: { field: 'version', expected: 1 }
+      });
+      expect(updated.success).toBe(true);
+      expect(updated.data).toMatchObject({ body: 'final', version: 2 });
+
+      const stale = await memoryProvider.update('versioned_notes', 1, { body: 'lost', version: 2 }, {
+        concurrency: { field: 'version', expected: 1 }
+      });
+      expect(stale.success).toBe(false);
+      expect(stale.errors?.[0]?.code).toBe('CONCURRENCY_CONFLICT');
+
+      const staleDelete = await memoryProvider.delete('versioned_notes', 1, { concurrency: { field: 'version', expected: 1 } });
+      expect(staleDelete.errors?.[0]?.code).toBe('CONCURRENCY_CONFLICT');
+      expect(await memoryProvider.exists('versioned_notes', 1)).toBe(true);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should page with keyset tokens', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('paged_events', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          day: { type: 'string' }
+        }
+      });
+      for (const [id, day] of [[1, 'mon'], [2, 'tue'], [3, 'mon'], [4, 'wed'], [5, 'tue']] as const) {
+        await memoryProvider.create('paged_events', { id, day });
+      }
+
+      const orderBy = [{ field: 'day', direction: 'asc' as const }, { field: 'id', direction: 'asc' as const }];
+      const first = await memoryProvider.executeQuery<any>('paged_events', {
+        select: { fields: ['id'] },
+        orderBy,
+        pagination: { take: 2 }
+      });
+      expect(first.data).toEqual([{ id: 1 }, { id: 3 }]);
+      expect(first.metadata.hasMore).toBe(true);
+
+      // A row inserted before the cursor does not shift the next page
+      await memoryProvider.create('paged_events', { id: 6, day: 'aaa' });
+
+      const second = await memoryProvider.executeQuery<any>('paged_events', {
+        select: { fields: ['id'] },
+        orderBy,
+        pagination: { take: 2, cursor: first.metadata.nextPageToken! }
+      });
+      expect(second.data).toEqual([{ id: 2 }, { id: 5 }]);
+
+      const last = await memoryProvider.executeQuery<any>('paged_events', {
+        orderBy,
+        pagination: { take: 2, cursor: second.metadata.nextPageToken! }
+      });
+      expect(last.data.map((row: any) => row.id)).toEqual([4]);
+      expect(last.metadata.hasMore).toBe(false);
+      expect(last.metadata.nextPageToken).toBeUndefined();
+
+      const mismatched = await memoryProvider.executeQuery('paged_events', {
+        orderBy: [{ field: 'id', direction: 'desc' }],
+        pagination: { take: 2, cursor: first.metadata.nextPageToken! }
+      });
+      expect(mismatched.errors?.[0]?.code).toBe('INVALID_PAGE_TOKEN');
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should stream rows and release the statement on early exit', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('stream_rows', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          label: { type: 'string' }
+        }
+      });
+      for (let id = 1; id <= 5; id++) {
+        await memoryProvider.create('stream_rows', { id, label: `row ${id}` });
+      }
+
+      const seen: number[] = [];
+      for await (const row of memoryProvider.streamQuery<any>('stream_rows', {
+        filter: { field: 'id', operator: 'gt', value: 1 },
+        orderBy: [{ field: 'id', direction: 'desc' }]
+      })) {
+        seen.push(row.id);
+        if (seen.length === 2) {
+          break;
+        }
+      }
+      expect(seen).toEqual([5, 4]);
+
+      // The connection is free again once the loop has been left
+      const created = await memoryProvider.create('stream_rows', { id: 6, label: 'row 6' });
+      expect(created.success).toBe(true);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should stream the rows after a page token', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('stream_rows', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          label: { type: 'string' }
+        }
+      });
+      for (let id = 1; id <= 5; id++) {
+        await memoryProvider.create('stream_rows', { id, label: id % 2 ? 'odd' : 'even' });
+      }
+      const orderBy = [{ field: 'id', direction: 'asc' as const }];
+      const first = await memoryProvider.executeQuery<any>('stream_rows', { orderBy, pagination: { take: 2 } });
+
+      const streamed = async (query: any) => {
+        const ids: number[] = [];
+        for await (const row of memoryProvider.streamQuery<any>('stream_rows', query)) {
+          ids.push(row.id);
+        }
+        return ids;
+      };
+      const cursor = first.metadata.nextPageToken!;
+      expect(await streamed({ orderBy, pagination: { cursor } })).toEqual([3, 4, 5]);
+      expect(await streamed({ filter: { field: 'label', operator: 'eq', value: 'odd' }, orderBy, pagination: { cursor } })).toEqual([3, 5]);
+      await expect(streamed({ orderBy: [{ field: 'id', direction: 'desc' }], pagination: { cursor } }))
+        .rejects.toMatchObject({ code: 'INVALID_PAGE_TOKEN' });
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should group and aggregate rows', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('sales', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          category: { type: 'string' },
+          customer: { type: 'string' },
+          price: { type: 'int32' }
+        }
+      });
+      for (const [id, category, customer, price] of [[1, 'books', 'ann', 10], [2, 'books', 'bob', 30], [3, 'games', 'ann', 50], [4, 'books', 'ann', 20]] as const) {
+        await memoryProvider.create('sales', { id, category, customer, price });
+      }
+
+      const result = await memoryProvider.executeQuery<any>('sales', {
+        filter: { field: 'price', operator: 'ge', value: 20 },
+        orderBy: [{ field: 'category', direction: 'asc' }],
+        apply: {
+          groupBy: ['category'],
+          aggregate: {
+            total: { fn: 'sum', field: 'price' },
+            cheapest: { fn: 'min', field: 'price' },
+            customers: { fn: 'countDistinct', field: 'customer' },
+            sales: { fn: 'count' }
+          }
+        }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.metadata.count).toBe(2);
+      expect(result.data).toEqual([
+        { category: 'books', total: 50, cheapest: 20, customers: 2, sales: 2 },
+        { category: 'games', total: 50, cheapest: 50, customers: 1, sales: 1 }
+      ]);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should search a synced FTS5 index by relevance', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('articles', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          title: { type: 'string' },
+          body: { type: 'string' }
+        },
+        indexes: [{ name: 'articles_search', type: 'fulltext', fields: ['title', 'body'] }]
+      });
+      await memoryProvider.create('articles', { id: 1, title: 'Gardening', body: 'Roses need sun, roses need water' });
+      await memoryProvider.create('articles', { id: 2, title: 'Roses', body: 'A short history of roses, roses and more roses' });
+      await memoryProvider.create('articles', { id: 3, title: 'Cooking', body: 'Pasta with tomatoes' });
+
+      const ranked = await memoryProvider.executeQuery<any>('articles', { search: 'roses' });
+      expect(ranked.data.map((row: any) => row.id)).toEqual([2, 1]);
+      expect(ranked.data[0]).toEqual({ id: 2, title: 'Roses', body: 'A short history of roses, roses and more roses' });
+      expect(ranked.metadata.count).toBe(2);
+
+      const titleOnly = await memoryProvider.executeQuery<any>('articles', { search: 'roses', searchFields: ['title'] });
+      expect(titleOnly.data.map((row: any) => row.id)).toEqual([2]);
+
+      // Triggers keep the index in sync with writes
+      await memoryProvider.update('articles', 3, { body: 'Pasta with roses' });
+      await memoryProvider.delete('articles', 2);
+      const synced = await memoryProvider.executeQuery<any>('articles', {
+        search: 'roses',
+        orderBy: [{ field: 'id', direction: 'asc' }]
+      });
+      expect(synced.data.map((row: any) => row.id)).toEqual([1, 3]);
+
+      const unindexed = await memoryProvider.executeQuery('unindexed_notes', { search: 'roses' });
+      expect(unindexed.success).toBe(false);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should compute fields in SQL for select, filter and order', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('order_lines', {
+        fields: {
+          id: { type: 'int32', primaryKey: true },
+          product: { type: 'string' },
+          price: { type: 'int32' },
+          quantity: { type: 'int32' },
+          shippedAt: { type: 'datetime' }
+        }
+      });
+      await memoryProvider.create('order_lines', { id: 1, product: "O'Neil tea", price: 4, quantity: 5, shippedAt: new Date('2024-02-10T00:00:00Z') });
+      await memoryProvider.create('order_lines', { id: 2, product: 'coffee', price: 7, quantity: 1, shippedAt: new Date('2023-12-01T00:00:00Z') });
+      await memoryProvider.create('order_lines', { id: 3, product: 'cocoa', price: 3, quantity: 3, shippedAt: new Date('2024-05-20T00:00:00Z') });
+
+      const compute = [
+        { name: 'total', expression: parseExpression('price mul quantity') },
+        { name: 'label', expression: parseExpression("concat(toupper(product), concat(' x', quantity))") },
+        { name: 'shippedYear', expression: parseExpression('year(shippedAt)') },
+        { name: 'half', expression: parseExpression('floor(total div 2)') }
+      ];
+      const result = await memoryProvider.executeQuery<any>('order_lines', {
+        compute,
+        select: { fields: ['id', 'total', 'label', 'half'] },
+        filter: { field: 'shippedYear', operator: 'eq', value: 2024 },
+        orderBy: [{ field: 'total', direction: 'desc' }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.metadata.count).toBe(2);
+      expect(result.data).toEqual([
+        { id: 1, total: 20, label: "O'NEIL TEA x5", half: 10 },
+        { id: 3, total: 9, label: 'COCOA x3', half: 4 }
+      ]);
+
+      const grouped = await memoryProvider.executeQuery<any>('order_lines', {
+        compute,
+        apply: { groupBy: ['shippedYear'], aggregate: { revenue: { fn: 'sum', field: 'total' } } },
+        orderBy: [{ field: 'shippedYear', direction: 'asc' }]
+      });
+      expect(grouped.data).toEqual([{ shippedYear: 2023, revenue: 7 }, { shippedYear: 2024, revenue: 29 }]);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should map defaults to column defaults, AUTOINCREMENT and sequences', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('tickets', {
+        fields: {
+          id: { type: 'int32', primary: true, autoIncrement: true },
+          number: { type: 'int32', autoIncrement: true },
+          status: { type: 'string', defaultValue: "won't fix" },
+          urgent: { type: 'boolean', defaultValue: false },
+          reference: { type: 'string', defaultValue: uuid() },
+          openedAt: { type: 'datetime', defaultValue: now() }
+        }
+      });
+      const sequences = [
+        { field: 'id', sequence: 'tickets.id' },
+        { field: 'number', sequence: 'tickets.number', start: 100 }
+      ];
+
+      const first = await memoryProvider.create<any>('tickets', {}, { sequences });
+      const second = await memoryProvider.create<any>('tickets', { status: 'open' }, { sequences });
+      await memoryProvider.delete('tickets', 2);
+      const third = await memoryProvider.create<any>('tickets', {}, { sequences });
+
+      expect(first.data).toMatchObject({ id: 1, number: 100, status: "won't fix", urgent: 0 });
+      expect(first.data.reference).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(new Date(first.data.openedAt).getTime()).not.toBeNaN();
+      expect(second.data).toMatchObject({ id: 2, number: 101, status: 'open' });
+      // Neither AUTOINCREMENT nor sequences hand out a number twice
+      expect(third.data).toMatchObject({ id: 3, number: 102 });
+      expect(await memoryProvider.nextSequenceValue('tickets.number')).toBe(103);
+
+      await memoryProvider.disconnect();
+    });
+
+    it('should address records by a uuid primary key', async () => {
+      const memoryProvider = new SQLiteProvider(':memory:');
+      await memoryProvider.connect();
+      await memoryProvider.createTable('documents', {
+        fields: {
+          id: { type: 'string', primary: true, defaultValue: uuid() },
+          title: { type: 'string' }
+        }
+      });
+
+      const created = await memoryProvider.create<any>('documents', { title: 'Draft' });
+      expect(created.id).toBe(created.data.id);
+      expect(created.id).toMatch(/^[0-9a-f]{8}-/);
+      const batch = await memoryProvider.createMany<any>('documents', [{ title: 'Second' }]);
+      expect(batch.ids).toEqual([batch.data?.[0].id]);
+
+      const updated = await memoryProvider.update<any>('documents', created.id, { title: 'Final' });
+      expect(updated).toMatchObject({ success: true, data: { id: created.id, title: 'Final' }, metadata: { affectedCount: 1 } });
+      expect(await memoryProvider.exists('documents', created.id)).toBe(true);
+
+      // Writes that match no record fail instead of reporting success
+      const missing = await memoryProvider.update('documents', 1, { title: 'Lost' });
+      expect(missing).toMatchObject({ success: false, errors: [{ code: 'RECORD_NOT_FOUND' }], metadata: { affectedCount: 0 } });
+      expect((await memoryProvider.delete('documents', created.id)).metadata?.affectedCount).toBe(1);
+      expect((await memoryProvider.delete('documents', created.id)).errors?.[0]?.code).toBe('RECORD_NOT_FOUND');
+
+      await memoryProvider.disconnect();
+    });
+
     it('should handle transactions', async () => {
       console.log('🎯 Testing SQLite transactions...');
 
@@ -343,6 +1233,242 @@ describe('Real Database Providers', () => {
       console.log('✅ HTTP OData metadata successful');
     });
 
+    it('should send aggregations as $apply', async () => {
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest').mockResolvedValue({
+        success: true,
+        data: { value: [{ Category: 'Beverages', Total: 12 }] }
+      });
+
+      const result = await httpODataProvider.executeQuery('Products', {
+        filter: { field: 'Discontinued', operator: 'eq', value: false },
+        apply: {
+          groupBy: ['Category'],
+          aggregate: { Total: { fn: 'sum', field: 'UnitPrice' }, Products: { fn: 'count' } }
+        }
+      });
+
+      expect(result.data).toEqual([{ Category: 'Beverages', Total: 12 }]);
+      const url = decodeURIComponent(String(requestSpy.mock.calls[0]?.[0]));
+      expect(url).toContain('$apply=filter(Discontinued eq false)/groupby((Category),aggregate(UnitPrice with sum as Total,$count as Products))');
+      expect(url).not.toContain('$filter=');
+    });
+
+    it('should send computed fields as $compute', async () => {
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest').mockResolvedValue({ success: true, data: { value: [] } });
+
+      await httpODataProvider.executeQuery('Products', {
+        compute: [{ name: 'Label', expression: parseExpression("concat(ProductName, ' (new)')") }],
+        filter: { field: 'Label', operator: 'ne', value: null },
+        select: { fields: ['ProductID', 'Label'] }
+      });
+
+      const url = decodeURIComponent(String(requestSpy.mock.calls[0]?.[0]));
+      expect(url).toContain("$compute=concat(ProductName,' (new)') as Label");
+      expect(url).toContain('$select=ProductID,Label');
+    });
+
+    it('should send expression filters in $filter', async () => {
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest').mockResolvedValue({ success: true, data: { value: [] } });
+
+      await httpODataProvider.executeQuery('Products', {
+        filter: {
+          field: '', operator: 'eq', value: null, logicalOperator: 'or',
+          children: [
+            { field: '', operator: 'eq', value: null, expression: parseExpression("tolower(ProductName) eq 'chai'") },
+            { field: '', operator: 'eq', value: null, expression: parseExpression('UnitPrice mul UnitsInStock gt 100'), not: true }
+          ]
+        }
+      });
+
+      const url = decodeURIComponent(String(requestSpy.mock.calls[0]?.[0]));
+      expect(url).toContain("$filter=(tolower(ProductName) eq 'chai') or not ((UnitPrice mul UnitsInStock) gt 100)");
+    });
+
+    it('should send lambda filters as any/all', async () => {
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest').mockResolvedValue({ success: true, data: { value: [] } });
+
+      await httpODataProvider.executeQuery('Orders', {
+        filter: {
+          field: '', operator: 'eq', value: null, logicalOperator: 'and',
+          children: [
+            any('Tags', t => t.eq('urgent')),
+            all('Order_Details', o => o.or(o.field('UnitPrice').gt(100), o.field('Discount').eq(0)))
+          ]
+        }
+      });
+
+      const url = decodeURIComponent(String(requestSpy.mock.calls[0]?.[0]));
+      expect(url).toContain("$filter=Tags/any(t: t eq 'urgent') and Order_Details/all(o: o/UnitPrice gt 100 or o/Discount eq 0)");
+    });
+
+    it('should change many-to-many links through $ref requests', async () => {
+      const base = 'https://services.odata.org/V4/Northwind/Northwind.svc';
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest').mockImplementation(async (path: string) =>
+        path.endsWith('/$ref')
+          ? { success: true, data: { value: [{ '@odata.id': `${base}/Territories('01581')` }, { '@odata.id': `${base}/Territories('01730')` }] } }
+          : { success: true });
+
+      const result = await httpODataProvider.updateLinks('Employees', {
+        relation: 'Territories', id: 1, sourceValue: 1, targetEntity: 'Territories', targetField: 'TerritoryID',
+        through: { entity: 'EmployeeTerritories', sourceKey: 'EmployeeID', targetKey: 'TerritoryID' },
+        mode: 'sync', targetValues: ['01730', '02116']
+      });
+
+      expect(result.metadata).toMatchObject({ attached: 1, detached: 1 });
+      expect(requestSpy.mock.calls.slice(1)).toEqual([
+        [`/Employees(1)/Territories/$ref?$id=${encodeURIComponent(`${base}/Territories('01581')`)}`, { method: 'DELETE' }],
+        ['/Employees(1)/Territories/$ref', { method: 'POST', body: { '@odata.id': `${base}/Territories('02116')` } }]
+      ]);
+    });
+
+    it('should send bulk writes as $batch requests', async () => {
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest').mockImplementation(async (path: string, options: any = {}) => {
+        if (path !== '/$batch') {
+          return { success: true, data: { value: [{ ProductID: 1 }, { ProductID: 2 }] } };
+        }
+        const requests: any[] = options.body.requests;
+        return {
+          success: true,
+          data: {
+            responses: requests.map(request => request.method === 'POST' && !request.body.ProductName
+              ? { id: request.id, status: 400, body: { error: { message: 'ProductName is required' } } }
+              : { id: request.id, status: request.method === 'POST' ? 201 : 204, headers: { location: `${request.url}(${Number(request.id) + 80})` }, body: request.body })
+          }
+        };
+      });
+
+      const created = await httpODataProvider.createMany('Products', [{ ProductName: 'Tea' }, {}, { ProductName: 'Rice' }]);
+      expect(created.success).toBe(false);
+      expect(created.ids).toEqual([80, 82]);
+      expect(created.rowErrors).toEqual([{ index: 1, errors: [expect.objectContaining({ code: 'CREATE_FAILED', message: 'Failed to create Products row 1: ProductName is required' })] }]);
+      expect(requestSpy.mock.calls[0]?.[1].body.requests[0]).toEqual({
+        id: '0', atomicityGroup: 'g1', method: 'POST', url: 'Products',
+        headers: { 'Content-Type': 'application/json', 'Prefer': 'return=representation' }, body: { ProductName: 'Tea' }
+      });
+
+      requestSpy.mockClear();
+      const updated = await httpODataProvider.updateWhere('Products', { filter: { field: 'Discontinued', operator: 'eq', value: true } }, { UnitsInStock: 0 }, { key: 'ProductID' });
+      expect(updated).toMatchObject({ success: true, metadata: { affectedCount: 2 } });
+      expect(decodeURIComponent(String(requestSpy.mock.calls[0]?.[0]))).toContain('$filter=Discontinued eq true&$select=ProductID');
+      expect(requestSpy.mock.calls[1]?.[1].body.requests.map((request: any) => [request.method, request.url, request.body])).toEqual([
+        ['PATCH', 'Products(1)', { UnitsInStock: 0 }],
+        ['PATCH', 'Products(2)', { UnitsInStock: 0 }]
+      ]);
+
+      const deleted = await httpODataProvider.deleteWhere('Products', {}, { key: 'ProductID' });
+      expect(deleted.metadata?.affectedCount).toBe(2);
+      expect((await httpODataProvider.deleteWhere('Products', {})).errors?.[0]?.code).toBe('BULK_KEY_REQUIRED');
+    });
+
+    it('should guard bulk version increments with the entities\' ETags', async () => {
+      const entities = [{ ProductID: 1, Version: 3, '@odata.etag': 'W/"3"' }, { ProductID: 2, Version: 5, '@odata.etag': 'W/"5"' }];
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest').mockImplementation(async (path: string, options: any = {}) => path !== '/$batch'
+        ? { success: true, data: { value: entities } }
+        : { success: true, data: { responses: options.body.requests.map((request: any) => ({ id: request.id, status: request.id === '1' ? 412 : 204 })) } });
+
+      const updated = await httpODataProvider.updateWhere('Products', {}, { UnitsInStock: 0 }, { key: 'ProductID', increment: ['Version'] });
+      expect(requestSpy.mock.calls[1]?.[1].body.requests.map((request: any) => [request.body, request.headers['If-Match']])).toEqual([
+        [{ UnitsInStock: 0, Version: 4 }, 'W/"3"'],
+        [{ UnitsInStock: 0, Version: 6 }, 'W/"5"']
+      ]);
+      expect(updated.rowErrors).toEqual([{ index: 1, errors: [expect.objectContaining({ code: 'CONCURRENCY_CONFLICT' })] }]);
+
+      // Without ETags the read version guards nothing, so nothing is sent
+      delete (entities[1] as Record<string, unknown>)['@odata.etag'];
+      requestSpy.mockClear();
+      const unguarded = await httpODataProvider.updateWhere('Products', {}, { UnitsInStock: 0 }, { key: 'ProductID', increment: ['Version'] });
+      expect(unguarded.errors?.[0]).toMatchObject({ code: 'BULK_INCREMENT_UNGUARDED', details: { ids: [2] } });
+      expect(requestSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply changesets as one atomic $batch with content id references', async () => {
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest').mockImplementation(async (_path: string, options: any = {}) => ({
+        success: true,
+        data: {
+          responses: options.body.requests.map((request: any) => request.method === 'POST'
+            ? { id: request.id, status: 201, headers: { location: `${request.url}(${Number(request.id) + 90})` }, body: request.body }
+            : { id: request.id, status: 204 })
+        }
+      }));
+
+      const result = await httpODataProvider.executeChangeset([
+        { type: 'create', entityName: 'Categories', data: { CategoryName: 'Tea' } },
+        { type: 'create', entityName: 'Products', data: { ProductName: 'Green' }, bind: { Category: 0 } },
+        { type: 'update', entityName: 'Products', entityRef: 1, data: { UnitPrice: 4 } },
+        { type: 'delete', entityName: 'Products', id: 7 }
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.results.map(item => item.id)).toEqual([90, 91, undefined, undefined]);
+      expect(requestSpy.mock.calls[0]?.[1].body.requests.map((request: any) => [request.method, request.url, request.body, request.dependsOn, request.atomicityGroup])).toEqual([
+        ['POST', 'Categories', { CategoryName: 'Tea' }, undefined, 'g1'],
+        ['POST', 'Products', { ProductName: 'Green', 'Category@odata.bind': '$0' }, ['0'], 'g1'],
+        ['PATCH', '$1', { UnitPrice: 4 }, ['1'], 'g1'],
+        ['DELETE', 'Products(7)', undefined, undefined, 'g1']
+      ]);
+
+      requestSpy.mockResolvedValueOnce({ success: true, data: { responses: [{ id: '0', status: 400, body: { error: { message: 'CategoryName is too long' } } }] } });
+      const failed = await httpODataProvider.executeChangeset([
+        { type: 'create', entityName: 'Categories', data: { CategoryName: 'x'.repeat(40) } },
+        { type: 'delete', entityName: 'Products', id: 7 }
+      ]);
+      expect(failed.success).toBe(false);
+      expect(failed.results.map(item => item.errors?.[0]?.code)).toEqual(['CREATE_FAILED', 'DELETE_FAILED']);
+    });
+
+    it('should upsert with a PATCH to the entity key', async () => {
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest')
+        .mockResolvedValueOnce({ success: true, statusCode: 201, data: { ProductID: 5, ProductName: 'Tea' } })
+        .mockResolvedValueOnce({ success: true, statusCode: 204, data: '' });
+
+      const created = await httpODataProvider.upsert('Products', { ProductID: 5, ProductName: 'Tea' }, { conflictKeys: ['ProductID'] });
+      const updated = await httpODataProvider.upsert('Order_Details', { OrderID: 10248, ProductID: 11, Quantity: 3 }, { conflictKeys: ['OrderID', 'ProductID'] });
+
+      expect(created).toMatchObject({ success: true, id: 5, data: { ProductName: 'Tea' }, metadata: { created: true, updated: false } });
+      expect(updated).toMatchObject({ success: true, data: { Quantity: 3 }, metadata: { created: false, updated: true } });
+      expect(requestSpy.mock.calls.map(([path, options]) => [path, options.method])).toEqual([
+        ['/Products(5)', 'PATCH'],
+        ['/Order_Details(OrderID=10248,ProductID=11)', 'PATCH']
+      ]);
+    });
+
+    it('should send search terms as $search', async () => {
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest').mockResolvedValue({ success: true, data: { value: [] } });
+
+      await httpODataProvider.executeQuery('Products', { search: 'green tea' });
+
+      expect(String(requestSpy.mock.calls[0]?.[0])).toContain('$search=green%20tea');
+    });
+
+    it('should send the canonical query string including nested expand options', async () => {
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest').mockResolvedValue({ success: true, data: { value: [] } });
+
+      await httpODataProvider.executeQuery('Customers', parseODataQuery(
+        "$filter=Country eq 'Germany' or Country in ('France','Spain')&$expand=Orders($filter=Freight gt 50;$top=2)&$top=10"
+      ));
+
+      const url = decodeURIComponent(String(requestSpy.mock.calls[0]?.[0]));
+      expect(url).toContain(
+        "?$filter=Country eq 'Germany' or Country in ('France','Spain')&$top=10&$expand=Orders($filter=Freight gt 50;$top=2)&$count=true"
+      );
+    });
+
+    it('should explain queries as the request URL without sending it', async () => {
+      const requestSpy = vi.spyOn(httpODataProvider, 'makeRequest');
+
+      const explained = await httpODataProvider.explainQuery('Products', parseODataQuery('$filter=Price gt 10&$top=5'));
+
+      expect(explained).toEqual({
+        success: true,
+        provider: 'HTTPOData',
+        native: {
+          method: 'GET',
+          url: 'https://services.odata.org/V4/Northwind/Northwind.svc/Products?$filter=Price%20gt%2010&$top=5&$count=true'
+        }
+      });
+      expect(requestSpy).not.toHaveBeenCalled();
+    });
+
     it('should check service capabilities', async () => {
       console.log('🎯 Testing HTTP OData capabilities...');
 
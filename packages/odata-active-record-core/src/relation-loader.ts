@@ -0,0 +1,222 @@
+import type { IModelInstance, IRelationDefinition, IUserFriendlyError } from 'odata-active-record-contracts';
+import type { ActiveRecord } from './active-record';
+import { Model } from './model';
+
+/** Keys per 'in' query, so large result sets don't exceed provider URL, parameter or filter limits */
+const IN_LIST_CHUNK_SIZE = 500;
+
+/**
+ * The related records of one relation, loaded for every record of a result set at once
+ */
+interface IRelationBatch {
+  /** targetField values linked to each loaded source key (the key itself unless a join entity sits in between) */
+  links: Map<string, unknown[]>;
+  /** targetField values the related records were loaded for */
+  requested: Set<string>;
+  /** Related records grouped by targetField value */
+  targets: Map<string, IModelInstance<any>[]>;
+  /** Loader shared by the related records, for nested includes */
+  loader: RelationLoader;
+}
+
+/**
+ * RelationLoader class - Loads relations for the records of one result set, DataLoader-style:
+ * the first access to a relation fetches it for all of them with 'in' queries of up to 500 keys, later accesses are served from memory
+ */
+export class RelationLoader {
+  private batches = new Map<string, Promise<IRelationBatch>>();
+
+  constructor(
+    private activeRecord: ActiveRecord<any>,
+    private records: object[]
+  ) {}
+
+  /**
+   * Eager-load relation paths such as 'author' or 'comments.author' for every record
+   */
+  async include(paths: string[]): Promise<void> {
+    const nested = new Map<string, string[]>();
+    for (const path of paths) {
+      const [relation = '', ...rest] = path.split('.');
+      const children = nested.get(relation) ?? [];
+      if (rest.length > 0) {
+        children.push(rest.join('.'));
+      }
+      nested.set(relation, children);
+    }
+
+    for (const [relation, children] of nested) {
+      const batch = await this.load(this.getRelation(relation));
+      if (children.length > 0) {
+        await batch.loader.include(children);
+      }
+    }
+  }
+
+  /**
+   * The records related to one record of the result set
+   */
+  async related(relation: IRelationDefinition, record: object): Promise<IModelInstance<any>[]> {
+    const batch = await this.load(relation);
+    const values = this.getLinkedValues(relation, record, batch);
+    if (values) {
+      return this.collect(batch, values);
+    }
+    // The key changed or the record joined the result set after the batch was loaded
+    const single = await this.fetch(relation, [record]);
+    return this.collect(single, this.getLinkedValues(relation, record, single) ?? []);
+  }
+
+  /**
+   * The targetField values a record links to
+   */
+  async linkedValues(relation: IRelationDefinition, record: object): Promise<unknown[]> {
+    const batch = await this.load(relation);
+    return this.getLinkedValues(relation, record, batch)
+      ?? this.getLinkedValues(relation, record, await this.fetch(relation, [record]))
+      ?? [];
+  }
+
+  /**
+   * Load a relation for all records, once
+   */
+  private load(relation: IRelationDefinition): Promise<IRelationBatch> {
+    let batch = this.batches.get(relation.name);
+    if (!batch) {
+      batch = this.fetch(relation, this.records);
+      // A failed load is retried on the next access
+      batch.catch(() => this.batches.delete(relation.name));
+      this.batches.set(relation.name, batch);
+    }
+    return batch;
+  }
+
+  /**
+   * Read the related records of the given records with chunked 'in' queries (after those on the join entity, if any)
+   */
+  private async fetch(relation: IRelationDefinition, records: object[]): Promise<IRelationBatch> {
+    const through = relation.through;
+    const links = new Map<string, unknown[]>();
+    let values: unknown[];
+
+    if (through?.field) {
+      const arrayField = through.field;
+      values = records.flatMap(record => toArray(field(record, arrayField)));
+    } else {
+      const keys = distinct(records.map(record => field(record, relation.sourceField)).filter(key => key !== undefined && key !== null));
+      keys.forEach(key => links.set(String(key), through?.entity ? [] : [key]));
+      if (through?.entity) {
+        for (const link of await this.readLinks(relation, keys)) {
+          links.get(String(link[through.sourceKey ?? '']))?.push(link[through.targetKey ?? '']);
+        }
+      }
+      values = [...links.values()].flat();
+    }
+
+    const requested = distinct(values);
+    const query = this.activeRecord.relatedQuery(relation.name);
+    const related: IModelInstance<any>[] = [];
+    for (const keys of chunk(requested)) {
+      // Streamed so provider page sizes don't cut the batch short
+      for await (const record of this.activeRecord.relatedQuery(relation.name).where(relation.targetField, 'in', keys).stream()) {
+        related.push(record);
+      }
+    }
+
+    const targets = new Map<string, IModelInstance<any>[]>();
+    for (const record of related) {
+      const key = String(field(record, relation.targetField));
+      targets.set(key, [...(targets.get(key) ?? []), record]);
+    }
+
+    return { links, requested: new Set(requested.map(String)), targets, loader: Model.share(query, related) };
+  }
+
+  /**
+   * Read the join records linking the given source keys
+   */
+  private async readLinks(relation: IRelationDefinition, keys: unknown[]): Promise<Record<string, unknown>[]> {
+    const { entity = '', sourceKey = '' } = relation.through ?? {};
+    if (keys.length === 0) {
+      return [];
+    }
+    const provider = this.activeRecord.getProvider();
+    if (!provider) {
+      throw new Error(`No data provider is bound to read the links of relation '${relation.name}'`);
+    }
+
+    const links: Record<string, unknown>[] = [];
+    for (const values of chunk(keys)) {
+      const result = await provider.read<Record<string, unknown>>(entity, { filter: { field: sourceKey, operator: 'in', value: values } });
+      if (!result.success) {
+        throw result.errors?.[0] ?? new Error(`Failed to read the links of relation '${relation.name}'`);
+      }
+      links.push(...(result.data ?? []));
+    }
+    return links;
+  }
+
+  /**
+   * The targetField values a record links to, or undefined when the batch doesn't cover the record
+   */
+  private getLinkedValues(relation: IRelationDefinition, record: object, batch: IRelationBatch): unknown[] | undefined {
+    if (relation.through?.field) {
+      const values = toArray(field(record, relation.through.field));
+      return values.every(value => batch.requested.has(String(value))) ? values : undefined;
+    }
+    const key = field(record, relation.sourceField);
+    return key === undefined || key === null ? [] : batch.links.get(String(key));
+  }
+
+  private collect(batch: IRelationBatch, values: unknown[]): IModelInstance<any>[] {
+    return distinct(values).flatMap(value => batch.targets.get(String(value)) ?? []);
+  }
+
+  /**
+   * A relation declared on the records' schema
+   */
+  private getRelation(name: string): IRelationDefinition {
+    const schema = this.activeRecord.getSchema();
+    const relation = schema.relations?.find(r => r.name === name);
+    if (!relation) {
+      const declared = (schema.relations ?? []).map(r => r.name);
+      const error: IUserFriendlyError = {
+        code: 'INVALID_RELATION',
+        message: `Relation '${name}' is not declared on entity '${schema.name}'`,
+        suggestion: declared.length > 0
+          ? `Available relations: ${declared.join(', ')}`
+          : `Declare the relation in the '${schema.name}' schema's relations`,
+        severity: 'error',
+        actionable: true
+      };
+      throw error;
+    }
+    return relation;
+  }
+}
+
+function field(record: object, name: string): unknown {
+  return (record as Record<string, unknown>)[name];
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Values without duplicates, compared by their string form like the batch keys
+ */
+function distinct(values: unknown[]): unknown[] {
+  return [...new Map(values.map(value => [String(value), value])).values()];
+}
+
+/**
+ * Split 'in' query keys into lists of at most IN_LIST_CHUNK_SIZE
+ */
+function chunk(values: unknown[]): unknown[][] {
+  const chunks: unknown[][] = [];
+  for (let start = 0; start < values.length; start += IN_LIST_CHUNK_SIZE) {
+    chunks.push(values.slice(start, start + IN_LIST_CHUNK_SIZE));
+  }
+  return chunks;
+}
@@ -0,0 +1,224 @@
+import type {
+  IDataTypeHandler,
+  IQueryResult,
+  IQuery,
+  IActiveRecordProvider,
+  IWriteOptions
+} from 'odata-active-record-contracts';
+
+/**
+ * Test doubles shared by the core test suites
+ */
+
+// Mock data type handler
+export class MockDataTypeHandler implements IDataTypeHandler {
+  parseDate(value: unknown): Date | null {
+    if (typeof value === 'string') {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date;
+    }
+    if (value instanceof Date) return value;
+    return null;
+  }
+
+  formatDate(date: Date): string {
+    return date.toISOString();
+  }
+
+  handleTimezone(date: Date): Date {
+    return date;
+  }
+
+  isValidDate(value: unknown): boolean {
+    return this.parseDate(value) !== null;
+  }
+
+  parseNumber(value: unknown): number | null {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') {
+      if (value.trim() === '') return null;
+      const num = Number(value);
+      return isNaN(num) ? null : num;
+    }
+    return null;
+  }
+
+  formatCurrency(amount: number): string {
+    return `$${amount.toFixed(2)}`;
+  }
+
+  handlePrecision(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  isValidNumber(value: unknown): boolean {
+    return this.parseNumber(value) !== null;
+  }
+
+  sanitizeString(value: unknown): string {
+    return String(value).trim();
+  }
+
+  validateEmail(email: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+  }
+
+  truncateString(value: string, maxLength: number): string {
+    return value.length > maxLength ? value.substring(0, maxLength) + '...' : value;
+  }
+
+  isValidString(value: unknown): boolean {
+    return typeof value === 'string' || typeof value === 'number';
+  }
+
+  parseBoolean(value: unknown): boolean {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'string') {
+      const lower = value.toLowerCase();
+      return lower === 'true' || lower === '1' || lower === 'yes';
+    }
+    if (typeof value === 'number') return value !== 0;
+    return false;
+  }
+
+  isValidBoolean(value: unknown): boolean {
+    if (typeof value === 'boolean') return true;
+    if (typeof value === 'string') {
+      const lower = value.toLowerCase();
+      return lower === 'true' || lower === 'false' || lower === '1' || lower === '0' || lower === 'yes' || lower === 'no';
+    }
+    if (typeof value === 'number') return value === 0 || value === 1;
+    return false;
+  }
+
+  parseJSON(value: unknown): unknown {
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return null;
+      }
+    }
+    return value;
+  }
+
+  isValidJSON(value: unknown): boolean {
+    return this.parseJSON(value) !== null;
+  }
+
+  stringifyJSON(value: unknown): string {
+    return JSON.stringify(value);
+  }
+
+  validateArray(value: unknown): unknown[] {
+    if (Array.isArray(value)) return value;
+    return [];
+  }
+
+  isValidArray(value: unknown): boolean {
+    return Array.isArray(value);
+  }
+
+  autoConvert(value: unknown, targetType?: string): unknown {
+    if (targetType) {
+      switch (targetType) {
+        case 'date': return this.parseDate(value);
+        case 'number': return this.parseNumber(value);
+        case 'boolean': return this.parseBoolean(value);
+        case 'json': return this.parseJSON(value);
+        case 'array': return this.validateArray(value);
+        case 'string': return this.sanitizeString(value);
+      }
+    }
+
+    if (this.isValidArray(value)) return this.validateArray(value);
+    if (this.isValidJSON(value)) return this.parseJSON(value);
+    if (this.isValidNumber(value)) return this.parseNumber(value);
+    if (this.isValidBoolean(value)) return this.parseBoolean(value);
+    if (this.isValidDate(value)) return this.parseDate(value);
+    
+    return this.sanitizeString(value);
+  }
+}
+
+const conflictError = {
+  code: 'CONCURRENCY_CONFLICT',
+  message: 'Record was changed by someone else',
+  suggestion: 'Reload the record and apply your changes again',
+  severity: 'error' as const,
+  actionable: true
+};
+
+// In-memory provider that records the queries it receives
+export class MockProvider implements IActiveRecordProvider {
+  public rows: Record<string, unknown>[] = [];
+  public lastEntityName: string | null = null;
+  public lastQuery: IQuery | null = null;
+  private nextId = 1;
+
+  getName(): string { return 'Mock'; }
+  isConnected(): boolean { return true; }
+  async connect() { return { success: true }; }
+  async disconnect(): Promise<void> {}
+  async testConnection() { return { success: true }; }
+  getConnectionStats() {
+    return { connected: true, uptime: 0, activeConnections: 1, totalQueries: 0, averageQueryTime: 0 };
+  }
+
+  async executeQuery<T>(entityName: string, query: IQuery): Promise<IQueryResult<T>> {
+    this.lastEntityName = entityName;
+    this.lastQuery = query;
+    const take = query.pagination?.take ?? this.rows.length;
+    const data = this.rows.slice(0, take) as T[];
+    return {
+      data,
+      success: true,
+      metadata: { count: data.length, totalCount: this.rows.length, executionTime: 1, cacheStatus: 'miss' }
+    };
+  }
+
+  async getEntityMetadata() { return { success: true }; }
+  async getServiceDocument() { return { success: true }; }
+  async getMetadataDocument() { return { success: true }; }
+
+  async create<T>(entityName: string, data: Partial<T>) {
+    const row = { ...data, id: this.nextId++ } as Record<string, unknown>;
+    this.rows.push(row);
+    return { success: true, data: row as T, id: row.id, metadata: { executionTime: 1, created: true } };
+  }
+
+  async read<T>() {
+    return { success: true, data: this.rows as T[] };
+  }
+
+  async update<T>(entityName: string, id: any, data: Partial<T>, options: IWriteOptions = {}) {
+    const row = this.rows.find(r => r.id === id);
+    if (!row) {
+      return { success: false, metadata: { executionTime: 1, updated: false, affectedCount: 0 } };
+    }
+    if (this.isStale(row, options)) {
+      return { success: false, errors: [conflictError], metadata: { executionTime: 1, updated: false, affectedCount: 0 } };
+    }
+    Object.assign(row, data);
+    return { success: true, data: row as T, metadata: { executionTime: 1, updated: true, affectedCount: 1 } };
+  }
+
+  async delete(entityName: string, id: any, options: IWriteOptions = {}) {
+    const row = this.rows.find(r => r.id === id);
+    if (row && this.isStale(row, options)) {
+      return { success: false, errors: [conflictError], metadata: { executionTime: 1, deleted: false, affectedCount: 0 } };
+    }
+    const before = this.rows.length;
+    this.rows = this.rows.filter(r => r.id !== id);
+    const affectedCount = before - this.rows.length;
+    return { success: true, metadata: { executionTime: 1, deleted: affectedCount > 0, affectedCount } };
+  }
+
+  async exists(entityName: string, id: any): Promise<boolean> {
+    return this.rows.some(r => r.id === id);
+  }
+
+  private isStale(row: Record<string, unknown>, options: IWriteOptions): boolean {
+    return options.concurrency !== undefined && row[options.concurrency.field] !== options.concurrency.expected;
+  }
+}
@@ -0,0 +1,110 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { IActiveRecordProvider, ISQLiteProvider, ITransactionHandle, ITransactionReference } from 'odata-active-record-contracts';
+
+// The providers the current async call chain holds, with the transaction it opened on them: writes inside a transaction or serialized write join it
+const heldProviders = new AsyncLocalStorage<Map<object, 'lock' | ITransactionHandle>>();
+// Per transactional provider, the end of the last queued write: writes from unrelated calls take turns
+const providerQueues = new WeakMap<object, Promise<unknown>>();
+
+/**
+ * Options for runInTransaction()
+ */
+export interface IRunInTransactionOptions {
+  /** Throw instead of running the work without a transaction when the server has none (standalone MongoDB) */
+  required?: boolean;
+}
+
+/**
+ * Run writes in one provider transaction when the provider supports transactions.
+ * A result with success: false or a thrown error rolls everything back; other providers, and servers
+ * that refuse transactions, just run the work.
+ * Writes made by the work (and what it awaits) join the transaction; other calls wait until it ends.
+ */
+export async function runInTransaction<R extends { success: boolean }>(
+  provider: IActiveRecordProvider | null | undefined,
+  work: () => Promise<R>,
+  options: IRunInTransactionOptions = {}
+): Promise<R> {
+  const transactional = provider as Partial<Pick<ISQLiteProvider, 'beginTransaction'>> | null | undefined;
+  if (!provider || typeof transactional?.beginTransaction !== 'function') {
+    return work();
+  }
+  const held = heldProviders.getStore();
+  if (getOpenTransaction(provider)) {
+    return work();
+  }
+
+  const begin = async () => {
+    let transaction: ITransactionHandle;
+    try {
+      transaction = await transactional.beginTransaction!();
+    } catch (error) {
+      if (options.required || !isTransactionUnsupported(error)) {
+        throw error;
+      }
+      // The writes still take their turn on the provider, one by one
+      return heldProviders.run(new Map(held).set(provider, 'lock'), work);
+    }
+    try {
+      const result = await heldProviders.run(new Map(held).set(provider, transaction), work);
+      if (result.success) {
+        await transaction.commit();
+      } else {
+        await transaction.rollback();
+      }
+      return result;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  };
+  // A serialized write already has the provider to itself
+  return held?.has(provider) ? begin() : enqueue(provider, begin);
+}
+
+/**
+ * Run a write without a transaction, but never while another call's transaction is open on the provider,
+ * where it would be committed or rolled back with writes it has nothing to do with
+ */
+export async function runSerialized<R>(
+  provider: IActiveRecordProvider | null | undefined,
+  work: () => Promise<R>
+): Promise<R> {
+  const transactional = provider as Partial<Pick<ISQLiteProvider, 'beginTransaction'>> | null | undefined;
+  const held = heldProviders.getStore();
+  if (!provider || typeof transactional?.beginTransaction !== 'function' || held?.has(provider)) {
+    return work();
+  }
+  return enqueue(provider, () => heldProviders.run(new Map(held).set(provider, 'lock'), work));
+}
+
+/**
+ * Whether an error says the provider's server cannot run transactions (a standalone mongod)
+ */
+export function isTransactionUnsupported(error: unknown): boolean {
+  const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+  return code === 'TRANSACTIONS_NOT_SUPPORTED' || code === 20 || /replica set member or mongos/i.test(String(message));
+}
+
+/**
+ * The transaction the current async call chain has open on a provider, if any.
+ * Providers whose transactions live in a client session (MongoDB) look their session up here.
+ */
+export function getOpenTransaction<H extends ITransactionHandle = ITransactionHandle>(provider: object): H | undefined {
+  const held = heldProviders.getStore()?.get(provider);
+  return held === undefined || held === 'lock' ? undefined : held as H;
+}
+
+function enqueue<R>(provider: object, work: () => Promise<R>): Promise<R> {
+  const turn = (providerQueues.get(provider) ?? Promise.resolve()).then(work);
+  providerQueues.set(provider, turn.catch(() => undefined));
+  return turn;
+}
+
+/**
+ * Reference the record a create operation named `name` adds earlier in the same EntityNamespace.executeTransaction() call:
+ * its id, or one of its fields
+ */
+export function ref(name: string, field?: string): ITransactionReference {
+  return { $ref: name, ...(field ? { field } : {}) };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationEngine } from './validation-engine';
+import { MockDataTypeHandler } from './test-helpers';
+import type { IEntitySchema } from 'odata-active-record-contracts';
+
+describe('ValidationEngine', () => {
+  interface Event { title: string; code: string; seats: number; startsAt: Date; endsAt: Date; }
+
+  const eventSchema: IEntitySchema<Event> = {
+    name: 'Event',
+    fields: {
+      title: {
+        name: 'title',
+        type: 'string',
+        nullable: true,
+        validation: [
+          { name: 'titleRequired', type: 'required', message: 'Title is required' },
+          { name: 'titleLength', type: 'min', value: 3, message: 'Title is too short' }
+        ]
+      },
+      code: {
+        name: 'code',
+        type: 'string',
+        nullable: true,
+        validation: [
+          { name: 'codeFormat', type: 'pattern', value: /^[A-Z]{3}-\d+$/, message: 'Invalid event code', suggestion: 'Use a code like ABC-123' },
+          {
+            name: 'codeAvailable',
+            type: 'custom',
+            message: 'Event code is already taken',
+            validator: async value => value !== 'ABC-1'
+          }
+        ]
+      },
+      seats: {
+        name: 'seats',
+        type: 'number',
+        nullable: true,
+        validation: [{ name: 'maxSeats', type: 'max', value: 100, message: 'Too many seats' }]
+      },
+      startsAt: { name: 'startsAt', type: 'date', nullable: true },
+      endsAt: { name: 'endsAt', type: 'date', nullable: true }
+    },
+    validation: [{
+      name: 'endsAfterStart',
+      fields: ['endsAt', 'startsAt'],
+      message: 'Event must end after it starts',
+      validator: data => (data.endsAt as Date) > (data.startsAt as Date)
+    }]
+  };
+
+  const engine = new ValidationEngine(new MockDataTypeHandler());
+
+  it('should report field-scoped errors with rule, expected type and suggestion', async () => {
+    const errors = await engine.validate(eventSchema, { title: 'Go', code: 'abc', seats: 500 });
+
+    expect(errors).toEqual([
+      expect.objectContaining({ code: 'VALUE_TOO_SMALL', field: 'title', rule: 'titleLength', expectedType: 'string with at least 3 characters' }),
+      expect.objectContaining({ code: 'PATTERN_MISMATCH', field: 'code', rule: 'codeFormat', suggestion: 'Use a code like ABC-123' }),
+      expect.objectContaining({ code: 'VALUE_TOO_LARGE', field: 'seats', rule: 'maxSeats', expectedType: 'number <= 100' })
+    ]);
+  });
+
+  it('should enforce required rules on full writes but not on partial ones', async () => {
+    const full = await engine.validate(eventSchema, { seats: 10 });
+    expect(full[0]).toMatchObject({ code: 'REQUIRED_FIELD', field: 'title', rule: 'titleRequired' });
+
+    expect(await engine.validate(eventSchema, { seats: 10 }, { partial: true })).toEqual([]);
+  });
+
+  it('should await async custom validators', async () => {
+    const errors = await engine.validate(eventSchema, { title: 'Launch', code: 'ABC-1' });
+
+    expect(errors[0]).toMatchObject({ code: 'CUSTOM_VALIDATION_FAILED', field: 'code', rule: 'codeAvailable' });
+  });
+
+  it('should run cross-field entity rules', async () => {
+    const errors = await engine.validate(eventSchema, {
+      title: 'Launch',
+      startsAt: new Date('2024-02-01'),
+      endsAt: new Date('2024-01-01')
+    });
+
+    expect(errors[0]).toMatchObject({ code: 'ENTITY_VALIDATION_FAILED', field: 'endsAt', rule: 'endsAfterStart' });
+
+    // Partial writes only run the rule when every field it reads is present
+    expect(await engine.validate(eventSchema, { endsAt: new Date('2024-01-01') }, { partial: true })).toEqual([]);
+  });
+
+  it('should report fields missing from the schema', async () => {
+    const errors = await engine.validate(eventSchema, { title: 'Launch', venue: 'Hall A' } as Partial<Event>);
+
+    expect(errors).toEqual([expect.objectContaining({ code: 'INVALID_FIELD', field: 'venue' })]);
+  });
+});
@@ -0,0 +1,278 @@
+import type {
+  IEntitySchema,
+  IFieldDefinition,
+  IValidationRule,
+  IEntityValidationRule,
+  IValidationError,
+  IDataTypeHandler
+} from 'odata-active-record-contracts';
+
+/**
+ * Options for a validation run
+ */
+export interface IValidationOptions {
+  /** Partial writes (updates) only validate the fields that are present */
+  partial?: boolean;
+}
+
+const RULE_ERROR_CODES: Record<IValidationRule['type'], string> = {
+  required: 'REQUIRED_FIELD',
+  min: 'VALUE_TOO_SMALL',
+  max: 'VALUE_TOO_LARGE',
+  pattern: 'PATTERN_MISMATCH',
+  custom: 'CUSTOM_VALIDATION_FAILED'
+};
+
+/**
+ * ValidationEngine - runs the field and entity rules declared on a schema
+ * and reports field-scoped validation errors
+ */
+export class ValidationEngine {
+  constructor(private dataTypeHandler: IDataTypeHandler) {}
+
+  /**
+   * Validate data against every field rule and cross-field entity rule of the schema
+   */
+  async validate<T>(
+    schema: IEntitySchema<T>,
+    data: Partial<T>,
+    options: IValidationOptions = {}
+  ): Promise<IValidationError[]> {
+    const record = data as Record<string, unknown>;
+    const errors: IValidationError[] = [];
+
+    for (const [key, value] of Object.entries(record)) {
+      if (!schema.fields[key as keyof T]) {
+        errors.push({
+          code: 'INVALID_FIELD',
+          message: `Field '${key}' does not exist in schema`,
+          suggestion: `Available fields: ${Object.keys(schema.fields).join(', ')}`,
+          severity: 'error',
+          actionable: true,
+          field: key,
+          value
+        });
+      }
+    }
+
+    for (const [key, fieldDef] of Object.entries(schema.fields) as [string, IFieldDefinition][]) {
+      const present = key in record;
+      const value = record[key];
+
+      if (present && !fieldDef.nullable && this.isEmpty(value)) {
+        errors.push({
+          code: 'REQUIRED_FIELD',
+          message: `Field '${key}' is required`,
+          suggestion: `Provide a value for the ${key} field`,
+          severity: 'error',
+          actionable: true,
+          field: key,
+          value,
+          expectedType: fieldDef.type,
+          rule: 'nullable'
+        });
+        continue;
+      }
+
+      for (const rule of fieldDef.validation ?? []) {
+        // Absent fields only matter for 'required' on full writes
+        if (!present && (options.partial || rule.type !== 'required')) {
+          continue;
+        }
+        if (rule.type !== 'required' && this.isEmpty(value)) {
+          continue;
+        }
+
+        const error = await this.applyRule(key, fieldDef, rule, value, record);
+        if (error) {
+          errors.push(error);
+        }
+      }
+
+      // Fall back to the email heuristic when the field declares no pattern of its own
+      const hasPattern = fieldDef.validation?.some(rule => rule.type === 'pattern');
+      if (present && !hasPattern && fieldDef.type === 'string' && key.toLowerCase().includes('email')) {
+        if (typeof value === 'string' && !this.dataTypeHandler.validateEmail(value)) {
+          errors.push({
+            code: 'INVALID_EMAIL',
+            message: `Invalid email format for field '${key}'`,
+            suggestion: 'Please provide a valid email address',
+            severity: 'error',
+            actionable: true,
+            field: key,
+            value,
+            expectedType: 'email'
+          });
+        }
+      }
+    }
+
+    // Cross-field rules only run once the individual fields are valid
+    if (errors.length === 0) {
+      for (const rule of schema.validation ?? []) {
+        const fields = rule.fields ?? [];
+        if (options.partial && (fields.length === 0 || !fields.every(field => field in record))) {
+          continue;
+        }
+
+        const error = await this.applyEntityRule(rule, record);
+        if (error) {
+          errors.push(error);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Apply a single field rule, returning an error when it fails
+   */
+  private async applyRule(
+    field: string,
+    fieldDef: IFieldDefinition,
+    rule: IValidationRule,
+    value: unknown,
+    data: Record<string, unknown>
+  ): Promise<IValidationError | null> {
+    let passed: boolean;
+    let expectedType = rule.expectedType ?? fieldDef.type;
+    let ruleError: unknown;
+
+    switch (rule.type) {
+      case 'required':
+        passed = !this.isEmpty(value);
+        break;
+      case 'min':
+      case 'max': {
+        const measured = this.measure(value, fieldDef);
+        const bound = fieldDef.type === 'date' ? this.toTime(rule.value) : Number(rule.value);
+        const usesLength = fieldDef.type !== 'date' && (typeof value === 'string' || Array.isArray(value));
+        passed = measured !== null && !Number.isNaN(bound) &&
+          (rule.type === 'min' ? measured >= bound : measured <= bound);
+        if (!rule.expectedType) {
+          const comparison = rule.type === 'min' ? 'at least' : 'at most';
+          expectedType = usesLength
+            ? `${fieldDef.type} with ${comparison} ${String(rule.value)} ${fieldDef.type === 'array' ? 'items' : 'characters'}`
+            : `${fieldDef.type} ${rule.type === 'min' ? '>=' : '<='} ${String(rule.value)}`;
+        }
+        break;
+      }
+      case 'pattern': {
+        const pattern = rule.value instanceof RegExp ? rule.value : new RegExp(String(rule.value));
+        pattern.lastIndex = 0;
+        passed = typeof value === 'string' && pattern.test(value);
+        expectedType = rule.expectedType ?? `${fieldDef.type} matching ${String(pattern)}`;
+        break;
+      }
+      case 'custom':
+        if (!rule.validator) {
+          passed = false;
+          ruleError = new Error(`Custom rule '${rule.name}' has no validator`);
+          break;
+        }
+        try {
+          passed = await rule.validator(value, data);
+        } catch (error) {
+          passed = false;
+          ruleError = error;
+        }
+        break;
+      default:
+        passed = true;
+    }
+
+    if (passed) {
+      return null;
+    }
+
+    return {
+      code: RULE_ERROR_CODES[rule.type],
+      message: ruleError instanceof Error ? `${rule.message} (${ruleError.message})` : rule.message,
+      suggestion: rule.suggestion ?? this.suggestFor(field, rule, expectedType),
+      severity: 'error',
+      actionable: true,
+      field,
+      value,
+      expectedType,
+      rule: rule.name
+    };
+  }
+
+  /**
+   * Apply a cross-field entity rule, returning an error when it fails
+   */
+  private async applyEntityRule(
+    rule: IEntityValidationRule,
+    data: Record<string, unknown>
+  ): Promise<IValidationError | null> {
+    let passed: boolean;
+    let ruleError: unknown;
+    try {
+      passed = await rule.validator(data);
+    } catch (error) {
+      passed = false;
+      ruleError = error;
+    }
+
+    if (passed) {
+      return null;
+    }
+
+    const field = rule.fields?.[0] ?? '';
+    return {
+      code: 'ENTITY_VALIDATION_FAILED',
+      message: ruleError instanceof Error ? `${rule.message} (${ruleError.message})` : rule.message,
+      suggestion: rule.suggestion ?? (rule.fields?.length
+        ? `Check the values of ${rule.fields.join(', ')}`
+        : `Check the data against the '${rule.name}' rule`),
+      severity: 'error',
+      actionable: true,
+      field,
+      value: field ? data[field] : undefined,
+      rule: rule.name
+    };
+  }
+
+  private suggestFor(field: string, rule: IValidationRule, expectedType: string): string {
+    switch (rule.type) {
+      case 'required':
+        return `Provide a value for the ${field} field`;
+      case 'min':
+      case 'max':
+      case 'pattern':
+        return `Provide a ${field} value that is a ${expectedType}`;
+      default:
+        return `Check the ${field} value against the '${rule.name}' rule`;
+    }
+  }
+
+  /**
+   * Numeric measure used by min/max: length for strings and arrays, time for dates
+   */
+  private measure(value: unknown, fieldDef: IFieldDefinition): number | null {
+    if (typeof value === 'string' && fieldDef.type !== 'date') {
+      return value.length;
+    }
+    if (Array.isArray(value)) {
+      return value.length;
+    }
+    if (fieldDef.type === 'date') {
+      const time = this.toTime(value);
+      return Number.isNaN(time) ? null : time;
+    }
+    const number = Number(value);
+    return typeof value === 'boolean' || Number.isNaN(number) ? null : number;
+  }
+
+  private toTime(value: unknown): number {
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+    return typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+  }
+
+  private isEmpty(value: unknown): boolean {
+    return value === null || value === undefined || value === '';
+  }
+}